@@ -0,0 +1,3 @@
+-- Row-level filters on access grants
+
+ALTER TABLE "api_key_access" ADD COLUMN "row_filters" jsonb;
@@ -0,0 +1,3 @@
+-- Field-level permissions on access grants
+
+ALTER TABLE "api_key_access" ADD COLUMN "field_permissions" jsonb;
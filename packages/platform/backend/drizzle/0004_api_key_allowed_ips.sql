@@ -0,0 +1,3 @@
+-- IP allowlists (CIDR ranges) on API keys
+
+ALTER TABLE "api_keys" ADD COLUMN "allowed_ips" jsonb;
@@ -0,0 +1,4 @@
+-- Query string and SAP correlation headers of requests logged at the extended log level
+
+ALTER TABLE "request_logs" ADD COLUMN "query_string" varchar(2000);
+ALTER TABLE "request_logs" ADD COLUMN "sap_headers" jsonb;
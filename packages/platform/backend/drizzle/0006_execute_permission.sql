@@ -0,0 +1,20 @@
+-- Functions and actions require the 'execute' permission instead of read (GET) or create (POST).
+-- Grants with both read and create could call every operation before and get 'execute' here;
+-- grants with only one of them lose access to functions or actions and need 'execute' or
+-- 'execute:<Name>' added in the grant editor.
+
+UPDATE "api_key_access"
+SET "permissions" = (
+  SELECT jsonb_object_agg(
+    "entry"."key",
+    CASE
+      WHEN "entry"."value" @> '["read", "create"]'::jsonb
+        AND NOT "entry"."value" @> '["execute"]'::jsonb
+        AND NOT "entry"."value" @> '["*"]'::jsonb
+      THEN "entry"."value" || '["execute"]'::jsonb
+      ELSE "entry"."value"
+    END
+  )
+  FROM jsonb_each("api_key_access"."permissions") AS "entry"
+)
+WHERE "permissions" <> '{}'::jsonb;
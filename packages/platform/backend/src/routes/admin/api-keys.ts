@@ -1,7 +1,7 @@
 import { Hono } from 'hono';
 import { db, apiKeys, apiKeyAccess, instanceServices, instances, systemServices, systems, authConfigurations } from '../../db';
 import { apiKeyService } from '../../services/api-key';
-import { metadataParser, generateTypeScriptFile, filterEntityTypes, type ODataEntityType } from '@s4kit/shared/services';
+import { metadataParser, generateTypeScriptFile, filterEntityTypes, filterOperations, validateRowFilters, validateFieldPermissions, applyFieldPermissions, isValidCidr, type ODataEntityType, type ODataComplexType, type ODataEnumType, type ODataOperation } from '@s4kit/shared/services';
 import { redis } from '../../cache/redis';
 import { z } from 'zod';
 import { eq, desc, and, inArray } from 'drizzle-orm';
@@ -74,12 +74,32 @@ async function validateNoDuplicateServiceAliases(instanceServices: (InstanceServ
   return duplicates.length > 0 ? duplicates : null;
 }
 
+// Row-level filters: { "A_JournalEntry": "CompanyCode eq '1010'" }
+const rowFiltersSchema = z.record(z.string(), z.string().min(1).max(2000));
+
+// Field-level permissions: { "A_BusinessPartner": { "deny": ["TaxNumber1"], "readOnly": ["BusinessPartnerCategory"] } }
+const fieldPermissionsSchema = z.record(z.string(), z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  readOnly: z.array(z.string()).optional(),
+}));
+
 // Schema for access grant
 const accessGrantSchema = z.object({
   instanceServiceId: z.string().uuid(),
-  permissions: z.record(z.string(), z.array(z.string())) // { "A_BusinessPartner": ["read"], "*": ["read"] }
+  permissions: z.record(z.string(), z.array(z.string())), // { "A_BusinessPartner": ["read"], "*": ["read"] }
+  rowFilters: rowFiltersSchema.optional(),
+  fieldPermissions: fieldPermissionsSchema.optional()
 });
 
+// IP allowlist: CIDR ranges or single addresses, IPv4 or IPv6 - ["10.20.0.0/16", "2001:db8::/32"]
+const allowedIpsSchema = z.array(
+  z.string().trim().refine(isValidCidr, { message: 'Invalid IP address or CIDR range' })
+).max(100);
+
+// Log level of the key's requests - null falls back to the organization default
+const logLevelSchema = z.enum(['minimal', 'standard', 'extended']);
+
 // Schema for creating API key (now requires access grants)
 // Note: organizationId comes from session context, not request body
 const apiKeySchema = z.object({
@@ -88,6 +108,8 @@ const apiKeySchema = z.object({
   rateLimitPerMinute: z.number().int().positive().max(10000).default(60),
   rateLimitPerDay: z.number().int().positive().max(1000000).default(10000),
   expiresAt: z.string().datetime().optional(), // ISO date string
+  allowedIps: allowedIpsSchema.optional(),
+  logLevel: logLevelSchema.optional().nullable(),
   accessGrants: z.array(accessGrantSchema).min(1, 'At least one access grant is required')
 });
 
@@ -140,6 +162,8 @@ const updateApiKeySchema = z.object({
   rateLimitPerMinute: z.number().int().positive().max(10000).optional(),
   rateLimitPerDay: z.number().int().positive().max(1000000).optional(),
   expiresAt: z.string().datetime().optional().nullable(),
+  allowedIps: allowedIpsSchema.optional().nullable(),
+  logLevel: logLevelSchema.optional().nullable(),
 });
 
 app.patch('/:id', requirePermission('apiKey:update'), async (c) => {
@@ -184,6 +208,12 @@ app.patch('/:id', requirePermission('apiKey:update'), async (c) => {
   if (result.data.expiresAt !== undefined) {
     updateData.expiresAt = result.data.expiresAt ? new Date(result.data.expiresAt) : null;
   }
+  if (result.data.allowedIps !== undefined) {
+    updateData.allowedIps = result.data.allowedIps?.length ? result.data.allowedIps : null;
+  }
+  if (result.data.logLevel !== undefined) {
+    updateData.logLevel = result.data.logLevel;
+  }
 
   // If no fields to update, just return the current key
   if (Object.keys(updateData).length === 0) {
@@ -211,7 +241,7 @@ app.patch('/:id', requirePermission('apiKey:update'), async (c) => {
     return c.json({ error: 'API key not found' }, 404);
   }
 
-  // Invalidate the proxy cache so new rate limits take effect immediately
+  // Invalidate the proxy cache so new rate limits and IP allowlists take effect immediately
   await invalidateApiKeyCache(updated.keyPrefix);
 
   const { keyHash, ...safeKey } = updated;
@@ -304,6 +334,14 @@ app.post('/', requirePermission('apiKey:create'), async (c) => {
     }, 403);
   }
 
+  // Validate row filters and field permissions against the metadata of their services
+  for (const grant of result.data.accessGrants) {
+    const restrictionErrors = await validateGrantRestrictions(grant.instanceServiceId, grant);
+    if (restrictionErrors.length > 0) {
+      return c.json({ error: 'Invalid row filters or field permissions', details: restrictionErrors.join('; ') }, 400);
+    }
+  }
+
   // Generate UUID first so we can embed it in the key
   const keyId = randomUUID();
 
@@ -319,6 +357,8 @@ app.post('/', requirePermission('apiKey:create'), async (c) => {
     rateLimitPerMinute: result.data.rateLimitPerMinute,
     rateLimitPerDay: result.data.rateLimitPerDay,
     expiresAt: result.data.expiresAt ? new Date(result.data.expiresAt) : null,
+    allowedIps: result.data.allowedIps?.length ? result.data.allowedIps : null,
+    logLevel: result.data.logLevel ?? null,
     keyHash: generatedKey.keyHash,
     keyPrefix: generatedKey.keyPrefix,
     keyLast4: generatedKey.keyLast4,
@@ -335,7 +375,9 @@ app.post('/', requirePermission('apiKey:create'), async (c) => {
       db.insert(apiKeyAccess).values({
         apiKeyId: keyId,
         instanceServiceId: grant.instanceServiceId,
-        permissions: grant.permissions
+        permissions: grant.permissions,
+        rowFilters: grant.rowFilters ?? null,
+        fieldPermissions: grant.fieldPermissions ?? null
       }).returning()
     )
   );
@@ -395,6 +437,8 @@ app.get('/:id/access', requirePermission('apiKey:read'), async (c) => {
       grantId: apiKeyAccess.id,
       grantInstanceServiceId: apiKeyAccess.instanceServiceId,
       grantPermissions: apiKeyAccess.permissions,
+      grantRowFilters: apiKeyAccess.rowFilters,
+      grantFieldPermissions: apiKeyAccess.fieldPermissions,
       grantCreatedAt: apiKeyAccess.createdAt,
       // Instance service fields
       isEntities: instanceServices.entities,
@@ -427,6 +471,8 @@ app.get('/:id/access', requirePermission('apiKey:read'), async (c) => {
       apiKeyId: id,
       instanceServiceId: row.grantInstanceServiceId,
       permissions: row.grantPermissions,
+      rowFilters: row.grantRowFilters ?? {},
+      fieldPermissions: row.grantFieldPermissions ?? {},
       createdAt: row.grantCreatedAt,
       instance: { id: row.instId, environment: row.instEnvironment },
       systemService: { id: row.svcId, name: row.svcName, alias: row.svcAlias, entities: resolvedEntities },
@@ -524,16 +570,23 @@ app.post('/:id/access', requirePermission('apiKey:update'), async (c) => {
     }
   }
 
+  const restrictionErrors = await validateGrantRestrictions(result.data.instanceServiceId, result.data);
+  if (restrictionErrors.length > 0) {
+    return c.json({ error: 'Invalid row filters or field permissions', details: restrictionErrors.join('; ') }, 400);
+  }
+
   const [newGrant] = await db.insert(apiKeyAccess).values({
     apiKeyId,
     instanceServiceId: result.data.instanceServiceId,
-    permissions: result.data.permissions
+    permissions: result.data.permissions,
+    rowFilters: result.data.rowFilters ?? null,
+    fieldPermissions: result.data.fieldPermissions ?? null
   }).returning();
 
   return c.json(newGrant, 201);
 });
 
-// Update access grant permissions
+// Update access grant permissions, row filters and field permissions
 app.patch('/:id/access/:grantId', requirePermission('apiKey:update'), async (c) => {
   const apiKeyId = c.req.param('id');
   const grantId = c.req.param('grantId');
@@ -548,17 +601,41 @@ app.patch('/:id/access/:grantId', requirePermission('apiKey:update'), async (c)
     return c.json({ error: 'API key not found' }, 404);
   }
 
-  const permissionsSchema = z.object({
-    permissions: z.record(z.string(), z.array(z.string()))
+  const grantUpdateSchema = z.object({
+    permissions: z.record(z.string(), z.array(z.string())).optional(),
+    rowFilters: rowFiltersSchema.optional(),
+    fieldPermissions: fieldPermissionsSchema.optional()
   });
 
-  const result = permissionsSchema.safeParse(body);
+  const result = grantUpdateSchema.safeParse(body);
   if (!result.success) {
     return c.json({ error: result.error.flatten() }, 400);
   }
 
+  if (!result.data.permissions && !result.data.rowFilters && !result.data.fieldPermissions) {
+    return c.json({ error: 'Nothing to update - provide permissions, rowFilters and/or fieldPermissions' }, 400);
+  }
+
+  if (result.data.rowFilters || result.data.fieldPermissions) {
+    const grant = await db.query.apiKeyAccess.findFirst({
+      where: and(eq(apiKeyAccess.id, grantId), eq(apiKeyAccess.apiKeyId, apiKeyId))
+    });
+    if (!grant) {
+      return c.json({ error: 'Access grant not found' }, 404);
+    }
+
+    const restrictionErrors = await validateGrantRestrictions(grant.instanceServiceId, result.data);
+    if (restrictionErrors.length > 0) {
+      return c.json({ error: 'Invalid row filters or field permissions', details: restrictionErrors.join('; ') }, 400);
+    }
+  }
+
   const [updated] = await db.update(apiKeyAccess)
-    .set({ permissions: result.data.permissions })
+    .set({
+      ...(result.data.permissions && { permissions: result.data.permissions }),
+      ...(result.data.rowFilters && { rowFilters: result.data.rowFilters }),
+      ...(result.data.fieldPermissions && { fieldPermissions: result.data.fieldPermissions }),
+    })
     .where(and(
       eq(apiKeyAccess.id, grantId),
       eq(apiKeyAccess.apiKeyId, apiKeyId)
@@ -763,6 +840,42 @@ async function resolveAuth(instance: Instance, systemService: SystemService, ins
   return null;
 }
 
+/**
+ * Validate row filters and field permissions of a grant against the metadata of its instance service
+ * @returns Error messages, empty when both are valid (or there are none)
+ */
+async function validateGrantRestrictions(
+  instanceServiceId: string,
+  { rowFilters = {}, fieldPermissions = {} }: Pick<z.infer<typeof accessGrantSchema>, 'rowFilters' | 'fieldPermissions'>
+): Promise<string[]> {
+  if (Object.keys(rowFilters).length === 0 && Object.keys(fieldPermissions).length === 0) return [];
+
+  const instService = await db.query.instanceServices.findFirst({
+    where: eq(instanceServices.id, instanceServiceId)
+  });
+  if (!instService) return ['Instance service not found'];
+
+  const [inst, svc] = await Promise.all([
+    db.query.instances.findFirst({ where: eq(instances.id, instService.instanceId) }),
+    db.query.systemServices.findFirst({ where: eq(systemServices.id, instService.systemServiceId) })
+  ]);
+  if (!inst || !svc) return ['Instance or system service not found'];
+
+  const metadataResult = await metadataParser.fetchFullMetadata({
+    baseUrl: inst.baseUrl,
+    servicePath: instService.servicePathOverride || svc.servicePath,
+    auth: await resolveAuth(inst, svc, instService),
+  });
+  if (metadataResult.error) {
+    return [`Could not load the metadata of service '${svc.alias}' to validate row filters and field permissions: ${metadataResult.error}`];
+  }
+
+  return [
+    ...validateRowFilters(rowFilters, metadataResult),
+    ...validateFieldPermissions(fieldPermissions, metadataResult),
+  ];
+}
+
 // Generate TypeScript types for API key
 app.get('/:id/types', requirePermission('apiKey:read'), async (c) => {
   const id = c.req.param('id');
@@ -788,6 +901,9 @@ app.get('/:id/types', requirePermission('apiKey:read'), async (c) => {
   
   // Collect all entity types from all grants
   const allEntityTypes: ODataEntityType[] = [];
+  const allComplexTypes: ODataComplexType[] = [];
+  const allEnumTypes: ODataEnumType[] = [];
+  const allOperations: ODataOperation[] = [];
   const errors: string[] = [];
   
   // Process each access grant
@@ -835,11 +951,15 @@ app.get('/:id/types', requirePermission('apiKey:read'), async (c) => {
       // Get allowed entities from permissions
       const allowedEntities = Object.keys(grant.permissions);
       
-      // Filter entity types based on permissions
-      const filteredTypes = filterEntityTypes(
-        metadataResult.entityTypes,
-        allowedEntities,
-        grant.permissions
+      // Filter entity types based on permissions, without the fields the grant hides
+      const filteredTypes = applyFieldPermissions(
+        filterEntityTypes(
+          metadataResult.entityTypes,
+          allowedEntities,
+          grant.permissions
+        ),
+        metadataResult.entities,
+        grant.fieldPermissions ?? {}
       );
       
       // Add to collection (avoid duplicates by fullName)
@@ -848,6 +968,26 @@ app.get('/:id/types', requirePermission('apiKey:read'), async (c) => {
           allEntityTypes.push(entityType);
         }
       }
+      
+      // Add complex/enum types (the generator keeps only those the entities reference)
+      for (const complexType of metadataResult.complexTypes) {
+        if (!allComplexTypes.find(ct => ct.fullName === complexType.fullName)) {
+          allComplexTypes.push(complexType);
+        }
+      }
+      for (const enumType of metadataResult.enumTypes) {
+        if (!allEnumTypes.find(et => et.fullName === enumType.fullName)) {
+          allEnumTypes.push(enumType);
+        }
+      }
+      
+      // Add functions/actions the key may call (bound ones only for accessible entity types)
+      allOperations.push(...filterOperations(
+        metadataResult.operations,
+        filteredTypes,
+        grant.permissions,
+        metadataResult.entities
+      ));
     } catch (error: any) {
       errors.push(`Error processing grant ${grant.id}: ${error.message}`);
       console.error(`Error processing grant ${grant.id}:`, error);
@@ -859,6 +999,10 @@ app.get('/:id/types', requirePermission('apiKey:read'), async (c) => {
     apiKeyId: key.id,
     apiKeyName: key.name,
     generatedAt: new Date(),
+    operations: allOperations,
+    complexTypes: allComplexTypes,
+    enumTypes: allEnumTypes,
+    typeConversion: c.req.query('typeConversion') === 'true',
   });
   
   // If there were errors but we still have some types, include them in a comment
@@ -561,6 +561,65 @@ app.post('/:id/refresh-entities', async (c) => {
   }
 });
 
+// List functions and actions of an instance service (for granting 'execute' permissions in the grant editor)
+// Bound operations are listed under the entity sets of their binding type
+app.get('/:id/operations', requirePermission('apiKey:read'), async (c) => {
+  const id = c.req.param('id');
+  const organizationId = c.get('organizationId')!;
+
+  if (!await verifyInstanceServiceOwnership(id, organizationId)) {
+    return c.json({ error: 'Instance service not found' }, 404);
+  }
+
+  const instanceService = await db.query.instanceServices.findFirst({
+    where: eq(instanceServices.id, id)
+  });
+  const [instance, systemService] = await Promise.all([
+    db.query.instances.findFirst({
+      where: eq(instances.id, instanceService!.instanceId)
+    }),
+    db.query.systemServices.findFirst({
+      where: eq(systemServices.id, instanceService!.systemServiceId)
+    })
+  ]);
+
+  if (!instance || !systemService) {
+    return c.json({ error: 'Instance or system service not found' }, 404);
+  }
+
+  const auth = await getAuthWithInheritance(instanceService!, systemService, instance);
+  const metadataResult = await metadataParser.fetchFullMetadata({
+    baseUrl: instance.baseUrl,
+    servicePath: instanceService!.servicePathOverride || systemService.servicePath,
+    auth,
+  });
+
+  if (metadataResult.error) {
+    return c.json({ error: metadataResult.error }, 502);
+  }
+
+  const bound: Record<string, Array<{ name: string; kind: 'function' | 'action' }>> = {};
+  const unbound: Array<{ name: string; kind: 'function' | 'action' }> = [];
+
+  for (const op of metadataResult.operations) {
+    const entry = { name: op.name, kind: op.kind };
+
+    if (!op.isBound) {
+      if (!unbound.some(u => u.name === op.name)) unbound.push(entry);
+      continue;
+    }
+
+    const entitySets = metadataResult.entities.filter(e => e.entityType?.split('.').pop() === op.bindingEntity);
+    for (const entitySet of entitySets) {
+      const list = bound[entitySet.name] ?? [];
+      if (!list.some(b => b.name === op.name)) list.push(entry);
+      bound[entitySet.name] = list;
+    }
+  }
+
+  return c.json({ bound, unbound });
+});
+
 // Test API endpoint - make a test request to SAP using the service's auth
 const testSchema = z.object({
   entity: z.string().optional(),
@@ -4,6 +4,7 @@ import { z } from 'zod';
 import { eq, and, ne } from 'drizzle-orm';
 import { requirePermission, requireRole, invalidateMembershipCache, type SessionVariables } from '../../middleware/session-auth';
 import { sendInvitationEmail } from '../../services/email';
+import { redis } from '../../cache/redis';
 
 const app = new Hono<{ Variables: SessionVariables }>();
 
@@ -66,6 +67,11 @@ app.patch('/', requirePermission('organization:update'), async (c) => {
     return c.json({ error: 'Organization not found' }, 404);
   }
 
+  // The proxy caches the default log level of keys without their own
+  if (result.data.defaultLogLevel !== undefined) {
+    await redis.del(`org:loglevel:${organizationId}`);
+  }
+
   return c.json(updated);
 });
 
@@ -241,6 +241,8 @@ export const apiKeyService = {
       organizationId: oldKey.organizationId,
       rateLimitPerMinute: oldKey.rateLimitPerMinute,
       rateLimitPerDay: oldKey.rateLimitPerDay,
+      allowedIps: oldKey.allowedIps,
+      logLevel: oldKey.logLevel,
       expiresAt: oldKey.expiresAt,
       keyHash: generatedKey.keyHash,
       keyPrefix: generatedKey.keyPrefix,
@@ -263,7 +265,9 @@ export const apiKeyService = {
         oldGrants.map(grant => ({
           apiKeyId: newKeyId,
           instanceServiceId: grant.instanceServiceId,
-          permissions: grant.permissions
+          permissions: grant.permissions,
+          rowFilters: grant.rowFilters,
+          fieldPermissions: grant.fieldPermissions
         }))
       );
     }
@@ -19,7 +19,7 @@ export type ErrorCategory = 'auth' | 'permission' | 'validation' | 'server' | 'n
 export type SecureLogData = {
   // Entity context
   entity?: string;
-  operation?: 'read' | 'create' | 'update' | 'delete';
+  operation?: 'read' | 'create' | 'update' | 'delete' | 'execute';
 
   // Performance
   sapResponseTime?: number;
@@ -1,22 +1,24 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ChevronDown, Search, Loader2, Database, Eye, Pencil, Trash2, Plus } from 'lucide-react';
+import { ChevronDown, Search, Loader2, Database, Eye, Pencil, Trash2, Plus, Zap, Filter } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ServiceOperations } from '@/lib/api';
 
-const PERMISSIONS = ['read', 'create', 'update', 'delete'] as const;
+const PERMISSIONS = ['read', 'create', 'update', 'delete', 'execute'] as const;
 
 const PERMISSION_ICONS = {
   read: Eye,
   create: Plus,
   update: Pencil,
   delete: Trash2,
+  execute: Zap,
 } as const;
 
 export type PermissionPreset = 'read' | 'read_write' | 'full' | 'custom';
@@ -57,10 +59,12 @@ export interface AccessGrant {
     entities?: string[];
   };
   permissions: Record<string, string[]>;
+  rowFilters?: Record<string, string>;
   preset?: PermissionPreset;
   combinationKey?: string;
   showEntities?: boolean;
   entityFilter?: string;
+  operations?: ServiceOperations; // Loaded when the entity list is first shown
   instance?: { id?: string; environment?: string; systemId?: string };
   systemService?: { id?: string; name?: string; alias?: string; entities?: string[] };
   systemName?: string;
@@ -73,9 +77,32 @@ interface AccessGrantCardProps {
   onToggleEntities: () => void;
   onSetEntityFilter: (filter: string) => void;
   onTogglePermission: (entity: string, perm: string) => void;
+  onSetRowFilter: (entity: string, expression: string) => void;
   isSaving?: boolean;
 }
 
+/**
+ * Row filter expression of one entity - saved on blur or Enter
+ */
+function RowFilterInput({ value, onCommit }: { value: string; onCommit: (expression: string) => void }) {
+  const [draft, setDraft] = useState(value);
+
+  const commit = () => {
+    if (draft.trim() !== value) onCommit(draft);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      placeholder="e.g. CompanyCode eq '1010'"
+      className="h-7 font-mono text-xs"
+    />
+  );
+}
+
 export function AccessGrantCard({
   grant,
   systemName,
@@ -83,8 +110,12 @@ export function AccessGrantCard({
   onToggleEntities,
   onSetEntityFilter,
   onTogglePermission,
+  onSetRowFilter,
   isSaving,
 }: AccessGrantCardProps) {
+  // Entities whose row filter input was opened (entities with a filter always show it)
+  const [editingFilters, setEditingFilters] = useState<string[]>([]);
+
   const entities = useMemo(() =>
     grant.systemService?.entities
       || grant.instanceService?.entities
@@ -106,6 +137,14 @@ export function AccessGrantCard({
     return entities.filter(e => e.toLowerCase().includes(lower));
   }, [entities, grant.entityFilter]);
 
+  // Unbound functions/actions are granted under their own name
+  const filteredUnbound = useMemo(() => {
+    const unbound = grant.operations?.unbound || [];
+    if (!grant.entityFilter) return unbound;
+    const lower = grant.entityFilter.toLowerCase();
+    return unbound.filter(op => op.name.toLowerCase().includes(lower));
+  }, [grant.operations?.unbound, grant.entityFilter]);
+
   const hasWildcard = !!grant.permissions['*']?.length;
   const specificEntityCount = Object.keys(grant.permissions).filter(k => k !== '*').length;
   const presets: PermissionPreset[] = ['read', 'read_write', 'full'];
@@ -215,7 +254,7 @@ export function AccessGrantCard({
               </div>
 
               <div className="border rounded-lg overflow-hidden">
-                <div className="grid grid-cols-[1fr_repeat(4,3rem)] gap-0 bg-muted/50 text-xs font-medium text-muted-foreground">
+                <div className="grid grid-cols-[1fr_repeat(5,3rem)] gap-0 bg-muted/50 text-xs font-medium text-muted-foreground">
                   <div className="px-3 py-2">Entity</div>
                   {PERMISSIONS.map(perm => {
                     const Icon = PERMISSION_ICONS[perm];
@@ -231,33 +270,98 @@ export function AccessGrantCard({
                     {filteredEntities.map((entity) => {
                       const entityPerms = grant.permissions[entity] || [];
                       const hasEntityPerms = entityPerms.length > 0;
+                      const boundOperations = grant.operations?.bound[entity] || [];
+                      const rowFilter = grant.rowFilters?.[entity];
+                      const showRowFilter = rowFilter !== undefined || editingFilters.includes(entity);
+                      return (
+                        <div key={entity}>
+                          <div
+                            className={cn(
+                              "grid grid-cols-[1fr_repeat(5,3rem)] gap-0 items-center hover:bg-muted/30",
+                              hasEntityPerms && !hasWildcard && "bg-purple-50/50"
+                            )}
+                          >
+                            <div className="px-3 py-2 min-w-0 flex items-center gap-1.5">
+                              <span className="font-mono text-xs truncate block" title={entity}>
+                                {entity}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => setEditingFilters(prev => prev.includes(entity) ? prev.filter(e => e !== entity) : [...prev, entity])}
+                                className={cn(
+                                  "shrink-0 rounded p-0.5 hover:bg-muted",
+                                  rowFilter ? "text-purple-700" : "text-muted-foreground/60"
+                                )}
+                                title={rowFilter ? `Row filter: ${rowFilter}` : 'Add row filter'}
+                              >
+                                <Filter className="h-3 w-3" />
+                              </button>
+                            </div>
+                            {PERMISSIONS.map(perm => (
+                              <div key={perm} className="flex items-center justify-center py-2">
+                                <Checkbox
+                                  checked={entityPerms.includes(perm)}
+                                  onCheckedChange={() => onTogglePermission(entity, perm)}
+                                  className="h-4 w-4"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          {/* Row filter - only records matching the expression are accessible */}
+                          {showRowFilter && (
+                            <div className="px-3 pb-2 pl-6">
+                              <RowFilterInput
+                                value={rowFilter || ''}
+                                onCommit={(expression) => onSetRowFilter(entity, expression)}
+                              />
+                            </div>
+                          )}
+                          {/* Bound functions/actions - granted individually as execute:<Name> */}
+                          {boundOperations.length > 0 && !entityPerms.includes('execute') && (
+                            <div className="px-3 pb-2 pl-6 flex flex-wrap gap-x-4 gap-y-1.5">
+                              {boundOperations.map(op => (
+                                <label key={op.name} className="flex items-center gap-1.5 text-xs text-muted-foreground" title={op.kind}>
+                                  <Checkbox
+                                    checked={entityPerms.includes(`execute:${op.name}`)}
+                                    onCheckedChange={() => onTogglePermission(entity, `execute:${op.name}`)}
+                                    className="h-3.5 w-3.5"
+                                  />
+                                  <span className="font-mono">{op.name}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {filteredUnbound.map(op => {
+                      const opPerms = grant.permissions[op.name] || [];
                       return (
                         <div
-                          key={entity}
+                          key={`op:${op.name}`}
                           className={cn(
-                            "grid grid-cols-[1fr_repeat(4,3rem)] gap-0 items-center hover:bg-muted/30",
-                            hasEntityPerms && !hasWildcard && "bg-purple-50/50"
+                            "grid grid-cols-[1fr_3rem] gap-0 items-center hover:bg-muted/30",
+                            opPerms.length > 0 && !hasWildcard && "bg-purple-50/50"
                           )}
                         >
-                          <div className="px-3 py-2 min-w-0">
-                            <span className="font-mono text-xs truncate block" title={entity}>
-                              {entity}
+                          <div className="px-3 py-2 min-w-0 flex items-center gap-1.5">
+                            <Zap className="h-3 w-3 text-muted-foreground shrink-0" />
+                            <span className="font-mono text-xs truncate block" title={`${op.name} (${op.kind})`}>
+                              {op.name}
                             </span>
                           </div>
-                          {PERMISSIONS.map(perm => (
-                            <div key={perm} className="flex items-center justify-center py-2">
-                              <Checkbox
-                                checked={entityPerms.includes(perm)}
-                                onCheckedChange={() => onTogglePermission(entity, perm)}
-                                className="h-4 w-4"
-                              />
-                            </div>
-                          ))}
+                          <div className="flex items-center justify-center py-2">
+                            <Checkbox
+                              checked={opPerms.includes('execute')}
+                              onCheckedChange={() => onTogglePermission(op.name, 'execute')}
+                              className="h-4 w-4"
+                            />
+                          </div>
                         </div>
                       );
                     })}
                   </div>
-                  {filteredEntities.length === 0 && (
+                  {filteredEntities.length === 0 && filteredUnbound.length === 0 && (
                     <div className="py-8 text-center text-muted-foreground text-sm">
                       No entities found
                     </div>
@@ -64,6 +64,7 @@ export function ApiKeyFormPage({
     rateLimitPerDay,
     logLevel,
     expiresAt,
+    allowedIps,
     accessGrants,
     aliasConflicts,
     selectorOptions,
@@ -75,11 +76,13 @@ export function ApiKeyFormPage({
     setRateLimitPerDay,
     setLogLevel,
     setExpiresAt,
+    setAllowedIps,
     handleMultiSelectChange,
     setPermissionPreset,
     toggleShowEntities,
     setEntityFilter,
     togglePermission,
+    setRowFilter,
     handleSubmit,
     getSystemNameForGrant,
   } = useApiKeyForm({
@@ -372,6 +375,7 @@ export function ApiKeyFormPage({
                         onToggleEntities={() => toggleShowEntities(grant.id || grant.instanceServiceId)}
                         onSetEntityFilter={(filter) => setEntityFilter(grant.id || grant.instanceServiceId, filter)}
                         onTogglePermission={(entity, perm) => togglePermission(grant.id || grant.instanceServiceId, entity, perm)}
+                        onSetRowFilter={(entity, expression) => setRowFilter(grant.id || grant.instanceServiceId, entity, expression)}
                         isSaving={savingGrant === grant.id}
                       />
                     ))}
@@ -440,6 +444,22 @@ export function ApiKeyFormPage({
                   Controls the detail level of request logs
                 </p>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="allowedIps" className="text-sm font-medium">
+                  Allowed IP Ranges
+                </Label>
+                <Textarea
+                  id="allowedIps"
+                  value={allowedIps}
+                  onChange={(e) => setAllowedIps(e.target.value)}
+                  placeholder={'10.20.0.0/16\n203.0.113.7\n2001:db8::/32'}
+                  className="min-h-[80px] resize-none font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional. One IPv4/IPv6 address or CIDR range per line. Leave empty to allow any IP.
+                </p>
+              </div>
             </div>
           )}
         </div>
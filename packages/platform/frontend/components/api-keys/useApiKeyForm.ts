@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import { api, ApiKey, InstanceService, System, Instance, SystemService, LogLevel } from '@/lib/api';
+import { api, ApiKey, InstanceService, System, Instance, SystemService, LogLevel, ServiceOperations } from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { AccessGrant, PermissionPreset, PRESET_CONFIG } from './access-grant-card';
@@ -153,6 +153,8 @@ export function useApiKeyForm({
   const [expiresAt, setExpiresAt] = useState(
     apiKey?.expiresAt ? new Date(apiKey.expiresAt).toISOString().slice(0, 16) : ''
   );
+  // IP allowlist as edited: one CIDR range or address per line
+  const [allowedIps, setAllowedIps] = useState((apiKey?.allowedIps || []).join('\n'));
 
   const [accessGrants, setAccessGrants] = useState<AccessGrant[]>([]);
   const [aliasConflicts, setAliasConflicts] = useState<AliasConflict[]>([]);
@@ -173,7 +175,7 @@ export function useApiKeyForm({
       setSystemServices(sysServices);
       setInstances(inst);
 
-      setAccessGrants(grants.map((g: { id: string; instanceServiceId: string; permissions: Record<string, string[]>; systemService?: { entities?: string[]; id?: string; name?: string; alias?: string } | null; instance?: { id: string; environment: string } | null }) => {
+      setAccessGrants(grants.map((g: { id: string; instanceServiceId: string; permissions: Record<string, string[]>; rowFilters?: Record<string, string>; systemService?: { entities?: string[]; id?: string; name?: string; alias?: string } | null; instance?: { id: string; environment: string } | null }) => {
         const instService = is.find(i => i.id === g.instanceServiceId);
         const sysService = sysServices.find(s => s.id === instService?.systemServiceId);
         const system = sys.find(s => s.id === sysService?.systemId);
@@ -193,6 +195,7 @@ export function useApiKeyForm({
           id: g.id,
           instanceServiceId: g.instanceServiceId,
           permissions: g.permissions,
+          rowFilters: g.rowFilters || {},
           preset: detectPreset(g.permissions),
           instanceService: instService,
           instance: g.instance || instService?.instance,
@@ -215,6 +218,26 @@ export function useApiKeyForm({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isEditMode, apiKey?.id]);
 
+  // Load functions/actions of a service the first time its entity list is shown
+  const pendingOperations = accessGrants
+    .filter(g => g.showEntities && !g.operations)
+    .map(g => g.instanceServiceId)
+    .join(',');
+  useEffect(() => {
+    if (!pendingOperations) return;
+
+    for (const instanceServiceId of pendingOperations.split(',')) {
+      api.instanceServices.getOperations(instanceServiceId)
+        // Metadata unavailable - only entity permissions can be configured
+        .catch((): ServiceOperations => ({ bound: {}, unbound: [] }))
+        .then(operations => {
+          setAccessGrants(prev => prev.map(g =>
+            g.instanceServiceId === instanceServiceId ? { ...g, operations } : g
+          ));
+        });
+    }
+  }, [pendingOperations]);
+
   // Sync apiKey prop changes (for edit mode)
   useEffect(() => {
     if (apiKey) {
@@ -224,6 +247,7 @@ export function useApiKeyForm({
       setRateLimitPerDay(apiKey.rateLimitPerDay);
       setLogLevel(apiKey.logLevel || '');
       setExpiresAt(apiKey.expiresAt ? new Date(apiKey.expiresAt).toISOString().slice(0, 16) : '');
+      setAllowedIps((apiKey.allowedIps || []).join('\n'));
     }
   }, [apiKey]);
 
@@ -567,6 +591,45 @@ export function useApiKeyForm({
     }
   };
 
+  // Row filter management - an empty expression removes the entity's filter
+  const setRowFilter = async (grantIdentifier: string, entity: string, expression: string) => {
+    const grant = accessGrants.find(g =>
+      g.id === grantIdentifier || g.instanceServiceId === grantIdentifier
+    );
+    if (!grant) return;
+
+    const { [entity]: _previous, ...otherFilters } = grant.rowFilters || {};
+    void _previous; // Unused but needed for destructuring
+    const newFilters = expression.trim() ? { ...otherFilters, [entity]: expression.trim() } : otherFilters;
+
+    if (isEditMode && grant.id) {
+      setSavingGrant(grant.id);
+      try {
+        await api.apiKeys.updateRowFilters(apiKey!.id, grant.id, newFilters);
+        setAccessGrants(prev => prev.map(g =>
+          g.id === grant.id ? { ...g, rowFilters: newFilters } : g
+        ));
+      } catch (error) {
+        let message = error instanceof Error ? error.message : 'Failed to update row filter';
+        try {
+          const parsedError = JSON.parse(message);
+          if (parsedError.error) {
+            message = parsedError.details || parsedError.error;
+          }
+        } catch { /* ignore parse errors */ }
+        toast.error(message, { duration: 5000 });
+      } finally {
+        setSavingGrant(null);
+      }
+    } else {
+      setAccessGrants(prev => prev.map(g =>
+        g.instanceServiceId === grant.instanceServiceId
+          ? { ...g, rowFilters: newFilters }
+          : g
+      ));
+    }
+  };
+
   // Get system name for a grant
   const getSystemNameForGrant = (grant: AccessGrant): string => {
     if (grant.systemName) return grant.systemName;
@@ -604,6 +667,8 @@ export function useApiKeyForm({
       return;
     }
 
+    const allowedIpList = allowedIps.split(/[\s,]+/).filter(Boolean);
+
     setLoading(true);
     try {
       if (isEditMode) {
@@ -613,6 +678,8 @@ export function useApiKeyForm({
           rateLimitPerMinute,
           rateLimitPerDay,
           expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+          allowedIps: allowedIpList.length > 0 ? allowedIpList : null,
+          logLevel: logLevel || null,
         });
         toast.success('API key updated');
         router.push(`/api-keys/${apiKey!.id}`);
@@ -624,9 +691,12 @@ export function useApiKeyForm({
           rateLimitPerMinute,
           rateLimitPerDay,
           expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          allowedIps: allowedIpList.length > 0 ? allowedIpList : undefined,
+          logLevel: logLevel || undefined,
           accessGrants: accessGrants.map(g => ({
             instanceServiceId: g.instanceServiceId,
-            permissions: g.permissions
+            permissions: g.permissions,
+            rowFilters: g.rowFilters && Object.keys(g.rowFilters).length > 0 ? g.rowFilters : undefined
           })),
         });
         setNewKey(result.secretKey);
@@ -653,6 +723,7 @@ export function useApiKeyForm({
     setRateLimitPerDay(10000);
     setLogLevel('');
     setExpiresAt('');
+    setAllowedIps('');
     setAccessGrants([]);
     setAliasConflicts([]);
     setActiveTab('basic');
@@ -677,6 +748,7 @@ export function useApiKeyForm({
     rateLimitPerDay,
     logLevel,
     expiresAt,
+    allowedIps,
     accessGrants,
     aliasConflicts,
     selectorOptions,
@@ -691,6 +763,7 @@ export function useApiKeyForm({
     setRateLimitPerDay,
     setLogLevel,
     setExpiresAt,
+    setAllowedIps,
     setNewKey,
 
     // Handlers
@@ -699,6 +772,7 @@ export function useApiKeyForm({
     toggleShowEntities,
     setEntityFilter,
     togglePermission,
+    setRowFilter,
     handleSubmit,
     resetForm,
     getSystemNameForGrant,
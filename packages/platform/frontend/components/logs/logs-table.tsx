@@ -287,6 +287,20 @@ function LogDetails({ log }: { log: RequestLog }) {
           <code className="text-xs text-muted-foreground">{log.userAgent}</code>
         </div>
       )}
+      {log.queryString && (
+        <div className="col-span-full">
+          <p className="text-muted-foreground text-xs mb-1">Query</p>
+          <code className="text-xs text-muted-foreground break-all">{log.queryString}</code>
+        </div>
+      )}
+      {log.sapHeaders && (
+        <div className="col-span-full">
+          <p className="text-muted-foreground text-xs mb-1">SAP Correlation</p>
+          <code className="text-xs text-muted-foreground">
+            {Object.entries(log.sapHeaders).map(([name, value]) => `${name}: ${value}`).join(', ')}
+          </code>
+        </div>
+      )}
     </div>
   );
 }
@@ -147,6 +147,17 @@ export interface InstanceService {
   systemService?: { id: string; name: string; alias: string; entities?: string[]; odataVersion?: 'v2' | 'v4' | null };
 }
 
+export interface ServiceOperation {
+  name: string;
+  kind: 'function' | 'action';
+}
+
+// Functions and actions of a service - bound ones by the entity sets they're bound to
+export interface ServiceOperations {
+  bound: Record<string, ServiceOperation[]>;
+  unbound: ServiceOperation[];
+}
+
 export interface PredefinedService {
   id: string;
   systemType: SystemType;
@@ -169,6 +180,7 @@ export interface ApiKey {
   rateLimitPerMinute: number;
   rateLimitPerDay: number;
   logLevel?: LogLevel;  // null = inherit from organization
+  allowedIps?: string[] | null;  // CIDR ranges the key may be used from (null = any IP)
   expiresAt?: string;
   revoked: boolean;
   revokedAt?: string;
@@ -179,7 +191,7 @@ export interface ApiKey {
 
 // Secure request log - metadata only, no body content
 export type ErrorCategory = 'auth' | 'permission' | 'validation' | 'server' | 'network' | 'timeout';
-export type Operation = 'read' | 'create' | 'update' | 'delete';
+export type Operation = 'read' | 'create' | 'update' | 'delete' | 'execute';
 
 export interface RequestLog {
   id: string;
@@ -219,6 +231,10 @@ export interface RequestLog {
   clientIpHash?: string;
   userAgent?: string;
 
+  // Extended log level only
+  queryString?: string;  // Query options sent to SAP, literal values redacted
+  sapHeaders?: Record<string, string>;  // SAP correlation headers
+
   createdAt: string;
 }
 
@@ -265,6 +281,8 @@ export interface LogAnalytics {
 export interface AccessGrant {
   instanceServiceId: string;
   permissions: Record<string, string[]>;
+  rowFilters?: Record<string, string>; // Mandatory filter per entity: { "A_JournalEntry": "CompanyCode eq '1010'" }
+  fieldPermissions?: Record<string, { allow?: string[]; deny?: string[]; readOnly?: string[] }>; // Hidden and read-only fields per entity
 }
 
 // Organization types
@@ -631,6 +649,7 @@ export const api = {
       fetchAPI<InstanceService>(`/admin/instance-services/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
     delete: (id: string) => fetchAPI<{ success: boolean }>(`/admin/instance-services/${id}`, { method: 'DELETE' }),
     refreshEntities: (id: string) => fetchAPI<InstanceService & { refreshedCount?: number }>(`/admin/instance-services/${id}/refresh-entities`, { method: 'POST' }),
+    getOperations: (id: string) => fetchAPI<ServiceOperations>(`/admin/instance-services/${id}/operations`),
     test: (id: string, params: {
       entity?: string;
       customPath?: string;
@@ -669,6 +688,8 @@ export const api = {
       rateLimitPerMinute: number;
       rateLimitPerDay: number;
       expiresAt?: string;
+      allowedIps?: string[];
+      logLevel?: LogLevel;
       accessGrants: AccessGrant[];
     }) => fetchAPI<ApiKey & { secretKey: string }>('/admin/api-keys', { method: 'POST', body: JSON.stringify(data) }),
     update: (id: string, data: Partial<{
@@ -677,6 +698,8 @@ export const api = {
       rateLimitPerMinute: number;
       rateLimitPerDay: number;
       expiresAt?: string | null;
+      allowedIps?: string[] | null;
+      logLevel?: LogLevel | null;
     }>) => fetchAPI<ApiKey>(`/admin/api-keys/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
     revoke: (id: string, reason?: string) =>
       fetchAPI<{ success: boolean }>(`/admin/api-keys/${id}/revoke`, { method: 'POST', body: JSON.stringify({ reason }) }),
@@ -686,6 +709,8 @@ export const api = {
       fetchAPI<AccessGrant & { id: string }>(`/admin/api-keys/${id}/access`, { method: 'POST', body: JSON.stringify(data) }),
     updateAccessGrant: (id: string, grantId: string, permissions: Record<string, string[]>) =>
       fetchAPI<AccessGrant & { id: string }>(`/admin/api-keys/${id}/access/${grantId}`, { method: 'PATCH', body: JSON.stringify({ permissions }) }),
+    updateRowFilters: (id: string, grantId: string, rowFilters: Record<string, string>) =>
+      fetchAPI<AccessGrant & { id: string }>(`/admin/api-keys/${id}/access/${grantId}`, { method: 'PATCH', body: JSON.stringify({ rowFilters }) }),
     deleteAccessGrant: (id: string, grantId: string) =>
       fetchAPI<{ success: boolean }>(`/admin/api-keys/${id}/access/${grantId}`, { method: 'DELETE' }),
     rotate: (id: string, options?: { revokeReason?: string; newName?: string }) =>
@@ -7,6 +7,7 @@ import proxyRoute from './routes/proxy.ts';
 import healthRoute from './routes/health.ts';
 import typesRoute from './routes/types.ts';
 import batchRoute from './routes/batch.ts';
+import { tracing } from './services/tracing.ts';
 
 // Validate required environment variables at startup
 const databaseUrl = process.env.DATABASE_URL;
@@ -45,8 +46,8 @@ app.use('*', securityHeaders);
 app.use('/api/proxy/*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-S4Kit-Service', 'X-S4Kit-Instance', 'X-S4Kit-Raw', 'X-S4Kit-Strip-Metadata'],
-  exposeHeaders: ['Content-Length'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-S4Kit-Service', 'X-S4Kit-Instance', 'X-S4Kit-Raw', 'X-S4Kit-Strip-Metadata', 'X-S4Kit-Media', 'Slug', 'If-Match', 'traceparent', 'tracestate'],
+  exposeHeaders: ['Content-Length', 'Content-Disposition', 'ETag'],
   credentials: false,
 }));
 
@@ -91,6 +92,7 @@ warmupConnections();
 // Graceful shutdown
 const shutdown = async () => {
   console.log('Shutting down...');
+  await tracing.flush();
   await closeDb();
   redis.disconnect();
   process.exit(0);
@@ -1,17 +1,12 @@
+import type { Context } from 'hono';
 import { createMiddleware } from 'hono/factory';
 import { apiKeyService } from '../services/api-key.ts';
 import { accessResolver } from '../services/access-resolver.ts';
-import type { Variables } from '../types.ts';
-
-// Helper to extract client IP from request
-function getClientIp(c: { req: { header: (name: string) => string | undefined } }): string | undefined {
-  // Check common proxy headers
-  return (
-    c.req.header('CF-Connecting-IP') || // Cloudflare
-    c.req.header('X-Real-IP') ||
-    c.req.header('X-Forwarded-For')?.split(',')[0]?.trim()
-  );
-}
+import { tracing } from '../services/tracing.ts';
+import { logRejectedRequest } from './logging.ts';
+import { generateRequestId, hashClientIp } from '../utils/log-helpers.ts';
+import { getClientIp } from '../utils/client-ip.ts';
+import type { ApiKey, Variables } from '../types.ts';
 
 // Helper to extract entity name from path
 function extractEntityFromPath(path: string): string | null {
@@ -22,7 +17,33 @@ function extractEntityFromPath(path: string): string | null {
   return match?.[1] ?? null;
 }
 
-export const authMiddleware = createMiddleware<{ Variables: Variables }>(async (c, next) => {
+/**
+ * 403 for a genuine key used from an IP outside its allowlist. Logged for the key,
+ * as the logging middleware doesn't run for requests rejected while authenticating.
+ */
+export function ipNotAllowed(
+  c: Context<{ Variables: Variables }>,
+  apiKey: ApiKey,
+  clientIp: string | undefined,
+  message: string
+): Response {
+  logRejectedRequest(c, apiKey, {
+    requestId: c.req.header('X-Request-ID') || generateRequestId(),
+    clientIpHash: hashClientIp(clientIp),
+    userAgent: c.req.header('user-agent')?.substring(0, 255),
+    errorCode: 'IP_NOT_ALLOWED',
+    errorCategory: 'auth',
+    errorMessage: message,
+  }, 403);
+
+  return c.json({ error: message }, 403);
+}
+
+/**
+ * Resolve API key, service, instance and access grant of a request
+ * @returns An error response, or undefined when the request may proceed
+ */
+async function authenticate(c: Context<{ Variables: Variables }>): Promise<Response | undefined> {
   // 1. Validate API key
   const authHeader = c.req.header('Authorization');
 
@@ -39,6 +60,10 @@ export const authMiddleware = createMiddleware<{ Variables: Variables }>(async (
   const clientIp = getClientIp(c);
   const validationResult = await apiKeyService.validateKey(key, clientIp);
 
+  if (validationResult.errorCode === 'IP_NOT_ALLOWED' && validationResult.apiKey) {
+    return ipNotAllowed(c, validationResult.apiKey, clientIp, validationResult.error!);
+  }
+
   if (!validationResult.valid || !validationResult.apiKey) {
     return c.json({ error: validationResult.error || 'Invalid or expired API key' }, 401);
   }
@@ -101,6 +126,23 @@ export const authMiddleware = createMiddleware<{ Variables: Variables }>(async (
   c.set('systemService', accessGrant.systemService);
   c.set('instanceService', accessGrant.instanceService);
   c.set('entityPermissions', accessGrant.permissions);
+  c.set('rowFilters', accessGrant.rowFilters ?? {});
+  c.set('fieldPermissions', accessGrant.fieldPermissions ?? {});
+  return undefined;
+}
+
+export const authMiddleware = createMiddleware<{ Variables: Variables }>(async (c, next) => {
+  const denied = await tracing.trace('auth', c.get('span'), async (span) => {
+    const response = await authenticate(c);
+    span.setAttributes({
+      'http.response.status_code': response?.status,
+      's4kit.api_key_id': c.get('apiKey')?.id,
+      's4kit.service': c.get('systemService')?.alias,
+      's4kit.instance': c.get('instance')?.environment,
+    });
+    return response;
+  });
+  if (denied) return denied;
 
   await next();
 });
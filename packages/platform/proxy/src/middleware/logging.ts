@@ -1,7 +1,19 @@
+import type { Context } from 'hono';
 import { createMiddleware } from 'hono/factory';
-import { db } from '../index.ts';
+import { db, redis } from '../index.ts';
+import { organizations, eq } from '@s4kit/shared/db';
 import { requestLogs } from '@s4kit/shared/db/schema';
-import type { Variables } from '../types.ts';
+import { parsePiiPolicy, sanitizeQueryString, stripKeyPredicates } from '../utils/log-helpers.ts';
+import type { ApiKey, LogLevel, SecureLogData, Variables } from '../types.ts';
+
+// Redaction of literal values in query strings logged at the extended level ('strict', 'strings' or 'none')
+const PII_POLICY = parsePiiPolicy(process.env.LOG_PII_POLICY);
+
+// Share of successful requests logged at the minimal level (failures are always logged)
+const MINIMAL_LOG_SAMPLE_RATE = parseFloat(process.env.LOG_MINIMAL_SAMPLE_RATE || '1');
+
+// Cache TTL in seconds - the backend invalidates it when the default changes
+const ORG_LOG_LEVEL_CACHE_TTL = 300;
 
 /**
  * Secure logging middleware - captures metadata only, never body content.
@@ -12,6 +24,13 @@ import type { Variables } from '../types.ts';
  * - Structured error information
  * - Audit trail (request ID, hashed IP)
  *
+ * How much of it is stored depends on the log level of the key (or its organization's default):
+ * - minimal: status, timing and counts - no error messages, key predicates or client details;
+ *   successful requests may be sampled (LOG_MINIMAL_SAMPLE_RATE)
+ * - standard: all of the metadata above
+ * - extended: also the query options sent to SAP (literals redacted) and SAP correlation headers;
+ *   batches are logged as one request without them, as each of their operations has its own
+ *
  * Security: No request or response bodies are ever stored.
  */
 export const loggingMiddleware = createMiddleware<{ Variables: Variables }>(async (c, next) => {
@@ -29,16 +48,47 @@ export const loggingMiddleware = createMiddleware<{ Variables: Variables }>(asyn
   const logData = c.get('logData');
   if (!logData) return; // No log data available
 
+  writeRequestLog(c, apiKey, logData, c.res.status, latency);
+});
+
+/**
+ * Log level of a key - its own, or its organization's default
+ */
+async function resolveLogLevel(apiKey: ApiKey): Promise<LogLevel> {
+  if (apiKey.logLevel) return apiKey.logLevel;
+
+  const cacheKey = `org:loglevel:${apiKey.organizationId}`;
+  const cached = await redis.get(cacheKey);
+  if (cached) return cached as LogLevel;
+
+  const organization = await db.query.organizations.findFirst({
+    where: eq(organizations.id, apiKey.organizationId),
+    columns: { defaultLogLevel: true },
+  });
+  const level = organization?.defaultLogLevel ?? 'standard';
+  await redis.set(cacheKey, level, 'EX', ORG_LOG_LEVEL_CACHE_TTL);
+  return level;
+}
+
+/**
+ * Write one request log entry at the key's log level (fire and forget)
+ */
+function writeRequestLog(
+  c: Context<{ Variables: Variables }>,
+  apiKey: ApiKey,
+  logData: SecureLogData,
+  statusCode: number,
+  responseTime: number
+): void {
   // Get context for compliance reporting
   const instance = c.get('instance');
   const systemService = c.get('systemService');
   const instanceService = c.get('instanceService');
 
   // Determine success based on status code
-  const success = c.res.status >= 200 && c.res.status < 400;
+  const success = statusCode >= 200 && statusCode < 400;
 
-  // Fire and forget logging - never blocks response
-  db.insert(requestLogs).values({
+  const entry: typeof requestLogs.$inferInsert = {
     apiKeyId: apiKey.id,
 
     // Context for compliance reporting
@@ -53,11 +103,11 @@ export const loggingMiddleware = createMiddleware<{ Variables: Variables }>(asyn
     operation: logData.operation || null,
 
     // Response metadata
-    statusCode: c.res.status,
+    statusCode,
     success,
 
     // Performance metrics
-    responseTime: latency,
+    responseTime,
     sapResponseTime: logData.sapResponseTime || null,
 
     // Size metrics (no body content)
@@ -76,7 +126,37 @@ export const loggingMiddleware = createMiddleware<{ Variables: Variables }>(asyn
     requestId: logData.requestId,
     clientIpHash: logData.clientIpHash || null,
     userAgent: logData.userAgent || null,
+  };
+
+  // Fire and forget logging - never blocks response
+  resolveLogLevel(apiKey).then(level => {
+    if (level === 'minimal') {
+      if (success && Math.random() >= MINIMAL_LOG_SAMPLE_RATE) return;
+
+      entry.path = stripKeyPredicates(entry.path);
+      entry.errorMessage = null;
+      entry.clientIpHash = null;
+      entry.userAgent = null;
+    } else if (level === 'extended') {
+      entry.queryString = logData.query ? sanitizeQueryString(logData.query, PII_POLICY) ?? null : null;
+      entry.sapHeaders = logData.sapHeaders ?? null;
+    }
+
+    return db.insert(requestLogs).values(entry);
   }).catch(err => {
     console.error('Failed to write request log:', err);
   });
-});
+}
+
+/**
+ * Log a request rejected while authenticating - the logging middleware doesn't run
+ * for it, but the key is known (e.g. a valid key used from an IP outside its allowlist)
+ */
+export function logRejectedRequest(
+  c: Context<{ Variables: Variables }>,
+  apiKey: ApiKey,
+  logData: SecureLogData,
+  statusCode: number
+): void {
+  writeRequestLog(c, apiKey, logData, statusCode, 0);
+}
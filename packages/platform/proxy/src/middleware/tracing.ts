@@ -0,0 +1,40 @@
+import { createMiddleware } from 'hono/factory';
+import { tracing } from '../services/tracing.ts';
+import { extractEntity } from '../utils/log-helpers.ts';
+import type { Variables } from '../types.ts';
+
+/**
+ * Tracing middleware - opens the server span of a proxy request.
+ *
+ * Continues the caller's trace when a W3C traceparent header is present
+ * (the S4Kit SDK sends one per operation), otherwise starts a new trace.
+ * Routes add child spans (auth, OAuth, CSRF, SAP) under `c.get('span')`.
+ */
+export const tracingMiddleware = createMiddleware<{ Variables: Variables }>(async (c, next) => {
+  const parent = tracing.extract(c.req.header('traceparent'));
+  // Low-cardinality name: entity set, not the full path with keys and query
+  const span = tracing.startSpan(`${c.req.method} ${extractEntity(c.req.path) ?? c.req.path}`, parent, 'server', {
+    'http.request.method': c.req.method,
+    'url.path': c.req.path,
+    'user_agent.original': c.req.header('user-agent'),
+  });
+  c.set('span', span);
+
+  try {
+    await next();
+    span.setAttribute('http.response.status_code', c.res.status);
+    if (c.res.status >= 500) span.setError(`HTTP ${c.res.status}`);
+  } catch (error) {
+    span.setError(error);
+    throw error;
+  } finally {
+    const logData = c.get('logData');
+    span.setAttributes({
+      's4kit.request_id': logData?.requestId,
+      's4kit.entity': logData?.entity,
+      's4kit.operation': logData?.operation,
+      's4kit.api_key_id': c.get('apiKey')?.id,
+    });
+    span.end();
+  }
+});
@@ -2,14 +2,21 @@
  * Batch operations route for SDK clients
  * Executes multiple operations in a single request
  *
- * For atomic operations (transactions), uses OData $batch with changeset:
- * - All operations wrapped in a single changeset boundary
- * - SAP processes as a single database transaction
- * - If any fails, SAP rolls back ALL changes automatically
+ * For atomic operations (transactions), uses OData $batch with changesets:
+ * - Operations grouped by their `changeset` number (default: all in one)
+ * - SAP processes each changeset as a single database transaction
+ * - If any operation fails, SAP rolls back ALL changes of its changeset
+ * - Later operations can reference earlier ones of the same changeset
+ *   by Content-ID: entity `$1` or `$1/to_Item`, `@odata.bind` values in bodies
  *
- * For non-atomic operations:
- * - Operations executed sequentially
- * - Each operation independent (no rollback on failure)
+ * For non-atomic operations, uses OData $batch without shared changesets:
+ * - Reads (GET by key or collection queries) become top-level batch parts
+ * - Each write gets its own changeset (no rollback of other operations on failure)
+ * - Query options are v4 style and translated for v2 services
+ *
+ * Operations are grouped by the service their entity belongs to (unless the
+ * X-S4Kit-Service header names one), with one OData $batch per service.
+ * Atomic batches must stay within a single service.
  */
 
 import { Hono } from 'hono';
@@ -19,17 +26,35 @@ import ky from 'ky';
 import { db } from '../index.ts';
 import { authConfigurations, eq } from '@s4kit/shared/db';
 import { apiKeyService } from '../services/api-key.ts';
-import { accessResolver } from '../services/access-resolver.ts';
-import { sapClient, type ResolvedAuthConfig } from '../services/sap-client.ts';
+import { accessResolver, type ResolvedAccess } from '../services/access-resolver.ts';
+import { navigationGuard } from '../services/navigation-guard.ts';
+import { metadataCache, type ServiceModel } from '../services/metadata-cache.ts';
+import { rowFilterGuard, type RowFilterDecision, type RowFilterPreRead } from '../services/row-filter-guard.ts';
+import { fieldGuard } from '../services/field-guard.ts';
+import type { ResolvedAuthConfig } from '../services/sap-client.ts';
 import { oauthTokenService, type OAuthTokenConfig } from '../services/oauth.ts';
+import { ipNotAllowed } from '../middleware/auth.ts';
 import { rateLimitMiddleware } from '../middleware/rate-limit.ts';
 import { loggingMiddleware } from '../middleware/logging.ts';
+import { tracingMiddleware } from '../middleware/tracing.ts';
+import { tracing, type SpanContext } from '../services/tracing.ts';
 import { encryption } from '@s4kit/shared/services';
 import {
   buildBatchRequest,
   parseBatchResponse,
-  buildBatchPath,
+  groupByChangeset,
+  parseODataResponse,
+  stripODataMetadata,
+  toODataV2Params,
+  resolveOperationCall,
+  combineFilters,
+  restrictApply,
+  filterSyntaxError,
+  CONTINUATION_PARAM,
+  encodeContinuationToken,
+  extractODataETag,
   type ODataBatchOperation,
+  type ODataBatchResponse,
 } from '@s4kit/shared/services';
 import type { Variables, SecureLogData } from '../types.ts';
 import {
@@ -38,19 +63,11 @@ import {
   methodToOperation,
   calculateSize,
 } from '../utils/log-helpers.ts';
+import { getClientIp } from '../utils/client-ip.ts';
 import { redis } from '../index.ts';
 
 const app = new Hono<{ Variables: Variables }>();
 
-// Helper to get client IP
-function getClientIp(c: { req: { header: (name: string) => string | undefined } }): string | undefined {
-  return (
-    c.req.header('CF-Connecting-IP') ||
-    c.req.header('X-Real-IP') ||
-    c.req.header('X-Forwarded-For')?.split(',')[0]?.trim()
-  );
-}
-
 // Lightweight auth middleware for batch - just validates API key
 // Service/instance resolution is done in the route handler since batch can have multiple entities
 const batchAuthMiddleware = createMiddleware<{ Variables: Variables }>(async (c, next) => {
@@ -66,7 +83,15 @@ const batchAuthMiddleware = createMiddleware<{ Variables: Variables }>(async (c,
   }
 
   const clientIp = getClientIp(c);
-  const validationResult = await apiKeyService.validateKey(key, clientIp);
+  const validationResult = await tracing.trace('auth', c.get('span'), async (span) => {
+    const result = await apiKeyService.validateKey(key, clientIp);
+    span.setAttribute('s4kit.api_key_id', result.apiKey?.id);
+    return result;
+  });
+
+  if (validationResult.errorCode === 'IP_NOT_ALLOWED' && validationResult.apiKey) {
+    return ipNotAllowed(c, validationResult.apiKey, clientIp, validationResult.error!);
+  }
 
   if (!validationResult.valid || !validationResult.apiKey) {
     return c.json({ error: validationResult.error || 'Invalid or expired API key' }, 401);
@@ -76,7 +101,8 @@ const batchAuthMiddleware = createMiddleware<{ Variables: Variables }>(async (c,
   await next();
 });
 
-// Apply middleware in order: auth first (sets apiKey), then rate limit, then logging
+// Apply middleware in order: tracing (server span), auth (sets apiKey), then rate limit, then logging
+app.use('*', tracingMiddleware);
 app.use('*', batchAuthMiddleware);
 app.use('*', rateLimitMiddleware);
 app.use('*', loggingMiddleware);
@@ -85,29 +111,55 @@ app.use('*', loggingMiddleware);
 const dataSchema = z.record(z.string(), z.any());
 const compositeKeySchema = z.record(z.string(), z.union([z.string(), z.number()]));
 const idSchema = z.union([z.string(), z.number(), compositeKeySchema]);
+// ETag for optimistic concurrency - forwarded to SAP as If-Match. Written into the
+// part's header lines, so only well-formed entity tags (or `*`) are accepted
+const etagSchema = z.string().regex(/^(?:\*|(?:W\/)?"[^"\r\n]*")$/, 'Invalid ETag').optional();
+// Content-ID other operations of the changeset can reference as `$<contentId>`
+const contentIdSchema = z.string().regex(/^[A-Za-z0-9_.-]+$/).optional();
+const changesetSchema = z.number().int().min(0).optional();
 
 const BatchOperationSchema = z.discriminatedUnion('method', [
+  // Read by key, or a collection query when id is omitted
+  z.object({
+    method: z.literal('GET'),
+    entity: z.string().min(1),
+    id: idSchema.optional(),
+    // System query options in v4 form: $select, $filter, $expand, $count, ...
+    query: z.record(z.string(), z.string()).optional(),
+  }),
   z.object({
     method: z.literal('POST'),
     entity: z.string().min(1),
     data: dataSchema,
+    contentId: contentIdSchema,
+    changeset: changesetSchema,
   }),
+  // id may be omitted when entity is a Content-ID reference (`$1`)
   z.object({
     method: z.literal('PATCH'),
     entity: z.string().min(1),
-    id: idSchema,
+    id: idSchema.optional(),
     data: dataSchema,
+    etag: etagSchema,
+    contentId: contentIdSchema,
+    changeset: changesetSchema,
   }),
   z.object({
     method: z.literal('PUT'),
     entity: z.string().min(1),
-    id: idSchema,
+    id: idSchema.optional(),
     data: dataSchema,
+    etag: etagSchema,
+    contentId: contentIdSchema,
+    changeset: changesetSchema,
   }),
   z.object({
     method: z.literal('DELETE'),
     entity: z.string().min(1),
-    id: idSchema,
+    id: idSchema.optional(),
+    etag: etagSchema,
+    contentId: contentIdSchema,
+    changeset: changesetSchema,
   }),
 ]);
 
@@ -123,16 +175,124 @@ interface BatchResult {
   success: boolean;
   status: number;
   data?: unknown;
-  error?: { code: string; message: string };
+  error?: { code: string; message: string; target?: string; details?: unknown[] };
+  /** Total count of collection reads with $count=true */
+  count?: number;
+  /** Proxy-relative link to the next page of collection reads */
+  nextLink?: string;
+  /** Changeset of the operation (atomic batches) */
+  changeset?: number;
+}
+
+/** Operation shape shared by the atomic and sequential executors */
+type ExecutableOperation = {
+  method: string;
+  entity: string;
+  id?: unknown;
+  data?: unknown;
+  etag?: string;
+  query?: Record<string, string>;
+  contentId?: string;
+  changeset?: number;
+};
+
+/** Operations of a batch that go to one service */
+interface BatchTarget {
+  /** Service ID (or the alias from the X-S4Kit-Service header) */
+  service: string;
+  alias: string;
+  /** Positions of the operations in the request */
+  indices: number[];
+  accessGrant?: ResolvedAccess;
+  authConfig?: ResolvedAuthConfig;
+  /** Loaded on demand - null if the metadata could not be fetched */
+  serviceModel?: ServiceModel | null;
+}
+
+/** Content-ID reference at the start of an entity path: `$1`, `$1/to_Item` */
+const CONTENT_ID_REFERENCE = /^\$([^/(]+)/;
+
+/**
+ * Entity set an operation targets, for permission checks:
+ * `A_SalesOrder('1')/to_Item` → `A_SalesOrder`, `$1/to_Item` → entity of operation `$1`
+ */
+function rootEntity(entity: string, byContentId: Map<string, ExecutableOperation>, depth = 0): string {
+  const reference = CONTENT_ID_REFERENCE.exec(entity);
+  const referenced = reference ? byContentId.get(reference[1]!) : undefined;
+  if (referenced && depth < byContentId.size) {
+    return rootEntity(referenced.entity, byContentId, depth + 1);
+  }
+  return entity.split(/[/(]/)[0]!;
+}
+
+/**
+ * Entity path of an operation with Content-ID references replaced by the path
+ * of the referenced operation: `$1/to_Item` → `A_SalesOrder/to_Item`
+ */
+function resourcePath(entity: string, byContentId: Map<string, ExecutableOperation>, depth = 0): string {
+  const reference = CONTENT_ID_REFERENCE.exec(entity);
+  const referenced = reference ? byContentId.get(reference[1]!) : undefined;
+  if (reference && referenced && depth < byContentId.size) {
+    return resourcePath(referenced.entity, byContentId, depth + 1) + entity.slice(reference[0].length);
+  }
+  return entity;
 }
 
-// Helper to format entity key for URL
+/**
+ * Assign default Content-IDs (batch position) and validate references
+ * @returns Error message, or undefined when the operations are valid
+ */
+function resolveContentIds(operations: ExecutableOperation[], atomic: boolean): string | undefined {
+  const byContentId = new Map<string, ExecutableOperation>();
+
+  for (let i = 0; i < operations.length; i++) {
+    const op = operations[i]!;
+    const reference = CONTENT_ID_REFERENCE.exec(op.entity);
+
+    if (reference) {
+      if (!atomic) {
+        return `Operation ${i + 1}: Content-ID references require an atomic batch`;
+      }
+      // References only resolve within their own changeset, to an earlier operation
+      const referenced = byContentId.get(reference[1]!);
+      if (!referenced || (referenced.changeset ?? 0) !== (op.changeset ?? 0)) {
+        return `Operation ${i + 1}: '$${reference[1]}' does not reference an earlier operation of the same changeset`;
+      }
+    } else if (op.method !== 'POST' && op.method !== 'GET' && op.id === undefined) {
+      return `Operation ${i + 1}: id is required for ${op.method} on '${op.entity}'`;
+    }
+
+    if (op.method === 'GET') continue;
+    op.contentId ??= String(i + 1);
+    if (byContentId.has(op.contentId)) {
+      return `Operation ${i + 1}: duplicate Content-ID '${op.contentId}'`;
+    }
+    byContentId.set(op.contentId, op);
+  }
+
+  return undefined;
+}
+
+/**
+ * Path of an operation relative to the service root, with the query string of reads
+ */
+function operationPath(op: ExecutableOperation): string {
+  const path = op.method === 'POST' || op.id === undefined ? op.entity : `${op.entity}(${formatKey(op.id)})`;
+  // Names and values are encoded like any query parameter - only the leading $ of
+  // system query options stays unencoded, like in direct SAP requests
+  const query = Object.entries(op.query ?? {})
+    .map(([key, value]) => `${key.startsWith('$') ? `$${encodeURIComponent(key.slice(1))}` : encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+}
+
+// Helper to format entity key for URL (quotes in string literals are doubled)
 function formatKey(key: unknown): string {
   if (typeof key === 'number') return String(key);
-  if (typeof key === 'string') return `'${key}'`;
+  if (typeof key === 'string') return `'${key.replace(/'/g, "''")}'`;
   if (typeof key === 'object' && key !== null) {
     return Object.entries(key as Record<string, unknown>)
-      .map(([k, v]) => `${k}=${typeof v === 'string' ? `'${v}'` : v}`)
+      .map(([k, v]) => `${k}=${typeof v === 'string' ? `'${v.replace(/'/g, "''")}'` : v}`)
       .join(',');
   }
   return String(key);
@@ -185,7 +345,8 @@ async function resolveAuth(
  */
 async function buildAuthHeaders(
   auth: ResolvedAuthConfig,
-  baseUrl: string
+  baseUrl: string,
+  trace?: SpanContext
 ): Promise<{ headers: Record<string, string>; csrfToken?: string }> {
   const headers: Record<string, string> = {};
 
@@ -204,12 +365,13 @@ async function buildAuthHeaders(
 
     if (!csrfToken) {
       try {
-        const response = await ky.head(baseUrl, {
+        const response = await tracing.trace('SAP CSRF token', trace, (span) => ky.head(baseUrl, {
           headers: {
             'Authorization': headers['Authorization'],
             'X-CSRF-Token': 'Fetch',
+            'traceparent': span.traceparent,
           },
-        });
+        }), 'client');
         csrfToken = response.headers.get('x-csrf-token') || '';
         if (csrfToken) {
           await redis.set(csrfCacheKey, csrfToken, 'EX', 3600);
@@ -258,7 +420,7 @@ async function buildAuthHeaders(
 
     // Use baseUrl + clientId for cache key
     const cacheKey = `oauth:${baseUrl}:${authConfig.clientId}`;
-    const accessToken = await oauthTokenService.getToken(oauthConfig, cacheKey);
+    const accessToken = await tracing.trace('OAuth token', trace, () => oauthTokenService.getToken(oauthConfig, cacheKey));
     headers['Authorization'] = `Bearer ${accessToken}`;
 
     return { headers };
@@ -268,44 +430,126 @@ async function buildAuthHeaders(
 }
 
 /**
- * Execute batch atomically using OData $batch with changeset
- * SAP handles the transaction - if any operation fails, all are rolled back
+ * Map the responses of one changeset (or top-level read) to results for its operations
+ * A failed changeset was rolled back as a whole, so all of its operations fail
+ */
+function changesetResults(
+  responses: ODataBatchResponse[],
+  operations: ExecutableOperation[],
+  stripMetadata: boolean,
+  changeset?: number
+): BatchResult[] {
+  const results = responses.map((resp, i) => toBatchResult(resp, operations[i], stripMetadata));
+  const failure = results.find(r => !r.success);
+
+  if (!failure && results.length === operations.length) {
+    return changeset === undefined ? results : results.map(result => ({ ...result, changeset }));
+  }
+
+  const error = failure?.error || { code: 'CHANGESET_FAILED', message: 'Transaction failed' };
+  return operations.map(() => ({
+    success: false,
+    status: failure?.status || 500,
+    error,
+    changeset,
+  }));
+}
+
+/**
+ * Map one OData $batch response part to a batch result
+ */
+function toBatchResult(resp: ODataBatchResponse, op: ExecutableOperation | undefined, stripMetadata: boolean): BatchResult {
+  const isSuccess = resp.status >= 200 && resp.status < 300;
+
+  if (isSuccess) {
+    const result: BatchResult = { success: true, status: resp.status };
+
+    if (resp.body && typeof resp.body === 'object') {
+      // v2 ({ d }, { d: { results } }) and v4 ({ value }, entity) payloads
+      const parsed = parseODataResponse(resp.body);
+      // Collection reads keep the list - writes answer with the single entity
+      let data = op?.method !== 'GET' && Array.isArray(parsed.data) ? parsed.data[0] : parsed.data;
+      if (stripMetadata && data && typeof data === 'object') {
+        data = Array.isArray(data) ? data.map(stripODataMetadata) : stripODataMetadata(data);
+      }
+
+      // Keep the part's ETag header on the entity so clients can send it back as If-Match
+      const etag = resp.headers['etag'];
+      if (etag && data && typeof data === 'object' && !Array.isArray(data) && !extractODataETag(data)) {
+        (data as Record<string, unknown>)['@odata.etag'] = etag;
+      }
+
+      result.data = data;
+      if (parsed.count !== undefined) result.count = Number(parsed.count);
+      if (op && parsed.nextLink) {
+        result.nextLink = `${op.entity}?${CONTINUATION_PARAM}=${encodeContinuationToken(parsed.nextLink)}`;
+      }
+    } else if (resp.body !== undefined && resp.body !== '') {
+      // Body exists but isn't an object ($count) - use as-is
+      result.data = resp.body;
+    }
+
+    return result;
+  }
+
+  // Error response
+  let errorCode = 'BATCH_OPERATION_ERROR';
+  let errorMessage = resp.statusText || 'Operation failed';
+  let target: string | undefined;
+  let details: unknown[] | undefined;
+
+  if (resp.body && typeof resp.body === 'object') {
+    const bodyObj = resp.body as Record<string, unknown>;
+    if (bodyObj.error && typeof bodyObj.error === 'object') {
+      const error = bodyObj.error as Record<string, unknown>;
+      errorCode = (error.code as string) || errorCode;
+      // v2 errors carry { message: { lang, value } }
+      const message = error.message as string | { value?: string } | undefined;
+      errorMessage = (typeof message === 'string' ? message : message?.value) || errorMessage;
+      // Field-level information, so clients can tell which value was rejected
+      if (typeof error.target === 'string') target = error.target;
+      if (Array.isArray(error.details)) details = error.details;
+    }
+  }
+
+  return {
+    success: false,
+    status: resp.status,
+    error: { code: errorCode, message: errorMessage, target, details },
+  };
+}
+
+/**
+ * Execute a batch with one OData $batch request
+ * Atomic: SAP handles the transactions - if any operation fails, its changeset is rolled back
+ * Non-atomic: every operation succeeds or fails on its own
  */
-async function executeAtomicBatch(
-  operations: Array<{ method: string; entity: string; id?: unknown; data?: unknown }>,
+async function executeODataBatch(
+  operations: ExecutableOperation[],
+  atomic: boolean,
   servicePath: string,
   baseUrl: string,
-  auth: ResolvedAuthConfig
+  auth: ResolvedAuthConfig,
+  stripMetadata: boolean,
+  trace?: SpanContext
 ): Promise<BatchResult[]> {
   // Build OData batch operations
   // IMPORTANT: Paths inside $batch are RELATIVE to the service root
   // The $batch endpoint is at {serviceUrl}/$batch, so operations use just entity names
-  const odataOps: ODataBatchOperation[] = operations.map((op, index) => {
-    let path: string;
-
-    // Use relative paths (just entity name) - NOT full service path
-    if (op.method === 'POST') {
-      path = op.entity;
-    } else if (op.method === 'DELETE') {
-      path = `${op.entity}(${formatKey(op.id)})`;
-    } else {
-      // PATCH or PUT
-      path = `${op.entity}(${formatKey(op.id)})`;
-    }
-
-    return {
-      method: op.method as ODataBatchOperation['method'],
-      path,
-      body: op.data,
-      contentId: String(index + 1),
-    };
-  });
+  const odataOps: ODataBatchOperation[] = operations.map((op) => ({
+    method: op.method as ODataBatchOperation['method'],
+    path: operationPath(op),
+    body: op.data,
+    headers: op.etag ? { 'If-Match': op.etag } : undefined,
+    contentId: op.contentId,
+    changeset: op.changeset,
+  }));
 
   // Build the multipart/mixed batch request
-  const { body, contentType } = buildBatchRequest(odataOps, true);
+  const { body, contentType } = buildBatchRequest(odataOps, atomic);
 
   // Build auth headers
-  const { headers: authHeaders } = await buildAuthHeaders(auth, baseUrl);
+  const { headers: authHeaders } = await buildAuthHeaders(auth, baseUrl, trace);
 
   // Build the $batch endpoint URL: {baseUrl}/{servicePath}/$batch
   const cleanServicePath = servicePath.replace(/^\/+|\/+$/g, '');
@@ -313,15 +557,26 @@ async function executeAtomicBatch(
 
   try {
     // Send the batch request to SAP
-    const response = await ky.post(batchUrl, {
-      body,
-      headers: {
-        ...authHeaders,
-        'Content-Type': contentType,
-        'Accept': 'multipart/mixed',
-      },
-      retry: 0,
-    });
+    const response = await tracing.trace('SAP POST $batch', trace, async (span) => {
+      span.setAttributes({
+        'http.request.method': 'POST',
+        'server.address': new URL(batchUrl).host,
+        'url.path': new URL(batchUrl).pathname,
+        's4kit.batch.size': operations.length,
+      });
+      const sapResponse = await ky.post(batchUrl, {
+        body,
+        headers: {
+          ...authHeaders,
+          'Content-Type': contentType,
+          'Accept': 'multipart/mixed',
+          'traceparent': span.traceparent,
+        },
+        retry: 0,
+      });
+      span.setAttribute('http.response.status_code', sapResponse.status);
+      return sapResponse;
+    }, 'client');
 
     const responseContentType = response.headers.get('content-type') || '';
     const responseBody = await response.text();
@@ -329,70 +584,28 @@ async function executeAtomicBatch(
     // Parse the multipart response
     const parsed = parseBatchResponse(responseBody, responseContentType);
 
-    // Map responses to our result format
-    const results: BatchResult[] = parsed.responses.map((resp) => {
-      const isSuccess = resp.status >= 200 && resp.status < 300;
-
-      if (isSuccess) {
-        // Extract entity data from response body
-        let data: unknown = undefined;
-        if (resp.body && typeof resp.body === 'object') {
-          // OData v4: might be wrapped in { value: [...] } or { d: {...} }
-          const bodyObj = resp.body as Record<string, unknown>;
-          if ('d' in bodyObj) {
-            data = bodyObj.d;
-          } else if ('value' in bodyObj && Array.isArray(bodyObj.value)) {
-            data = bodyObj.value[0]; // Single entity from collection
-          } else {
-            data = bodyObj;
-          }
-        } else if (resp.body) {
-          // Body exists but isn't an object - use as-is
-          data = resp.body;
-        }
-
-        return {
-          success: true,
-          status: resp.status,
-          data,
-        };
-      } else {
-        // Error response
-        let errorCode = 'BATCH_OPERATION_ERROR';
-        let errorMessage = resp.statusText || 'Operation failed';
-
-        if (resp.body && typeof resp.body === 'object') {
-          const bodyObj = resp.body as Record<string, unknown>;
-          if (bodyObj.error && typeof bodyObj.error === 'object') {
-            const error = bodyObj.error as Record<string, unknown>;
-            errorCode = (error.code as string) || errorCode;
-            errorMessage = (error.message as string) || errorMessage;
-          }
-        }
-
-        return {
-          success: false,
-          status: resp.status,
-          error: { code: errorCode, message: errorMessage },
-        };
-      }
+    // Map responses to our result format, one changeset (or read) at a time.
+    // Some servers (CAP) answer without the changeset envelope - then match by Content-ID
+    // (a flat answer can have as many parts as there are changesets, in another order)
+    const changesets = atomic ? groupByChangeset(operations) : operations.map(op => [op]);
+    const aligned = parsed.changesets.length === changesets.length;
+    const results: BatchResult[] = [];
+
+    changesets.forEach((changeset, index) => {
+      const contentIds = new Set(changeset.map(op => op.contentId));
+      const positional = aligned ? parsed.changesets[index]! : undefined;
+      const responses = positional && positional.every(r => !r.contentId || contentIds.has(r.contentId))
+        ? positional
+        : changesets.length === 1
+          ? parsed.responses
+          : parsed.responses.filter(r => r.contentId && contentIds.has(r.contentId));
+      const changesetNumber = atomic ? changeset[0]!.changeset ?? 0 : undefined;
+      results.push(...changesetResults(responses, changeset, stripMetadata, changesetNumber));
     });
 
-    // If changeset failed, all operations should be marked as failed
-    // SAP returns a single error response for the entire changeset
-    if (parsed.hasErrors && results.length < operations.length) {
-      // The changeset was rejected - all operations failed
-      const errorResult = results.find(r => !r.success);
-      const errorInfo = errorResult?.error || { code: 'CHANGESET_FAILED', message: 'Transaction failed' };
-
-      return operations.map(() => ({
-        success: false,
-        status: errorResult?.status || 500,
-        error: errorInfo,
-      }));
-    }
-
-    return results;
+    // Report results in request order
+    const order = changesets.flat();
+    return operations.map(op => results[order.indexOf(op)]!);
   } catch (error: unknown) {
     console.error('Batch request failed:', error);
 
@@ -409,89 +622,6 @@ async function executeAtomicBatch(
   }
 }
 
-/**
- * Execute operations sequentially (non-atomic)
- * Each operation is independent - failures don't affect other operations
- */
-async function executeSequentialBatch(
-  operations: Array<{ method: string; entity: string; id?: unknown; data?: unknown }>,
-  servicePath: string,
-  baseUrl: string,
-  auth: ResolvedAuthConfig,
-  stripMetadata: boolean
-): Promise<BatchResult[]> {
-  const results: BatchResult[] = [];
-
-  for (const op of operations) {
-    try {
-      let path: string;
-      const method: string = op.method;
-      let body: unknown = undefined;
-
-      if (op.method === 'POST') {
-        path = `${servicePath}/${op.entity}`.replace(/\/+/g, '/');
-        body = op.data;
-      } else if (op.method === 'DELETE') {
-        path = `${servicePath}/${op.entity}(${formatKey(op.id)})`.replace(/\/+/g, '/');
-      } else {
-        // PATCH or PUT
-        path = `${servicePath}/${op.entity}(${formatKey(op.id)})`.replace(/\/+/g, '/');
-        body = op.data;
-      }
-
-      const result = await sapClient.requestWithAuth({
-        baseUrl,
-        auth,
-        method,
-        path,
-        body,
-        stripMetadata,
-      });
-
-      // Extract actual entity data from OData response wrapper
-      let responseData: unknown = undefined;
-      if (result && typeof result === 'object') {
-        const resultObj = result as Record<string, unknown>;
-
-        if ('data' in resultObj && resultObj.data !== undefined) {
-          responseData = resultObj.data;
-        } else if ('success' in resultObj && Object.keys(resultObj).filter(k => k !== '__sapResponseTime' && k !== 'success').length === 0) {
-          responseData = undefined;
-        } else {
-          const { __sapResponseTime, success, count, ...cleanResult } = resultObj;
-          if (Object.keys(cleanResult).length > 0) {
-            responseData = cleanResult;
-          }
-        }
-      }
-
-      results.push({
-        success: true,
-        status: op.method === 'POST' ? 201 : op.method === 'DELETE' ? 204 : 200,
-        data: responseData,
-      });
-    } catch (error: unknown) {
-      const err = error as {
-        message?: string;
-        status?: number;
-        odataError?: { code?: string; message?: string };
-        response?: { status: number };
-      };
-
-      results.push({
-        success: false,
-        status: err.status || err.response?.status || 500,
-        error: {
-          code: err.odataError?.code || 'BATCH_OPERATION_ERROR',
-          message: err.odataError?.message || err.message || 'Operation failed',
-        },
-      });
-    }
-  }
-
-  return results;
-}
-
 /**
  * POST /api/proxy/batch
  * Execute multiple operations in a single request
@@ -509,7 +639,8 @@ app.post('/', async (c) => {
     clientIpHash: hashClientIp(getClientIp(c)),
     userAgent: c.req.header('user-agent')?.substring(0, 255),
     entity: '$batch',
-    // operation is left undefined for batch (it's a meta-operation)
+    // operation is left undefined for batch (it's a meta-operation), and so are query and
+    // sapHeaders - every operation has its own, so extended logs of a batch don't include them
   };
 
   // 1. Parse and validate request body
@@ -531,81 +662,274 @@ app.post('/', async (c) => {
     }, 400);
   }
 
-  // 3. Get service from header (required for batch)
-  const serviceAlias = c.req.header('X-S4Kit-Service');
-  if (!serviceAlias) {
-    // Try to resolve from first operation's entity
-    const firstEntity = batchRequest.operations[0]?.entity;
-    if (!firstEntity) {
-      logData.errorCode = 'VALIDATION_ERROR';
-      logData.errorCategory = 'validation';
-      logData.errorMessage = 'X-S4Kit-Service header required for batch';
-      return c.json({
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'X-S4Kit-Service header is required for batch operations, or specify entity in first operation',
-        }
-      }, 400);
-    }
-
-    // Try to find service by entity
-    const service = await accessResolver.findServiceByEntityForApiKey(apiKey.id, apiKey.organizationId, firstEntity);
-    if (!service) {
-      logData.errorCode = 'NOT_FOUND';
-      logData.errorCategory = 'validation';
-      logData.errorMessage = `Unknown entity '${firstEntity}'`;
-      return c.json({
-        error: {
-          code: 'NOT_FOUND',
-          message: `Unknown entity '${firstEntity}' - not registered in any service you have access to`,
-        }
-      }, 404);
-    }
+  // Reads cannot be part of a changeset (OData $batch only allows writes there)
+  if (batchRequest.atomic && batchRequest.operations.some(op => op.method === 'GET')) {
+    logData.errorCode = 'VALIDATION_ERROR';
+    logData.errorCategory = 'validation';
+    logData.errorMessage = 'GET operations are not allowed in atomic batches';
+    return c.json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'GET operations are not allowed in atomic batches',
+      }
+    }, 400);
+  }
 
-    // Use the resolved service
-    c.req.raw.headers.set('X-S4Kit-Service', service.alias);
+  // 2. Assign Content-IDs and validate references between operations
+  const referenceError = resolveContentIds(batchRequest.operations, batchRequest.atomic);
+  if (referenceError) {
+    logData.errorCode = 'VALIDATION_ERROR';
+    logData.errorCategory = 'validation';
+    logData.errorMessage = referenceError;
+    return c.json({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: referenceError,
+      }
+    }, 400);
   }
+  const byContentId = new Map<string, ExecutableOperation>(
+    batchRequest.operations.flatMap(op => 'contentId' in op && op.contentId ? [[op.contentId, op] as const] : [])
+  );
 
-  const resolvedServiceAlias = c.req.header('X-S4Kit-Service') || serviceAlias!;
+  // 3. Resolve the target service of every operation: the X-S4Kit-Service header,
+  // otherwise the service through which the API key reaches the operation's entity
+  const serviceHeader = c.req.header('X-S4Kit-Service');
   const instanceEnvironment = c.req.header('X-S4Kit-Instance');
+  const servicesByEntity = new Map<string, { id: string; alias: string } | null>();
+  const targets = new Map<string, BatchTarget>();
 
-  // 4. Resolve access grant
-  const accessGrant = await accessResolver.resolveAccessGrantByService(
-    apiKey.id,
-    apiKey.organizationId,
-    resolvedServiceAlias,
-    instanceEnvironment
-  );
+  for (let i = 0; i < batchRequest.operations.length; i++) {
+    let service = serviceHeader ? { id: serviceHeader, alias: serviceHeader } : undefined;
 
-  if (!accessGrant) {
-    logData.errorCode = 'FORBIDDEN';
-    logData.errorCategory = 'permission';
-    logData.errorMessage = `No access to service '${resolvedServiceAlias}'`;
+    if (!service) {
+      const entity = rootEntity(batchRequest.operations[i]!.entity, byContentId);
+      if (!servicesByEntity.has(entity)) {
+        servicesByEntity.set(entity, await accessResolver.findServiceByEntityForApiKey(apiKey.id, apiKey.organizationId, entity));
+      }
+      const found = servicesByEntity.get(entity);
+      if (!found) {
+        logData.errorCode = 'NOT_FOUND';
+        logData.errorCategory = 'validation';
+        logData.errorMessage = `Unknown entity '${entity}'`;
+        return c.json({
+          error: {
+            code: 'NOT_FOUND',
+            message: `Unknown entity '${entity}' - not registered in any service you have access to`,
+          }
+        }, 404);
+      }
+      // Use the service ID to ensure we resolve the correct service (not another with same alias)
+      service = found;
+    }
+
+    const target = targets.get(service.id);
+    if (target) {
+      target.indices.push(i);
+    } else {
+      targets.set(service.id, { service: service.id, alias: service.alias, indices: [i] });
+    }
+  }
+
+  // Atomicity cannot hold across services - each target commits its own $batch
+  if (batchRequest.atomic && targets.size > 1) {
+    const aliases = [...targets.values()].map(t => `'${t.alias}'`).join(', ');
+    logData.errorCode = 'CROSS_SERVICE_TRANSACTION';
+    logData.errorCategory = 'validation';
+    logData.errorMessage = `Atomic batch spans services ${aliases}`;
     return c.json({
       error: {
-        code: 'FORBIDDEN',
-        message: `No access to service '${resolvedServiceAlias}'`,
+        code: 'CROSS_SERVICE_TRANSACTION',
+        message: `Atomic batches must target a single service, but the operations span services ${aliases}. Use one transaction per service or a non-atomic batch.`,
       }
-    }, 403);
+    }, 400);
+  }
+  c.get('span').setAttribute('s4kit.batch.targets', targets.size);
+
+  // 4. Resolve access grants - one per target service
+  for (const target of targets.values()) {
+    const accessGrant = await tracing.trace('access grant', c.get('span'), async (span) => {
+      span.setAttributes({ 's4kit.service': target.alias, 's4kit.instance': instanceEnvironment });
+      return accessResolver.resolveAccessGrantByService(
+        apiKey.id,
+        apiKey.organizationId,
+        target.service,
+        instanceEnvironment
+      );
+    });
+
+    if (!accessGrant) {
+      logData.errorCode = 'FORBIDDEN';
+      logData.errorCategory = 'permission';
+      logData.errorMessage = `No access to service '${target.alias}'`;
+      return c.json({
+        error: {
+          code: 'FORBIDDEN',
+          message: `No access to service '${target.alias}'`,
+        }
+      }, 403);
+    }
+    target.accessGrant = accessGrant;
+    target.authConfig = await tracing.trace('auth config', c.get('span'), () => resolveAuth(
+      accessGrant.instance.authConfigId,
+      accessGrant.systemService.authConfigId,
+      accessGrant.instanceService.authConfigId
+    ));
   }
 
-  // Set context for rate limiting
-  c.set('instance', accessGrant.instance);
-  c.set('systemService', accessGrant.systemService);
-  c.set('instanceService', accessGrant.instanceService);
-  c.set('entityPermissions', accessGrant.permissions);
+  // Set context for rate limiting and logging - a batch is accounted to its first target
+  const primary = targets.values().next().value!.accessGrant!;
+  c.set('instance', primary.instance);
+  c.set('systemService', primary.systemService);
+  c.set('instanceService', primary.instanceService);
+  c.set('entityPermissions', primary.permissions);
+  c.set('rowFilters', primary.rowFilters);
+  c.set('fieldPermissions', primary.fieldPermissions);
 
   // 5. Check permissions for ALL operations before executing any
   const permissionErrors: string[] = [];
-  for (let i = 0; i < batchRequest.operations.length; i++) {
-    const op = batchRequest.operations[i]!;
-    const operation = methodToOperation(op.method) || 'read'; // Fallback to 'read' if undefined
+  const preReads: Array<{ index: number; target: BatchTarget; preRead: RowFilterPreRead }> = [];
+  // Operation index → entity sets of its result, for removing hidden fields
+  const maskedEntitySets = new Map<number, string[]>();
+  for (const target of targets.values()) {
+    for (const i of target.indices) {
+      const op = batchRequest.operations[i]!;
+      const operation = methodToOperation(op.method) || 'read'; // Fallback to 'read' if undefined
+      const entity = rootEntity(op.entity, byContentId);
+
+      const path = resourcePath(op.entity, byContentId);
+      const query = op.method === 'GET' ? op.query ?? {} : {};
+      const expand = query['$expand'];
+      const { instance, systemService, instanceService, permissions, rowFilters, fieldPermissions } = target.accessGrant!;
+      const hasRowFilters = Object.keys(rowFilters).length > 0;
+      const hasFieldPermissions = Object.keys(fieldPermissions).length > 0;
+
+      // Service metadata, when the operation may reach beyond its root entity set or row filters
+      // or field permissions apply
+      const knownEntities = metadataCache.knownEntities(systemService, instanceService);
+      if (target.serviceModel === undefined && (hasRowFilters || hasFieldPermissions || metadataCache.needsModel(path, query, entity, knownEntities))) {
+        target.serviceModel = await tracing.trace('service model', c.get('span'), () =>
+          metadataCache.getServiceModel(instance, systemService, instanceService, target.authConfig!)
+        );
+        if (!target.serviceModel) {
+          logData.errorCode = 'METADATA_UNAVAILABLE';
+          logData.errorCategory = 'server';
+          logData.errorMessage = 'Service metadata unavailable for permission check';
+          return c.json({
+            error: {
+              code: 'METADATA_UNAVAILABLE',
+              message: `Could not load the metadata of service '${systemService.alias}' to check permissions`,
+            }
+          }, 502);
+        }
+      }
+      const model = target.serviceModel;
+
+      // Functions and actions need 'execute' - not the CRUD operation of their HTTP method
+      const call = model ? resolveOperationCall(model.operations, model.navigation, path) : null;
+      if (call) {
+        if (!accessResolver.checkOperationPermission(permissions, call.entity, call.name)) {
+          permissionErrors.push(`Operation ${i + 1}: 'execute' not allowed for '${call.name}'`);
+          continue;
+        }
+      } else if (!accessResolver.checkEntityPermission(permissions, entity, operation)) {
+        permissionErrors.push(`Operation ${i + 1}: '${operation}' not allowed on entity '${entity}'`);
+        continue;
+      }
+
+      // Entity sets reached through navigation segments, $expand paths and navigation in $filter/$orderby/$apply
+      if (!model) continue;
+      const violation = call
+        ? navigationGuard.check(model.navigation, permissions, call.bindingPath ?? path, query, 'read', call.returns)
+        : navigationGuard.check(model.navigation, permissions, path, query, operation);
+      if (violation) {
+        permissionErrors.push(`Operation ${i + 1}: '${violation.operation}' not allowed on entity '${violation.entity}' (via '${violation.path}')`);
+        continue;
+      }
+
+      const keyedPath = op.method !== 'POST' && op.id !== undefined ? `${path}(${formatKey(op.id)})` : path;
+
+      // Field-level permissions: hidden fields are dropped from $select and can't be filtered,
+      // sorted or written (checked before the row filter joins $filter)
+      if (hasFieldPermissions) {
+        const decision = fieldGuard.check(fieldPermissions, model, {
+          resourcePath: keyedPath,
+          query: op.method === 'GET' ? op.query ?? {} : {},
+          operation: call ? 'execute' : operation,
+          body: 'data' in op ? op.data : undefined,
+          operationCall: call,
+        });
+        if (!decision.allowed) {
+          permissionErrors.push(`Operation ${i + 1}: field '${decision.field}' of entity '${decision.entity}' ${decision.reason}`);
+          continue;
+        }
+        if (op.method === 'GET' && op.query) op.query = decision.query;
+        maskedEntitySets.set(i, decision.entitySets);
+      }
 
-    if (!accessResolver.checkEntityPermission(accessGrant.permissions, op.entity, operation)) {
-      permissionErrors.push(`Operation ${i + 1}: '${operation}' not allowed on entity '${op.entity}'`);
+      // Row-level filters: collection reads get the filter, records addressed by key are pre-read
+      if (!hasRowFilters) continue;
+      const reference = CONTENT_ID_REFERENCE.exec(op.entity);
+      const referenced = reference ? byContentId.get(reference[1]!) : undefined;
+      let decision: RowFilterDecision;
+      try {
+        decision = rowFilterGuard.check(rowFilters, model, {
+          resourcePath: keyedPath,
+          expand,
+          operation: call ? 'execute' : operation,
+          method: op.method,
+          body: 'data' in op ? op.data : undefined,
+          operationCall: call,
+          referencedRecord: reference ? (referenced?.data as Record<string, unknown> | undefined) ?? {} : undefined,
+        });
+      } catch (error) {
+        console.warn('Row filter check failed:', error);
+        permissionErrors.push(`Operation ${i + 1}: row filter of entity '${entity}' could not be checked`);
+        continue;
+      }
+      if (!decision.allowed) {
+        permissionErrors.push(`Operation ${i + 1}: row filter of entity '${decision.entity}' ${decision.reason}`);
+      } else if (decision.filter && op.method === 'GET' && op.query?.['$apply']) {
+        // $apply runs before $filter - aggregations and compute must only see the filtered records
+        op.query = { ...op.query, $apply: restrictApply(decision.filter, op.query['$apply']) };
+      } else if (decision.filter && op.method === 'GET') {
+        // A client filter that closes the parentheses it's wrapped in would escape the row filter
+        const filterError = op.query?.['$filter'] ? filterSyntaxError(op.query['$filter']) : null;
+        if (filterError) {
+          logData.errorCode = 'INVALID_FILTER';
+          logData.errorCategory = 'validation';
+          logData.errorMessage = `Operation ${i + 1}: Invalid $filter: ${filterError}`;
+          return c.json({
+            error: {
+              code: 'INVALID_FILTER',
+              message: `Operation ${i + 1}: Invalid $filter: ${filterError}`,
+            }
+          }, 400);
+        }
+        op.query = { ...op.query, $filter: combineFilters(decision.filter, op.query?.['$filter'])! };
+      } else if (decision.preRead) {
+        preReads.push({ index: i, target, preRead: decision.preRead });
+      }
     }
   }
 
+  // Records addressed by key must match the row filter of their entity set
+  if (permissionErrors.length === 0 && preReads.length > 0) {
+    const reasons = await tracing.trace('row filter check', c.get('span'), () => Promise.all(preReads.map(({ target, preRead }) => {
+      const { instance, systemService, instanceService } = target.accessGrant!;
+      return rowFilterGuard.verify(preRead, {
+        baseUrl: instance.baseUrl,
+        servicePath: instanceService.servicePathOverride || systemService.servicePath,
+        auth: target.authConfig!,
+        trace: c.get('span'),
+      });
+    })));
+    reasons.forEach((reason, i) => {
+      const { index, preRead } = preReads[i]!;
+      if (reason) permissionErrors.push(`Operation ${index + 1}: row filter of entity '${preRead.entitySet}' ${reason}`);
+    });
+  }
+
   if (permissionErrors.length > 0) {
     logData.errorCode = 'FORBIDDEN';
     logData.errorCategory = 'permission';
@@ -619,43 +943,61 @@ app.post('/', async (c) => {
     }, 403);
   }
 
-  // 6. Resolve auth configuration
-  const authConfig = await resolveAuth(
-    accessGrant.instance.authConfigId,
-    accessGrant.systemService.authConfigId,
-    accessGrant.instanceService.authConfigId
-  );
+  // 6. Translate read queries for v2 services
+  for (const target of targets.values()) {
+    const { systemService } = target.accessGrant!;
+    if ((systemService.odataVersion || 'v4') !== 'v2') continue;
+
+    for (const i of target.indices) {
+      const op = batchRequest.operations[i]!;
+      if (op.method !== 'GET' || !op.query) continue;
+
+      const translated = toODataV2Params(op.query, systemService.alias);
+      if ('error' in translated) {
+        logData.errorCode = translated.error.code;
+        logData.errorCategory = 'validation';
+        logData.errorMessage = `Operation ${i + 1}: ${translated.error.message}`;
+        return c.json({
+          error: {
+            code: translated.error.code,
+            message: `Operation ${i + 1}: ${translated.error.message}`,
+          }
+        }, 400);
+      }
+      op.query = translated.params;
+    }
+  }
 
-  // 7. Build service path
-  const servicePath = accessGrant.instanceService.servicePathOverride || accessGrant.systemService.servicePath;
+  // 7. Execute one OData $batch per target, merging results back in request order
+  // ATOMIC: SAP processes each changeset in a single transaction and
+  // rolls back ALL changes of a changeset if ANY of its operations fails
+  // NON-ATOMIC: each operation is independent - failures don't affect others
   const stripMetadata = c.req.header('X-S4Kit-Strip-Metadata') !== 'false';
+  const results: BatchResult[] = new Array(batchRequest.operations.length);
 
-  // 8. Execute operations
-  let results: BatchResult[];
+  await Promise.all([...targets.values()].map(async (target) => {
+    const accessGrant = target.accessGrant!;
+    const servicePath = accessGrant.instanceService.servicePathOverride || accessGrant.systemService.servicePath;
 
-  if (batchRequest.atomic) {
-    // ATOMIC: Use OData $batch with changeset
-    // SAP processes all operations in a single transaction
-    // If ANY operation fails, SAP rolls back ALL changes
-    results = await executeAtomicBatch(
-      batchRequest.operations,
-      servicePath,
-      accessGrant.instance.baseUrl,
-      authConfig
-    );
-  } else {
-    // NON-ATOMIC: Execute sequentially
-    // Each operation is independent - failures don't affect others
-    results = await executeSequentialBatch(
-      batchRequest.operations,
+    const targetResults = await executeODataBatch(
+      target.indices.map(i => batchRequest.operations[i]!),
+      batchRequest.atomic,
       servicePath,
       accessGrant.instance.baseUrl,
-      authConfig,
-      stripMetadata
+      target.authConfig!,
+      stripMetadata,
+      c.get('span')
     );
-  }
+    target.indices.forEach((opIndex, i) => {
+      // Hidden fields never leave the proxy, not even in expanded entities
+      const entitySets = maskedEntitySets.get(opIndex);
+      results[opIndex] = entitySets && target.serviceModel
+        ? fieldGuard.mask(accessGrant.fieldPermissions, target.serviceModel, entitySets, targetResults[i]!) as BatchResult
+        : targetResults[i]!;
+    });
+  }));
 
-  // 9. Update log data
+  // 8. Update log data
   logData.responseSize = calculateSize(results);
   logData.recordCount = batchRequest.operations.length;
   c.set('logData', logData);
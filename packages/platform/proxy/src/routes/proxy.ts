@@ -1,11 +1,31 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { db } from '../index.ts';
 import { authConfigurations, eq } from '@s4kit/shared/db';
 import { authMiddleware } from '../middleware/auth.ts';
 import { rateLimitMiddleware } from '../middleware/rate-limit.ts';
 import { loggingMiddleware } from '../middleware/logging.ts';
+import { tracingMiddleware } from '../middleware/tracing.ts';
+import { tracing } from '../services/tracing.ts';
 import { accessResolver } from '../services/access-resolver.ts';
-import { sapClient, type ResolvedAuthConfig } from '../services/sap-client.ts';
+import { navigationGuard } from '../services/navigation-guard.ts';
+import { metadataCache, type ServiceModel } from '../services/metadata-cache.ts';
+import { rowFilterGuard } from '../services/row-filter-guard.ts';
+import { fieldGuard } from '../services/field-guard.ts';
+import { sapClient, type ResolvedAuthConfig, type SapMediaResponse } from '../services/sap-client.ts';
+import {
+  CONTINUATION_PARAM,
+  encodeContinuationToken,
+  decodeContinuationToken,
+  toODataV2Params,
+  queryNavigates,
+  resolveOperationCall,
+  combineFilters,
+  restrictApply,
+  filterSyntaxError,
+  splitResourcePath,
+  splitTopLevel,
+  resolveNavigationTargets,
+} from '@s4kit/shared/services';
 import {
   generateRequestId,
   hashClientIp,
@@ -16,6 +36,7 @@ import {
   countRecords,
   sanitizeErrorMessage,
 } from '../utils/log-helpers.ts';
+import { getClientIp } from '../utils/client-ip.ts';
 import type { Variables, SecureLogData } from '../types.ts';
 
 const app = new Hono<{ Variables: Variables }>();
@@ -23,6 +44,10 @@ const app = new Hono<{ Variables: Variables }>();
 // Maximum response size in bytes (10MB default)
 const MAX_RESPONSE_SIZE = parseInt(process.env.MAX_RESPONSE_SIZE || '10485760', 10);
 
+// Maximum size of binary uploads and downloads (media entities, $value) in bytes (50MB default)
+const MAX_MEDIA_SIZE = parseInt(process.env.MAX_MEDIA_SIZE || '52428800', 10);
+
+app.use('*', tracingMiddleware);
 app.use('*', authMiddleware);
 app.use('*', rateLimitMiddleware);
 app.use('*', loggingMiddleware);
@@ -80,20 +105,120 @@ async function resolveAuth(
 }
 
 /**
- * Get client IP from request headers (handles proxies)
+ * Read a binary request body, giving up as soon as it exceeds `limit` bytes
+ * @returns The body, or undefined when it is too large
+ */
+async function readMediaBody(stream: ReadableStream<Uint8Array> | null, limit: number): Promise<Uint8Array | undefined> {
+  if (!stream) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * What a media request addresses: binary content (`$value` of an entity or property,
+ * a stream property) or a new media entity (POST to its entity set)
+ * @returns null for anything else - only these are passed through unparsed
  */
-function getClientIp(c: { req: { header: (name: string) => string | undefined } }): string | undefined {
-  // Check common proxy headers
-  const forwarded = c.req.header('x-forwarded-for');
-  if (forwarded) {
-    // Take the first IP in the chain (original client)
-    return forwarded.split(',')[0]?.trim();
+function mediaResource(model: ServiceModel, resourcePath: string, method: string): 'content' | 'entity' | null {
+  const segments = splitResourcePath(resourcePath);
+  const last = segments[segments.length - 1];
+  if (!last || last.key !== undefined) return null;
+  if (segments.length === 1) {
+    return method === 'POST' && model.mediaEntitySets.includes(last.name) ? 'entity' : null;
   }
+  if (last.name === '$value') return 'content';
+
+  // A stream property of the entity the navigation path ends at
+  const pathTargets = resolveNavigationTargets(model.navigation, resourcePath);
+  if (pathTargets.length !== segments.length - 2) return null;
+  const entitySets = pathTargets[pathTargets.length - 1]?.entitySets ?? [segments[0]!.name];
+  return entitySets.some(set => model.streams[set]?.includes(last.name)) ? 'content' : null;
+}
+
+/**
+ * Pass a binary response through, aborting it once more than `limit` bytes were sent
+ * (SAP may stream media without a Content-Length)
+ */
+function limitMediaStream(stream: ReadableStream<Uint8Array>, limit: number): ReadableStream<Uint8Array> {
+  let size = 0;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+      if (size > limit) {
+        controller.error(new Error(`Media size exceeds limit of ${limit} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  }));
+}
 
-  const realIp = c.req.header('x-real-ip');
-  if (realIp) return realIp;
+/**
+ * 413 response for media uploads/downloads above MAX_MEDIA_SIZE
+ */
+function mediaTooLarge(
+  c: Context<{ Variables: Variables }>,
+  logData: SecureLogData,
+  requestId: string,
+  actual?: number
+) {
+  logData.errorCode = 'MEDIA_TOO_LARGE';
+  logData.errorCategory = 'validation';
+  logData.errorMessage = `Media size ${actual ?? 'unknown'} bytes exceeds limit of ${MAX_MEDIA_SIZE} bytes`;
+  c.set('logData', logData);
+
+  return c.json({
+    error: {
+      code: 'MEDIA_TOO_LARGE',
+      message: `Media content exceeds maximum size limit of ${MAX_MEDIA_SIZE} bytes.`,
+      limit: MAX_MEDIA_SIZE,
+      actual,
+      requestId,
+    }
+  }, 413);
+}
 
-  return undefined;
+/**
+ * Service metadata is needed for the permission check but could not be loaded
+ */
+function metadataUnavailable(
+  c: Context<{ Variables: Variables }>,
+  logData: SecureLogData,
+  requestId: string,
+  serviceAlias: string
+) {
+  logData.errorCode = 'METADATA_UNAVAILABLE';
+  logData.errorCategory = 'server';
+  logData.errorMessage = 'Service metadata unavailable for permission check';
+  c.set('logData', logData);
+
+  return c.json({
+    error: {
+      code: 'METADATA_UNAVAILABLE',
+      message: `Could not load the metadata of service '${serviceAlias}' to check permissions`,
+      requestId,
+    }
+  }, 502);
 }
 
 app.all('/*', async (c) => {
@@ -115,10 +240,29 @@ app.all('/*', async (c) => {
   const systemService = c.get('systemService');
   const instanceService = c.get('instanceService');
   const entityPermissions = c.get('entityPermissions');
+  const rowFilters = c.get('rowFilters');
+  const fieldPermissions = c.get('fieldPermissions');
 
   // Extract entity path (strip /api/proxy prefix)
   const entityPath = c.req.path.replace(/^\/api\/proxy\/?/, '');
 
+  // System resources ($batch, $metadata, ...) would bypass the checks of the operations they carry
+  if (entityPath.startsWith('$')) {
+    const resource = entityPath.split('/')[0];
+    logData.errorCode = 'UNSUPPORTED_RESOURCE';
+    logData.errorCategory = 'validation';
+    logData.errorMessage = `Resource '${resource}' can't be requested through the proxy`;
+    c.set('logData', logData);
+
+    return c.json({
+      error: {
+        code: 'UNSUPPORTED_RESOURCE',
+        message: `Resource '${resource}' can't be requested through the proxy. Use /api/proxy/batch for batch requests.`,
+        requestId,
+      }
+    }, 400);
+  }
+
   // Extract entity name and operation
   const entity = extractEntity(c.req.path);
   const method = c.req.method || 'GET';
@@ -127,8 +271,58 @@ app.all('/*', async (c) => {
   logData.entity = entity;
   logData.operation = operation;
 
-  // Check entity-level permissions
-  if (!accessResolver.checkEntityPermission(entityPermissions, entity || '', operation || 'read')) {
+  // Resolve auth with inheritance
+  const authConfig = await tracing.trace('auth config', c.get('span'), () => resolveAuth(
+    instance.authConfigId,
+    systemService.authConfigId,
+    instanceService.authConfigId
+  ));
+
+  // Service metadata, loaded when a request may reach beyond its root entity set
+  let serviceModel: ServiceModel | null | undefined;
+  const loadServiceModel = async () => {
+    if (serviceModel === undefined) {
+      serviceModel = await tracing.trace('service model', c.get('span'), () =>
+        metadataCache.getServiceModel(instance, systemService, instanceService, authConfig)
+      );
+    }
+    return serviceModel;
+  };
+
+  // Row filters and field permissions are checked against the model (key properties, navigation targets)
+  const hasRowFilters = Object.keys(rowFilters).length > 0;
+  const hasFieldPermissions = Object.keys(fieldPermissions).length > 0;
+  // Binary content (media entity $value, stream properties) is passed through without JSON parsing
+  const mediaRequested = entityPath.endsWith('/$value') || c.req.header('X-S4Kit-Media') === 'true';
+  const knownEntities = metadataCache.knownEntities(systemService, instanceService);
+  if ((hasRowFilters || hasFieldPermissions || mediaRequested || metadataCache.needsModel(entityPath, c.req.query(), entity, knownEntities)) && !await loadServiceModel()) {
+    return metadataUnavailable(c, logData, requestId, systemService.alias);
+  }
+
+  // Functions and actions need 'execute' - not the CRUD operation of their HTTP method
+  const operationCall = serviceModel
+    ? resolveOperationCall(serviceModel.operations, serviceModel.navigation, entityPath)
+    : null;
+  // Unbound operations belong to the service root - an entity set they're called below only names the service
+  const resourcePath = operationCall && !operationCall.bound ? splitTopLevel(entityPath, '/').pop()! : entityPath;
+
+  if (operationCall) {
+    logData.entity = operationCall.entity;
+    logData.operation = 'execute';
+
+    if (!accessResolver.checkOperationPermission(entityPermissions, operationCall.entity, operationCall.name)) {
+      const target = operationCall.bound ? ` on entity '${operationCall.entity}'` : '';
+      logData.errorCode = 'FORBIDDEN';
+      logData.errorCategory = 'permission';
+      logData.errorMessage = `Operation 'execute' not allowed for '${operationCall.name}'${target}`;
+      c.set('logData', logData);
+
+      return c.json({
+        error: `Operation 'execute' not allowed for '${operationCall.name}'${target}`
+      }, 403);
+    }
+  } else if (!accessResolver.checkEntityPermission(entityPermissions, entity || '', operation || 'read')) {
+    // Check entity-level permissions
     logData.errorCode = 'FORBIDDEN';
     logData.errorCategory = 'permission';
     logData.errorMessage = `Operation '${operation}' not allowed on entity '${entity}'`;
@@ -139,25 +333,47 @@ app.all('/*', async (c) => {
     }, 403);
   }
 
+  // Raw bodies skip the JSON checks below, so only paths of binary content take them
+  const mediaTarget = mediaRequested ? mediaResource(serviceModel!, resourcePath, method) : null;
+  if (mediaRequested && !mediaTarget) {
+    logData.errorCode = 'INVALID_MEDIA_PATH';
+    logData.errorCategory = 'validation';
+    logData.errorMessage = 'Media request for a path without binary content';
+    c.set('logData', logData);
+
+    return c.json({
+      error: {
+        code: 'INVALID_MEDIA_PATH',
+        message: 'Media requests must address $value, a stream property or the entity set of a new media entity.',
+        requestId,
+      }
+    }, 400);
+  }
+  const isMedia = mediaTarget !== null;
+
   // Check if client wants raw OData response (for advanced use cases)
   const wantRaw = c.req.header('X-S4Kit-Raw') === 'true';
   // Check if client wants metadata stripped (cleaner responses)
   const stripMetadata = c.req.header('X-S4Kit-Strip-Metadata') !== 'false'; // Default true
 
-  // Build full SAP URL path: servicePath + entityPath
+  // Build full SAP URL path: servicePath + resource path (unbound operations at the service root)
   const servicePath = instanceService.servicePathOverride || systemService.servicePath;
-  const fullPath = `${servicePath}/${entityPath}`.replace(/\/+/g, '/');
-
-  // Resolve auth with inheritance
-  const authConfig = await resolveAuth(
-    instance.authConfigId,
-    systemService.authConfigId,
-    instanceService.authConfigId
-  );
+  const fullPath = `${servicePath}/${resourcePath}`.replace(/\/+/g, '/');
 
   // Capture request body size (not content)
   let requestBody: unknown = undefined;
-  if (['POST', 'PUT', 'PATCH'].includes(c.req.method)) {
+  if (isMedia && ['POST', 'PUT', 'PATCH'].includes(c.req.method)) {
+    const declaredSize = parseInt(c.req.header('Content-Length') || '0', 10);
+    if (declaredSize > MAX_MEDIA_SIZE) {
+      return mediaTooLarge(c, logData, requestId, declaredSize);
+    }
+    const mediaBody = await readMediaBody(c.req.raw.body, MAX_MEDIA_SIZE);
+    if (!mediaBody) {
+      return mediaTooLarge(c, logData, requestId);
+    }
+    requestBody = mediaBody;
+    logData.requestSize = mediaBody.byteLength;
+  } else if (['POST', 'PUT', 'PATCH'].includes(c.req.method)) {
     try {
       requestBody = await c.req.json();
       logData.requestSize = calculateSize(requestBody);
@@ -185,15 +401,178 @@ app.all('/*', async (c) => {
       }
     }
 
+    // Server-driven paging: a continuation token replaces the query with the
+    // parameters of SAP's nextLink. Decoded first, so the next page's parameters
+    // go through the same validation and rewrites as the client's own
+    const continuation = queryParams[CONTINUATION_PARAM];
+    if (continuation !== undefined) {
+      const nextParams = decodeContinuationToken(continuation);
+      if (!nextParams) {
+        logData.errorCode = 'INVALID_CONTINUATION';
+        logData.errorCategory = 'validation';
+        logData.errorMessage = 'Invalid continuation token';
+        c.set('logData', logData);
+
+        return c.json({
+          error: {
+            code: 'INVALID_CONTINUATION',
+            message: 'Invalid continuation token. Use the nextLink returned by the previous page.',
+            requestId,
+          }
+        }, 400);
+      }
+      for (const key of Object.keys(queryParams)) {
+        delete queryParams[key];
+      }
+      Object.assign(queryParams, nextParams);
+    }
+
     // Translate OData v4 params to v2 if needed
     if (odataVersion === 'v2') {
-      // $count=true → $inlinecount=allpages
-      if (queryParams['$count'] === 'true') {
-        delete queryParams['$count'];
-        queryParams['$inlinecount'] = 'allpages';
+      const translated = toODataV2Params(queryParams, systemService.alias);
+      if ('error' in translated) {
+        logData.errorCode = translated.error.code;
+        logData.errorCategory = 'validation';
+        logData.errorMessage = translated.error.message;
+        c.set('logData', logData);
+
+        return c.json({
+          error: {
+            ...translated.error,
+            requestId,
+          }
+        }, 400);
+      }
+      for (const key of Object.keys(queryParams)) {
+        delete queryParams[key];
+      }
+      Object.assign(queryParams, translated.params);
+    }
+
+    // Check entity permissions of navigation targets, $expand paths and navigation in
+    // $filter/$orderby/$apply (after the continuation token, which brings its own query)
+    const expand = queryParams['$expand'];
+    const navigationPath = operationCall?.bindingPath ?? resourcePath;
+    if (expand || queryNavigates(queryParams) || navigationPath.includes('/')) {
+      const model = await loadServiceModel();
+      if (!model) {
+        return metadataUnavailable(c, logData, requestId, systemService.alias);
+      }
+
+      // Operations read their binding path - query options apply to their result
+      const violation = operationCall
+        ? navigationGuard.check(model.navigation, entityPermissions, navigationPath, queryParams, 'read', operationCall.returns)
+        : navigationGuard.check(model.navigation, entityPermissions, navigationPath, queryParams, operation || 'read');
+      if (violation) {
+        logData.errorCode = 'FORBIDDEN';
+        logData.errorCategory = 'permission';
+        logData.errorMessage = `Operation '${violation.operation}' not allowed on entity '${violation.entity}' (via '${violation.path}')`;
+        c.set('logData', logData);
+
+        return c.json({
+          error: `Operation '${violation.operation}' not allowed on entity '${violation.entity}' (via '${violation.path}')`
+        }, 403);
+      }
+    }
+
+    // Field-level permissions of the grant: hidden fields are dropped from $select and can't
+    // be filtered, sorted or written (checked before the row filter joins $filter)
+    let maskedEntitySets: string[] | undefined;
+    if (hasFieldPermissions && serviceModel) {
+      const decision = fieldGuard.check(fieldPermissions, serviceModel, {
+        resourcePath,
+        query: queryParams,
+        operation: operation || 'read',
+        body: requestBody,
+        operationCall,
+      });
+
+      if (!decision.allowed) {
+        logData.errorCode = 'FIELD_PERMISSION_VIOLATION';
+        logData.errorCategory = 'permission';
+        logData.errorMessage = `Field '${decision.field}' of entity '${decision.entity}' ${decision.reason}`;
+        c.set('logData', logData);
+
+        return c.json({
+          error: `Field '${decision.field}' of entity '${decision.entity}' ${decision.reason}`
+        }, 403);
+      }
+
+      for (const key of Object.keys(queryParams)) {
+        delete queryParams[key];
+      }
+      Object.assign(queryParams, decision.query);
+      maskedEntitySets = decision.entitySets;
+    }
+
+    // Row-level filters of the grant: collection reads are restricted to the filtered
+    // records, records addressed by key must match the filter, bodies must keep to it
+    if (hasRowFilters && serviceModel) {
+      const decision = rowFilterGuard.check(rowFilters, serviceModel, {
+        resourcePath,
+        expand,
+        operation: operation || 'read',
+        method,
+        body: requestBody,
+        operationCall,
+      });
+
+      const reason = !decision.allowed
+        ? decision.reason
+        : decision.preRead
+          ? await tracing.trace('row filter check', c.get('span'), () => rowFilterGuard.verify(decision.preRead!, {
+              baseUrl: instance.baseUrl,
+              servicePath,
+              auth: authConfig,
+              trace: c.get('span'),
+            }))
+          : null;
+      const filteredEntity = decision.allowed ? decision.preRead?.entitySet : decision.entity;
+
+      if (reason) {
+        logData.errorCode = 'ROW_FILTER_VIOLATION';
+        logData.errorCategory = 'permission';
+        logData.errorMessage = `Row filter of entity '${filteredEntity}' ${reason}`;
+        c.set('logData', logData);
+
+        return c.json({
+          error: `Row filter of entity '${filteredEntity}' ${reason}`
+        }, 403);
+      }
+
+      if (decision.allowed && decision.filter && queryParams['$apply']) {
+        // $apply runs before $filter - aggregations and compute must only see the filtered records
+        queryParams['$apply'] = restrictApply(decision.filter, queryParams['$apply']);
+      } else if (decision.allowed && decision.filter) {
+        // A client filter that closes the parentheses it's wrapped in would escape the row filter
+        const filterError = queryParams['$filter'] ? filterSyntaxError(queryParams['$filter']) : null;
+        if (filterError) {
+          logData.errorCode = 'INVALID_FILTER';
+          logData.errorCategory = 'validation';
+          logData.errorMessage = `Invalid $filter: ${filterError}`;
+          c.set('logData', logData);
+
+          return c.json({
+            error: {
+              code: 'INVALID_FILTER',
+              message: `Invalid $filter: ${filterError}`,
+              requestId,
+            }
+          }, 400);
+        }
+        queryParams['$filter'] = combineFilters(decision.filter, queryParams['$filter'])!;
       }
     }
 
+    // The entity SAP returns for a new media entity can only be masked as JSON - Atom XML would pass through
+    const maskMediaEntity = mediaTarget === 'entity' && maskedEntitySets !== undefined;
+    if (maskMediaEntity) {
+      delete queryParams['$format'];
+    }
+
+    // Final query options as sent to SAP (only stored at the extended log level, redacted)
+    logData.query = { ...queryParams };
+
     console.log('Proxy request:', {
       requestId,
       method: c.req.method,
@@ -201,6 +580,34 @@ app.all('/*', async (c) => {
       entity,
     });
 
+    // Forward optimistic concurrency precondition (ETag) to SAP
+    const forwardHeaders: Record<string, string> = {};
+    const ifMatch = c.req.header('If-Match');
+    if (ifMatch) {
+      forwardHeaders['If-Match'] = ifMatch;
+    }
+
+    // Exact decimals: v4 services send Edm.Decimal/Int64 as strings when asked (SDK typeConversion mode)
+    if (!isMedia && odataVersion === 'v4' && /IEEE754Compatible=true/i.test(c.req.header('Accept') || '')) {
+      forwardHeaders['Accept'] = 'application/json;IEEE754Compatible=true';
+      if (requestBody !== undefined) {
+        forwardHeaders['Content-Type'] = 'application/json;IEEE754Compatible=true';
+      }
+    }
+
+    // Media: the client's content type and the file name of new media entities (Slug)
+    if (isMedia) {
+      forwardHeaders['Accept'] = maskMediaEntity ? 'application/json' : c.req.header('Accept') || '*/*';
+      const contentType = c.req.header('Content-Type');
+      if (contentType && requestBody !== undefined) {
+        forwardHeaders['Content-Type'] = contentType;
+      }
+      const slug = c.req.header('Slug');
+      if (slug) {
+        forwardHeaders['Slug'] = slug;
+      }
+    }
+
     const result = await sapClient.requestWithAuth({
       baseUrl: instance.baseUrl,
       auth: authConfig,
@@ -209,19 +616,74 @@ app.all('/*', async (c) => {
       params: queryParams,
       body: requestBody,
       raw: wantRaw,
-      stripMetadata: stripMetadata
+      stripMetadata: stripMetadata,
+      headers: forwardHeaders,
+      media: isMedia,
+      trace: c.get('span'),
     });
 
-    // Extract SAP response time from result if available
+    // Stream binary responses straight to the client
+    const media = (result as { __media?: SapMediaResponse } | undefined)?.__media;
+    if (media) {
+      logData.sapResponseTime = (result as { __sapResponseTime?: number }).__sapResponseTime;
+      logData.sapHeaders = (result as { __sapHeaders?: Record<string, string> }).__sapHeaders;
+      logData.responseSize = media.contentLength;
+
+      if (media.contentLength !== undefined && media.contentLength > MAX_MEDIA_SIZE) {
+        await media.body?.cancel();
+        return mediaTooLarge(c, logData, requestId, media.contentLength);
+      }
+      c.set('logData', logData);
+
+      const headers: Record<string, string> = { 'Content-Type': media.contentType };
+      if (media.contentLength !== undefined) headers['Content-Length'] = String(media.contentLength);
+      if (media.contentDisposition) headers['Content-Disposition'] = media.contentDisposition;
+      const mediaEtag = (result as { __etag?: string }).__etag;
+      if (mediaEtag) headers['ETag'] = mediaEtag;
+
+      if (!media.body) return c.body(null, 200, headers);
+      return c.body(limitMediaStream(media.body, MAX_MEDIA_SIZE), 200, headers);
+    }
+
+    // Extract SAP response time, ETag and correlation headers from result if available
     let sapResponseTime: number | undefined = undefined;
+    let etag: string | undefined = undefined;
     let responseData = result;
-    if (result && typeof result === 'object' && (result as Record<string, unknown>).__sapResponseTime !== undefined) {
-      sapResponseTime = (result as Record<string, unknown>).__sapResponseTime as number;
-      // Remove the internal timing field from the response
-      const { __sapResponseTime, ...cleanResult } = result as Record<string, unknown>;
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      // Remove the internal fields from the response
+      const { __sapResponseTime, __etag, __sapHeaders, ...cleanResult } = result as Record<string, unknown>;
+      sapResponseTime = __sapResponseTime as number | undefined;
+      etag = __etag as string | undefined;
+      logData.sapHeaders = __sapHeaders as Record<string, string> | undefined;
       responseData = cleanResult;
     }
 
+    // Hidden fields never leave the proxy, not even in expanded entities
+    if (maskedEntitySets && serviceModel) {
+      responseData = fieldGuard.mask(fieldPermissions, serviceModel, maskedEntitySets, responseData, wantRaw);
+    }
+
+    // Rewrite SAP's nextLink into a proxy-relative link with an opaque continuation token,
+    // so clients never see (or follow) the backend URL
+    if (!wantRaw && responseData && typeof responseData === 'object' && 'nextLink' in responseData) {
+      const nextLink = (responseData as Record<string, unknown>).nextLink;
+      if (typeof nextLink === 'string' && nextLink) {
+        const token = encodeContinuationToken(nextLink);
+        (responseData as Record<string, unknown>).nextLink = `${entityPath}?${CONTINUATION_PARAM}=${token}`;
+      } else {
+        delete (responseData as Record<string, unknown>).nextLink;
+      }
+    }
+
+    // Expose the ETag header and keep it on single entities so clients can send it back as If-Match
+    if (etag) {
+      c.header('ETag', etag);
+      const single = (responseData as Record<string, unknown>)?.data;
+      if (!wantRaw && single && typeof single === 'object' && !Array.isArray(single) && !('@odata.etag' in single)) {
+        (single as Record<string, unknown>)['@odata.etag'] = etag;
+      }
+    }
+
     // Capture response metadata (not content)
     logData.sapResponseTime = sapResponseTime;
     logData.responseSize = calculateSize(responseData);
@@ -256,6 +718,7 @@ app.all('/*', async (c) => {
       odataError?: { code?: string; message?: string; details?: unknown; innererror?: unknown };
       response?: Response & { status: number; statusText: string; headers: Headers };
       code?: string;
+      sapHeaders?: Record<string, string>;
     };
 
     console.error('Proxy error:', {
@@ -266,7 +729,7 @@ app.all('/*', async (c) => {
     });
 
     // Extract error info for structured logging
-    const statusCode = (err.status || err.response?.status || 500) as 400 | 401 | 403 | 404 | 500 | 502 | 503 | 504;
+    const statusCode = (err.status || err.response?.status || 500) as 400 | 401 | 403 | 404 | 409 | 412 | 428 | 500 | 502 | 503 | 504;
     const errorCode = err.odataError?.code || err.code || 'PROXY_ERROR';
     const errorMessage = err.odataError?.message || err.message || 'Internal Proxy Error';
 
@@ -275,6 +738,7 @@ app.all('/*', async (c) => {
     logData.errorCategory = categorizeError(statusCode, errorCode, errorMessage);
     logData.errorMessage = sanitizeErrorMessage(errorMessage);
     logData.sapResponseTime = undefined;
+    logData.sapHeaders = err.sapHeaders;
 
     c.set('logData', logData);
 
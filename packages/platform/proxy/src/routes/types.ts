@@ -7,7 +7,8 @@ import { Hono } from 'hono';
 import { db } from '../index.ts';
 import { apiKeyAccess, instanceServices, instances, systemServices, authConfigurations, eq } from '@s4kit/shared/db';
 import { apiKeyService } from '../services/api-key.ts';
-import { metadataParser, generateTypeScriptFile, filterEntityTypes, type ODataEntityType, type MetadataAuthConfig } from '@s4kit/shared/services';
+import { getClientIp } from '../utils/client-ip.ts';
+import { metadataParser, generateTypeScriptFile, generateOperationManifest, generateFieldTypeManifest, filterEntityTypes, filterOperations, applyFieldPermissions, type ODataEntityType, type ODataComplexType, type ODataEnumType, type ODataOperation, type FieldTypeManifest, type MetadataAuthConfig } from '@s4kit/shared/services';
 
 const app = new Hono();
 
@@ -62,7 +63,10 @@ async function resolveAuth(
 
 /**
  * GET /api/proxy/$types
- * Generate TypeScript types for all entities accessible via the API key
+ * Generate TypeScript types for all entities accessible via the API key (hidden fields omitted).
+ * `?format=operations` returns the function/action manifest (JSON) for `S4Kit({ operations })` instead,
+ * `?format=fields` the field type manifest for `S4Kit({ typeConversion: { fields } })`.
+ * `?typeConversion=true` generates Date/Decimal types matching the SDK's typeConversion mode.
  */
 app.get('/', async (c) => {
   // Validate API key
@@ -78,7 +82,11 @@ app.get('/', async (c) => {
     return c.json({ error: 'Missing API key' }, 401);
   }
 
-  const validationResult = await apiKeyService.validateKey(key);
+  const validationResult = await apiKeyService.validateKey(key, getClientIp(c));
+
+  if (validationResult.errorCode === 'IP_NOT_ALLOWED') {
+    return c.json({ error: validationResult.error }, 403);
+  }
 
   if (!validationResult.valid || !validationResult.apiKey) {
     return c.json({ error: validationResult.error || 'Invalid or expired API key' }, 401);
@@ -98,6 +106,10 @@ app.get('/', async (c) => {
   // Collect all entity types and entities from all grants
   const allEntityTypes: ODataEntityType[] = [];
   const allEntities: { name: string; entityType?: string }[] = [];
+  const allComplexTypes: ODataComplexType[] = [];
+  const allEnumTypes: ODataEnumType[] = [];
+  const allOperations: ODataOperation[] = [];
+  const fieldTypes: FieldTypeManifest = { entitySets: {}, types: {} };
   const errors: string[] = [];
 
   // Process each access grant
@@ -149,11 +161,15 @@ app.get('/', async (c) => {
       // Get allowed entities from permissions
       const allowedEntities = Object.keys(grant.permissions as Record<string, string[]>);
 
-      // Filter entity types based on permissions
-      const filteredTypes = filterEntityTypes(
-        metadataResult.entityTypes,
-        allowedEntities,
-        grant.permissions as Record<string, string[]>
+      // Filter entity types based on permissions, without the fields the grant hides
+      const filteredTypes = applyFieldPermissions(
+        filterEntityTypes(
+          metadataResult.entityTypes,
+          allowedEntities,
+          grant.permissions as Record<string, string[]>
+        ),
+        metadataResult.entities,
+        grant.fieldPermissions ?? {}
       );
 
       // Add to collection (avoid duplicates by fullName)
@@ -169,18 +185,58 @@ app.get('/', async (c) => {
           allEntities.push(entity);
         }
       }
+
+      // Add complex/enum types (the generator keeps only those the entities reference)
+      for (const complexType of metadataResult.complexTypes) {
+        if (!allComplexTypes.find(ct => ct.fullName === complexType.fullName)) {
+          allComplexTypes.push(complexType);
+        }
+      }
+      for (const enumType of metadataResult.enumTypes) {
+        if (!allEnumTypes.find(et => et.fullName === enumType.fullName)) {
+          allEnumTypes.push(enumType);
+        }
+      }
+
+      // Add functions/actions the key may call (bound ones only for accessible entity types)
+      allOperations.push(...filterOperations(
+        metadataResult.operations,
+        filteredTypes,
+        grant.permissions as Record<string, string[]>,
+        metadataResult.entities
+      ));
+
+      // Add field types for the SDK's typeConversion mode (OData version is per service)
+      const serviceFieldTypes = generateFieldTypeManifest(filteredTypes, {
+        entities: metadataResult.entities,
+        complexTypes: metadataResult.complexTypes,
+        odataVersion: metadataResult.odataVersion,
+      });
+      Object.assign(fieldTypes.entitySets, serviceFieldTypes.entitySets);
+      Object.assign(fieldTypes.types, serviceFieldTypes.types);
     } catch (error: any) {
       errors.push(`Error processing grant ${grant.id}: ${error.message}`);
       console.error(`Error processing grant ${grant.id}:`, error);
     }
   }
 
+  if (c.req.query('format') === 'operations') {
+    return c.json(generateOperationManifest(allOperations, allEntities));
+  }
+  if (c.req.query('format') === 'fields') {
+    return c.json(fieldTypes);
+  }
+
   // Generate TypeScript file
   const typeScriptContent = generateTypeScriptFile(allEntityTypes, {
     apiKeyId: apiKey.id,
     apiKeyName: apiKey.name,
     generatedAt: new Date(),
     entities: allEntities,
+    operations: allOperations,
+    complexTypes: allComplexTypes,
+    enumTypes: allEnumTypes,
+    typeConversion: c.req.query('typeConversion') === 'true',
   });
 
   // If there were errors but we still have some types, include them in a comment
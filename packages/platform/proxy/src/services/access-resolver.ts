@@ -1,6 +1,6 @@
 import { db, redis } from '../index.ts';
 import { systemServices, instances, instanceServices, apiKeyAccess, systems, eq, and, inArray } from '@s4kit/shared/db';
-import type { Instance, SystemService, InstanceService, EntityPermissions } from '../types.ts';
+import type { Instance, SystemService, InstanceService, EntityPermissions, RowFilters, FieldPermissions } from '../types.ts';
 
 // Cache TTL in seconds
 const ACCESS_CACHE_TTL = 30; // 30 seconds
@@ -19,6 +19,8 @@ export interface ResolvedAccess {
   systemService: SystemService;
   instanceService: InstanceService;
   permissions: EntityPermissions;
+  rowFilters: RowFilters;
+  fieldPermissions: FieldPermissions;
 }
 
 export const accessResolver = {
@@ -134,6 +136,8 @@ export const accessResolver = {
     systemService: SystemService;
     instanceService: InstanceService;
     permissions: EntityPermissions;
+    rowFilters: RowFilters;
+    fieldPermissions: FieldPermissions;
   }>> => {
     // Get all access grants for this API key
     const accessGrants = await db.query.apiKeyAccess.findMany({
@@ -196,7 +200,9 @@ export const accessResolver = {
           instance,
           systemService: sysService,
           instanceService: instService,
-          permissions: accessGrant.permissions as EntityPermissions
+          permissions: accessGrant.permissions as EntityPermissions,
+          rowFilters: accessGrant.rowFilters ?? {},
+          fieldPermissions: accessGrant.fieldPermissions ?? {}
         };
       })
     );
@@ -376,6 +382,19 @@ export const accessResolver = {
     return false;
   },
 
+  /**
+   * Check permission to call a function or action: `execute` grants every operation
+   * of the entity set (the operation name for unbound ones), `execute:<Name>` a single one
+   */
+  checkOperationPermission: (
+    permissions: EntityPermissions,
+    entityName: string,
+    operationName: string
+  ): boolean => {
+    return accessResolver.checkEntityPermission(permissions, entityName, 'execute')
+      || accessResolver.checkEntityPermission(permissions, entityName, `execute:${operationName}`);
+  },
+
   /**
    * Map HTTP method to operation name
    */
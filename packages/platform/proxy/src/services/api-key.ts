@@ -1,7 +1,7 @@
 import { db, redis } from '../index.ts';
 import { apiKeys, eq } from '@s4kit/shared/db';
 import { timingSafeEqual } from 'crypto';
-import { parseApiKey, hashApiKey } from '@s4kit/shared/services';
+import { parseApiKey, hashApiKey, isIpAllowed } from '@s4kit/shared/services';
 import type { ApiKey } from '../types.ts';
 
 // Cache TTL in seconds - kept short to minimize window for revoked keys
@@ -9,8 +9,11 @@ const API_KEY_CACHE_TTL = 10; // 10 seconds
 
 export interface ApiKeyValidationResult {
   valid: boolean;
+  /** The validated key - also set on IP_NOT_ALLOWED, so the rejection can be logged for it */
   apiKey?: ApiKey;
   error?: string;
+  /** Set when a genuine key is used from an IP outside its allowlist */
+  errorCode?: 'IP_NOT_ALLOWED';
 }
 
 export const apiKeyService = {
@@ -23,7 +26,8 @@ export const apiKeyService = {
   /**
    * Validate an API key and return associated data
    *
-   * Uses Redis caching for O(1) lookup, then verifies with timing-safe hash comparison
+   * Uses Redis caching for O(1) lookup, then verifies with timing-safe hash comparison.
+   * Keys with an IP allowlist are only valid from a client IP within one of its CIDR ranges.
    */
   validateKey: async (key: string, clientIp?: string): Promise<ApiKeyValidationResult> => {
     // Parse the key to extract components
@@ -83,6 +87,13 @@ export const apiKeyService = {
       return { valid: false, error: 'Key has expired' };
     }
 
+    // Check the client IP against the key's allowlist (no allowlist = any IP)
+    if (result.allowedIps && result.allowedIps.length > 0) {
+      if (!clientIp || !isIpAllowed(clientIp, result.allowedIps)) {
+        return { valid: false, apiKey: result, error: 'Client IP is not allowed for this API key', errorCode: 'IP_NOT_ALLOWED' };
+      }
+    }
+
     // Update last used timestamp (fire and forget)
     db.update(apiKeys)
       .set({
@@ -0,0 +1,278 @@
+import {
+  isFieldHidden,
+  isFieldReadOnly,
+  maskFields,
+  parseExpressionPaths,
+  resolveNavigationTargets,
+  splitResourcePath,
+  splitTopLevel,
+  type NavigationMap,
+  type OperationCall,
+} from '@s4kit/shared/services';
+import type { ServiceModel } from './metadata-cache.ts';
+import type { FieldPermissions } from '../types.ts';
+
+/**
+ * Request as seen by the field permission check
+ */
+export interface FieldRequest {
+  /** Path relative to the service root, key predicates included */
+  resourcePath: string;
+  /** Query options in the service's OData version */
+  query: Record<string, string>;
+  /** CRUD operation of the request ('execute' for function/action calls) */
+  operation: string;
+  body?: unknown;
+  operationCall?: OperationCall | null;
+}
+
+/** Field a request must not use - rejections read as "Field '<field>' of entity '<entity>' <reason>" */
+interface FieldViolation {
+  entity: string;
+  field: string;
+  reason: string;
+}
+
+export type FieldDecision =
+  | ({ allowed: false } & FieldViolation)
+  | {
+      allowed: true;
+      /** Query options with hidden fields removed from $select (also in nested $expand options) */
+      query: Record<string, string>;
+      /** Entity sets of the response data - hidden fields are removed from it */
+      entitySets: string[];
+    };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+/**
+ * Entity sets a navigation property leads to from any of the given sets
+ */
+function navigate(navigation: NavigationMap, from: string[], segment: string): string[] {
+  return [...new Set(from.flatMap(set => segment === '*'
+    ? Object.values(navigation[set] ?? {}).flat()
+    : navigation[set]?.[segment] ?? []))];
+}
+
+/**
+ * Follow a property path (`to_Partner/Customer`) to the first segment that isn't a
+ * navigation property and check whether that field is hidden
+ */
+function hiddenField(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  path: string[]
+): { entity: string; field: string } | null {
+  let current = entitySets;
+  for (const segment of path) {
+    // `*` selects the visible fields only - the response is masked
+    if (segment === '*') return null;
+    const next = navigate(navigation, current, segment);
+    if (next.length > 0) {
+      current = next;
+      continue;
+    }
+    const entity = current.find(set => isFieldHidden(fieldPermissions[set], segment));
+    return entity ? { entity, field: segment } : null;
+  }
+  return null;
+}
+
+/**
+ * Reject $filter, $orderby and $apply expressions that reference hidden fields
+ */
+function checkExpressions(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  options: Record<string, string | undefined>
+): FieldViolation | null {
+  for (const option of ['$filter', '$orderby', '$apply']) {
+    const expression = options[option];
+    if (!expression) continue;
+    for (const path of parseExpressionPaths(expression)) {
+      const hidden = hiddenField(fieldPermissions, navigation, entitySets, path);
+      if (hidden) return { ...hidden, reason: `can't be used in ${option}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop hidden fields from a $select option
+ * @returns The rewritten option, or a violation when only hidden fields were selected
+ */
+function rewriteSelect(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  select: string
+): string | FieldViolation {
+  const kept: string[] = [];
+  let dropped: { entity: string; field: string } | null = null;
+
+  for (const item of splitTopLevel(select, ',')) {
+    const hidden = hiddenField(fieldPermissions, navigation, entitySets, item.split('/'));
+    if (hidden) dropped ??= hidden;
+    else kept.push(item);
+  }
+
+  if (kept.length === 0 && dropped) return { ...dropped, reason: 'is not accessible' };
+  return kept.join(',');
+}
+
+/**
+ * Apply the field permissions of the expanded entity sets to nested $expand
+ * options (v4): `to_Item($select=Material,NetAmount;$filter=...)`
+ */
+function rewriteExpand(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  expand: string
+): string | FieldViolation {
+  const items: string[] = [];
+
+  for (const item of splitTopLevel(expand, ',')) {
+    const open = item.indexOf('(');
+    if (open === -1 || !item.endsWith(')')) {
+      items.push(item);
+      continue;
+    }
+
+    const path = item.slice(0, open);
+    let targets = entitySets;
+    for (const segment of path.split('/').map(s => s.trim()).filter(s => s && !s.includes('.') && !s.startsWith('$'))) {
+      targets = navigate(navigation, targets, segment);
+    }
+
+    const options = Object.fromEntries(splitTopLevel(item.slice(open + 1, -1), ';').map(option => {
+      const separator = option.indexOf('=');
+      return [option.slice(0, separator).trim(), option.slice(separator + 1)];
+    }));
+
+    const violation = checkExpressions(fieldPermissions, navigation, targets, options);
+    if (violation) return violation;
+    for (const [name, rewrite] of [['$select', rewriteSelect], ['$expand', rewriteExpand]] as const) {
+      const value = options[name];
+      if (value === undefined) continue;
+      const rewritten = rewrite(fieldPermissions, navigation, targets, value);
+      if (typeof rewritten !== 'string') return rewritten;
+      options[name] = rewritten;
+    }
+
+    const nested = Object.entries(options).filter(([, value]) => value !== '').map(([name, value]) => `${name}=${value}`);
+    items.push(nested.length > 0 ? `${path}(${nested.join(';')})` : path);
+  }
+
+  return items.join(',');
+}
+
+/**
+ * Find a field of a request body the key can't write, following deep inserts
+ */
+function readOnlyField(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  body: Record<string, unknown>
+): FieldViolation | null {
+  for (const [key, value] of Object.entries(body)) {
+    // Annotations belong to their property: `to_Partner@odata.bind`, `Amount@odata.type`
+    const field = key.split('@')[0];
+    if (!field) continue;
+
+    const targets = navigate(navigation, entitySets, field);
+    if (targets.length > 0) {
+      const nested = isRecord(value) && Array.isArray(value.results) ? value.results : value;
+      for (const record of Array.isArray(nested) ? nested : [nested]) {
+        if (!isRecord(record)) continue;
+        const violation = readOnlyField(fieldPermissions, navigation, targets, record);
+        if (violation) return violation;
+      }
+      continue;
+    }
+
+    const entity = entitySets.find(set => isFieldReadOnly(fieldPermissions[set], field));
+    if (entity) {
+      const hidden = isFieldHidden(fieldPermissions[entity], field);
+      return { entity, field, reason: hidden ? 'is not accessible' : 'is read-only' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Enforcement of field-level permissions of access grants.
+ * Hidden fields are dropped from $select, can't be used in $filter, $orderby or
+ * $apply, and are removed from responses (expanded entities included); hidden and
+ * read-only fields can't be written.
+ */
+export const fieldGuard = {
+  /**
+   * Check a request against the field permissions of its grant and rewrite its query
+   */
+  check: (fieldPermissions: FieldPermissions, model: ServiceModel, request: FieldRequest): FieldDecision => {
+    const { resourcePath, query, operation, body, operationCall } = request;
+    const { navigation } = model;
+
+    // Entity sets of the response: the result of an operation, or where the path leads
+    let entitySets: string[];
+    if (operationCall) {
+      entitySets = operationCall.returns;
+    } else {
+      const segments = splitResourcePath(resourcePath).filter(segment => segment.name !== '$links');
+      const pathTargets = resolveNavigationTargets(navigation, resourcePath);
+      entitySets = pathTargets[pathTargets.length - 1]?.entitySets ?? (segments[0] ? [segments[0].name] : []);
+
+      // A path ending at a property (`A_BusinessPartner('1')/TaxNumber1/$value`) reads that field
+      const property = segments[pathTargets.length + 1];
+      if (property && !property.name.startsWith('$')) {
+        const entity = entitySets.find(set => isFieldHidden(fieldPermissions[set], property.name));
+        if (entity) return { allowed: false, entity, field: property.name, reason: 'is not accessible' };
+      }
+    }
+
+    const violation = checkExpressions(fieldPermissions, navigation, entitySets, query);
+    if (violation) return { allowed: false, ...violation };
+
+    const rewritten = { ...query };
+    for (const [name, rewrite] of [['$select', rewriteSelect], ['$expand', rewriteExpand]] as const) {
+      const option = rewritten[name];
+      if (option === undefined) continue;
+      const value = rewrite(fieldPermissions, navigation, entitySets, option);
+      if (typeof value !== 'string') return { allowed: false, ...value };
+      if (value) rewritten[name] = value;
+      else delete rewritten[name];
+    }
+
+    // Writes, deep inserts included - operation parameters aren't entity fields
+    if (!operationCall && (operation === 'create' || operation === 'update') && isRecord(body)) {
+      const readOnly = readOnlyField(fieldPermissions, navigation, entitySets, body);
+      if (readOnly) return { allowed: false, ...readOnly };
+    }
+
+    return { allowed: true, query: rewritten, entitySets };
+  },
+
+  /**
+   * Remove hidden fields from a response: `{ data }` of parsed responses, or the
+   * raw OData payload (`{ d }` in v2, `{ value }` or the entity in v4)
+   */
+  mask: (fieldPermissions: FieldPermissions, model: ServiceModel, entitySets: string[], response: unknown, raw = false): unknown => {
+    if (!isRecord(response)) return response;
+    const mask = (data: unknown) => maskFields(fieldPermissions, model.navigation, entitySets, data);
+
+    if (!raw) return 'data' in response ? { ...response, data: mask(response.data) } : response;
+
+    if (isRecord(response.d)) {
+      const d = response.d;
+      return { ...response, d: Array.isArray(d.results) ? { ...d, results: mask(d.results) } : mask(d) };
+    }
+    if (Array.isArray(response.value)) return { ...response, value: mask(response.value) };
+    return mask(response);
+  },
+};
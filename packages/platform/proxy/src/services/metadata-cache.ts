@@ -0,0 +1,102 @@
+import { redis } from '../index.ts';
+import {
+  metadataParser,
+  buildNavigationMap,
+  buildOperationMap,
+  queryNavigates,
+  type NavigationMap,
+  type OperationMap,
+} from '@s4kit/shared/services';
+import type { ResolvedAuthConfig } from './sap-client.ts';
+import type { Instance, SystemService, InstanceService } from '../types.ts';
+
+// Cache TTL in seconds - the model only changes when the service's $metadata does
+const SERVICE_MODEL_CACHE_TTL = 3600; // 1 hour
+
+/**
+ * What the proxy needs to know about a service for permission checks
+ */
+export interface ServiceModel {
+  navigation: NavigationMap;
+  operations: OperationMap;
+  /** Entity set → key properties of its entity type */
+  keys: Record<string, string[]>;
+  /** Entity set → stream properties (Edm.Stream) of its entity type */
+  streams: Record<string, string[]>;
+  /** Entity sets of media entity types (HasStream) */
+  mediaEntitySets: string[];
+}
+
+export const metadataCache = {
+  /**
+   * Whether a request may address more than its root entity set: navigation
+   * segments, $expand, navigation in $filter/$orderby/$apply, bound operations,
+   * or a root that isn't a known entity set (function imports)
+   */
+  needsModel: (resourcePath: string, query: Record<string, string | undefined>, entity: string | undefined, knownEntities: string[]): boolean => {
+    return !!query['$expand']
+      || queryNavigates(query)
+      || resourcePath.replace(/^\/+|\/+$/g, '').includes('/')
+      || !entity
+      || !knownEntities.includes(entity);
+  },
+
+  /**
+   * Service model built from the service's $metadata, cached in Redis
+   * @returns null if the metadata could not be fetched
+   */
+  getServiceModel: async (
+    instance: Instance,
+    systemService: SystemService,
+    instanceService: InstanceService,
+    auth: ResolvedAuthConfig | null
+  ): Promise<ServiceModel | null> => {
+    const cacheKey = `service-model:${instanceService.id}`;
+    const cached = await redis.get(cacheKey);
+
+    if (cached) {
+      try {
+        const model = JSON.parse(cached) as ServiceModel;
+        // Models cached before stream properties were recorded are rebuilt
+        if (model.streams) return model;
+      } catch {
+        await redis.del(cacheKey);
+      }
+    }
+
+    const metadata = await metadataParser.fetchFullMetadata({
+      baseUrl: instance.baseUrl,
+      servicePath: instanceService.servicePathOverride || systemService.servicePath,
+      auth,
+    });
+
+    if (metadata.error) {
+      return null;
+    }
+
+    const entityTypes = metadata.entities.map(entity => {
+      const typeName = entity.entityType?.split('.').pop();
+      return [entity.name, metadata.entityTypes.find(et => et.fullName === entity.entityType || et.name === typeName)] as const;
+    });
+    const model: ServiceModel = {
+      navigation: buildNavigationMap(metadata),
+      operations: buildOperationMap(metadata),
+      keys: Object.fromEntries(entityTypes.map(([name, entityType]) => [name, entityType?.keyProperties ?? []])),
+      streams: Object.fromEntries(entityTypes.map(([name, entityType]) => [
+        name,
+        entityType?.properties.filter(property => property.type === 'Edm.Stream').map(property => property.name) ?? [],
+      ])),
+      mediaEntitySets: entityTypes.filter(([, entityType]) => entityType?.hasStream).map(([name]) => name),
+    };
+    await redis.set(cacheKey, JSON.stringify(model), 'EX', SERVICE_MODEL_CACHE_TTL);
+
+    return model;
+  },
+
+  /**
+   * Entity sets of a service as registered in S4Kit (instance override, else system service)
+   */
+  knownEntities: (systemService: SystemService, instanceService: InstanceService): string[] => {
+    return instanceService.entities ?? systemService.entities ?? [];
+  },
+};
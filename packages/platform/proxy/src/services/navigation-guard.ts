@@ -0,0 +1,58 @@
+import { resolveNavigationTargets, resolveQueryTargets, type NavigationMap } from '@s4kit/shared/services';
+import { accessResolver } from './access-resolver.ts';
+import type { EntityPermissions } from '../types.ts';
+
+/**
+ * Entity set reached through navigation without permission
+ */
+export interface NavigationViolation {
+  /** Offending path as written in the request, e.g. `to_Partner`, `$expand=to_Item/to_Partner` or `$filter=to_Partner` */
+  path: string;
+  entity: string;
+  operation: string;
+}
+
+/**
+ * Permission checks for the entity sets a request reaches beyond its root entity:
+ * navigation segments (`A_SalesOrder('1')/to_Item`), $expand paths (nested ones included)
+ * and navigation in $filter, $orderby and $apply (`to_Partner/any(p: p/CreditLimit gt 1000)`)
+ */
+export const navigationGuard = {
+  /**
+   * Check every entity set a request reaches through navigation.
+   * The last segment of the resource path needs the request's operation,
+   * everything read on the way and through query options needs 'read'.
+   * Targets the service doesn't pin to one entity set are checked against every candidate.
+   * @param queryFrom - Entity sets the query options apply to, if not the end of the resource path (function results)
+   * @returns The first path without permission, or null if all are allowed
+   */
+  check: (
+    map: NavigationMap,
+    permissions: EntityPermissions,
+    resourcePath: string,
+    query: Record<string, string | undefined>,
+    operation: string,
+    queryFrom?: string[]
+  ): NavigationViolation | null => {
+    const pathTargets = resolveNavigationTargets(map, resourcePath);
+    const root = resourcePath.split(/[/(]/)[0]!;
+    const from = queryFrom ?? pathTargets[pathTargets.length - 1]?.entitySets ?? [root];
+    const targets = [...pathTargets, ...resolveQueryTargets(map, from, query)];
+
+    for (const target of targets) {
+      const required = target.final ? operation : 'read';
+
+      for (const entity of target.entitySets) {
+        if (!accessResolver.checkEntityPermission(permissions, entity, required)) {
+          return {
+            path: target.via === 'path' ? target.path : `$${target.via}=${target.path}`,
+            entity,
+            operation: required,
+          };
+        }
+      }
+    }
+
+    return null;
+  },
+};
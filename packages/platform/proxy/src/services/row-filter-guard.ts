@@ -0,0 +1,207 @@
+import {
+  parseRowFilter,
+  rowFilterProperties,
+  evaluateRowFilter,
+  combineFilters,
+  filterSyntaxError,
+  keyPredicateFilter,
+  resolveNavigationTargets,
+  resolveExpandTargets,
+  splitResourcePath,
+  type RowFilterNode,
+  type OperationCall,
+} from '@s4kit/shared/services';
+import { sapClient, type ResolvedAuthConfig } from './sap-client.ts';
+import type { SpanContext } from './tracing.ts';
+import type { ServiceModel } from './metadata-cache.ts';
+import type { RowFilters } from '../types.ts';
+
+/**
+ * Request as seen by the row filter check
+ */
+export interface RowFilterRequest {
+  /** Path relative to the service root, key predicates included */
+  resourcePath: string;
+  expand?: string;
+  /** CRUD operation of the request ('execute' for function/action calls) */
+  operation: string;
+  method: string;
+  body?: unknown;
+  operationCall?: OperationCall | null;
+  /** Body of the operation that created the root record in the same changeset (Content-ID references) */
+  referencedRecord?: Record<string, unknown>;
+}
+
+/**
+ * Record addressed by key that must match the row filter of its entity set before the request runs
+ */
+export interface RowFilterPreRead {
+  entitySet: string;
+  /** Key predicate and row filter combined */
+  filter: string;
+  /** Properties the row filter compares */
+  select: string[];
+  rowFilter: RowFilterNode;
+  /** Update body - the stored record merged with it must still match the row filter */
+  update?: Record<string, unknown>;
+  /** PUT replaces the record instead of merging into it */
+  replace?: boolean;
+}
+
+/** Rejections read as "Row filter of entity '<entity>' <reason>" */
+export type RowFilterDecision =
+  | { allowed: false; entity: string; reason: string }
+  | {
+      allowed: true;
+      /** Filter to AND into $filter, or to run first in $apply (collection reads) */
+      filter?: string;
+      preRead?: RowFilterPreRead;
+    };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+/**
+ * Enforcement of row-level filters of access grants.
+ * Collection reads get the filter ANDed into $filter (or filtered first in $apply), records addressed by key are
+ * verified with a pre-read, and request bodies are evaluated against the filter.
+ * Row-filtered entity sets can't be reached through navigation, $expand or function
+ * results - those requests are rejected, as the filter can't be applied there.
+ */
+export const rowFilterGuard = {
+  /**
+   * Decide how a request is restricted by the row filters of its grant
+   */
+  check: (rowFilters: RowFilters, model: ServiceModel, request: RowFilterRequest): RowFilterDecision => {
+    const { resourcePath, expand, operation, method, body, operationCall, referencedRecord } = request;
+    const filtered = (entitySet: string) => rowFilters[entitySet] !== undefined;
+
+    // Entity sets reached beyond the root can't be filtered
+    const targets = operationCall
+      ? [
+          ...(operationCall.bindingPath ? resolveNavigationTargets(model.navigation, operationCall.bindingPath) : []),
+          ...(expand ? resolveExpandTargets(model.navigation, operationCall.returns, expand) : []),
+        ]
+      : resolveNavigationTargets(model.navigation, resourcePath, expand);
+    for (const target of targets) {
+      const entity = target.entitySets.find(filtered);
+      if (entity) {
+        const via = target.via === 'expand' ? `$expand=${target.path}` : target.path;
+        return { allowed: false, entity, reason: `can't be applied through '${via}'` };
+      }
+    }
+    const returned = operationCall?.returns.find(filtered);
+    if (returned) {
+      return { allowed: false, entity: returned, reason: `can't be applied to the result of '${operationCall!.name}'` };
+    }
+
+    const segments = splitResourcePath(operationCall?.bindingPath ?? resourcePath);
+    const root = segments[0];
+
+    // Deep inserts/updates must not write into row-filtered entity sets
+    if (root && !operationCall && isRecord(body) && (operation === 'create' || operation === 'update')) {
+      const entitySet = targets.filter(t => t.via === 'path').pop()?.entitySets[0] ?? root.name;
+      for (const [navigationProperty, entitySets] of Object.entries(model.navigation[entitySet] ?? {})) {
+        const entity = entitySets.find(filtered);
+        if (entity && navigationProperty in body) {
+          return { allowed: false, entity, reason: `can't be applied to records written through '${navigationProperty}'` };
+        }
+      }
+    }
+
+    if (!root || !filtered(root.name)) return { allowed: true };
+
+    const parsed = parseRowFilter(rowFilters[root.name]!);
+    if ('error' in parsed) {
+      return { allowed: false, entity: root.name, reason: `is invalid (${parsed.error})` };
+    }
+    const rowFilter = parsed.filter;
+    // The request acts on the root itself, not on something it leads to
+    const onRoot = segments.length === 1 && !operationCall;
+
+    // Record created in the same changeset - its body was checked when it was created
+    if (referencedRecord) {
+      if (onRoot && operation === 'update' && isRecord(body)) {
+        const record = method === 'PUT' ? body : { ...referencedRecord, ...body };
+        if (evaluateRowFilter(rowFilter, record) !== true) {
+          return { allowed: false, entity: root.name, reason: 'would exclude the updated record' };
+        }
+      }
+      return { allowed: true };
+    }
+
+    if (root.key !== undefined) {
+      // The key comes from the client - it must not escape the parentheses it's combined in
+      const keyFilter = keyPredicateFilter(root.key, model.keys[root.name] ?? []);
+      if (!keyFilter || filterSyntaxError(keyFilter)) {
+        return { allowed: false, entity: root.name, reason: `can't be checked for key (${root.key})` };
+      }
+      return {
+        allowed: true,
+        preRead: {
+          entitySet: root.name,
+          filter: combineFilters(keyFilter, rowFilters[root.name])!,
+          select: [...new Set(rowFilterProperties(rowFilter).map(property => property.split('/')[0]!))],
+          rowFilter,
+          update: onRoot && operation === 'update' && isRecord(body) ? body : undefined,
+          replace: method === 'PUT',
+        },
+      };
+    }
+
+    // Collection reads (also /$count) are restricted to the filtered records
+    const counting = segments.length === 2 && segments[1]!.name === '$count';
+    if ((onRoot || counting) && operation === 'read') {
+      return { allowed: true, filter: rowFilters[root.name] };
+    }
+
+    // New records must match the filter by their own properties
+    if (onRoot && operation === 'create') {
+      return evaluateRowFilter(rowFilter, isRecord(body) ? body : {}) === true
+        ? { allowed: true }
+        : { allowed: false, entity: root.name, reason: 'excludes the new record' };
+    }
+
+    return { allowed: false, entity: root.name, reason: 'requires addressing records by key' };
+  },
+
+  /**
+   * Read the record a request addresses, restricted to the row filter
+   * @returns Why the request is rejected (see RowFilterDecision), or null if the record matches
+   */
+  verify: async (
+    preRead: RowFilterPreRead,
+    target: { baseUrl: string; servicePath: string; auth: ResolvedAuthConfig; trace?: SpanContext }
+  ): Promise<string | null> => {
+    let record: unknown;
+    try {
+      const result = await sapClient.requestWithAuth({
+        baseUrl: target.baseUrl,
+        auth: target.auth,
+        method: 'GET',
+        path: `${target.servicePath}/${preRead.entitySet}`.replace(/\/+/g, '/'),
+        params: { $filter: preRead.filter, $select: preRead.select.join(','), $top: 1 },
+        stripMetadata: true,
+        trace: target.trace,
+      });
+      record = Array.isArray(result?.data) ? result.data[0] : undefined;
+    } catch (error) {
+      console.warn('Row filter pre-read failed:', error);
+      return 'could not be checked';
+    }
+
+    if (!isRecord(record)) {
+      return 'excludes the record, or it does not exist';
+    }
+
+    if (preRead.update) {
+      const updated = preRead.replace ? preRead.update : { ...record, ...preRead.update };
+      if (evaluateRowFilter(preRead.rowFilter, updated) !== true) {
+        return 'would exclude the updated record';
+      }
+    }
+
+    return null;
+  },
+};
@@ -2,6 +2,7 @@ import ky from 'ky';
 import { encryption, buildServiceUrl } from '@s4kit/shared/services';
 import { redis } from '../index.ts';
 import { oauthTokenService, type OAuthTokenConfig } from './oauth.ts';
+import { tracing, type SpanContext } from './tracing.ts';
 import {
   parseODataResponse,
   parseODataError,
@@ -18,6 +19,40 @@ interface SapRequestOptions {
   raw?: boolean;
   /** If true, strips OData metadata from response entities */
   stripMetadata?: boolean;
+  /** Extra headers forwarded to SAP (e.g., If-Match for optimistic concurrency) */
+  headers?: Record<string, string>;
+  /** If true, body and response are binary (media entities, $value) and passed through unparsed */
+  media?: boolean;
+}
+
+// Response headers that correlate a request with SAP's own traces and logs (extended log level)
+const CORRELATION_HEADERS = [
+  'x-correlationid',
+  'x-correlation-id',
+  'x-request-id',
+  'x-vcap-request-id',
+  'sap-server',
+  'sap-perf-fesrec',
+];
+
+/**
+ * Correlation headers of a SAP response, if it sent any
+ */
+function correlationHeaders(headers: Headers): Record<string, string> | undefined {
+  const found: Record<string, string> = {};
+  for (const name of CORRELATION_HEADERS) {
+    const value = headers.get(name);
+    if (value) found[name] = value.substring(0, 200);
+  }
+  return Object.keys(found).length > 0 ? found : undefined;
+}
+
+/** Binary SAP response, returned as `__media` for media requests */
+export interface SapMediaResponse {
+  body: ReadableStream<Uint8Array> | null;
+  contentType: string;
+  contentLength?: number;
+  contentDisposition?: string;
 }
 
 /** Auth configuration resolved from instance or instanceService */
@@ -32,6 +67,8 @@ export interface ResolvedAuthConfig {
 interface SapRequestWithAuthOptions extends SapRequestOptions {
   baseUrl: string;
   auth: ResolvedAuthConfig;
+  /** Parent span - OAuth, CSRF and SAP calls are traced as its children */
+  trace?: SpanContext;
 }
 
 // Return type for SAP requests with timing information
@@ -62,6 +99,13 @@ function buildODataQueryString(params?: Record<string, string | number | boolean
   return pairs.join('&');
 }
 
+/**
+ * ky body option: JSON for entity payloads, bytes as-is for media uploads
+ */
+function bodyOptions(options: SapRequestOptions): { json?: unknown; body?: Uint8Array } {
+  return options.media ? { body: options.body } : { json: options.body };
+}
+
 export const sapClient = {
   /**
    * Make a request to SAP system with pre-resolved auth configuration
@@ -69,7 +113,7 @@ export const sapClient = {
    * @param options - Request options including baseUrl and resolved auth config
    */
   requestWithAuth: async (options: SapRequestWithAuthOptions) => {
-    const { baseUrl, auth, ...requestOptions } = options;
+    const { baseUrl, auth, trace, ...requestOptions } = options;
 
     // Prepare authentication based on auth type
     const authType = auth.type || 'basic';
@@ -88,7 +132,7 @@ export const sapClient = {
 
       // Handle CSRF for basic auth
       csrfToken = authHeader
-        ? await sapClient.getCsrfTokenForUrl(csrfCacheKey, baseUrl, authHeader)
+        ? await sapClient.getCsrfTokenForUrl(csrfCacheKey, baseUrl, authHeader, trace)
         : '';
     } else if (authType === 'custom') {
       // Custom authentication - get header name and value from auth config
@@ -125,7 +169,10 @@ export const sapClient = {
 
       // Use baseUrl + clientId for cache key to ensure uniqueness per service
       const cacheKey = `oauth:${baseUrl}:${authConfig.clientId}`;
-      const accessToken = await oauthTokenService.getToken(oauthConfig, cacheKey);
+      const accessToken = await tracing.trace('OAuth token', trace, span => {
+        span.setAttribute('server.address', new URL(authConfig.tokenUrl).host);
+        return oauthTokenService.getToken(oauthConfig, cacheKey);
+      });
       authHeader = `Bearer ${accessToken}`;
       // OAuth typically doesn't need CSRF tokens
     } else {
@@ -139,11 +186,32 @@ export const sapClient = {
     const normalizedBaseUrl = `${urlParts.protocol}//${urlParts.host}`;
     const normalizedPath = urlParts.pathname.replace(/^\//, '');
 
+    // SAP call as a client span - the forwarded traceparent lets SAP join the trace
+    const sendToSap = (path: string, headers: Record<string, string>, retry?: number) =>
+      tracing.trace(`SAP ${requestOptions.method}`, trace, async (span) => {
+        span.setAttributes({
+          'http.request.method': requestOptions.method,
+          'server.address': urlParts.host,
+          'url.path': urlParts.pathname,
+        });
+        const start = Date.now();
+        const response = await ky(path, {
+          prefixUrl: normalizedBaseUrl,
+          method: requestOptions.method,
+          headers: { ...headers, traceparent: span.traceparent },
+          ...bodyOptions(requestOptions),
+          ...(retry === undefined ? {} : { retry }),
+        });
+        span.setAttribute('http.response.status_code', response.status);
+        return { response, responseTime: Date.now() - start };
+      }, 'client');
+
     // Make request
     try {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Accept': 'application/json' // Force JSON format
+        'Accept': 'application/json', // Force JSON format
+        ...requestOptions.headers,
       };
 
       // Add authentication headers based on auth type
@@ -167,56 +235,19 @@ export const sapClient = {
 
       console.log('SAP request URL:', `${normalizedBaseUrl}/${fullPath}`);
 
-      const sapStart = Date.now();
-      const response = await ky(fullPath, {
-        prefixUrl: normalizedBaseUrl,
-        method: requestOptions.method,
-        headers,
-        json: requestOptions.body,
-        retry: 0
-      });
-      const sapEnd = Date.now();
-      const sapResponseTime = sapEnd - sapStart;
-
-      // Handle 204 No Content (common for DELETE operations)
-      if (response.status === 204) {
-        return { success: true, __sapResponseTime: sapResponseTime };
-      }
-
-      // Check if response explicitly has no content
-      // Note: Missing content-length header does NOT mean empty - servers may use chunked encoding
-      const contentLength = response.headers.get('content-length');
-      if (contentLength === '0') {
-        // Explicitly empty response body - return success
-        return { success: true, __sapResponseTime: sapResponseTime };
-      }
+      const { response, responseTime: sapResponseTime } = await sendToSap(fullPath, headers, 0);
 
-      // Check content type - $count returns text/plain with just a number
-      const contentType = response.headers.get('content-type') || '';
-      if (contentType.includes('text/plain') || requestOptions.path.endsWith('/$count')) {
-        const textResponse = await response.text();
-        const count = parseInt(textResponse.trim(), 10);
-        return { count, __sapResponseTime: sapResponseTime };
-      }
-
-      const rawJson = await response.json();
-      const processedData = sapClient.processResponse(rawJson, requestOptions);
-
-      // Attach timing info to the response if it's an object
-      if (processedData && typeof processedData === 'object') {
-        (processedData as any).__sapResponseTime = sapResponseTime;
-      }
-
-      return processedData;
+      return await sapClient.parseResponse(response, requestOptions, sapResponseTime);
     } catch (error: any) {
       // If CSRF token is invalid, clear cache and retry once (only for basic auth)
       if (authType === 'basic' && error.response?.status === 403 && error.response.headers.get('x-csrf-token') === 'Required') {
         await redis.del(csrfCacheKey);
-        const newToken = await sapClient.getCsrfTokenForUrl(csrfCacheKey, baseUrl, authHeader!);
+        const newToken = await sapClient.getCsrfTokenForUrl(csrfCacheKey, baseUrl, authHeader!, trace);
 
         const retryHeaders: Record<string, string> = {
           'Content-Type': 'application/json',
-          'Accept': 'application/json'
+          'Accept': 'application/json',
+          ...requestOptions.headers,
         };
 
         if (authHeader) {
@@ -232,44 +263,9 @@ export const sapClient = {
           ? `${normalizedPath}?${retryQueryString}`
           : normalizedPath;
 
-        const retrySapStart = Date.now();
-        const response = await ky(retryFullPath, {
-          prefixUrl: normalizedBaseUrl,
-          method: requestOptions.method,
-          headers: retryHeaders,
-          json: requestOptions.body
-        });
-        const retrySapEnd = Date.now();
-        const retrySapResponseTime = retrySapEnd - retrySapStart;
-
-        // Handle 204 No Content (common for DELETE operations)
-        if (response.status === 204) {
-          return { success: true, __sapResponseTime: retrySapResponseTime };
-        }
+        const { response, responseTime: retrySapResponseTime } = await sendToSap(retryFullPath, retryHeaders);
 
-        // Check if response explicitly has no content
-        const retryContentLength = response.headers.get('content-length');
-        if (retryContentLength === '0') {
-          return { success: true, __sapResponseTime: retrySapResponseTime };
-        }
-
-        // Check content type - $count returns text/plain with just a number
-        const retryContentType = response.headers.get('content-type') || '';
-        if (retryContentType.includes('text/plain') || requestOptions.path.endsWith('/$count')) {
-          const textResponse = await response.text();
-          const count = parseInt(textResponse.trim(), 10);
-          return { count, __sapResponseTime: retrySapResponseTime };
-        }
-
-        const rawJson = await response.json();
-        const processedData = sapClient.processResponse(rawJson, requestOptions);
-
-        // Attach timing info to the response if it's an object
-        if (processedData && typeof processedData === 'object') {
-          (processedData as any).__sapResponseTime = retrySapResponseTime;
-        }
-
-        return processedData;
+        return await sapClient.parseResponse(response, requestOptions, retrySapResponseTime);
       }
 
       // If OAuth token is rejected (401), invalidate cache and retry once
@@ -294,11 +290,12 @@ export const sapClient = {
           grantType: authConfig.grantType || 'client_credentials',
           assertion: authConfig.assertion,
         };
-        const newAccessToken = await oauthTokenService.getToken(oauthConfig, cacheKey);
+        const newAccessToken = await tracing.trace('OAuth token', trace, () => oauthTokenService.getToken(oauthConfig, cacheKey));
 
         const retryHeaders: Record<string, string> = {
           'Content-Type': 'application/json',
           'Accept': 'application/json',
+          ...requestOptions.headers,
           'Authorization': `Bearer ${newAccessToken}`,
         };
 
@@ -308,48 +305,77 @@ export const sapClient = {
           ? `${normalizedPath}?${oauthRetryQueryString}`
           : normalizedPath;
 
-        const retrySapStart = Date.now();
-        const response = await ky(oauthRetryFullPath, {
-          prefixUrl: normalizedBaseUrl,
-          method: requestOptions.method,
-          headers: retryHeaders,
-          json: requestOptions.body
-        });
-        const retrySapEnd = Date.now();
-        const retrySapResponseTime = retrySapEnd - retrySapStart;
+        const { response, responseTime: retrySapResponseTime } = await sendToSap(oauthRetryFullPath, retryHeaders);
 
-        // Handle 204 No Content (common for DELETE operations)
-        if (response.status === 204) {
-          return { success: true, __sapResponseTime: retrySapResponseTime };
-        }
+        return await sapClient.parseResponse(response, requestOptions, retrySapResponseTime);
+      }
 
-        // Check if response explicitly has no content
-        const oauthRetryContentLength = response.headers.get('content-length');
-        if (oauthRetryContentLength === '0') {
-          return { success: true, __sapResponseTime: retrySapResponseTime };
-        }
+      // Try to parse OData error from response
+      throw await sapClient.handleError(error);
+    }
+  },
 
-        // Check content type - $count returns text/plain with just a number
-        const oauthRetryContentType = response.headers.get('content-type') || '';
-        if (oauthRetryContentType.includes('text/plain') || requestOptions.path.endsWith('/$count')) {
-          const textResponse = await response.text();
-          const count = parseInt(textResponse.trim(), 10);
-          return { count, __sapResponseTime: retrySapResponseTime };
-        }
+  /**
+   * Read a SAP response into the proxy result format
+   * Attaches internal fields consumed by the routes:
+   * - __sapResponseTime: SAP round-trip time in ms
+   * - __etag: ETag response header (optimistic concurrency)
+   * - __sapHeaders: correlation headers of the response
+   * - __media: binary response of a media request (see SapMediaResponse)
+   */
+  parseResponse: async (response: Response, options: SapRequestOptions, sapResponseTime: number) => {
+    const etag = response.headers.get('etag') || undefined;
+    const sapHeaders = correlationHeaders(response.headers);
 
-        const rawJson = await response.json();
-        const processedData = sapClient.processResponse(rawJson, requestOptions);
+    // Handle 204 No Content (common for DELETE and PATCH operations)
+    if (response.status === 204) {
+      return { success: true, __sapResponseTime: sapResponseTime, __etag: etag, __sapHeaders: sapHeaders };
+    }
 
-        if (processedData && typeof processedData === 'object') {
-          (processedData as any).__sapResponseTime = retrySapResponseTime;
-        }
+    // Binary content is handed to the route as a stream - never buffered or parsed
+    const mediaType = response.headers.get('content-type') || 'application/octet-stream';
+    if (options.media && !mediaType.includes('json')) {
+      const mediaLength = response.headers.get('content-length');
+      const media: SapMediaResponse = {
+        body: response.body,
+        contentType: mediaType,
+        contentLength: mediaLength ? parseInt(mediaLength, 10) : undefined,
+        contentDisposition: response.headers.get('content-disposition') || undefined,
+      };
+      return { __media: media, __sapResponseTime: sapResponseTime, __etag: etag, __sapHeaders: sapHeaders };
+    }
 
-        return processedData;
-      }
+    // Check if response explicitly has no content
+    // Note: Missing content-length header does NOT mean empty - servers may use chunked encoding
+    const contentLength = response.headers.get('content-length');
+    if (contentLength === '0') {
+      // Explicitly empty response body - return success
+      return { success: true, __sapResponseTime: sapResponseTime, __etag: etag, __sapHeaders: sapHeaders };
+    }
 
-      // Try to parse OData error from response
-      throw await sapClient.handleError(error);
+    // Check content type - $count returns text/plain with just a number
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/plain') || options.path.endsWith('/$count')) {
+      const textResponse = await response.text();
+      const count = parseInt(textResponse.trim(), 10);
+      return { count, __sapResponseTime: sapResponseTime, __sapHeaders: sapHeaders };
+    }
+
+    const rawJson = await response.json();
+    const processedData = sapClient.processResponse(rawJson, options);
+
+    // Attach timing, ETag and correlation info to the response if it's an object
+    if (processedData && typeof processedData === 'object') {
+      (processedData as any).__sapResponseTime = sapResponseTime;
+      if (etag) {
+        (processedData as any).__etag = etag;
+      }
+      if (sapHeaders) {
+        (processedData as any).__sapHeaders = sapHeaders;
+      }
     }
+
+    return processedData;
   },
 
   /**
@@ -396,6 +422,7 @@ export const sapClient = {
         enhancedError.status = error.response.status;
         enhancedError.odataError = odataError;
         enhancedError.rawErrorResponse = errorJson; // Keep raw response for debugging
+        enhancedError.sapHeaders = correlationHeaders(error.response.headers);
 
         // Log the actual error response for debugging
         console.error('SAP error response:', {
@@ -411,6 +438,7 @@ export const sapClient = {
         console.error('Failed to parse error response:', parseError);
         const enhancedError = new Error(error.message || 'Request failed') as any;
         enhancedError.status = error.response.status;
+        enhancedError.sapHeaders = correlationHeaders(error.response.headers);
         enhancedError.odataError = {
           code: 'PARSE_ERROR',
           message: `Failed to parse error response: ${parseError instanceof Error ? parseError.message : String(parseError)}`
@@ -424,19 +452,21 @@ export const sapClient = {
   /**
    * Get CSRF token using a custom cache key
    * Used when auth is resolved from instanceService instead of instance
+   * @param trace - Parent span of the token fetch (cache hits are not traced)
    */
-  getCsrfTokenForUrl: async (cacheKey: string, baseUrl: string, authHeader: string) => {
+  getCsrfTokenForUrl: async (cacheKey: string, baseUrl: string, authHeader: string, trace?: SpanContext) => {
     const cached = await redis.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await ky.head('', {
+      const response = await tracing.trace('SAP CSRF token', trace, (span) => ky.head('', {
         prefixUrl: baseUrl,
         headers: {
           'Authorization': authHeader,
-          'X-CSRF-Token': 'Fetch'
+          'X-CSRF-Token': 'Fetch',
+          'traceparent': span.traceparent,
         }
-      });
+      }), 'client');
 
       const token = response.headers.get('x-csrf-token');
       if (token) {
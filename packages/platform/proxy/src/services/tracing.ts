@@ -0,0 +1,251 @@
+/**
+ * Tracing Service - W3C trace context and OTLP span export
+ *
+ * Continues traces started by SDK clients (traceparent header) and forwards
+ * them to SAP. Spans are exported as OTLP/HTTP JSON, so any OpenTelemetry
+ * collector (Jaeger, Tempo, ...) can receive them.
+ *
+ * Configuration (standard OpenTelemetry variables):
+ * - OTEL_TRACES_EXPORTER: 'otlp' | 'console' | 'none'
+ *   (default: 'otlp' when an endpoint is set, otherwise 'none')
+ * - OTEL_EXPORTER_OTLP_ENDPOINT: collector base URL, e.g. http://localhost:4318
+ * - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: full traces URL (overrides the base URL)
+ * - OTEL_EXPORTER_OTLP_HEADERS: extra headers, e.g. "Authorization=Bearer xyz,X-Scope-OrgID=s4kit"
+ * - OTEL_SERVICE_NAME: service.name resource attribute (default: s4kit-proxy)
+ */
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+// Export buffer limits
+const MAX_QUEUE_SIZE = 2048;
+const MAX_EXPORT_BATCH_SIZE = 512;
+const EXPORT_INTERVAL = 5000;
+
+const serviceName = process.env.OTEL_SERVICE_NAME || 's4kit-proxy';
+const otlpEndpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+    ? `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces`
+    : undefined);
+const exporter = (process.env.OTEL_TRACES_EXPORTER || (otlpEndpoint ? 'otlp' : 'none')).toLowerCase();
+
+/** OTLP span kinds */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+type AttributeValue = string | number | boolean;
+
+/** Identity of a span, as carried by a traceparent header */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * One timed operation of a trace
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId = randomHex(8);
+  readonly parentSpanId?: string;
+  readonly sampled: boolean;
+  readonly attributes: Record<string, AttributeValue> = {};
+  private readonly startTime = Date.now();
+  private endTime?: number;
+  private error?: string;
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    parent?: SpanContext
+  ) {
+    this.traceId = parent?.traceId ?? randomHex(16);
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+  }
+
+  /** W3C traceparent header continuing the trace from this span */
+  get traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-${this.sampled ? '01' : '00'}`;
+  }
+
+  setAttribute(key: string, value: AttributeValue | null | undefined): this {
+    if (value !== undefined && value !== null) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | null | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+    return this;
+  }
+
+  /** Mark the span as failed */
+  setError(error: unknown): this {
+    this.error = error instanceof Error ? error.message : String(error);
+    // S4Kit/OData errors carry `status`, ky HTTP errors their `response`
+    const failure = error as { status?: unknown; response?: { status?: unknown } } | undefined;
+    const status = failure?.status ?? failure?.response?.status;
+    if (typeof status === 'number') this.setAttribute('http.response.status_code', status);
+    return this;
+  }
+
+  end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = Date.now();
+    if (this.sampled) enqueue(this);
+  }
+
+  /** OTLP JSON representation */
+  toOtlp() {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: OTLP_SPAN_KIND[this.kind],
+      startTimeUnixNano: `${this.startTime}000000`,
+      endTimeUnixNano: `${this.endTime ?? Date.now()}000000`,
+      attributes: Object.entries(this.attributes).map(([key, value]) => ({ key, value: otlpValue(value) })),
+      // 1 = OK, 2 = ERROR
+      status: this.error ? { code: 2, message: this.error } : { code: 1 },
+    };
+  }
+
+  /** Single-line form for the console exporter */
+  toString(): string {
+    const duration = (this.endTime ?? Date.now()) - this.startTime;
+    const parent = this.parentSpanId ? ` parent=${this.parentSpanId}` : '';
+    const error = this.error ? ` error="${this.error}"` : '';
+    return `[trace] ${this.name} ${duration}ms trace=${this.traceId} span=${this.spanId}${parent}${error} ${JSON.stringify(this.attributes)}`;
+  }
+}
+
+function otlpValue(value: AttributeValue) {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const queue: Span[] = [];
+let exportTimer: ReturnType<typeof setInterval> | undefined;
+
+function parseHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+function enqueue(span: Span): void {
+  if (exporter === 'console') {
+    console.log(span.toString());
+    return;
+  }
+  if (exporter !== 'otlp' || !otlpEndpoint) return;
+
+  // Drop spans rather than grow without bound when the collector is unreachable
+  if (queue.length >= MAX_QUEUE_SIZE) return;
+  queue.push(span);
+
+  if (!exportTimer) {
+    exportTimer = setInterval(() => void flush(), EXPORT_INTERVAL);
+    exportTimer.unref?.();
+  }
+  if (queue.length >= MAX_EXPORT_BATCH_SIZE) void flush();
+}
+
+async function flush(): Promise<void> {
+  while (queue.length > 0 && otlpEndpoint) {
+    const spans = queue.splice(0, MAX_EXPORT_BATCH_SIZE);
+    try {
+      const response = await fetch(otlpEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+        },
+        body: JSON.stringify({
+          resourceSpans: [{
+            resource: { attributes: [{ key: 'service.name', value: { stringValue: serviceName } }] },
+            scopeSpans: [{ scope: { name: 's4kit-proxy' }, spans: spans.map(span => span.toOtlp()) }],
+          }],
+        }),
+      });
+      if (!response.ok) {
+        console.warn(`Failed to export ${spans.length} spans: collector responded ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to export ${spans.length} spans:`, error instanceof Error ? error.message : error);
+      return;
+    }
+  }
+}
+
+// ============================================================================
+// Tracer
+// ============================================================================
+
+export const tracing = {
+  /**
+   * Parse a W3C traceparent header
+   * @returns undefined for missing, malformed or invalid (all-zero) contexts
+   */
+  extract: (traceparent: string | undefined): SpanContext | undefined => {
+    const match = traceparent ? TRACEPARENT.exec(traceparent.trim().toLowerCase()) : null;
+    if (!match || match[1] === 'ff') return undefined;
+
+    const [, , traceId, spanId, flags] = match;
+    if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined;
+    return { traceId: traceId!, spanId: spanId!, sampled: (parseInt(flags!, 16) & 1) === 1 };
+  },
+
+  /**
+   * Start a span - a new trace when there is no parent
+   */
+  startSpan: (
+    name: string,
+    parent?: SpanContext,
+    kind: SpanKind = 'internal',
+    attributes: Record<string, AttributeValue | null | undefined> = {}
+  ): Span => new Span(name, kind, parent).setAttributes(attributes),
+
+  /**
+   * Run an async operation in a child span, recording failures
+   */
+  trace: async <T>(
+    name: string,
+    parent: SpanContext | undefined,
+    run: (span: Span) => Promise<T>,
+    kind: SpanKind = 'internal'
+  ): Promise<T> => {
+    const span = new Span(name, kind, parent);
+    try {
+      return await run(span);
+    } catch (error) {
+      span.setError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  },
+
+  /**
+   * Export queued spans now (e.g. on shutdown)
+   */
+  flush,
+};
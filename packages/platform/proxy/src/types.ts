@@ -4,8 +4,11 @@ import type {
   SystemService,
   InstanceService,
   EntityPermissions,
+  RowFilters,
+  FieldPermissions,
   SecureLogData,
 } from '@s4kit/shared/types';
+import type { Span } from './services/tracing.ts';
 
 // Re-export shared types
 export type {
@@ -14,7 +17,10 @@ export type {
   SystemService,
   InstanceService,
   EntityPermissions,
+  RowFilters,
+  FieldPermissions,
   SecureLogData,
+  LogLevel,
   ErrorCategory,
   ResolvedAuth,
 } from '@s4kit/shared/types';
@@ -26,5 +32,9 @@ export type Variables = {
   systemService: SystemService;
   instanceService: InstanceService;
   entityPermissions: EntityPermissions;
+  rowFilters: RowFilters;
+  fieldPermissions: FieldPermissions;
   logData?: SecureLogData;
+  /** Server span of the request (set by tracingMiddleware) */
+  span: Span;
 };
@@ -0,0 +1,50 @@
+import type { Context } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { isIpAllowed } from '@s4kit/shared/services';
+
+/**
+ * Parse a comma-separated list of CIDR ranges
+ */
+export function parseTrustedProxies(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(range => range.trim()).filter(Boolean);
+}
+
+/**
+ * Private and loopback ranges - where the Cloud Foundry router, the nginx container and
+ * cloud load balancers connect from. Used when TRUSTED_PROXIES isn't set.
+ */
+export const DEFAULT_TRUSTED_PROXIES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '127.0.0.0/8', '::1/128', 'fc00::/7'];
+
+// Reverse proxies/load balancers in front of the service (CIDR ranges) - only they may set
+// X-Forwarded-For. An empty TRUSTED_PROXIES trusts no one (the service is reached directly)
+const TRUSTED_PROXIES = process.env.TRUSTED_PROXIES === undefined
+  ? DEFAULT_TRUSTED_PROXIES
+  : parseTrustedProxies(process.env.TRUSTED_PROXIES);
+
+/**
+ * Address of the socket peer, undefined outside of Bun.serve (e.g. app.request in tests)
+ */
+function socketAddress(c: Context): string | undefined {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Client IP for IP allowlists and logging: the socket peer, unless that is a trusted
+ * proxy - then the rightmost X-Forwarded-For hop that isn't one. Hops further left
+ * are whatever the client sent, so they are never used.
+ */
+export function getClientIp(c: Context, trustedProxies: string[] = TRUSTED_PROXIES): string | undefined {
+  const peer = socketAddress(c);
+  if (!peer || !isIpAllowed(peer, trustedProxies)) return peer;
+
+  const hops = (c.req.header('X-Forwarded-For') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isIpAllowed(hops[i]!, trustedProxies)) return hops[i];
+  }
+  // Every hop is a trusted proxy - the first one is closest to the client
+  return hops[0] ?? peer;
+}
@@ -53,6 +53,14 @@ export function methodToOperation(method: string): SecureLogData['operation'] {
   }
 }
 
+/**
+ * Remove key predicates and parameters from a path - they may identify records
+ * e.g. "/api/proxy/A_BusinessPartner('1')/to_Address" -> "/api/proxy/A_BusinessPartner/to_Address"
+ */
+export function stripKeyPredicates(path: string): string {
+  return path.replace(/\((?:[^()']|'(?:[^']|'')*')*\)/g, '');
+}
+
 /**
  * Categorize error based on status code and error details
  */
@@ -146,3 +154,59 @@ export function sanitizeErrorMessage(message: string | undefined): string | unde
 
   return sanitized;
 }
+
+/**
+ * How literal values of logged query strings are redacted:
+ * - 'strict': every literal (strings, numbers, dates, GUIDs) and $search text
+ * - 'strings': string literals and $search text - numbers, dates and GUIDs are kept
+ * - 'none': nothing is redacted
+ */
+export type PiiPolicy = 'strict' | 'strings' | 'none';
+
+export function parsePiiPolicy(value: string | undefined): PiiPolicy {
+  return value === 'strings' || value === 'none' ? value : 'strict';
+}
+
+// Options without literal values - logged as they are
+const STRUCTURAL_OPTIONS = new Set([
+  '$select', '$orderby', '$top', '$skip', '$count', '$inlinecount', '$format', '$levels',
+]);
+
+// Options whose whole value may identify data - logged as a placeholder
+const OPAQUE_OPTIONS = new Set(['$search', '$skiptoken', '$deltatoken', '$continuation']);
+
+/**
+ * Replace the literal values of an OData expression with ***
+ * e.g. "CompanyCode eq '1010' and Amount gt 500" -> "CompanyCode eq '***' and Amount gt ***"
+ */
+export function redactLiterals(expression: string, policy: PiiPolicy): string {
+  // Quoted literals, typed ones included: 'text', datetime'...', guid'...'
+  const redacted = expression.replace(/'(?:[^']|'')*'/g, "'***'");
+  if (policy === 'strings') return redacted;
+
+  return redacted
+    // Unquoted GUIDs, dates and times (v4)
+    .replace(/\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g, '***')
+    .replace(/\b\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?/g, '***')
+    .replace(/\b\d{2}:\d{2}:\d{2}(?:\.\d+)?\b/g, '***')
+    // Numbers - not part of a name, and not the page size of a nested $expand
+    .replace(/(?<![\w.]|\$(?:top|skip|levels)=)-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[mMlLdDfF]?(?![\w.])/g, '***');
+}
+
+/**
+ * Render query options as a query string for the log, with literal values redacted
+ * according to the PII policy
+ * @returns undefined when there are no query options
+ */
+export function sanitizeQueryString(query: Record<string, string>, policy: PiiPolicy): string | undefined {
+  const parts = Object.entries(query).map(([name, value]) => {
+    if (policy === 'none' || STRUCTURAL_OPTIONS.has(name)) return `${name}=${value}`;
+    if (OPAQUE_OPTIONS.has(name)) return `${name}=***`;
+    // $filter, $expand, $apply, and function or custom parameters
+    return `${name}=${redactLiterals(value, policy)}`;
+  });
+  if (parts.length === 0) return undefined;
+
+  const queryString = parts.join('&');
+  return queryString.length > 2000 ? queryString.substring(0, 2000) : queryString;
+}
@@ -0,0 +1,109 @@
+/**
+ * Test data for proxy tests - API keys, services and access grants
+ *
+ * Access grants and service models are put into the (in-memory) Redis cache,
+ * where the proxy looks them up before touching the database.
+ */
+
+import { testRedis } from './mock-deps.ts';
+import type { ApiKey, Instance, SystemService, InstanceService, EntityPermissions, RowFilters, FieldPermissions } from '../../src/types.ts';
+import type { ResolvedAccess } from '../../src/services/access-resolver.ts';
+import type { ServiceModel } from '../../src/services/metadata-cache.ts';
+
+export const testApiKey = {
+  id: '00000000-0000-4000-8000-000000000001',
+  organizationId: '00000000-0000-4000-8000-000000000002',
+  keyHash: 'hash',
+  keyPrefix: 's4k_live_test',
+  keyLast4: 'abcd',
+  name: 'Test key',
+  description: null,
+  rateLimitPerMinute: 1000,
+  rateLimitPerDay: 100000,
+  allowedIps: null,
+  logLevel: null,
+  expiresAt: null,
+  revoked: false,
+  revokedAt: null,
+  revokedReason: null,
+  createdAt: new Date(),
+  createdBy: null,
+  lastUsedAt: null,
+  usageCount: 0,
+} as unknown as ApiKey;
+
+export interface TestService {
+  instance: Instance;
+  systemService: SystemService;
+  instanceService: InstanceService;
+}
+
+let counter = 0;
+
+/**
+ * A service of a system with one instance
+ */
+export function testService(alias: string, options: { odataVersion?: 'v2' | 'v4'; entities?: string[] } = {}): TestService {
+  const n = String(++counter).padStart(12, '0');
+  const systemService = {
+    id: `10000000-0000-4000-8000-${n}`,
+    systemId: `20000000-0000-4000-8000-${n}`,
+    alias,
+    name: alias,
+    servicePath: `/sap/opu/odata/sap/${alias}`,
+    entities: options.entities ?? [],
+    odataVersion: options.odataVersion ?? 'v4',
+    authConfigId: null,
+  } as unknown as SystemService;
+  const instance = {
+    id: `30000000-0000-4000-8000-${n}`,
+    systemId: systemService.systemId,
+    environment: 'sandbox',
+    baseUrl: `https://${alias.toLowerCase()}.sap.example.com`,
+    authConfigId: null,
+  } as unknown as Instance;
+  const instanceService = {
+    id: `40000000-0000-4000-8000-${n}`,
+    instanceId: instance.id,
+    systemServiceId: systemService.id,
+    servicePathOverride: null,
+    entities: null,
+    authConfigId: null,
+  } as unknown as InstanceService;
+
+  return { instance, systemService, instanceService };
+}
+
+/**
+ * Grant the test key access to a service (cached like the access resolver does)
+ */
+export async function grantAccess(
+  service: TestService,
+  permissions: EntityPermissions,
+  restrictions: { rowFilters?: RowFilters; fieldPermissions?: FieldPermissions } = {}
+): Promise<ResolvedAccess> {
+  const grant: ResolvedAccess = {
+    ...service,
+    permissions,
+    rowFilters: restrictions.rowFilters ?? {},
+    fieldPermissions: restrictions.fieldPermissions ?? {},
+  };
+  for (const serviceKey of [service.systemService.id, service.systemService.alias]) {
+    await testRedis.set(`access:${testApiKey.id}:${serviceKey}:default`, JSON.stringify(grant));
+  }
+  return grant;
+}
+
+/**
+ * Service model of a service, as built from its $metadata
+ */
+export async function cacheServiceModel(service: TestService, model: Partial<ServiceModel>): Promise<void> {
+  await testRedis.set(`service-model:${service.instanceService.id}`, JSON.stringify({
+    navigation: {},
+    operations: { unbound: {}, bound: {} },
+    keys: {},
+    streams: {},
+    mediaEntitySets: [],
+    ...model,
+  }));
+}
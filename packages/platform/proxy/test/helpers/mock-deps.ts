@@ -0,0 +1,64 @@
+/**
+ * Test doubles for the proxy's database and Redis clients
+ *
+ * Proxy modules import `db` and `redis` from src/index.ts, which also connects to both
+ * and starts the server. Call mockProxyDeps() before importing any proxy module
+ * (with a dynamic import) so they get these in-memory versions instead.
+ */
+
+import { mock } from 'bun:test';
+
+/** Entries written to request_logs */
+export const requestLogEntries: Record<string, unknown>[] = [];
+
+const store = new Map<string, string>();
+
+/** In-memory Redis - plain keys only, rate limit counters always report one request */
+export const testRedis = {
+  get: async (key: string) => store.get(key) ?? null,
+  set: async (key: string, value: string) => {
+    store.set(key, value);
+    return 'OK';
+  },
+  del: async (...keys: string[]) => keys.filter(key => store.delete(key)).length,
+  keys: async (pattern: string) => {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return [...store.keys()].filter(key => regex.test(key));
+  },
+  pipeline: () => {
+    const commands: unknown[] = [];
+    const pipeline = {
+      zremrangebyscore: () => (commands.push(0), pipeline),
+      zadd: () => (commands.push(1), pipeline),
+      zcard: () => (commands.push(1), pipeline),
+      expire: () => (commands.push(1), pipeline),
+      exec: async () => commands.map(result => [null, result]),
+    };
+    return pipeline;
+  },
+  clear: () => store.clear(),
+};
+
+/** Database with the queries the proxy runs outside cached paths */
+export const testDb = {
+  insert: () => ({
+    values: async (entry: Record<string, unknown>) => {
+      requestLogEntries.push(entry);
+    },
+  }),
+  query: {
+    organizations: { findFirst: async () => ({ defaultLogLevel: 'standard' }) },
+    authConfigurations: { findFirst: async () => undefined },
+  },
+};
+
+/**
+ * Replace src/index.ts with the test doubles
+ */
+export function mockProxyDeps(): void {
+  process.env.ENCRYPTION_KEY ??= '0'.repeat(64);
+  mock.module(new URL('../../src/index.ts', import.meta.url).pathname, () => ({
+    db: testDb,
+    redis: testRedis,
+  }));
+}
@@ -0,0 +1,163 @@
+/**
+ * Fake SAP OData endpoint for proxy tests - replaces global fetch, records what the
+ * proxy sends and answers $batch requests part by part
+ */
+
+import { mock } from 'bun:test';
+
+/** One request of a $batch body */
+export interface BatchRequestPart {
+  contentId?: string;
+  method: string;
+  /** Path relative to the service root, with the query string */
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/** Top-level part of a $batch body: a changeset, or a single read */
+export interface BatchRequestGroup {
+  changeset: boolean;
+  parts: BatchRequestPart[];
+}
+
+export interface BatchResponsePart {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  contentId?: string;
+}
+
+/** Request received by the fake SAP system */
+export interface SapRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: string;
+}
+
+export const sapRequests: SapRequest[] = [];
+
+const originalFetch = globalThis.fetch;
+
+function boundaryOf(contentType: string): string {
+  return /boundary=([^;,\s]+)/i.exec(contentType)![1]!;
+}
+
+function splitParts(body: string, boundary: string): string[] {
+  return body.split(`--${boundary}`).slice(1, -1).map(part => part.replace(/^\r\n/, ''));
+}
+
+function parseRequestPart(part: string): BatchRequestPart {
+  const [envelope = '', request = ''] = part.split(/\r\n\r\n(?=(?:GET|POST|PUT|PATCH|DELETE) )/);
+  const contentId = /^Content-ID: (.+)$/im.exec(envelope)?.[1];
+  const [head = '', ...rest] = request.split('\r\n\r\n');
+  const [requestLine = '', ...headerLines] = head.split('\r\n');
+  const [method = '', path = ''] = requestLine.split(' ');
+  const text = rest.join('\r\n\r\n').trim();
+
+  return {
+    contentId,
+    method,
+    path,
+    headers: Object.fromEntries(headerLines.map(line => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator), line.slice(separator + 1).trim()];
+    })),
+    body: text ? JSON.parse(text) : undefined,
+  };
+}
+
+/**
+ * Parse a multipart $batch request body into its top-level parts
+ */
+export function parseBatchRequest(body: string, contentType: string): BatchRequestGroup[] {
+  return splitParts(body, boundaryOf(contentType)).map(part => {
+    const changeset = /^Content-Type: multipart\/mixed; boundary=(\S+)/i.exec(part);
+    if (!changeset) return { changeset: false, parts: [parseRequestPart(part)] };
+    return { changeset: true, parts: splitParts(part, changeset[1]!).map(parseRequestPart) };
+  });
+}
+
+function responsePart(part: BatchResponsePart): string {
+  const headers = { 'Content-Type': 'application/json', ...part.headers };
+  return [
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    ...(part.contentId ? [`Content-ID: ${part.contentId}`] : []),
+    '',
+    `HTTP/1.1 ${part.status} ${part.status < 400 ? 'OK' : 'Error'}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part.body === undefined ? '' : JSON.stringify(part.body),
+  ].join('\r\n');
+}
+
+/**
+ * Multipart $batch response - each group becomes a changeset, or a plain part
+ */
+export function batchResponse(groups: Array<{ changeset: boolean; parts: BatchResponsePart[] }>): Response {
+  const lines: string[] = [];
+  groups.forEach((group, i) => {
+    lines.push('--batch_response');
+    if (!group.changeset) {
+      lines.push(responsePart(group.parts[0]!));
+      return;
+    }
+    lines.push(`Content-Type: multipart/mixed; boundary=changeset_response_${i}`, '');
+    for (const part of group.parts) lines.push(`--changeset_response_${i}`, responsePart(part));
+    lines.push(`--changeset_response_${i}--`);
+  });
+  lines.push('--batch_response--');
+
+  return new Response(lines.join('\r\n'), {
+    headers: { 'Content-Type': 'multipart/mixed; boundary=batch_response' },
+  });
+}
+
+/**
+ * Route every fetch to a handler
+ */
+export function mockSap(handler: (request: SapRequest) => Response | Promise<Response>): void {
+  globalThis.fetch = mock(async (input: Request | string | URL, init?: RequestInit) => {
+    const request = typeof input === 'string' || input instanceof URL ? new Request(input.toString(), init) : new Request(input, init);
+    const sapRequest: SapRequest = {
+      method: request.method,
+      url: new URL(request.url),
+      headers: request.headers,
+      body: await request.text(),
+    };
+    sapRequests.push(sapRequest);
+    return handler(sapRequest);
+  }) as unknown as typeof fetch;
+}
+
+/**
+ * Answer $batch requests one part at a time, keeping the changesets of the request
+ */
+export function mockSapBatch(answer: (part: BatchRequestPart, group: BatchRequestGroup) => BatchResponsePart): void {
+  mockSap(request => {
+    const groups = parseBatchRequest(request.body, request.headers.get('content-type') ?? '');
+    return batchResponse(groups.map(group => ({
+      changeset: group.changeset,
+      parts: group.parts.map(part => ({ contentId: part.contentId, ...answer(part, group) })),
+    })));
+  });
+}
+
+/**
+ * $batch requests the fake SAP system received, parsed
+ */
+export function sentBatches(): Array<{ url: URL; groups: BatchRequestGroup[] }> {
+  return sapRequests
+    .filter(request => request.url.pathname.endsWith('/$batch'))
+    .map(request => ({ url: request.url, groups: parseBatchRequest(request.body, request.headers.get('content-type') ?? '') }));
+}
+
+/**
+ * Forget recorded requests and restore the real fetch
+ */
+export function resetSap(): void {
+  sapRequests.length = 0;
+  globalThis.fetch = originalFetch;
+}
@@ -0,0 +1,343 @@
+/**
+ * Unit tests for the batch route
+ *
+ * Runs the route against a fake SAP $batch endpoint, with the API key, access
+ * grants and service models served from the in-memory cache.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mockProxyDeps, testRedis } from '../../helpers/mock-deps.ts';
+import { testApiKey, testService, grantAccess, cacheServiceModel } from '../../helpers/fixtures.ts';
+import { mockSap, mockSapBatch, batchResponse, parseBatchRequest, sentBatches, sapRequests, resetSap } from '../../helpers/sap.ts';
+
+mockProxyDeps();
+const { default: batchRoute } = await import('../../../src/routes/batch.ts');
+const { apiKeyService } = await import('../../../src/services/api-key.ts');
+const { accessResolver } = await import('../../../src/services/access-resolver.ts');
+
+const salesOrders = testService('API_SALES_ORDER_SRV', { entities: ['A_SalesOrder', 'A_SalesOrderItem'] });
+const businessPartners = testService('API_BUSINESS_PARTNER', { odataVersion: 'v2', entities: ['A_BusinessPartner'] });
+
+function postBatch(body: unknown, headers: Record<string, string> = {}) {
+  return batchRoute.request('/', {
+    method: 'POST',
+    headers: { 'Authorization': 'Bearer s4k_live_test_key', 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(async () => {
+  spyOn(console, 'log').mockImplementation(() => {});
+  spyOn(apiKeyService, 'validateKey').mockResolvedValue({ valid: true, apiKey: testApiKey });
+  spyOn(accessResolver, 'findServiceByEntityForApiKey').mockImplementation(async (_keyId, _orgId, entity) =>
+    [salesOrders, businessPartners].find(service => service.systemService.entities?.includes(entity))?.systemService ?? null
+  );
+  await grantAccess(salesOrders, { '*': ['read', 'create', 'update', 'delete'] });
+  await grantAccess(businessPartners, { '*': ['read', 'create', 'update', 'delete'] });
+  mockSapBatch(part => ({ status: part.method === 'POST' ? 201 : 204, body: part.method === 'POST' ? part.body : undefined }));
+});
+
+afterEach(() => {
+  resetSap();
+  testRedis.clear();
+});
+
+describe('ETags', () => {
+  test('forwards the ETag of an operation as If-Match', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'PATCH', entity: 'A_SalesOrder', id: '1', data: { PurchaseOrderByCustomer: 'PO-1' }, etag: 'W/"20240101"' }],
+    });
+
+    expect(res.status).toBe(200);
+    const [part] = sentBatches()[0]!.groups[0]!.parts;
+    expect(part!.headers['If-Match']).toBe('W/"20240101"');
+  });
+
+  test('accepts the * wildcard', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'DELETE', entity: 'A_SalesOrder', id: '1', etag: '*' }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(sentBatches()[0]!.groups[0]!.parts[0]!.headers['If-Match']).toBe('*');
+  });
+
+  test.each([
+    ['CR/LF header injection', '"1"\r\nX-Injected: true'],
+    ['request injection', '"1"\r\n\r\nDELETE A_SalesOrder(\'2\') HTTP/1.1'],
+    ['unquoted tag', '20240101'],
+    ['empty tag', ''],
+  ])('rejects a malformed ETag (%s) without calling SAP', async (_name, etag) => {
+    const res = await postBatch({
+      operations: [{ method: 'PATCH', entity: 'A_SalesOrder', id: '1', data: {}, etag }],
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+    expect(sentBatches()).toHaveLength(0);
+  });
+});
+
+describe('query options', () => {
+  test('encodes names and values of query options in the request line', async () => {
+    const res = await postBatch({
+      operations: [{
+        method: 'GET',
+        entity: 'A_SalesOrder',
+        query: { $filter: "SoldToParty eq 'A B'", '$top HTTP/1.1\r\nX-Injected: true\r\n\r\nGET A_SalesOrder': '1' },
+      }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(sentBatches()[0]!.groups[0]!.parts[0]!.path).toBe(
+      "A_SalesOrder?$filter=SoldToParty%20eq%20'A%20B'&$top%20HTTP%2F1.1%0D%0AX-Injected%3A%20true%0D%0A%0D%0AGET%20A_SalesOrder=1"
+    );
+    expect(sapRequests[0]!.body).not.toContain('X-Injected: true');
+  });
+});
+
+describe('changesets', () => {
+  beforeEach(async () => {
+    await cacheServiceModel(salesOrders, {
+      navigation: { A_SalesOrder: { to_Item: ['A_SalesOrderItem'] } },
+    });
+  });
+
+  test('groups operations by changeset and keeps their Content-IDs', async () => {
+    const res = await postBatch({
+      atomic: true,
+      operations: [
+        { method: 'POST', entity: 'A_SalesOrder', data: { SalesOrderType: 'OR' }, changeset: 0 },
+        { method: 'POST', entity: '$1/to_Item', data: { Material: 'TG11' }, changeset: 0 },
+        { method: 'PATCH', entity: 'A_SalesOrder', id: '2', data: { PurchaseOrderByCustomer: 'PO-2' }, changeset: 1, contentId: 'po' },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    const [batch] = sentBatches();
+    expect(batch!.groups.map(group => group.changeset)).toEqual([true, true]);
+    expect(batch!.groups.map(group => group.parts.map(part => [part.contentId, part.method, part.path]))).toEqual([
+      [['1', 'POST', 'A_SalesOrder'], ['2', 'POST', '$1/to_Item']],
+      [['po', 'PATCH', "A_SalesOrder('2')"]],
+    ]);
+    expect(await res.json()).toEqual([
+      { success: true, status: 201, data: { SalesOrderType: 'OR' }, changeset: 0 },
+      { success: true, status: 201, data: { Material: 'TG11' }, changeset: 0 },
+      { success: true, status: 204, changeset: 1 },
+    ]);
+  });
+
+  test('fails all operations of a failed changeset, and only those', async () => {
+    mockSapBatch(part => part.method === 'PATCH'
+      ? { status: 412, body: { error: { code: 'PRECONDITION_FAILED', message: 'ETag mismatch' } } }
+      : { status: part.method === 'POST' ? 201 : 204, body: part.method === 'POST' ? part.body : undefined });
+
+    const res = await postBatch({
+      atomic: true,
+      operations: [
+        { method: 'POST', entity: 'A_SalesOrder', data: { SalesOrderType: 'OR' }, changeset: 0 },
+        { method: 'DELETE', entity: 'A_SalesOrder', id: '3', changeset: 1 },
+        { method: 'PATCH', entity: 'A_SalesOrder', id: '2', data: {}, etag: '"1"', changeset: 1 },
+      ],
+    });
+
+    const results = await res.json() as Array<{ success: boolean; status: number; changeset: number }>;
+    expect(results.map(r => [r.success, r.status, r.changeset])).toEqual([[true, 201, 0], [false, 412, 1], [false, 412, 1]]);
+  });
+
+  test('matches responses by Content-ID when SAP answers without changeset envelopes', async () => {
+    mockSap(request => {
+      const parts = parseBatchRequest(request.body, request.headers.get('content-type') ?? '').flatMap(group => group.parts);
+      // Flat response, second changeset first
+      return batchResponse([...parts].reverse().map(part => ({
+        changeset: false,
+        parts: [{ status: 201, contentId: part.contentId, body: part.body }],
+      })));
+    });
+
+    const res = await postBatch({
+      atomic: true,
+      operations: [
+        { method: 'POST', entity: 'A_SalesOrder', data: { SalesOrderType: 'OR' }, changeset: 0 },
+        { method: 'POST', entity: 'A_SalesOrder', data: { SalesOrderType: 'CR' }, changeset: 1 },
+      ],
+    });
+
+    expect(await res.json()).toMatchObject([
+      { success: true, data: { SalesOrderType: 'OR' }, changeset: 0 },
+      { success: true, data: { SalesOrderType: 'CR' }, changeset: 1 },
+    ]);
+  });
+
+  test.each([
+    ['in a non-atomic batch', false, 0],
+    ['to another changeset', true, 1],
+  ])('rejects a Content-ID reference %s', async (_name, atomic, changeset) => {
+    const res = await postBatch({
+      atomic,
+      operations: [
+        { method: 'POST', entity: 'A_SalesOrder', data: {}, changeset: 0 },
+        { method: 'POST', entity: '$1/to_Item', data: {}, changeset },
+      ],
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+    expect(sentBatches()).toHaveLength(0);
+  });
+});
+
+describe('cross-service batches', () => {
+  beforeEach(() => {
+    // Every part answers with the service and path it was sent to
+    mockSap(request => batchResponse(
+      parseBatchRequest(request.body, request.headers.get('content-type') ?? '').map(group => ({
+        changeset: group.changeset,
+        parts: group.parts.map(part => ({
+          status: part.method === 'POST' ? 201 : 200,
+          contentId: part.contentId,
+          body: { sentTo: `${request.url.host} ${part.method} ${part.path}` },
+        })),
+      }))
+    ));
+  });
+
+  test('sends one $batch per service and merges the results in request order', async () => {
+    const res = await postBatch({
+      operations: [
+        { method: 'GET', entity: 'A_BusinessPartner', id: '1' },
+        { method: 'GET', entity: 'A_SalesOrder', id: '2' },
+        { method: 'POST', entity: 'A_SalesOrder', data: {} },
+        { method: 'GET', entity: 'A_BusinessPartner', id: '3' },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    const batches = sentBatches().sort((a, b) => a.url.host.localeCompare(b.url.host));
+    expect(batches.map(batch => [batch.url.href, batch.groups.flatMap(group => group.parts.map(part => part.path))])).toEqual([
+      ['https://api_business_partner.sap.example.com/sap/opu/odata/sap/API_BUSINESS_PARTNER/$batch', ["A_BusinessPartner('1')", "A_BusinessPartner('3')"]],
+      ['https://api_sales_order_srv.sap.example.com/sap/opu/odata/sap/API_SALES_ORDER_SRV/$batch', ["A_SalesOrder('2')", 'A_SalesOrder']],
+    ]);
+
+    const results = await res.json() as Array<{ data: { sentTo: string } }>;
+    expect(results.map(result => result.data.sentTo)).toEqual([
+      "api_business_partner.sap.example.com GET A_BusinessPartner('1')",
+      "api_sales_order_srv.sap.example.com GET A_SalesOrder('2')",
+      'api_sales_order_srv.sap.example.com POST A_SalesOrder',
+      "api_business_partner.sap.example.com GET A_BusinessPartner('3')",
+    ]);
+  });
+
+  test('rejects an atomic batch that spans services without calling SAP', async () => {
+    const res = await postBatch({
+      atomic: true,
+      operations: [
+        { method: 'POST', entity: 'A_SalesOrder', data: {} },
+        { method: 'PATCH', entity: 'A_BusinessPartner', id: '1', data: {} },
+      ],
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'CROSS_SERVICE_TRANSACTION' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('rejects operations on entities of no granted service', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'GET', entity: 'A_Product' }],
+    });
+
+    expect(res.status).toBe(404);
+    expect(sapRequests).toHaveLength(0);
+  });
+});
+
+describe('navigation permissions', () => {
+  test('rejects reads whose $filter reaches an entity set without read permission', async () => {
+    await grantAccess(salesOrders, { A_SalesOrder: ['read'] });
+    await cacheServiceModel(salesOrders, {
+      navigation: { A_SalesOrder: { to_Item: ['A_SalesOrderItem'] } },
+    });
+
+    const res = await postBatch({
+      operations: [{ method: 'GET', entity: 'A_SalesOrder', query: { $filter: 'to_Item/any(i: i/Material eq \'TG11\')' } }],
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: { code: 'FORBIDDEN' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+});
+
+describe('row filters', () => {
+  beforeEach(async () => {
+    await grantAccess(salesOrders, { '*': ['read', 'create', 'update', 'delete'] }, {
+      rowFilters: { A_SalesOrder: "SalesOrganization eq '1010'" },
+    });
+    await cacheServiceModel(salesOrders, { keys: { A_SalesOrder: ['SalesOrder'] } });
+  });
+
+  test('ANDs the row filter into the filter of collection reads', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'GET', entity: 'A_SalesOrder', query: { $filter: "SoldToParty eq 'A'" } }],
+    });
+
+    expect(res.status).toBe(200);
+    const path = sentBatches()[0]!.groups[0]!.parts[0]!.path;
+    expect(new URLSearchParams(path.split('?')[1]).get('$filter')).toBe("(SalesOrganization eq '1010') and (SoldToParty eq 'A')");
+  });
+
+  test('filters before $apply aggregates', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'GET', entity: 'A_SalesOrder', query: { $apply: 'topcount(5,TotalNetAmount)' } }],
+    });
+
+    expect(res.status).toBe(200);
+    const path = sentBatches()[0]!.groups[0]!.parts[0]!.path;
+    expect(new URLSearchParams(path.split('?')[1]).get('$apply')).toBe("filter(SalesOrganization eq '1010')/topcount(5,TotalNetAmount)");
+  });
+
+  test('rejects a client filter that escapes its parentheses', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'GET', entity: 'A_SalesOrder', query: { $filter: "SoldToParty eq 'A') or (true" } }],
+    });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'INVALID_FILTER' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('rejects new records outside the filter', async () => {
+    const res = await postBatch({
+      operations: [{ method: 'POST', entity: 'A_SalesOrder', data: { SalesOrganization: '1020' } }],
+    });
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      error: { details: ["Operation 1: row filter of entity 'A_SalesOrder' excludes the new record"] },
+    });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('pre-reads records addressed by key before sending the batch', async () => {
+    mockSap(() => Response.json({ value: [] }));
+
+    const res = await postBatch({
+      operations: [{ method: 'DELETE', entity: 'A_SalesOrder', id: '1' }],
+    });
+
+    expect(res.status).toBe(403);
+    expect(sapRequests.map(request => request.url.pathname)).toEqual(['/sap/opu/odata/sap/API_SALES_ORDER_SRV/A_SalesOrder']);
+  });
+
+  test('escapes quotes of keys in the pre-read filter', async () => {
+    mockSap(() => Response.json({ value: [] }));
+
+    const res = await postBatch({
+      operations: [{ method: 'PATCH', entity: 'A_SalesOrder', id: "1')", data: { SoldToParty: 'A' } }],
+    });
+
+    expect(res.status).toBe(403);
+    expect(sapRequests[0]!.url.searchParams.get('$filter')).toBe("(SalesOrder eq '1'')') and (SalesOrganization eq '1010')");
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Unit tests for the proxy route
+ *
+ * Runs single requests against a fake SAP OData service, with the API key,
+ * access grants and service models served from the in-memory cache.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { Hono } from 'hono';
+import { mockProxyDeps, testRedis } from '../../helpers/mock-deps.ts';
+import { testApiKey, testService, grantAccess, cacheServiceModel } from '../../helpers/fixtures.ts';
+import { mockSap, sapRequests, resetSap } from '../../helpers/sap.ts';
+
+mockProxyDeps();
+const { default: proxyRoute } = await import('../../../src/routes/proxy.ts');
+const { apiKeyService } = await import('../../../src/services/api-key.ts');
+const { encodeContinuationToken } = await import('@s4kit/shared/services');
+
+const app = new Hono().route('/api/proxy', proxyRoute);
+
+const salesOrders = testService('API_SALES_ORDER_SRV', { entities: ['A_SalesOrder'] });
+const businessPartners = testService('API_BUSINESS_PARTNER', { odataVersion: 'v2', entities: ['A_BusinessPartner'] });
+
+function get(path: string, service: string) {
+  return app.request(`/api/proxy/${path}`, {
+    headers: { 'Authorization': 'Bearer s4k_live_test_key', 'X-S4Kit-Service': service },
+  });
+}
+
+/** Query SAP received for the last request, decoded */
+function sentQuery(): Record<string, string> {
+  return Object.fromEntries(sapRequests.at(-1)!.url.searchParams);
+}
+
+beforeEach(async () => {
+  spyOn(console, 'log').mockImplementation(() => {});
+  spyOn(apiKeyService, 'validateKey').mockResolvedValue({ valid: true, apiKey: testApiKey });
+  await grantAccess(salesOrders, { '*': ['read'] });
+  await grantAccess(businessPartners, { '*': ['read'] });
+  mockSap(() => Response.json({ value: [] }));
+});
+
+afterEach(() => {
+  resetSap();
+  testRedis.clear();
+});
+
+describe('continuation tokens', () => {
+  test('replaces the query with the one of the nextLink', async () => {
+    const token = encodeContinuationToken('https://sap.example.com/A_SalesOrder?$top=10&$skiptoken=20');
+
+    const res = await get(`A_SalesOrder?$continuation=${token}&$filter=ignored`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+    expect(sentQuery()).toEqual({ $top: '10', $skiptoken: '20' });
+  });
+
+  test('rejects a forged token without calling SAP', async () => {
+    const forged = Buffer.from('$top=10&$skiptoken=20', 'utf8').toString('base64url');
+
+    const res = await get(`A_SalesOrder?$continuation=${forged}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'INVALID_CONTINUATION' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('validates the decoded query against the OData version of the service', async () => {
+    const token = encodeContinuationToken('https://sap.example.com/A_BusinessPartner?$apply=groupby((Country))');
+
+    const res = await get(`A_BusinessPartner?$continuation=${token}`, 'API_BUSINESS_PARTNER');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'APPLY_NOT_SUPPORTED' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('passes v2 paging options of the nextLink through', async () => {
+    const token = encodeContinuationToken("https://sap.example.com/A_BusinessPartner?$inlinecount=allpages&$skiptoken='100'");
+
+    const res = await get(`A_BusinessPartner?$continuation=${token}`, 'API_BUSINESS_PARTNER');
+
+    expect(res.status).toBe(200);
+    expect(sentQuery()).toEqual({ $inlinecount: 'allpages', $skiptoken: "'100'" });
+  });
+});
+
+describe('navigation permissions', () => {
+  beforeEach(async () => {
+    await grantAccess(salesOrders, { A_SalesOrder: ['read'] });
+    await cacheServiceModel(salesOrders, {
+      navigation: { A_SalesOrder: { to_Partner: ['A_BusinessPartner'] } },
+    });
+  });
+
+  test.each([
+    ['a $filter lambda', { $filter: 'to_Partner/any(p: p/CreditLimit gt 1000)' }],
+    ['$orderby', { $orderby: 'to_Partner/Name' }],
+  ])('rejects navigation to an entity set without read permission in %s', async (_name, query) => {
+    const res = await get(`A_SalesOrder?${new URLSearchParams(query)}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: expect.stringContaining("'A_BusinessPartner'") });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('allows expressions on properties of the entity set', async () => {
+    const res = await get(`A_SalesOrder?${new URLSearchParams({ $filter: "SoldToParty eq 'to_Partner/x'" })}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('operation permissions', () => {
+  beforeEach(async () => {
+    await cacheServiceModel(salesOrders, {
+      operations: { unbound: { GetOpenOrders: ['A_SalesOrder'] }, bound: { A_SalesOrder: { Release: [] } } },
+    });
+  });
+
+  test('rejects functions with only read permission', async () => {
+    await grantAccess(salesOrders, { '*': ['read'] });
+
+    const res = await get('GetOpenOrders', 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "Operation 'execute' not allowed for 'GetOpenOrders'" });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('checks execute on unbound operations called below an entity set, like the SDK does', async () => {
+    // entity handler: client.A_SalesOrder.action('GetOpenOrders') → POST A_SalesOrder/GetOpenOrders
+    await grantAccess(salesOrders, { '*': ['read', 'create'] });
+    const call = () => app.request('/api/proxy/A_SalesOrder/GetOpenOrders', {
+      method: 'POST',
+      headers: { 'Authorization': 'Bearer s4k_live_test_key', 'X-S4Kit-Service': 'API_SALES_ORDER_SRV' },
+    });
+
+    const denied = await call();
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toEqual({ error: "Operation 'execute' not allowed for 'GetOpenOrders'" });
+    expect(sapRequests).toHaveLength(0);
+
+    await grantAccess(salesOrders, { GetOpenOrders: ['execute'] });
+    expect((await call()).status).toBe(200);
+    expect(sapRequests).toHaveLength(1);
+  });
+
+  test('forwards unbound operations to the service root', async () => {
+    await grantAccess(salesOrders, { GetOpenOrders: ['execute'] });
+
+    const res = await app.request("/api/proxy/A_SalesOrder/GetOpenOrders?SalesOrganization='1010'", {
+      method: 'POST',
+      headers: { 'Authorization': 'Bearer s4k_live_test_key', 'X-S4Kit-Service': 'API_SALES_ORDER_SRV' },
+    });
+
+    expect(res.status).toBe(200);
+    expect(sapRequests[0]!.url.pathname).toBe('/sap/opu/odata/sap/API_SALES_ORDER_SRV/GetOpenOrders');
+    expect(sapRequests[0]!.url.searchParams.get('SalesOrganization')).toBe("'1010'");
+  });
+
+  test('checks bound operations on their binding entity set', async () => {
+    await grantAccess(salesOrders, { A_SalesOrder: ['read', 'execute:Release'] });
+
+    const res = await get("A_SalesOrder('1')/API.Release", 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+    expect(sapRequests).toHaveLength(1);
+  });
+});
+
+describe('row filters', () => {
+  beforeEach(async () => {
+    await grantAccess(salesOrders, { '*': ['read'] }, { rowFilters: { A_SalesOrder: "SalesOrganization eq '1010'" } });
+    await cacheServiceModel(salesOrders, { keys: { A_SalesOrder: ['SalesOrder'] } });
+  });
+
+  test('ANDs the row filter into the client filter', async () => {
+    const res = await get(`A_SalesOrder?${new URLSearchParams({ $filter: "SoldToParty eq 'A' or SoldToParty eq 'B'" })}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+    expect(sentQuery().$filter).toBe("(SalesOrganization eq '1010') and (SoldToParty eq 'A' or SoldToParty eq 'B')");
+  });
+
+  test('filters before $apply aggregates', async () => {
+    const apply = 'groupby((SoldToParty),aggregate(TotalNetAmount with sum as Total))';
+    const res = await get(`A_SalesOrder?${new URLSearchParams({ $apply: apply })}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+    expect(sentQuery().$apply).toBe(`filter(SalesOrganization eq '1010')/${apply}`);
+    expect(sentQuery().$filter).toBeUndefined();
+  });
+
+  test('rejects a client filter that escapes its parentheses', async () => {
+    const res = await get(`A_SalesOrder?${new URLSearchParams({ $filter: "SoldToParty eq 'A') or (true" })}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'INVALID_FILTER' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('rejects records addressed by key outside the filter', async () => {
+    mockSap(() => Response.json({ value: [] }));
+
+    const res = await get("A_SalesOrder('1')", 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "Row filter of entity 'A_SalesOrder' excludes the record, or it does not exist" });
+    expect(sapRequests).toHaveLength(1);
+    expect(sentQuery().$filter).toBe("(SalesOrder eq '1') and (SalesOrganization eq '1010')");
+  });
+
+  test('rejects keys that escape the parentheses of the pre-read filter', async () => {
+    const res = await get("A_SalesOrder('1')')", 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "Row filter of entity 'A_SalesOrder' can't be checked for key ('1')')" });
+    expect(sapRequests).toHaveLength(0);
+  });
+});
+
+describe('field permissions', () => {
+  beforeEach(async () => {
+    await grantAccess(salesOrders, { '*': ['read'] }, { fieldPermissions: { A_SalesOrder: { deny: ['TotalNetAmount'] } } });
+    await cacheServiceModel(salesOrders, {});
+  });
+
+  test('drops hidden fields from $select and the response', async () => {
+    mockSap(() => Response.json({ value: [{ SalesOrder: '1', TotalNetAmount: '100.00' }] }));
+
+    const res = await get('A_SalesOrder?$select=SalesOrder,TotalNetAmount', 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(200);
+    expect(sentQuery().$select).toBe('SalesOrder');
+    const { data } = await res.json() as { data: unknown };
+    expect(data).toEqual([{ SalesOrder: '1' }]);
+  });
+
+  test('rejects hidden fields in $filter', async () => {
+    const res = await get(`A_SalesOrder?${new URLSearchParams({ $filter: 'TotalNetAmount gt 1000' })}`, 'API_SALES_ORDER_SRV');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: "Field 'TotalNetAmount' of entity 'A_SalesOrder' can't be used in $filter" });
+    expect(sapRequests).toHaveLength(0);
+  });
+});
+
+describe('media', () => {
+  beforeEach(async () => {
+    await grantAccess(salesOrders, { '*': ['read', 'create', 'update'] });
+    await cacheServiceModel(salesOrders, {
+      streams: { A_SalesOrder: ['Attachment'] },
+      mediaEntitySets: ['A_SalesOrderDocument'],
+    });
+    mockSap(() => new Response('%PDF', { headers: { 'Content-Type': 'application/pdf' } }));
+  });
+
+  function sendMedia(path: string, method = 'GET', body?: string) {
+    return app.request(`/api/proxy/${path}`, {
+      method,
+      body,
+      headers: {
+        'Authorization': 'Bearer s4k_live_test_key',
+        'X-S4Kit-Service': 'API_SALES_ORDER_SRV',
+        'X-S4Kit-Media': 'true',
+        'Content-Type': 'application/pdf',
+      },
+    });
+  }
+
+  test.each([
+    ['$value', "A_SalesOrder('1')/$value"],
+    ['a stream property', "A_SalesOrder('1')/Attachment"],
+  ])('passes the binary content of %s through', async (_name, path) => {
+    const res = await sendMedia(path);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/pdf');
+    expect(await res.text()).toBe('%PDF');
+  });
+
+  test('uploads a new media entity to its entity set', async () => {
+    const res = await sendMedia('A_SalesOrderDocument', 'POST', '%PDF');
+
+    expect(res.status).toBe(200);
+    expect(sapRequests[0]!.body).toBe('%PDF');
+    expect(sapRequests[0]!.headers.get('Content-Type')).toBe('application/pdf');
+  });
+
+  test('asks for JSON when the new media entity has hidden fields', async () => {
+    await grantAccess(salesOrders, { '*': ['read', 'create'] }, { fieldPermissions: { A_SalesOrderDocument: { deny: ['NetAmount'] } } });
+    mockSap(() => Response.json({ d: { Document: '1', NetAmount: '100.00' } }));
+
+    const res = await app.request('/api/proxy/A_SalesOrderDocument?$format=atom', {
+      method: 'POST',
+      body: '%PDF',
+      headers: {
+        'Authorization': 'Bearer s4k_live_test_key',
+        'X-S4Kit-Service': 'API_SALES_ORDER_SRV',
+        'X-S4Kit-Media': 'true',
+        'Content-Type': 'application/pdf',
+        'Accept': 'application/atom+xml',
+      },
+    });
+
+    expect(res.status).toBe(200);
+    expect(sapRequests[0]!.headers.get('Accept')).toBe('application/json');
+    expect(sentQuery().$format).toBeUndefined();
+    const { data } = await res.json() as { data: unknown };
+    expect(data).toEqual({ Document: '1' });
+  });
+
+  test.each([
+    ['an entity', "A_SalesOrder('1')", 'PUT'],
+    ['a property that is not a stream', "A_SalesOrder('1')/SoldToParty", 'GET'],
+    ['an entity set without media entities', 'A_SalesOrder', 'POST'],
+  ])('rejects raw bodies for %s', async (_name, path, method) => {
+    const res = await sendMedia(path, method, method === 'GET' ? undefined : '{}');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'INVALID_MEDIA_PATH' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+
+  test('rejects $batch and other system resources', async () => {
+    const res = await sendMedia('$batch', 'POST', '--batch\r\nGET A_SalesOrder HTTP/1.1\r\n--batch--');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: { code: 'UNSUPPORTED_RESOURCE' } });
+    expect(sapRequests).toHaveLength(0);
+  });
+});
+
+describe('client IP', () => {
+  test('validates the key against the socket address, not forwarding headers', async () => {
+    const server = { requestIP: () => ({ address: '203.0.113.7', family: 'IPv4', port: 50000 }) };
+
+    const res = await app.request('/api/proxy/A_SalesOrder', {
+      headers: {
+        'Authorization': 'Bearer s4k_live_test_key',
+        'X-S4Kit-Service': 'API_SALES_ORDER_SRV',
+        'X-Forwarded-For': '10.20.0.1',
+        'CF-Connecting-IP': '10.20.0.1',
+      },
+    }, server);
+
+    expect(res.status).toBe(200);
+    expect(apiKeyService.validateKey).toHaveBeenCalledWith('s4k_live_test_key', '203.0.113.7');
+  });
+});
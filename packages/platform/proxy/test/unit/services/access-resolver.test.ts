@@ -0,0 +1,39 @@
+/**
+ * Unit tests for the access resolver's permission checks
+ *
+ * Tests entity permissions for CRUD operations and the `execute` permissions
+ * functions and actions require.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mockProxyDeps } from '../../helpers/mock-deps.ts';
+
+mockProxyDeps();
+const { accessResolver } = await import('../../../src/services/access-resolver.ts');
+
+describe('accessResolver.checkOperationPermission', () => {
+  test('allows every operation of an entity set with execute', () => {
+    const permissions = { A_SalesOrder: ['read', 'execute'] };
+
+    expect(accessResolver.checkOperationPermission(permissions, 'A_SalesOrder', 'Release')).toBe(true);
+    expect(accessResolver.checkOperationPermission(permissions, 'A_SalesOrder', 'Reject')).toBe(true);
+  });
+
+  test('allows a single operation with execute:<Name>', () => {
+    const permissions = { A_SalesOrder: ['execute:Release'] };
+
+    expect(accessResolver.checkOperationPermission(permissions, 'A_SalesOrder', 'Release')).toBe(true);
+    expect(accessResolver.checkOperationPermission(permissions, 'A_SalesOrder', 'Reject')).toBe(false);
+  });
+
+  test('honors the * entity and operation wildcards', () => {
+    expect(accessResolver.checkOperationPermission({ '*': ['execute'] }, 'GetOpenOrders', 'GetOpenOrders')).toBe(true);
+    expect(accessResolver.checkOperationPermission({ A_SalesOrder: ['*'] }, 'A_SalesOrder', 'Release')).toBe(true);
+  });
+
+  test('does not accept CRUD permissions for operations', () => {
+    const permissions = { A_SalesOrder: ['read', 'create', 'update', 'delete'] };
+
+    expect(accessResolver.checkOperationPermission(permissions, 'A_SalesOrder', 'Release')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the field guard
+ *
+ * Tests how hidden fields are dropped from $select, rejected in $filter, $orderby
+ * and $apply, kept out of request bodies, and removed from responses.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mockProxyDeps } from '../../helpers/mock-deps.ts';
+import type { ServiceModel } from '../../../src/services/metadata-cache.ts';
+
+mockProxyDeps();
+const { fieldGuard } = await import('../../../src/services/field-guard.ts');
+
+const model: ServiceModel = {
+  navigation: {
+    A_SalesOrder: { to_Partner: ['A_BusinessPartner'], to_Item: ['A_SalesOrderItem'] },
+    A_SalesOrderItem: {},
+    A_BusinessPartner: {},
+  },
+  operations: { unbound: {}, bound: {} },
+  keys: {},
+  streams: {},
+  mediaEntitySets: [],
+};
+
+const fieldPermissions = {
+  A_SalesOrder: { readOnly: ['SalesOrganization'] },
+  A_BusinessPartner: { deny: ['TaxNumber1'] },
+  A_SalesOrderItem: { allow: ['Material', 'Quantity'] },
+};
+
+function read(resourcePath: string, query: Record<string, string>) {
+  return fieldGuard.check(fieldPermissions, model, { resourcePath, query, operation: 'read' });
+}
+
+describe('fieldGuard.check', () => {
+  test('drops hidden fields from $select, also in nested $expand options', () => {
+    expect(read('A_BusinessPartner', { $select: 'Name,TaxNumber1', $top: '5' })).toEqual({
+      allowed: true,
+      query: { $select: 'Name', $top: '5' },
+      entitySets: ['A_BusinessPartner'],
+    });
+    expect(read('A_SalesOrder', { $expand: 'to_Item($select=Material,NetAmount;$top=3),to_Partner($select=TaxNumber1,Name)' }))
+      .toMatchObject({ query: { $expand: 'to_Item($select=Material;$top=3),to_Partner($select=Name)' } });
+  });
+
+  test('rejects a $select of hidden fields only', () => {
+    expect(read('A_BusinessPartner', { $select: 'TaxNumber1' })).toEqual({
+      allowed: false, entity: 'A_BusinessPartner', field: 'TaxNumber1', reason: 'is not accessible',
+    });
+  });
+
+  test.each([
+    ['$filter', { $filter: "TaxNumber1 eq 'DE123'" }],
+    ['$orderby', { $orderby: 'Name,TaxNumber1 desc' }],
+    ['$apply', { $apply: 'groupby((TaxNumber1))' }],
+  ])('rejects hidden fields in %s', (option, query) => {
+    expect(read('A_BusinessPartner', query)).toEqual({
+      allowed: false, entity: 'A_BusinessPartner', field: 'TaxNumber1', reason: `can't be used in ${option}`,
+    });
+  });
+
+  test('follows navigation in expressions and nested $expand options', () => {
+    expect(read('A_SalesOrder', { $filter: "to_Partner/TaxNumber1 eq 'DE123'" })).toMatchObject({ allowed: false, entity: 'A_BusinessPartner' });
+    expect(read('A_SalesOrder', { $expand: 'to_Item($orderby=NetAmount)' })).toEqual({
+      allowed: false, entity: 'A_SalesOrderItem', field: 'NetAmount', reason: "can't be used in $orderby",
+    });
+  });
+
+  test('rejects reads of a hidden property by path', () => {
+    expect(read("A_BusinessPartner('1')/TaxNumber1/$value", {})).toMatchObject({ allowed: false, field: 'TaxNumber1' });
+  });
+
+  test('rejects writes of read-only and hidden fields, deep inserts included', () => {
+    const write = (body: unknown) => fieldGuard.check(fieldPermissions, model, { resourcePath: 'A_SalesOrder', query: {}, operation: 'create', body });
+
+    expect(write({ SalesOrganization: '1010' })).toMatchObject({ field: 'SalesOrganization', reason: 'is read-only' });
+    expect(write({ to_Item: [{ Material: 'TG11', NetAmount: '10' }] })).toMatchObject({ field: 'NetAmount', reason: 'is not accessible' });
+    expect(write({ PurchaseOrderByCustomer: 'PO-1', to_Item: [{ Material: 'TG11' }] })).toMatchObject({ allowed: true });
+  });
+});
+
+describe('fieldGuard.mask', () => {
+  const order = {
+    SalesOrder: '1',
+    to_Partner: { Name: 'ACME', TaxNumber1: 'DE123' },
+    to_Item: [{ Material: 'TG11', NetAmount: '10' }],
+  };
+  const masked = {
+    SalesOrder: '1',
+    to_Partner: { Name: 'ACME' },
+    to_Item: [{ Material: 'TG11' }],
+  };
+
+  test('masks the data of parsed responses, expanded entities included', () => {
+    expect(fieldGuard.mask(fieldPermissions, model, ['A_SalesOrder'], { data: [order], count: 1 }))
+      .toEqual({ data: [masked], count: 1 });
+  });
+
+  test('masks raw v4 and v2 payloads', () => {
+    expect(fieldGuard.mask(fieldPermissions, model, ['A_SalesOrder'], { value: [order] }, true)).toEqual({ value: [masked] });
+    expect(fieldGuard.mask(fieldPermissions, model, ['A_SalesOrder'], { d: { results: [order] } }, true)).toEqual({ d: { results: [masked] } });
+    expect(fieldGuard.mask(fieldPermissions, model, ['A_SalesOrder'], { d: order }, true)).toEqual({ d: masked });
+  });
+});
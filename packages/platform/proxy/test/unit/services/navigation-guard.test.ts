@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the navigation guard
+ *
+ * Tests the entity permissions required for entity sets a request reaches through
+ * navigation segments, $expand, and navigation in $filter/$orderby/$apply.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import type { NavigationMap } from '@s4kit/shared/services';
+import { mockProxyDeps } from '../../helpers/mock-deps.ts';
+
+mockProxyDeps();
+const { navigationGuard } = await import('../../../src/services/navigation-guard.ts');
+
+const navigation: NavigationMap = {
+  A_SalesOrder: { to_Item: ['A_SalesOrderItem'], to_Partner: ['A_BusinessPartner'] },
+  A_SalesOrderItem: { to_Product: ['A_Product'] },
+  A_BusinessPartner: {},
+  A_Product: {},
+};
+
+// Sales orders and their items, nothing else
+const permissions = {
+  A_SalesOrder: ['read', 'update'],
+  A_SalesOrderItem: ['read', 'create'],
+};
+
+describe('navigationGuard.check', () => {
+  test('requires the operation on the last segment and read on the way', () => {
+    expect(navigationGuard.check(navigation, permissions, "A_SalesOrder('1')/to_Item", {}, 'create')).toBeNull();
+    expect(navigationGuard.check(navigation, permissions, "A_SalesOrder('1')/to_Item", {}, 'delete')).toEqual({
+      path: 'to_Item',
+      entity: 'A_SalesOrderItem',
+      operation: 'delete',
+    });
+  });
+
+  test('requires read on $expand targets, nested ones included', () => {
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', { $expand: 'to_Item' }, 'read')).toBeNull();
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', { $expand: 'to_Item($expand=to_Product)' }, 'read')).toEqual({
+      path: '$expand=to_Item/to_Product',
+      entity: 'A_Product',
+      operation: 'read',
+    });
+  });
+
+  test('requires read on entity sets a $filter lambda reaches', () => {
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', {
+      $filter: 'to_Partner/any(p: p/CreditLimit gt 1000)',
+    }, 'read')).toEqual({ path: '$filter=to_Partner', entity: 'A_BusinessPartner', operation: 'read' });
+  });
+
+  test('requires read on entity sets $orderby and $apply reach', () => {
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', { $orderby: 'to_Partner/Name' }, 'read'))
+      .toMatchObject({ path: '$orderby=to_Partner', entity: 'A_BusinessPartner' });
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', { $apply: 'groupby((to_Partner/Country))' }, 'read'))
+      .toMatchObject({ path: '$apply=to_Partner', entity: 'A_BusinessPartner' });
+  });
+
+  test('checks $filter nested in $expand from the expanded entity set', () => {
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', {
+      $expand: "to_Item($filter=to_Product/ProductType eq 'FERT')",
+    }, 'read')).toMatchObject({ path: '$filter=to_Item/to_Product', entity: 'A_Product' });
+  });
+
+  test('allows expressions on properties and on permitted navigation targets', () => {
+    expect(navigationGuard.check(navigation, permissions, 'A_SalesOrder', {
+      $filter: "to_Item/any(i: i/Material eq 'to_Partner/x') and Amount gt 1",
+      $orderby: 'to_Item/Material desc',
+    }, 'read')).toBeNull();
+  });
+
+  test('resolves query options from the result of a function', () => {
+    expect(navigationGuard.check(navigation, permissions, 'GetOpenItems', { $filter: 'to_Product/Weight gt 1' }, 'read', ['A_SalesOrderItem']))
+      .toMatchObject({ entity: 'A_Product' });
+  });
+});
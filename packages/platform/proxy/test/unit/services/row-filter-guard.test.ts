@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the row filter guard
+ *
+ * Tests how requests are restricted by the row filters of their grant: filters
+ * for collection reads, pre-reads of records addressed by key, checks of request
+ * bodies, and rejection of entity sets the filter can't be applied to.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mockProxyDeps } from '../../helpers/mock-deps.ts';
+import { mockSap, sapRequests, resetSap } from '../../helpers/sap.ts';
+import type { ServiceModel } from '../../../src/services/metadata-cache.ts';
+
+mockProxyDeps();
+const { rowFilterGuard } = await import('../../../src/services/row-filter-guard.ts');
+
+const model: ServiceModel = {
+  navigation: {
+    A_SalesOrder: { to_Item: ['A_SalesOrderItem'], to_Partner: ['A_BusinessPartner'] },
+    A_BusinessPartner: { to_SalesOrder: ['A_SalesOrder'] },
+  },
+  operations: { unbound: { GetOpenOrders: ['A_SalesOrder'] }, bound: {} },
+  keys: { A_SalesOrder: ['SalesOrder'] },
+  streams: {},
+  mediaEntitySets: [],
+};
+
+const rowFilters = { A_SalesOrder: "SalesOrganization eq '1010'" };
+
+afterEach(() => {
+  resetSap();
+});
+
+describe('rowFilterGuard.check', () => {
+  test('restricts collection reads and counts to the filter', () => {
+    for (const resourcePath of ['A_SalesOrder', 'A_SalesOrder/$count']) {
+      expect(rowFilterGuard.check(rowFilters, model, { resourcePath, operation: 'read', method: 'GET' }))
+        .toEqual({ allowed: true, filter: "SalesOrganization eq '1010'" });
+    }
+  });
+
+  test('pre-reads records addressed by key', () => {
+    const decision = rowFilterGuard.check(rowFilters, model, {
+      resourcePath: "A_SalesOrder('1')",
+      operation: 'update',
+      method: 'PATCH',
+      body: { SalesOrganization: '1020' },
+    });
+
+    expect(decision).toMatchObject({
+      allowed: true,
+      preRead: {
+        entitySet: 'A_SalesOrder',
+        filter: "(SalesOrder eq '1') and (SalesOrganization eq '1010')",
+        select: ['SalesOrganization'],
+        update: { SalesOrganization: '1020' },
+        replace: false,
+      },
+    });
+  });
+
+  test('rejects keys that escape the parentheses of the pre-read filter', () => {
+    expect(rowFilterGuard.check(rowFilters, model, { resourcePath: "A_SalesOrder('1')')", operation: 'read', method: 'GET' }))
+      .toEqual({ allowed: false, entity: 'A_SalesOrder', reason: "can't be checked for key ('1')')" });
+  });
+
+  test('checks new records by their own properties', () => {
+    const create = (body: unknown) => rowFilterGuard.check(rowFilters, model, { resourcePath: 'A_SalesOrder', operation: 'create', method: 'POST', body });
+
+    expect(create({ SalesOrganization: '1010' })).toEqual({ allowed: true });
+    expect(create({ SalesOrganization: '1020' })).toEqual({ allowed: false, entity: 'A_SalesOrder', reason: 'excludes the new record' });
+    expect(create({})).toMatchObject({ allowed: false });
+  });
+
+  test.each([
+    ['navigation', { resourcePath: "A_BusinessPartner('1')/to_SalesOrder" }, "can't be applied through 'to_SalesOrder'"],
+    ['$expand', { resourcePath: 'A_BusinessPartner', expand: 'to_SalesOrder' }, "can't be applied through '$expand=to_SalesOrder'"],
+    ['function results', {
+      resourcePath: 'GetOpenOrders',
+      operationCall: { name: 'GetOpenOrders', entity: 'GetOpenOrders', bound: false, returns: ['A_SalesOrder'] },
+    }, "can't be applied to the result of 'GetOpenOrders'"],
+    ['deep inserts', { resourcePath: 'A_BusinessPartner', operation: 'create', body: { to_SalesOrder: [{}] } }, "can't be applied to records written through 'to_SalesOrder'"],
+  ])('rejects row-filtered entity sets reached through %s', (_name, request, reason) => {
+    expect(rowFilterGuard.check(rowFilters, model, { operation: 'read', method: 'GET', ...request }))
+      .toEqual({ allowed: false, entity: 'A_SalesOrder', reason });
+  });
+
+  test('checks updates of records created in the same changeset against the merged record', () => {
+    const update = (body: unknown) => rowFilterGuard.check(rowFilters, model, {
+      // `$1` resolved to the entity set of the referenced operation
+      resourcePath: 'A_SalesOrder',
+      operation: 'update',
+      method: 'PATCH',
+      body,
+      referencedRecord: { SalesOrganization: '1010' },
+    });
+
+    expect(update({ PurchaseOrderByCustomer: 'PO-1' })).toEqual({ allowed: true });
+    expect(update({ SalesOrganization: '1020' })).toMatchObject({ allowed: false, reason: 'would exclude the updated record' });
+  });
+});
+
+describe('rowFilterGuard.verify', () => {
+  const target = { baseUrl: 'https://sap.example.com', servicePath: '/sap/opu/odata4/api_sales_order', auth: { type: 'none' } };
+  const preRead = {
+    entitySet: 'A_SalesOrder',
+    filter: "(SalesOrder eq '1') and (SalesOrganization eq '1010')",
+    select: ['SalesOrganization'],
+    rowFilter: { type: 'compare' as const, operator: 'eq' as const, property: 'SalesOrganization', value: '1010' },
+  };
+
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    spyOn(console, 'error').mockImplementation(() => {});
+    spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  test('reads the record restricted to the row filter', async () => {
+    mockSap(() => Response.json({ value: [{ SalesOrganization: '1010' }] }));
+
+    expect(await rowFilterGuard.verify(preRead, target)).toBeNull();
+    const { searchParams } = sapRequests[0]!.url;
+    expect(searchParams.get('$filter')).toBe(preRead.filter);
+    expect(searchParams.get('$select')).toBe('SalesOrganization');
+  });
+
+  test('rejects records outside the filter', async () => {
+    mockSap(() => Response.json({ value: [] }));
+
+    expect(await rowFilterGuard.verify(preRead, target)).toBe('excludes the record, or it does not exist');
+  });
+
+  test('rejects updates that move the record out of the filter', async () => {
+    mockSap(() => Response.json({ value: [{ SalesOrganization: '1010' }] }));
+
+    expect(await rowFilterGuard.verify({ ...preRead, update: { SalesOrganization: '1020' } }, target)).toBe('would exclude the updated record');
+  });
+
+  test('fails closed when the record can\'t be read', async () => {
+    mockSap(() => new Response('', { status: 500 }));
+
+    expect(await rowFilterGuard.verify(preRead, target)).toBe('could not be checked');
+  });
+});
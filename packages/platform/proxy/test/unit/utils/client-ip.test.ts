@@ -0,0 +1,66 @@
+/**
+ * Unit tests for client IP resolution
+ *
+ * Tests that the client IP comes from the socket, and from X-Forwarded-For only
+ * when the socket peer is a trusted proxy.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Hono } from 'hono';
+import { mockProxyDeps } from '../../helpers/mock-deps.ts';
+
+mockProxyDeps();
+const { getClientIp, parseTrustedProxies, DEFAULT_TRUSTED_PROXIES } = await import('../../../src/utils/client-ip.ts');
+
+const trustedProxies = ['10.0.0.0/8', '2001:db8::/32'];
+
+/** Client IP of a request from `peer` (the Bun server's view of the socket) */
+async function clientIp(
+  peer: string | undefined,
+  headers: Record<string, string> = {},
+  trusted: string[] = trustedProxies
+): Promise<string | undefined> {
+  const app = new Hono().get('/', c => c.json({ ip: getClientIp(c, trusted) ?? null }));
+  const server = peer ? { requestIP: () => ({ address: peer, family: peer.includes(':') ? 'IPv6' : 'IPv4', port: 50000 }) } : undefined;
+  const res = await app.request('/', { headers }, server);
+  const { ip } = await res.json() as { ip: string | null };
+  return ip ?? undefined;
+}
+
+describe('getClientIp', () => {
+  test('uses the socket address and ignores headers of untrusted peers', async () => {
+    expect(await clientIp('203.0.113.7', {
+      'X-Forwarded-For': '10.20.0.1',
+      'X-Real-IP': '10.20.0.1',
+      'CF-Connecting-IP': '10.20.0.1',
+    })).toBe('203.0.113.7');
+  });
+
+  test('takes the rightmost untrusted X-Forwarded-For hop behind trusted proxies', async () => {
+    // The client prepended 192.0.2.1 itself - the load balancer appended the real address
+    expect(await clientIp('10.0.0.5', { 'X-Forwarded-For': '192.0.2.1, 203.0.113.7' })).toBe('203.0.113.7');
+    expect(await clientIp('2001:db8::1', { 'X-Forwarded-For': '192.0.2.1, 203.0.113.7, 10.1.1.1' })).toBe('203.0.113.7');
+  });
+
+  test('falls back to the peer when a trusted proxy sends no X-Forwarded-For', async () => {
+    expect(await clientIp('10.0.0.5')).toBe('10.0.0.5');
+  });
+
+  test('trusts routers on private networks by default', async () => {
+    // Cloud Foundry router / nginx container in front of the proxy
+    expect(await clientIp('10.0.137.4', { 'X-Forwarded-For': '203.0.113.7, 10.0.5.1' }, DEFAULT_TRUSTED_PROXIES)).toBe('203.0.113.7');
+    expect(await clientIp('172.18.0.3', { 'X-Forwarded-For': '203.0.113.7' }, DEFAULT_TRUSTED_PROXIES)).toBe('203.0.113.7');
+    expect(await clientIp('198.51.100.2', { 'X-Forwarded-For': '203.0.113.7' }, DEFAULT_TRUSTED_PROXIES)).toBe('198.51.100.2');
+  });
+
+  test('has no client IP without a socket', async () => {
+    expect(await clientIp(undefined, { 'X-Forwarded-For': '203.0.113.7' })).toBeUndefined();
+  });
+});
+
+describe('parseTrustedProxies', () => {
+  test('splits a comma-separated list', () => {
+    expect(parseTrustedProxies(' 10.0.0.0/8,, 2001:db8::/32 ')).toEqual(['10.0.0.0/8', '2001:db8::/32']);
+    expect(parseTrustedProxies(undefined)).toEqual([]);
+  });
+});
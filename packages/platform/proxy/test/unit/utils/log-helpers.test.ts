@@ -0,0 +1,76 @@
+/**
+ * Unit tests for request log helpers
+ *
+ * Tests the redaction of literal values in logged query strings under each
+ * PII policy, and the removal of key predicates from logged paths.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { redactLiterals, sanitizeQueryString, stripKeyPredicates, parsePiiPolicy } from '../../../src/utils/log-helpers.ts';
+
+describe('redactLiterals', () => {
+  test('redacts quoted literals, escaped quotes and typed literals included', () => {
+    expect(redactLiterals("Name eq 'O''Brien' and Created gt datetime'2024-01-01T00:00:00'", 'strings'))
+      .toBe("Name eq '***' and Created gt datetime'***'");
+  });
+
+  test('redacts numbers, dates and GUIDs under the strict policy only', () => {
+    const expression = 'Amount gt 500.5M and Created lt 2024-01-01T10:00:00Z and Id eq 0b5d0b2a-6a4f-4b2e-9c3f-2f1e0d9c8b7a';
+
+    expect(redactLiterals(expression, 'strict')).toBe('Amount gt *** and Created lt *** and Id eq ***');
+    expect(redactLiterals(expression, 'strings')).toBe(expression);
+  });
+
+  test('keeps names with digits and page sizes of nested $expand options', () => {
+    expect(redactLiterals('to_Item($top=5;$filter=Field1 eq 10)', 'strict')).toBe('to_Item($top=5;$filter=Field1 eq ***)');
+  });
+});
+
+describe('sanitizeQueryString', () => {
+  test('redacts expressions, hides opaque options and keeps structural ones', () => {
+    expect(sanitizeQueryString({
+      $filter: "CompanyCode eq '1010' and Amount gt 500",
+      $select: 'CompanyCode,Amount',
+      $top: '10',
+      $search: 'ACME Corp',
+      $skiptoken: "'100'",
+    }, 'strict')).toBe("$filter=CompanyCode eq '***' and Amount gt ***&$select=CompanyCode,Amount&$top=10&$search=***&$skiptoken=***");
+  });
+
+  test('redacts key predicates in $expand and function parameters', () => {
+    expect(sanitizeQueryString({
+      $expand: "to_Item($filter=SalesOrderItem eq '10')",
+      BusinessPartner: "'1000042'",
+    }, 'strict')).toBe("$expand=to_Item($filter=SalesOrderItem eq '***')&BusinessPartner='***'");
+  });
+
+  test('logs everything under the none policy, and nothing without options', () => {
+    expect(sanitizeQueryString({ $filter: "CompanyCode eq '1010'", $search: 'ACME' }, 'none'))
+      .toBe("$filter=CompanyCode eq '1010'&$search=ACME");
+    expect(sanitizeQueryString({}, 'strict')).toBeUndefined();
+  });
+
+  test('truncates to the column size', () => {
+    expect(sanitizeQueryString({ $select: 'A,'.repeat(1500) }, 'strict')).toHaveLength(2000);
+  });
+});
+
+describe('stripKeyPredicates', () => {
+  test('removes single and composite keys, parentheses inside literals included', () => {
+    expect(stripKeyPredicates("/api/proxy/A_SalesOrderItem(SalesOrder='1',SalesOrderItem='(10)')/to_Product"))
+      .toBe('/api/proxy/A_SalesOrderItem/to_Product');
+    expect(stripKeyPredicates("/api/proxy/A_BusinessPartner('O''Brien')")).toBe('/api/proxy/A_BusinessPartner');
+  });
+
+  test('removes function parameters', () => {
+    expect(stripKeyPredicates("/api/proxy/GetOpenOrders(Plant='1010')")).toBe('/api/proxy/GetOpenOrders');
+  });
+});
+
+describe('parsePiiPolicy', () => {
+  test('defaults to strict', () => {
+    expect(parsePiiPolicy('strings')).toBe('strings');
+    expect(parsePiiPolicy(undefined)).toBe('strict');
+    expect(parsePiiPolicy('off')).toBe('strict');
+  });
+});
@@ -0,0 +1,161 @@
+// ============================================================================
+// S4Kit Response Cache - Client-Side Caching for list/get
+// ============================================================================
+
+import type { CacheConfig, CacheEntry, CacheStats, CacheStore } from './types';
+
+const DEFAULT_TTL = 60_000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// ============================================================================
+// In-Memory LRU Store
+// ============================================================================
+
+/**
+ * Default cache store - in-memory LRU bounded by entry count
+ * @example
+ * ```ts
+ * const client = S4Kit({ apiKey, cache: { store: new MemoryCacheStore(5000) } });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration order is insertion order - re-inserting on read keeps it LRU
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(prefix: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * Root entity set of a request path: `Books(1)/Chapters` → `Books`
+ */
+export function entityOfPath(path: string): string {
+  return path.split(/[(/?]/)[0] ?? path;
+}
+
+/**
+ * Cache lookup result
+ */
+export interface CacheLookup {
+  value: unknown;
+  /** True when the entry expired but is still within the stale-while-revalidate window */
+  stale: boolean;
+}
+
+/**
+ * Response cache used by HttpClient for entity reads.
+ * Keys start with the entity set so writes can invalidate by prefix.
+ */
+export class ResponseCache {
+  readonly stats: CacheStats = { hits: 0, stale: 0, misses: 0, invalidations: 0 };
+  private readonly store: CacheStore;
+  private readonly revalidating = new Set<string>();
+
+  constructor(private readonly config: CacheConfig) {
+    this.store = config.store ?? new MemoryCacheStore(config.maxEntries);
+  }
+
+  /**
+   * TTL for an entity in ms (0 = not cached)
+   */
+  ttlFor(entity: string): number {
+    return this.config.entityTtl?.[entity] ?? this.config.ttl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * Build the cache key from entity, path, query, connection and service
+   */
+  key(
+    path: string,
+    searchParams: Record<string, any> | undefined,
+    scope: { connection?: string; service?: string; raw?: boolean }
+  ): string {
+    const query = searchParams ? new URLSearchParams(searchParams).toString() : '';
+    return [
+      entityOfPath(path),
+      scope.connection ?? '',
+      scope.service ?? '',
+      scope.raw ? 'raw' : '',
+      `${path}?${query}`,
+    ].join('|');
+  }
+
+  async lookup(key: string): Promise<CacheLookup | undefined> {
+    const entry = await this.store.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      this.stats.hits++;
+      return { value: structuredClone(entry.value), stale: false };
+    }
+    if (entry && now < entry.staleUntil) {
+      this.stats.stale++;
+      return { value: structuredClone(entry.value), stale: true };
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  async save(key: string, entity: string, value: unknown): Promise<void> {
+    const ttl = this.ttlFor(entity);
+    if (ttl <= 0) return;
+    const now = Date.now();
+    await this.store.set(key, {
+      value: structuredClone(value),
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + (this.config.staleWhileRevalidate ?? 0),
+    });
+  }
+
+  /**
+   * Refresh a stale entry in the background (at most one refresh per key)
+   */
+  revalidate(key: string, refresh: () => Promise<void>, onError: (error: unknown) => void): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    refresh()
+      .catch(onError)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Drop all cached responses of an entity set
+   */
+  async invalidate(entity: string): Promise<void> {
+    this.stats.invalidations++;
+    await this.store.invalidate(`${entity}|`);
+  }
+}
@@ -10,6 +10,7 @@ interface CLIOptions {
   baseUrl?: string;
   connection?: string;
   output?: string;
+  typeConversion?: boolean;
 }
 
 // ============================================================================
@@ -34,6 +35,8 @@ function parseArgs(args: string[]): { command: string; options: CLIOptions; posi
       options.connection = args[++i] ?? '';
     } else if (arg === '--output' || arg === '-o') {
       options.output = args[++i] ?? '';
+    } else if (arg === '--type-conversion') {
+      options.typeConversion = true;
     } else if (arg === '--help' || arg === '-h') {
       command = 'help';
     } else if (arg === '--version' || arg === '-v') {
@@ -68,6 +71,7 @@ Options:
   -u, --base-url    Proxy URL (default: https://api.s4kit.com/api/proxy)
   -c, --connection  SAP connection alias
   -o, --output      Output directory for generated files
+  --type-conversion Generate Date/Decimal types and fields.json for typeConversion mode
 
 Examples:
   # Generate types for all entities accessible by your API key
@@ -108,7 +112,7 @@ async function generateTypes(options: CLIOptions): Promise<void> {
 
   try {
     // Fetch types from the proxy service using API key auth
-    const response = await fetch(`${baseUrl}/$types`, {
+    const response = await fetch(`${baseUrl}/$types${options.typeConversion ? '?typeConversion=true' : ''}`, {
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Accept': 'application/typescript',
@@ -141,10 +145,52 @@ async function generateTypes(options: CLIOptions): Promise<void> {
     const typesFile = path.join(outputDir, 'index.d.ts');
     fs.writeFileSync(typesFile, types);
 
+    // Function/action metadata - lets the SDK pick GET/POST at runtime
+    const operationsResponse = await fetch(`${baseUrl}/$types?format=operations`, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Accept': 'application/json',
+      },
+    });
+    const operationsFile = path.join(outputDir, 'operations.json');
+    if (operationsResponse.ok) {
+      fs.writeFileSync(operationsFile, JSON.stringify(await operationsResponse.json(), null, 2));
+    }
+
+    // Date/decimal field types - drives the SDK's typeConversion mode
+    let fieldsFile: string | undefined;
+    if (options.typeConversion) {
+      const fieldsResponse = await fetch(`${baseUrl}/$types?format=fields`, {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Accept': 'application/json',
+        },
+      });
+      if (!fieldsResponse.ok) {
+        throw new Error(`Field types: HTTP ${fieldsResponse.status}: ${fieldsResponse.statusText}`);
+      }
+      fieldsFile = path.join(outputDir, 'fields.json');
+      fs.writeFileSync(fieldsFile, JSON.stringify(await fieldsResponse.json(), null, 2));
+    }
+
     console.log(`\nTypes generated successfully!`);
     console.log(`  ${typesFile}`);
+    if (operationsResponse.ok) {
+      console.log(`  ${operationsFile}`);
+    }
+    if (fieldsFile) {
+      console.log(`  ${fieldsFile}`);
+    }
     console.log(`\nUsage:`);
     console.log(`  import type { A_BusinessPartner } from '${output}';`);
+    if (operationsResponse.ok) {
+      console.log(`  import operations from '${output}/operations.json';`);
+      console.log(`  const client = S4Kit({ apiKey, operations });`);
+    }
+    if (fieldsFile) {
+      console.log(`  import fields from '${output}/fields.json';`);
+      console.log(`  const client = S4Kit({ apiKey, typeConversion: { fields } });`);
+    }
   } catch (error) {
     console.error('Failed to generate types:', error instanceof Error ? error.message : error);
     process.exit(1);
@@ -3,13 +3,22 @@
 // ============================================================================
 
 import { HttpClient, type HttpClientConfig } from './http-client';
-import { createProxy, createEntityHandler } from './proxy';
+import { createProxy, createEntityHandler, type EntityHandlerOptions } from './proxy';
+import { Coalescer } from './coalesce';
+import { getETag, captureETag } from './etag';
+import { buildQuery, formatKey } from './query-builder';
+import { parseHttpError, type S4KitError } from './errors';
 import type {
   S4KitConfig,
   EntityHandler,
   EntityKey,
   BatchOperation,
   BatchResult,
+  QueryOptions,
+  NarrowingQueryOptions,
+  QueryResult,
+  Expand,
+  ListResponse,
   RequestInterceptor,
   ResponseInterceptor,
   ErrorInterceptor,
@@ -25,16 +34,27 @@ import type {
 export interface DeferredOperation<T = unknown> {
   __deferred: true;
   operation: BatchOperation;
+  /**
+   * Content-ID reference to the operation's entity (`$1`) - for later operations
+   * of the same changeset, e.g. `{ 'to_Header@odata.bind': order.ref }` (OData V4)
+   */
+  ref: string;
   _resultType?: T;
 }
 
 /**
- * Transaction entity handler - collects operations instead of executing them
+ * Transaction entity handler - collects operations instead of executing them.
+ * Wherever a key is expected, an earlier operation of the same changeset can be passed instead.
  */
 export interface TransactionEntityHandler<T = unknown> {
   create(data: Partial<T>): DeferredOperation<T>;
-  update(id: EntityKey, data: Partial<T>): DeferredOperation<T>;
-  delete(id: EntityKey): DeferredOperation<void>;
+  update(id: EntityKey | DeferredOperation<any>, data: Partial<T>, options?: { etag?: string }): DeferredOperation<T>;
+  delete(id: EntityKey | DeferredOperation<any>, options?: { etag?: string }): DeferredOperation<void>;
+  /**
+   * Operations on a navigation property of an entity
+   * @example tx.A_SalesOrder.nav(order, 'to_Item').create({ Material: 'TG11' })
+   */
+  nav(id: EntityKey | DeferredOperation<any>, property: string): TransactionEntityHandler<any>;
 }
 
 /**
@@ -44,20 +64,185 @@ export type TransactionContext = {
   [entityName: string]: TransactionEntityHandler<any>;
 };
 
+/**
+ * Results of a transaction, in the order of its operations
+ */
+export type TransactionResults<T extends DeferredOperation<any>[]> = {
+  [K in keyof T]: T[K] extends DeferredOperation<infer R> ? R : unknown
+};
+
+/**
+ * Outcome of one changeset - committed with its results, or rolled back
+ */
+export type ChangesetResult<T extends DeferredOperation<any>[] = DeferredOperation<any>[]> =
+  | { success: true; results: TransactionResults<T> }
+  | { success: false; error: S4KitError };
+
+/** Operations a transaction can contain */
+type WriteOperation = Exclude<BatchOperation, { method: 'GET' }>;
+
+function isDeferred(value: unknown): value is DeferredOperation<any> {
+  return typeof value === 'object' && value !== null && (value as DeferredOperation).__deferred === true;
+}
+
+/**
+ * Transaction context of one batch - numbers operations by Content-ID in creation order
+ */
+function createTransactionContext(): TransactionContext {
+  let contentId = 0;
+
+  const defer = <T>(operation: WriteOperation): DeferredOperation<T> => {
+    const id = String(++contentId);
+    return { __deferred: true, operation: { ...operation, contentId: id }, ref: `$${id}` };
+  };
+
+  // Entity path and key of an operation target - a reference replaces both
+  const target = (entity: string, id: EntityKey | DeferredOperation<any>) =>
+    isDeferred(id) ? { entity: id.ref } : { entity, id };
+
+  const handler = (entity: string): TransactionEntityHandler<any> => ({
+    create: (data) => defer({ method: 'POST', entity, data }),
+    update: (id, data, options) => defer({
+      method: 'PATCH',
+      ...target(entity, id),
+      data,
+      etag: options?.etag ?? getETag(data),
+    }),
+    delete: (id, options) => defer({ method: 'DELETE', ...target(entity, id), etag: options?.etag }),
+    nav: (id, property) => handler(isDeferred(id) ? `${id.ref}/${property}` : `${entity}(${formatKey(id)})/${property}`),
+  });
+
+  return new Proxy({} as TransactionContext, {
+    get: (_target, entityName: string) => handler(entityName),
+  });
+}
+
+/**
+ * Batch order of deferred operations: creation order, so references point backwards
+ */
+function inCreationOrder(deferred: DeferredOperation<any>[]): DeferredOperation<any>[] {
+  const contentId = (d: DeferredOperation<any>) => Number((d.operation as WriteOperation).contentId);
+  return [...deferred].sort((a, b) => contentId(a) - contentId(b));
+}
+
+// ============================================================================
+// Batch Types
+// ============================================================================
+
+/**
+ * Operation collected by the client.batch() callback
+ */
+export interface BatchItem<T = unknown> {
+  __batch: true;
+  operation: BatchOperation;
+  /** Turns the operation's batch result into its value in the returned tuple */
+  resolve: (result: BatchResult) => T;
+}
+
+/**
+ * Batch entity handler - collects reads and writes instead of executing them
+ */
+export interface BatchEntityHandler<T = any> {
+  list<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: NarrowingQueryOptions<T, S, X>
+  ): BatchItem<QueryResult<T, S, X>[]>;
+  listWithCount<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: NarrowingQueryOptions<T, S, X>
+  ): BatchItem<ListResponse<QueryResult<T, S, X>>>;
+  get<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    id: EntityKey,
+    options?: NarrowingQueryOptions<T, S, X>
+  ): BatchItem<QueryResult<T, S, X>>;
+  count(options?: Omit<QueryOptions<T>, 'top' | 'skip' | 'select'>): BatchItem<number>;
+  create(data: Partial<T> | T): BatchItem<T>;
+  update(id: EntityKey, data: Partial<T>, options?: { etag?: string }): BatchItem<T>;
+  delete(id: EntityKey, options?: { etag?: string }): BatchItem<void>;
+}
+
+/** Entity type of a generated entity handler */
+type EntityOf<H> = H extends EntityHandler<infer T, any> ? T : never;
+
+/**
+ * Batch context passed to the client.batch() callback - typed for generated entities
+ */
+export type BatchContext = {
+  [K in keyof S4KitClient as S4KitClient[K] extends EntityHandler<any, any> ? K : never]: BatchEntityHandler<EntityOf<S4KitClient[K]>>;
+} & {
+  [entityName: string]: BatchEntityHandler<any>;
+};
+
+/**
+ * Values of a batch, in the order of its operations
+ */
+export type BatchResults<T extends BatchItem<any>[]> = {
+  [K in keyof T]: T[K] extends BatchItem<infer R> ? R : unknown
+};
+
+function createBatchContext(client: HttpClient): BatchContext {
+  const item = <T>(operation: BatchOperation, resolve: (result: BatchResult) => T): BatchItem<T> =>
+    ({ __batch: true, operation, resolve });
+
+  const handler = (entity: string): BatchEntityHandler<any> => {
+    // Date/decimal filter literals in typeConversion mode
+    const literals = client.typeConverter?.filterLiterals(entity);
+    const query = (options?: QueryOptions<any>) => {
+      const params = buildQuery(options, literals);
+      return Object.keys(params).length > 0 ? params : undefined;
+    };
+    const entities = (result: BatchResult, raw?: boolean) =>
+      (Array.isArray(result.data) ? result.data : []).map(entity => captureETag(entity, raw));
+
+    return {
+      list: (options) => item(
+        { method: 'GET', entity, query: query(options) },
+        result => entities(result, options?.raw)
+      ),
+      listWithCount: (options) => item(
+        { method: 'GET', entity, query: query({ ...options, count: true }) },
+        result => ({ value: entities(result, options?.raw), count: result.count, nextLink: result.nextLink })
+      ),
+      get: (id, options) => item(
+        { method: 'GET', entity, id, query: query(options) },
+        result => captureETag(result.data, options?.raw)
+      ),
+      count: (options) => item(
+        { method: 'GET', entity: `${entity}/$count`, query: query(options as QueryOptions<any>) },
+        result => Number(result.data)
+      ),
+      create: (data) => item({ method: 'POST', entity, data }, result => captureETag(result.data)),
+      update: (id, data, options) => item(
+        { method: 'PATCH', entity, id, data, etag: options?.etag ?? getETag(data) },
+        result => captureETag(result.data)
+      ),
+      delete: (id, options) => item({ method: 'DELETE', entity, id, etag: options?.etag }, () => undefined),
+    };
+  };
+
+  return new Proxy({} as BatchContext, {
+    get: (_target, entityName: string) => handler(entityName),
+  });
+}
+
 // ============================================================================
 // Client Interface for TypeScript
 // ============================================================================
 
 /**
- * S4Kit client methods (interceptors, transactions)
+ * S4Kit client methods (interceptors, batches, transactions)
  */
 export interface S4KitMethods {
   onRequest(interceptor: RequestInterceptor): S4KitClient;
   onResponse(interceptor: ResponseInterceptor): S4KitClient;
   onError(interceptor: ErrorInterceptor): S4KitClient;
+  batch<T extends BatchItem<any>[]>(
+    fn: (b: BatchContext) => [...T]
+  ): Promise<BatchResults<T>>;
   transaction<T extends DeferredOperation<any>[]>(
     fn: (tx: TransactionContext) => T
-  ): Promise<{ [K in keyof T]: T[K] extends DeferredOperation<infer R> ? R : unknown }>;
+  ): Promise<TransactionResults<T>>;
+  changesets<T extends DeferredOperation<any>[][]>(
+    fn: (tx: TransactionContext) => [...T]
+  ): Promise<{ [K in keyof T]: ChangesetResult<T[K]> }>;
 }
 
 /**
@@ -131,9 +316,18 @@ export type S4KitClientWithDynamicAccess = S4KitClient & {
  */
 class S4KitBase {
   protected httpClient: HttpClient;
+  protected handlerOptions: EntityHandlerOptions = {};
 
   constructor(config: S4KitConfig | HttpClientConfig) {
     this.httpClient = new HttpClient(config as HttpClientConfig);
+    this.handlerOptions.operations = config.operations;
+
+    if (config.coalesce) {
+      this.handlerOptions.coalescer = new Coalescer(
+        this.httpClient,
+        config.coalesce === true ? {} : config.coalesce
+      );
+    }
   }
 
   // ==========================================================================
@@ -185,6 +379,40 @@ class S4KitBase {
     return this;
   }
 
+  // ==========================================================================
+  // Batches
+  // ==========================================================================
+
+  /**
+   * Execute independent reads and writes in one request - values come back as a typed tuple
+   *
+   * Operations succeed or fail on their own; the first failure rejects the promise.
+   * Use transaction() when writes must commit together.
+   *
+   * @example
+   * ```ts
+   * const [products, customer, order] = await client.batch(b => [
+   *   b.A_Product.list({ select: ['Product', 'ProductType'], top: 10 }),
+   *   b.A_Customer.get('1'),
+   *   b.A_SalesOrder.create({ SalesOrderType: 'OR' }),
+   * ]);
+   * ```
+   */
+  async batch<T extends BatchItem<any>[]>(
+    fn: (b: BatchContext) => [...T]
+  ): Promise<BatchResults<T>> {
+    const items = fn(createBatchContext(this.httpClient));
+    const results = await this.httpClient.batchRequest(items.map(item => item.operation));
+
+    return items.map((item, i) => {
+      const result = results[i];
+      if (!result?.success) {
+        throw parseHttpError(result?.status ?? 500, { error: result?.error });
+      }
+      return item.resolve(result);
+    }) as BatchResults<T>;
+  }
+
   // ==========================================================================
   // Transactions
   // ==========================================================================
@@ -192,6 +420,11 @@ class S4KitBase {
   /**
    * Execute operations atomically (all succeed or all fail)
    *
+   * A failure rejects with the S4KitError of the failed operation (e.g. NotFoundError).
+   *
+   * Operations can reference earlier ones: pass them where a key is expected,
+   * or use their `ref` (`$1`) in request bodies.
+   *
    * @example
    * ```ts
    * // All operations succeed or all fail together
@@ -200,49 +433,67 @@ class S4KitBase {
    *   tx.Books.create({ title: 'Book 2', price: 10.99 }),
    *   tx.Authors.update(1, { bookCount: 5 }),
    * ]);
+   *
+   * // Sales order header plus items that point to it
+   * const [order, item] = await client.transaction(tx => {
+   *   const order = tx.A_SalesOrder.create({ SalesOrderType: 'OR' });
+   *   return [order, tx.A_SalesOrder.nav(order, 'to_Item').create({ Material: 'TG11' })];
+   * });
    * ```
    */
   async transaction<T extends DeferredOperation<any>[]>(
     fn: (tx: TransactionContext) => T
-  ): Promise<{ [K in keyof T]: T[K] extends DeferredOperation<infer R> ? R : unknown }> {
-    // Create transaction context that collects operations
-    const txContext: TransactionContext = new Proxy({} as TransactionContext, {
-      get: (_target, entityName: string) => {
-        return {
-          create: (data: Record<string, unknown>): DeferredOperation => ({
-            __deferred: true,
-            operation: { method: 'POST', entity: entityName, data },
-          }),
-          update: (id: EntityKey, data: Record<string, unknown>): DeferredOperation => ({
-            __deferred: true,
-            operation: { method: 'PATCH', entity: entityName, id, data },
-          }),
-          delete: (id: EntityKey): DeferredOperation<void> => ({
-            __deferred: true,
-            operation: { method: 'DELETE', entity: entityName, id },
-          }),
-        };
-      },
-    });
-
-    // Collect operations from callback
-    const deferredOps = fn(txContext);
-
-    // Extract operations
-    const operations = deferredOps.map(d => d.operation);
-
-    // Execute atomically
-    const results = await this.httpClient.batchRequest(operations, { atomic: true });
+  ): Promise<TransactionResults<T>> {
+    const deferredOps = fn(createTransactionContext());
+
+    // Execute atomically, in creation order
+    const ordered = inCreationOrder(deferredOps);
+    const results = await this.httpClient.batchRequest(ordered.map(d => d.operation), { atomic: true });
 
-    // Check for failures
-    const failed = results.filter(r => !r.success);
-    if (failed.length > 0) {
-      const errors = failed.map((f, i) => `Operation ${i + 1}: ${f.error?.message || 'Unknown error'}`);
-      throw new Error(`Transaction failed: ${errors.join('; ')}`);
+    // A failed changeset fails all of its operations - report the first failure
+    const failure = results.find(r => !r.success);
+    if (failure) {
+      throw parseHttpError(failure.status, { error: failure.error });
     }
 
     // Return results mapped to operations
-    return results.map(r => r.data) as any;
+    return deferredOps.map(d => captureETag(results[ordered.indexOf(d)]!.data)) as TransactionResults<T>;
+  }
+
+  /**
+   * Execute several changesets in one batch - each commits or rolls back on its own
+   *
+   * References (`$1`) only resolve within their own changeset.
+   *
+   * @example
+   * ```ts
+   * const [orders, stock] = await client.changesets(tx => [
+   *   [tx.Orders.create({ customer: 'ACME' }), tx.Orders.create({ customer: 'Globex' })],
+   *   [tx.Stock.update('P1', { quantity: 0 })],
+   * ]);
+   * if (orders.success) console.log(orders.results);
+   * else console.error('Orders rolled back:', orders.error.message);
+   * ```
+   */
+  async changesets<T extends DeferredOperation<any>[][]>(
+    fn: (tx: TransactionContext) => [...T]
+  ): Promise<{ [K in keyof T]: ChangesetResult<T[K]> }> {
+    const changesets = fn(createTransactionContext()).map(inCreationOrder);
+
+    const operations = changesets.flatMap((deferredOps, changeset) =>
+      deferredOps.map(d => ({ ...d.operation, changeset }) as BatchOperation)
+    );
+    const results = await this.httpClient.batchRequest(operations, { atomic: true });
+
+    let offset = 0;
+    return changesets.map((deferredOps): ChangesetResult => {
+      const changesetResults = results.slice(offset, offset += deferredOps.length);
+      const failure = changesetResults.find(r => !r.success);
+      if (failure) {
+        return { success: false, error: parseHttpError(failure.status, { error: failure.error }) };
+      }
+      return { success: true, results: changesetResults.map(r => captureETag(r.data)) };
+    }) as { [K in keyof T]: ChangesetResult<T[K]> };
   }
 }
 
@@ -255,9 +506,12 @@ const RESERVED_METHODS = new Set([
   'onRequest',
   'onResponse',
   'onError',
+  'batch',
   'transaction',
+  'changesets',
   'constructor',
   'httpClient',
+  'handlerOptions',
   // Internal properties
   'then',
   'catch',
@@ -293,7 +547,7 @@ export function S4Kit(config: S4KitConfig | HttpClientConfig): S4KitClientWithDy
       }
 
       // Everything else is an entity name - create handler dynamically
-      return createEntityHandler(target['httpClient'], prop);
+      return createEntityHandler(target['httpClient'], prop, target['handlerOptions']);
     },
   }) as unknown as S4KitClientWithDynamicAccess;
 }
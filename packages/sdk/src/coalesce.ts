@@ -0,0 +1,239 @@
+// ============================================================================
+// S4Kit Request Coalescing - DataLoader-Style Batching of Reads
+// ============================================================================
+
+import type { HttpClient, RequestOptions } from './http-client';
+import type { CoalesceOptions, EntityKey } from './types';
+import { formatKey } from './query-builder';
+import { NotFoundError, parseHttpError } from './errors';
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+
+interface Waiter {
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/** All callers waiting for the same key */
+interface PendingKey {
+  id: EntityKey;
+  waiters: Waiter[];
+}
+
+/** get() calls sharing entity, query and connection - loaded together */
+interface PendingGroup {
+  basePath: string;
+  query: Record<string, string>;
+  requestOptions?: RequestOptions;
+  keys: Map<string, PendingKey>;
+}
+
+/**
+ * Collects concurrent reads of one client and loads them together.
+ * Shared by all entity handlers of the client (handlers are created per access).
+ */
+export class Coalescer {
+  private groups = new Map<string, PendingGroup>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private scheduled = false;
+
+  constructor(
+    private readonly client: HttpClient,
+    private readonly options: CoalesceOptions = {}
+  ) {}
+
+  /**
+   * Share one promise among identical in-flight requests
+   */
+  share<R>(key: string, run: () => Promise<R>): Promise<R> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing as Promise<R>;
+
+    const promise = run().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Whether a get() can be coalesced - plain entity sets only (no navigation
+   * paths, no raw responses); query options need a known key property
+   */
+  canLoad(basePath: string, id: EntityKey, query: Record<string, string>, requestOptions?: RequestOptions): boolean {
+    if (requestOptions?.raw || /[(/]/.test(basePath)) return false;
+    return Object.keys(query).length === 0 || this.filterKeyFor(basePath, id) !== undefined;
+  }
+
+  /**
+   * Queue a get() for the current microtask window
+   * @returns The entity payload as returned by the proxy
+   */
+  load<R>(
+    basePath: string,
+    id: EntityKey,
+    query: Record<string, string>,
+    requestOptions?: RequestOptions
+  ): Promise<R> {
+    const groupKey = JSON.stringify([
+      basePath,
+      query,
+      requestOptions?.connection,
+      requestOptions?.service,
+      requestOptions?.headers,
+    ]);
+
+    let group = this.groups.get(groupKey);
+    if (!group) {
+      group = { basePath, query, requestOptions, keys: new Map() };
+      this.groups.set(groupKey, group);
+    }
+
+    const formatted = formatKey(id);
+    let pending = group.keys.get(formatted);
+    if (!pending) {
+      pending = { id, waiters: [] };
+      group.keys.set(formatted, pending);
+    }
+
+    const promise = new Promise<R>((resolve, reject) => {
+      pending.waiters.push({ resolve, reject });
+    });
+
+    if (!this.scheduled) {
+      this.scheduled = true;
+      queueMicrotask(() => this.flush());
+    }
+
+    return promise;
+  }
+
+  /**
+   * Key property used in $filter for simple keys of an entity set, if known
+   */
+  private filterKeyFor(basePath: string, id: EntityKey): string | undefined {
+    if (typeof id === 'object') return undefined;
+    return this.options.keys?.[basePath];
+  }
+
+  private flush(): void {
+    this.scheduled = false;
+    const groups = [...this.groups.values()];
+    this.groups.clear();
+
+    const maxBatchSize = this.options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+
+    for (const group of groups) {
+      const entries = [...group.keys.values()];
+      const byFilter = entries.filter(e => this.filterKeyFor(group.basePath, e.id) !== undefined);
+      const byBatch = entries.filter(e => this.filterKeyFor(group.basePath, e.id) === undefined);
+
+      for (let i = 0; i < byFilter.length; i += maxBatchSize) {
+        void this.loadByFilter(group, byFilter.slice(i, i + maxBatchSize));
+      }
+      for (let i = 0; i < byBatch.length; i += maxBatchSize) {
+        void this.loadByBatch(group, byBatch.slice(i, i + maxBatchSize));
+      }
+    }
+  }
+
+  /**
+   * Simple keys: one `$filter=Key eq a or Key eq b` request
+   */
+  private async loadByFilter(group: PendingGroup, entries: PendingKey[]): Promise<void> {
+    const keyField = this.options.keys![group.basePath]!;
+
+    if (entries.length === 1) {
+      return this.loadSingle(group, entries[0]!);
+    }
+
+    const params: Record<string, string> = {
+      ...group.query,
+      $filter: entries.map(e => `${keyField} eq ${formatKey(e.id)}`).join(' or '),
+      $top: String(entries.length),
+    };
+    // The key is needed to route results back to their callers
+    if (params.$select && !params.$select.split(',').includes(keyField)) {
+      params.$select = `${params.$select},${keyField}`;
+    }
+
+    try {
+      const response = await this.client.get<any>(group.basePath, params, group.requestOptions);
+      const items: any[] = Array.isArray(response?.data) ? response.data : [];
+
+      const byKey = new Map<string, unknown>();
+      for (const item of items) {
+        byKey.set(normalizeKey(item?.[keyField]), item);
+      }
+
+      for (const entry of entries) {
+        const item = byKey.get(normalizeKey(entry.id));
+        if (item !== undefined) {
+          settle(entry, item);
+        } else {
+          settle(entry, undefined, new NotFoundError(group.basePath, formatKey(entry.id)));
+        }
+      }
+    } catch (error) {
+      for (const entry of entries) settle(entry, undefined, error);
+    }
+  }
+
+  /**
+   * Composite (or unmapped) keys: one non-atomic `/batch` call with GET operations
+   */
+  private async loadByBatch(group: PendingGroup, entries: PendingKey[]): Promise<void> {
+    if (entries.length === 1) {
+      return this.loadSingle(group, entries[0]!);
+    }
+
+    try {
+      const results = await this.client.batchRequest(
+        entries.map(e => ({ method: 'GET' as const, entity: group.basePath, id: e.id })),
+        group.requestOptions
+      );
+
+      entries.forEach((entry, i) => {
+        const result = results[i];
+        if (result?.success) {
+          settle(entry, result.data);
+        } else if (result?.status === 404) {
+          settle(entry, undefined, new NotFoundError(group.basePath, formatKey(entry.id)));
+        } else {
+          settle(entry, undefined, parseHttpError(result?.status ?? 500, { error: result?.error }));
+        }
+      });
+    } catch (error) {
+      for (const entry of entries) settle(entry, undefined, error);
+    }
+  }
+
+  /**
+   * A lone key in its window - a regular GET is cheaper than a $filter or batch
+   */
+  private async loadSingle(group: PendingGroup, entry: PendingKey): Promise<void> {
+    try {
+      const response = await this.client.get<any>(
+        `${group.basePath}(${formatKey(entry.id)})`,
+        group.query,
+        group.requestOptions
+      );
+      settle(entry, response?.data && !Array.isArray(response.data) ? response.data : response);
+    } catch (error) {
+      settle(entry, undefined, error);
+    }
+  }
+}
+
+/**
+ * Compare keys as strings (numbers and GUIDs may differ in type or case)
+ */
+function normalizeKey(value: unknown): string {
+  const key = String(value);
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key) ? key.toLowerCase() : key;
+}
+
+function settle(entry: PendingKey, value: unknown, error?: unknown): void {
+  for (const waiter of entry.waiters) {
+    if (error !== undefined) waiter.reject(error);
+    else waiter.resolve(value);
+  }
+}
@@ -0,0 +1,232 @@
+// ============================================================================
+// S4Kit Type Conversion - Dates and Exact Decimals Driven by Metadata
+// ============================================================================
+
+import type { DecimalAdapter, FieldTypeManifest, TypeConversionConfig } from './types';
+import type { FilterLiteralFormatter } from './query-builder';
+
+type ODataVersion = 'v2' | 'v4';
+
+const DATE_TYPES = new Set(['Edm.DateTime', 'Edm.DateTimeOffset', 'Edm.Date']);
+const DECIMAL_TYPE = 'Edm.Decimal';
+/** Exceeds JS number precision - kept as string like decimals */
+const INT64_TYPE = 'Edm.Int64';
+
+/** v2 JSON date: `/Date(1700000000000)/` or `/Date(1700000000000+0060)/` */
+const V2_DATE = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/;
+const DECIMAL_LITERAL = /^[+-]?\d+(\.\d+)?$/;
+const INTEGER_LITERAL = /^[+-]?\d+$/;
+
+/** Converts one value of an Edm type (read or write direction) */
+type ValueConverter = (value: unknown, edmType: string, version: ODataVersion) => unknown;
+
+// ============================================================================
+// Wire Format Helpers
+// ============================================================================
+
+function parseDate(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  const v2 = V2_DATE.exec(value);
+  if (v2) return new Date(Number(v2[1]));
+
+  // Edm.DateTime (v2) has no zone - SAP stores it as UTC
+  const hasZone = /([zZ]|[+-]\d\d:\d\d)$/.test(value) || value.length === 10;
+  const date = new Date(hasZone ? value : `${value}Z`);
+  return Number.isNaN(date.getTime()) ? value : date;
+}
+
+function serializeDate(date: Date, edmType: string, version: ODataVersion): string {
+  const iso = date.toISOString();
+  if (edmType === 'Edm.Date') return iso.slice(0, 10);
+  if (version === 'v4') return iso;
+  return edmType === 'Edm.DateTimeOffset' ? `/Date(${date.getTime()}+0000)/` : `/Date(${date.getTime()})/`;
+}
+
+function dateLiteral(date: Date, edmType: string, version: ODataVersion): string {
+  const iso = date.toISOString();
+  if (edmType === 'Edm.Date') return iso.slice(0, 10);
+  if (version === 'v4') return iso;
+  return edmType === 'Edm.DateTimeOffset'
+    ? `datetimeoffset'${iso}'`
+    : `datetime'${iso.slice(0, 19)}'`;
+}
+
+// ============================================================================
+// Type Converter
+// ============================================================================
+
+/**
+ * Converts entity payloads between wire format and JS types, using the
+ * generated field type manifest. Unknown entities and fields pass through.
+ */
+export class TypeConverter {
+  private readonly fields: FieldTypeManifest;
+  private readonly decimal?: DecimalAdapter<any>;
+
+  constructor(config: TypeConversionConfig) {
+    this.fields = config.fields;
+    this.decimal = config.decimal;
+  }
+
+  /**
+   * Structured type addressed by a request path: `Orders(1)/Items` → type of the Items navigation
+   */
+  typeOfPath(path: string): string | undefined {
+    const [head, ...segments] = path.split('?')[0]!.split('/');
+    let typeName: string | undefined = this.fields.entitySets[head!.split('(')[0]!];
+
+    for (const segment of segments) {
+      if (!typeName) return undefined;
+      typeName = this.fields.types[typeName]?.navigation[segment.split('(')[0]!];
+    }
+    return typeName;
+  }
+
+  /**
+   * Response payload → JS types (Date objects, exact decimals, Int64 as string).
+   * Accepts the proxy format (`{ data }`), arrays and single entities.
+   */
+  parse<T>(path: string, payload: T): T {
+    const typeName = this.typeOfPath(path);
+    if (!typeName || !payload || typeof payload !== 'object') return payload;
+
+    const read: ValueConverter = (value, edmType) => {
+      if (value === null || value === undefined) return value;
+      if (DATE_TYPES.has(edmType)) return parseDate(value);
+      if (edmType === DECIMAL_TYPE && (typeof value === 'string' || typeof value === 'number')) {
+        return this.decimal ? this.decimal.parse(String(value)) : String(value);
+      }
+      if (edmType === INT64_TYPE && typeof value === 'number') return String(value);
+      return value;
+    };
+
+    if (!Array.isArray(payload) && 'data' in payload) {
+      return { ...payload, data: this.walk((payload as any).data, typeName, read) };
+    }
+    return this.walk(payload, typeName, read) as T;
+  }
+
+  /**
+   * Request body → wire format of the service (v2 `/Date(...)/`, decimals and Int64 as strings)
+   */
+  serialize<T>(path: string, body: T): T {
+    const typeName = this.typeOfPath(path);
+    if (!typeName || !body || typeof body !== 'object') return body;
+
+    const write: ValueConverter = (value, edmType, version) => {
+      if (value instanceof Date && DATE_TYPES.has(edmType)) return serializeDate(value, edmType, version);
+      if (edmType === DECIMAL_TYPE) {
+        if (this.decimal?.isDecimal(value)) return this.decimal.serialize(value);
+        if (typeof value === 'number') return String(value);
+      }
+      if (edmType === INT64_TYPE && typeof value === 'number') return String(value);
+      return value;
+    };
+
+    return this.walk(body, typeName, write) as T;
+  }
+
+  /**
+   * Filter literal formatting for fields of the entity set at `path`
+   */
+  filterLiterals(path: string): FilterLiteralFormatter | undefined {
+    const typeName = this.typeOfPath(path);
+    if (!typeName) return undefined;
+
+    return {
+      odataVersion: this.fields.types[typeName]?.odataVersion,
+      format: (field, value) => {
+        const resolved = this.fieldType(typeName, field);
+        if (!resolved || value === null || value === undefined) return undefined;
+        const { edmType, version } = resolved;
+
+        if (value instanceof Date && DATE_TYPES.has(edmType)) {
+          return dateLiteral(value, edmType, version);
+        }
+        if (edmType === DECIMAL_TYPE) {
+          const text = this.decimal?.isDecimal(value) ? this.decimal.serialize(value) : String(value);
+          if (!DECIMAL_LITERAL.test(text)) return undefined;
+          return version === 'v2' ? `${text}M` : text;
+        }
+        if (edmType === INT64_TYPE) {
+          const text = String(value);
+          if (!INTEGER_LITERAL.test(text)) return undefined;
+          return version === 'v2' ? `${text}L` : text;
+        }
+        return undefined;
+      },
+    };
+  }
+
+  /**
+   * Edm type of a field path (`Amount`, `to_Partner/CreatedAt`, `Address/ValidFrom`)
+   */
+  private fieldType(typeName: string, field: string): { edmType: string; version: ODataVersion } | undefined {
+    let current: string | undefined = typeName;
+    const segments = field.split('/');
+
+    for (const [i, segment] of segments.entries()) {
+      const type: FieldTypeManifest['types'][string] | undefined = current ? this.fields.types[current] : undefined;
+      if (!type) return undefined;
+
+      if (i === segments.length - 1) {
+        const edmType = type.properties[segment];
+        return edmType ? { edmType, version: type.odataVersion } : undefined;
+      }
+      current = type.navigation[segment] ?? this.structuredType(type.properties[segment]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Complex type name of a property type, if the manifest knows it
+   */
+  private structuredType(edmType: string | undefined): string | undefined {
+    if (!edmType) return undefined;
+    const inner = edmType.startsWith('Collection(') ? edmType.slice(11, -1) : edmType;
+    if (inner.startsWith('Edm.')) return undefined;
+    const name = inner.split('.').pop()!;
+    return this.fields.types[name] ? name : undefined;
+  }
+
+  /**
+   * Copy a value of a structured type, converting known properties and
+   * descending into complex and navigation properties
+   */
+  private walk(value: unknown, typeName: string, convert: ValueConverter): unknown {
+    if (Array.isArray(value)) return value.map(item => this.walk(item, typeName, convert));
+    if (!value || typeof value !== 'object' || value instanceof Date) return value;
+
+    const type = this.fields.types[typeName];
+    if (!type) return value;
+
+    // v2 collections of expanded entities: { results: [...] }
+    if (Array.isArray((value as any).results) && Object.keys(value).length === 1) {
+      return { results: this.walk((value as any).results, typeName, convert) };
+    }
+
+    const result: Record<string | symbol, unknown> = { ...(value as object) };
+
+    for (const [name, edmType] of Object.entries(type.properties)) {
+      if (!(name in result)) continue;
+      const complexType = this.structuredType(edmType);
+      if (complexType) {
+        result[name] = this.walk(result[name], complexType, convert);
+      } else if (edmType.startsWith('Collection(') && Array.isArray(result[name])) {
+        const inner = edmType.slice(11, -1);
+        result[name] = (result[name] as unknown[]).map(item => convert(item, inner, type.odataVersion));
+      } else {
+        result[name] = convert(result[name], edmType, type.odataVersion);
+      }
+    }
+
+    for (const [name, target] of Object.entries(type.navigation)) {
+      if (result[name] && typeof result[name] === 'object') {
+        result[name] = this.walk(result[name], target, convert);
+      }
+    }
+
+    return result;
+  }
+}
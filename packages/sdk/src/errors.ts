@@ -2,7 +2,7 @@
 // S4Kit SDK Error Handling - Developer-Friendly OData Errors
 // ============================================================================
 
-import type { ODataError, ODataErrorDetail, InterceptedRequest, IS4KitError } from './types';
+import type { ODataError, ODataErrorDetail, InterceptedRequest, IS4KitError, BulkItemResult } from './types';
 
 /**
  * Base S4Kit error class with enhanced OData support
@@ -200,6 +200,17 @@ export class ConflictError extends S4KitError {
   }
 }
 
+/**
+ * Precondition failed error (412) - the If-Match ETag no longer matches,
+ * i.e. the entity was changed by someone else since it was read
+ */
+export class PreconditionFailedError extends S4KitError {
+  constructor(message = 'Precondition failed', options?: { odataError?: ODataError; request?: InterceptedRequest }) {
+    super(message, { ...options, status: 412, code: 'PRECONDITION_FAILED' });
+    this.name = 'PreconditionFailedError';
+  }
+}
+
 /**
  * Rate limit exceeded error (429)
  */
@@ -221,9 +232,75 @@ export class RateLimitError extends S4KitError {
  * Server error (5xx)
  */
 export class ServerError extends S4KitError {
-  constructor(message = 'Internal server error', status = 500, options?: { odataError?: ODataError; request?: InterceptedRequest }) {
-    super(message, { ...options, status, code: 'SERVER_ERROR' });
+  /** Seconds to wait before retrying, from a Retry-After header (e.g. on 503) */
+  public readonly retryAfter?: number;
+
+  constructor(message = 'Internal server error', status = 500, options?: { odataError?: ODataError; request?: InterceptedRequest; retryAfter?: number }) {
+    const { retryAfter, ...rest } = options ?? {};
+    super(message, { ...rest, status, code: 'SERVER_ERROR' });
     this.name = 'ServerError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Replay mode found no recorded response for a request
+ */
+export class RecordingNotFoundError extends S4KitError {
+  /** Fixture file the recording was expected in */
+  public readonly fixture: string;
+
+  constructor(method: string, path: string, fixture: string) {
+    super(`No recording for ${method} ${path} (expected ${fixture})`, {
+      code: 'RECORDING_NOT_FOUND',
+      request: { method, url: path, headers: {} },
+    });
+    this.name = 'RecordingNotFoundError';
+    this.fixture = fixture;
+  }
+}
+
+/**
+ * Bulk write (createMany, updateMany, deleteMany) in which some items failed.
+ * Carries the outcome of every item, so the failed ones can be retried.
+ * @example
+ * ```ts
+ * try {
+ *   await client.Customers.createMany(rows);
+ * } catch (error) {
+ *   if (error instanceof BulkOperationError) {
+ *     await client.Customers.createMany(error.failures.map(f => rows[f.index]!));
+ *   }
+ * }
+ * ```
+ */
+export class BulkOperationError<T = unknown> extends S4KitError {
+  /** Bulk method that failed */
+  public readonly operation: string;
+  /** One result per input item, in input order */
+  public readonly results: BulkItemResult<T>[];
+
+  constructor(operation: string, results: BulkItemResult<T>[]) {
+    const failures = results.filter(r => !r.success);
+    const first = failures[0];
+    super(
+      `${operation} failed for ${failures.length} of ${results.length} items` +
+        (first ? ` (item ${first.index + 1}: ${first.error?.message ?? 'Unknown error'})` : ''),
+      { code: 'BULK_OPERATION_FAILED', odataError: first?.error }
+    );
+    this.name = 'BulkOperationError';
+    this.operation = operation;
+    this.results = results;
+  }
+
+  /** Items that failed */
+  get failures(): BulkItemResult<T>[] {
+    return this.results.filter(r => !r.success);
+  }
+
+  /** Items that were written */
+  get successes(): BulkItemResult<T>[] {
+    return this.results.filter(r => r.success);
   }
 }
 
@@ -233,11 +310,13 @@ export class ServerError extends S4KitError {
 
 /**
  * Parse an HTTP response into the appropriate S4Kit error
+ * @param retryAfter - Seconds from the Retry-After header, if present
  */
 export function parseHttpError(
   status: number,
   body: any,
-  request?: InterceptedRequest
+  request?: InterceptedRequest,
+  retryAfter?: number
 ): S4KitError {
   const odataError = parseODataError(body);
   const message = odataError?.message ?? getDefaultMessage(status);
@@ -253,16 +332,28 @@ export function parseHttpError(
       return new NotFoundError(undefined, undefined, { odataError, request });
     case 409:
       return new ConflictError(message, { odataError, request });
+    case 412:
+      return new PreconditionFailedError(message, { odataError, request });
     case 429:
-      return new RateLimitError(undefined, { odataError, request });
+      // Prefer the header, fall back to the proxy's { retryAfter } body field
+      return new RateLimitError(retryAfter ?? parseRetryAfterField(body), { odataError, request });
     default:
       if (status >= 500) {
-        return new ServerError(message, status, { odataError, request });
+        return new ServerError(message, status, { odataError, request, retryAfter });
       }
       return new S4KitError(message, { status, odataError, request });
   }
 }
 
+/**
+ * Read the retryAfter field (seconds) the S4Kit proxy sends with 429 responses
+ */
+function parseRetryAfterField(body: any): number | undefined {
+  const value = body?.retryAfter ?? body?.error?.retryAfter;
+  const seconds = typeof value === 'string' ? Number(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? seconds : undefined;
+}
+
 /**
  * Parse OData error format from response body
  */
@@ -311,6 +402,8 @@ function getDefaultMessage(status: number): string {
     404: 'Resource not found',
     405: 'Method not allowed',
     409: 'Resource conflict',
+    412: 'Precondition failed',
+    428: 'Precondition required',
     429: 'Too many requests',
     500: 'Internal server error',
     502: 'Bad gateway',
@@ -366,6 +459,10 @@ function getSuggestionForError(error: S4KitError): string {
     return 'Check the request data for missing or invalid fields.';
   }
 
+  if (error instanceof PreconditionFailedError) {
+    return 'The entity was modified since you read it. Re-fetch it with .get() to obtain the current ETag, then retry your change.';
+  }
+
   if (error instanceof RateLimitError) {
     if (error.retryAfter) {
       return `Wait ${error.retryAfter} seconds before retrying. Consider implementing request throttling.`;
@@ -373,6 +470,14 @@ function getSuggestionForError(error: S4KitError): string {
     return 'You have exceeded the rate limit. Implement exponential backoff or reduce request frequency.';
   }
 
+  if (error instanceof RecordingNotFoundError) {
+    return "The request changed or is new since the fixtures were recorded. Re-run the tests with recorder mode 'record' against a live system.";
+  }
+
+  if (error instanceof BulkOperationError) {
+    return 'Inspect error.failures for the reason of each failed item, and retry only those items (error.failures[i].index points into your input).';
+  }
+
   if (error instanceof NetworkError) {
     return 'Check your network connection. If the problem persists, the S4Kit API may be temporarily unavailable.';
   }
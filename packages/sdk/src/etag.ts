@@ -0,0 +1,65 @@
+// ============================================================================
+// S4Kit ETag Support - Optimistic concurrency via If-Match
+// ============================================================================
+
+/**
+ * Metadata slot holding an entity's ETag.
+ *
+ * A symbol key survives object spread (`{ ...order, Status: 'B' }`) but is
+ * skipped by `JSON.stringify`, so the ETag travels with the entity without
+ * ever being sent back to SAP as a field.
+ */
+export const ETAG: unique symbol = Symbol.for('s4kit.etag');
+
+/**
+ * Read the ETag captured for an entity returned by `get()` / `list()`
+ * @example
+ * ```ts
+ * const order = await client.A_SalesOrder.get('4711');
+ * getETag(order); // 'W/"datetimeoffset\'2024-01-01T10:00:00Z\'"'
+ * ```
+ */
+export function getETag(entity: unknown): string | undefined {
+  if (!entity || typeof entity !== 'object') return undefined;
+  const obj = entity as Record<string | symbol, any>;
+  if (typeof obj[ETAG] === 'string') return obj[ETAG];
+  if (typeof obj['@odata.etag'] === 'string') return obj['@odata.etag'];
+  if (typeof obj.__metadata?.etag === 'string') return obj.__metadata.etag;
+  return undefined;
+}
+
+/**
+ * Attach an ETag to an entity (e.g. one restored from local state)
+ * @example
+ * ```ts
+ * const draft = setETag({ ...saved }, savedETag);
+ * await client.A_SalesOrder.update('4711', draft);
+ * ```
+ */
+export function setETag<T extends object>(entity: T, etag: string | undefined): T {
+  if (etag === undefined) {
+    delete (entity as any)[ETAG];
+  } else {
+    Object.defineProperty(entity, ETAG, {
+      value: etag,
+      enumerable: true,
+      configurable: true,
+      writable: true,
+    });
+  }
+  return entity;
+}
+
+/**
+ * Move the wire-format ETag of a response entity into the metadata slot.
+ * The `@odata.etag` field is removed unless the caller asked for raw responses.
+ * @internal
+ */
+export function captureETag<T>(entity: T, raw = false): T {
+  if (!entity || typeof entity !== 'object' || Array.isArray(entity)) return entity;
+  const etag = getETag(entity);
+  if (etag === undefined) return entity;
+  setETag(entity as object, etag);
+  if (!raw) delete (entity as any)['@odata.etag'];
+  return entity;
+}
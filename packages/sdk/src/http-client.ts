@@ -13,6 +13,9 @@ import type {
   InterceptedResponse,
   BatchOperation,
   BatchResult,
+  RetryOverride,
+  MediaBody,
+  MediaContent,
 } from './types';
 import {
   S4KitError,
@@ -20,6 +23,16 @@ import {
   TimeoutError,
   parseHttpError,
 } from './errors';
+import {
+  resolveRetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  sleep,
+} from './retry';
+import { ResponseCache, entityOfPath } from './cache';
+import { TypeConverter } from './conversion';
+import { Recorder } from './recorder';
+import { Tracer, type OperationSpan } from './tracing';
 
 // Simple UUID generator (works in all environments)
 function generateUUID(): string {
@@ -30,6 +43,33 @@ function generateUUID(): string {
   });
 }
 
+/**
+ * Entity path of a batch operation with its Content-ID reference (`$1/to_Item`)
+ * replaced by the path of the operation it references (`A_SalesOrder/to_Item`)
+ */
+function dereference(entity: string, operations: BatchOperation[], depth = 0): string {
+  const reference = /^\$([^/(]+)/.exec(entity);
+  const referenced = reference && operations.find(op => 'contentId' in op && op.contentId === reference[1]);
+  if (!reference || !referenced || depth >= operations.length) return entity;
+  return dereference(referenced.entity, operations, depth + 1) + entity.slice(reference[0].length);
+}
+
+/**
+ * File name from a Content-Disposition header (RFC 5987 `filename*` preferred)
+ */
+function parseFilename(disposition: string | null): string | undefined {
+  if (!disposition) return undefined;
+  const extended = /filename\*\s*=\s*[^']*'[^']*'([^;]+)/i.exec(disposition);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1]!.trim());
+    } catch {
+      // Malformed encoding - fall back to the plain parameter
+    }
+  }
+  return /filename\s*=\s*"?([^";]+)"?/i.exec(disposition)?.[1]?.trim();
+}
+
 // ============================================================================
 // Request/Response Options
 // ============================================================================
@@ -39,12 +79,18 @@ export interface RequestOptions {
   service?: string;
   raw?: boolean;
   headers?: Record<string, string>;
+  retry?: RetryOverride;
+  idempotent?: boolean;
+  /** Serve/store this GET through the response cache (entity reads only) */
+  cache?: boolean;
 }
 
 export interface HttpClientConfig extends S4KitConfig {
   onRequest?: RequestInterceptor[];
   onResponse?: ResponseInterceptor[];
   onError?: ErrorInterceptor[];
+  /** Custom fetch implementation (the mock client answers requests in memory) */
+  fetch?: KyOptions['fetch'];
 }
 
 // ============================================================================
@@ -58,20 +104,41 @@ export class HttpClient {
   private responseInterceptors: ResponseInterceptor[] = [];
   private errorInterceptors: ErrorInterceptor[] = [];
   private debug: boolean;
+  private cache?: ResponseCache;
+  private converter?: TypeConverter;
+  private recorder?: Recorder;
+  private tracer?: Tracer;
 
   constructor(config: HttpClientConfig) {
     this.config = config;
     this.debug = config.debug ?? false;
 
+    if (config.cache) {
+      this.cache = new ResponseCache(config.cache === true ? {} : config.cache);
+    }
+    if (config.typeConversion) {
+      this.converter = new TypeConverter(config.typeConversion);
+    }
+    if (config.tracing) {
+      this.tracer = new Tracer(config.tracing === true ? {} : config.tracing);
+    }
+
     // Initialize interceptors
     if (config.onRequest) this.requestInterceptors = [...config.onRequest];
     if (config.onResponse) this.responseInterceptors = [...config.onResponse];
     if (config.onError) this.errorInterceptors = [...config.onError];
 
+    const prefixUrl = config.baseUrl || 'https://api.s4kit.com/api/proxy';
+    if (config.recorder) {
+      this.recorder = new Recorder(config.recorder, prefixUrl, config.fetch);
+    }
+
     this.client = ky.create({
-      prefixUrl: config.baseUrl || 'https://api.s4kit.com/api/proxy',
+      prefixUrl,
       timeout: config.timeout ?? 30000,
-      retry: config.retries ?? 0,
+      fetch: this.recorder?.fetch ?? config.fetch,
+      // Retries are handled by withRetry() so they follow our policy, not ky's
+      retry: 0,
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
@@ -86,27 +153,13 @@ export class HttpClient {
               headers: Object.fromEntries(error.request?.headers?.entries() ?? []),
             };
 
-            let s4kitError: S4KitError;
-
-            if (error.name === 'TimeoutError') {
-              s4kitError = new TimeoutError(this.config.timeout ?? 30000, { request });
-            } else if (error.response) {
+            if (error.response) {
               const body = await error.response.json().catch(() => ({}));
-              s4kitError = parseHttpError(error.response.status, body, request);
-            } else {
-              s4kitError = new NetworkError(error.message, { cause: error, request });
-            }
-
-            // Run error interceptors
-            let finalError: S4KitError = s4kitError;
-            for (const interceptor of this.errorInterceptors) {
-              const result = await interceptor(finalError);
-              if (result instanceof S4KitError) {
-                finalError = result;
-              }
+              const retryAfter = parseRetryAfter(error.response.headers.get('retry-after'));
+              throw parseHttpError(error.response.status, body, request, retryAfter);
             }
 
-            throw finalError;
+            throw this.normalizeError(error, request);
           }
         ],
       },
@@ -168,6 +221,13 @@ export class HttpClient {
   // Debug Logging
   // ==========================================================================
 
+  /**
+   * Date/decimal converter (typeConversion mode only)
+   */
+  get typeConverter(): TypeConverter | undefined {
+    return this.converter;
+  }
+
   /**
    * Check if debug mode is enabled
    */
@@ -207,6 +267,8 @@ export class HttpClient {
     if (instance) headers['X-S4Kit-Instance'] = instance;
     if (svc) headers['X-S4Kit-Service'] = svc;
     if (options?.raw) headers['X-S4Kit-Raw'] = 'true';
+    // v4 services then send decimals as strings instead of lossy JSON numbers
+    if (this.converter) headers['Accept'] = 'application/json;IEEE754Compatible=true';
 
     // Merge custom headers
     if (options?.headers) {
@@ -216,6 +278,95 @@ export class HttpClient {
     return headers;
   }
 
+  // ==========================================================================
+  // Error Handling & Retries
+  // ==========================================================================
+
+  /**
+   * Convert any failure of the underlying fetch into an S4KitError
+   */
+  private normalizeError(error: unknown, request: InterceptedRequest): S4KitError {
+    if (error instanceof S4KitError) return error;
+    const err = error as Error;
+    if (err?.name === 'TimeoutError') {
+      return new TimeoutError(this.config.timeout ?? 30000, { request });
+    }
+    return new NetworkError(err?.message ?? String(error), { cause: err, request });
+  }
+
+  /**
+   * Run error interceptors on the final error of a request
+   */
+  private async interceptError(error: S4KitError): Promise<S4KitError> {
+    let finalError = error;
+    for (const interceptor of this.errorInterceptors) {
+      const result = await interceptor(finalError);
+      if (result instanceof S4KitError) {
+        finalError = result;
+      }
+    }
+    return finalError;
+  }
+
+  /**
+   * Send a request, retrying according to the client policy and per-call override.
+   * GETs are retried by default; writes only when marked idempotent.
+   * Error interceptors only see the error of the last attempt.
+   * With tracing, all attempts share one span whose traceparent is passed to `send`.
+   */
+  private async withRetry<T>(
+    method: string,
+    url: string,
+    send: (traceHeaders: Record<string, string>) => Promise<T>,
+    requestOptions?: RequestOptions
+  ): Promise<T> {
+    if (!this.tracer) {
+      return this.sendWithRetry(method, url, send, requestOptions);
+    }
+
+    const entity = entityOfPath(url);
+    return this.tracer.run(`${method} ${entity}`, {
+      'http.request.method': method,
+      'url.path': url,
+      's4kit.entity': entity,
+      's4kit.service': requestOptions?.service || this.config.service,
+      's4kit.connection': requestOptions?.connection || this.config.connection,
+    }, async (span) => {
+      const result = await this.sendWithRetry(method, url, send, requestOptions, span);
+      if (result instanceof Response) span.setAttribute('http.response.status_code', result.status);
+      return result;
+    });
+  }
+
+  private async sendWithRetry<T>(
+    method: string,
+    url: string,
+    send: (traceHeaders: Record<string, string>) => Promise<T>,
+    requestOptions?: RequestOptions,
+    span?: OperationSpan
+  ): Promise<T> {
+    const policy = resolveRetryPolicy(this.config, requestOptions?.retry);
+    const traceHeaders: Record<string, string> = span ? { traceparent: span.traceparent } : {};
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        span?.setAttribute('s4kit.attempts', attempt);
+        return await send(traceHeaders);
+      } catch (error) {
+        const s4kitError = this.normalizeError(error, { url, method, headers: {} });
+        const delay = getRetryDelay(policy, attempt, s4kitError, method, requestOptions?.idempotent);
+
+        if (delay === undefined) {
+          throw await this.interceptError(s4kitError);
+        }
+
+        this.log(`↻ Retry ${attempt}/${policy.limit} ${method} ${url} in ${delay}ms: ${s4kitError.message}`);
+        await policy.onRetry?.({ attempt, delay, error: s4kitError, method, url });
+        await sleep(delay);
+      }
+    }
+  }
+
   // ==========================================================================
   // Request Execution
   // ==========================================================================
@@ -226,6 +377,22 @@ export class HttpClient {
     options: KyOptions & { json?: any } = {},
     requestOptions?: RequestOptions
   ): Promise<T> {
+    const json = this.converter && options.json !== undefined
+      ? this.converter.serialize(path, options.json)
+      : options.json;
+    const response = await this.sendRequest(method, path, { ...options, json }, requestOptions);
+    return this.interceptResponse(response, path, requestOptions);
+  }
+
+  /**
+   * Run request interceptors and send the request (with retries), without response interceptors
+   */
+  private async sendRequest(
+    method: string,
+    path: string,
+    options: KyOptions & { json?: any },
+    requestOptions?: RequestOptions
+  ): Promise<InterceptedResponse> {
     const startTime = Date.now();
     const headers = this.buildHeaders(requestOptions);
 
@@ -249,17 +416,22 @@ export class HttpClient {
     }
 
     // Execute request
-    const response = await this.client(request.url, {
-      method: request.method,
-      headers: request.headers,
-      json: request.body,
-      searchParams: request.searchParams,
-    });
+    const response = await this.withRetry(
+      request.method,
+      request.url,
+      (traceHeaders) => this.client(request.url, {
+        method: request.method,
+        headers: { ...request.headers, ...traceHeaders },
+        json: request.body,
+        searchParams: request.searchParams,
+      }),
+      requestOptions
+    );
 
     const duration = Date.now() - startTime;
 
     // Parse response
-    const data = await response.json() as T;
+    const data = await response.json();
 
     this.log(`← ${response.status} (${duration}ms)`);
     if (this.debug && data) {
@@ -267,21 +439,88 @@ export class HttpClient {
       this.log('  Data:', preview + (preview.length >= 200 ? '...' : ''));
     }
 
-    // Build intercepted response object
-    let interceptedResponse: InterceptedResponse = {
+    return {
       status: response.status,
       headers: Object.fromEntries(response.headers.entries()),
       data,
     };
+  }
 
-    // Run response interceptors
+  /**
+   * Run response interceptors and return the final data
+   * (converted to Date/decimal values in typeConversion mode, unless raw)
+   */
+  private async interceptResponse<T>(
+    response: InterceptedResponse,
+    path: string,
+    requestOptions?: RequestOptions
+  ): Promise<T> {
+    let interceptedResponse = response;
     for (const interceptor of this.responseInterceptors) {
       interceptedResponse = await interceptor(interceptedResponse);
     }
-
+    if (this.converter && !requestOptions?.raw) {
+      return this.converter.parse(path, interceptedResponse.data);
+    }
     return interceptedResponse.data;
   }
 
+  /**
+   * GET through the response cache: fresh hits skip the network, stale hits
+   * are served while a background request refreshes the entry
+   */
+  private async cachedGet<T>(
+    cache: ResponseCache,
+    path: string,
+    searchParams: Record<string, any> | undefined,
+    requestOptions: RequestOptions
+  ): Promise<T> {
+    const entity = entityOfPath(path);
+    const key = cache.key(path, searchParams, {
+      connection: requestOptions.connection || this.config.connection,
+      service: requestOptions.service || this.config.service,
+      raw: requestOptions.raw,
+    });
+
+    const fetchAndStore = async () => {
+      const response = await this.sendRequest('GET', path, { searchParams }, requestOptions);
+      await cache.save(key, entity, response.data);
+      return response;
+    };
+
+    const cached = await cache.lookup(key);
+    if (cached) {
+      this.log(`⚡ cache ${cached.stale ? 'stale' : 'hit'}: GET ${path}`);
+      if (cached.stale) {
+        cache.revalidate(key, async () => { await fetchAndStore(); }, (error) => {
+          this.warn(`Background revalidation of ${path} failed: ${(error as Error).message}`);
+        });
+      }
+      return this.interceptResponse({
+        status: 200,
+        headers: {},
+        data: cached.value,
+        cache: { status: cached.stale ? 'stale' : 'hit', key, stats: { ...cache.stats } },
+      }, path, requestOptions);
+    }
+
+    const response = await fetchAndStore();
+    return this.interceptResponse({
+      ...response,
+      cache: { status: 'miss', key, stats: { ...cache.stats } },
+    }, path, requestOptions);
+  }
+
+  /**
+   * Drop cached reads of the entity sets touched by a successful write
+   */
+  private async invalidateCache(entities: string[]): Promise<void> {
+    if (!this.cache) return;
+    for (const entity of new Set(entities)) {
+      await this.cache.invalidate(entity);
+    }
+  }
+
   // ==========================================================================
   // HTTP Methods
   // ==========================================================================
@@ -291,6 +530,9 @@ export class HttpClient {
     searchParams?: Record<string, any>,
     options?: RequestOptions
   ): Promise<T> {
+    if (this.cache && options?.cache) {
+      return this.cachedGet<T>(this.cache, path, searchParams, options);
+    }
     return this.executeRequest<T>('GET', path, { searchParams }, options);
   }
 
@@ -299,7 +541,9 @@ export class HttpClient {
     json: any,
     options?: RequestOptions
   ): Promise<T> {
-    return this.executeRequest<T>('POST', path, { json }, options);
+    const result = await this.executeRequest<T>('POST', path, { json }, options);
+    await this.invalidateCache([entityOfPath(path)]);
+    return result;
   }
 
   async put<T>(
@@ -307,7 +551,9 @@ export class HttpClient {
     json: any,
     options?: RequestOptions
   ): Promise<T> {
-    return this.executeRequest<T>('PUT', path, { json }, options);
+    const result = await this.executeRequest<T>('PUT', path, { json }, options);
+    await this.invalidateCache([entityOfPath(path)]);
+    return result;
   }
 
   async patch<T>(
@@ -315,7 +561,9 @@ export class HttpClient {
     json: any,
     options?: RequestOptions
   ): Promise<T> {
-    return this.executeRequest<T>('PATCH', path, { json }, options);
+    const result = await this.executeRequest<T>('PATCH', path, { json }, options);
+    await this.invalidateCache([entityOfPath(path)]);
+    return result;
   }
 
   async delete(
@@ -323,6 +571,101 @@ export class HttpClient {
     options?: RequestOptions
   ): Promise<void> {
     await this.executeRequest<void>('DELETE', path, {}, options);
+    await this.invalidateCache([entityOfPath(path)]);
+  }
+
+  // ==========================================================================
+  // Media (Binary Streams)
+  // ==========================================================================
+
+  /**
+   * Download binary content (media entity `$value` or stream property).
+   * The body is handed over as a stream - never buffered, parsed or cached.
+   */
+  async getMedia(path: string, options?: RequestOptions): Promise<MediaContent> {
+    const response = await this.sendMedia('GET', path, undefined, {
+      ...options,
+      headers: { Accept: '*/*', ...options?.headers },
+    });
+    const contentLength = response.headers.get('content-length');
+
+    return {
+      stream: response.body ?? new ReadableStream({ start: (controller) => controller.close() }),
+      contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+      filename: parseFilename(response.headers.get('content-disposition')),
+      contentLength: contentLength ? Number(contentLength) : undefined,
+      etag: response.headers.get('etag') ?? undefined,
+    };
+  }
+
+  /**
+   * Upload binary content as-is: PUT replaces a media resource, POST creates a media entity
+   * @returns The entity SAP answers with, undefined for responses without content
+   */
+  async uploadMedia<T>(
+    method: 'POST' | 'PUT',
+    path: string,
+    body: MediaBody,
+    contentType: string,
+    options?: RequestOptions
+  ): Promise<T | undefined> {
+    const response = await this.sendMedia(method, path, body, {
+      ...options,
+      // Replacing a media resource is idempotent - retried unless the body is a one-shot stream
+      idempotent: options?.idempotent ?? method === 'PUT',
+      headers: { ...options?.headers, 'Content-Type': contentType, Accept: 'application/json' },
+    });
+    await this.invalidateCache([entityOfPath(path)]);
+
+    if (response.status === 204 || !response.headers.get('content-type')?.includes('json')) {
+      return undefined;
+    }
+    const data = await response.json();
+    return this.interceptResponse<T>({
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      data,
+    }, path, options);
+  }
+
+  /**
+   * Run request interceptors and send a binary request through the proxy's media pass-through
+   */
+  private async sendMedia(
+    method: string,
+    path: string,
+    body: MediaBody | undefined,
+    requestOptions?: RequestOptions
+  ): Promise<Response> {
+    const startTime = Date.now();
+    let request: InterceptedRequest = {
+      url: path,
+      method,
+      headers: { ...this.buildHeaders(requestOptions), 'X-S4Kit-Media': 'true' },
+    };
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    this.log(`→ ${method} ${path} (media)`);
+
+    const streamed = body instanceof ReadableStream;
+    const response = await this.withRetry(
+      request.method,
+      request.url,
+      (traceHeaders) => this.client(request.url, {
+        method: request.method,
+        headers: { ...request.headers, ...traceHeaders },
+        body: body as KyOptions['body'],
+        // Fetch requires half-duplex mode for streamed request bodies
+        ...(streamed ? { duplex: 'half' } : {}),
+      } as KyOptions),
+      // A consumed stream cannot be sent a second time
+      streamed ? { ...requestOptions, retry: false } : requestOptions
+    );
+
+    this.log(`← ${response.status} (${Date.now() - startTime}ms) ${response.headers.get('content-type') ?? ''}`);
+    return response;
   }
 
   // ==========================================================================
@@ -345,21 +688,40 @@ export class HttpClient {
     options?: RequestOptions & { atomic?: boolean }
   ): Promise<BatchResult<T>[]> {
     const headers = this.buildHeaders(options);
+    const entities = operations.map(op => dereference(op.entity, operations));
 
     this.log(`→ POST batch (${operations.length} operations, atomic: ${options?.atomic ?? false})`);
 
-    const response = await this.client.post('batch', {
-      json: {
-        atomic: options?.atomic ?? false,
-        operations,
-      },
-      headers,
-    });
-
-    const results = await response.json() as BatchResult<T>[];
+    const response = await this.withRetry(
+      'POST',
+      'batch',
+      (traceHeaders) => this.client.post('batch', {
+        json: {
+          atomic: options?.atomic ?? false,
+          operations: this.converter
+            ? operations.map((op, i) => 'data' in op ? { ...op, data: this.converter!.serialize(entities[i]!, op.data) } : op)
+            : operations,
+        },
+        headers: { ...headers, ...traceHeaders },
+      }),
+      options
+    );
+
+    let results = await response.json() as BatchResult<T>[];
+    if (this.converter && !options?.raw) {
+      results = results.map((result, i) => result.data === undefined
+        ? result
+        : { ...result, data: this.converter!.parse(entities[i] ?? '', result.data) });
+    }
 
     this.log(`← batch: ${results.filter(r => r.success).length}/${results.length} succeeded`);
 
+    await this.invalidateCache(
+      entities
+        .filter((_, i) => operations[i]!.method !== 'GET' && results[i]?.success)
+        .map(entityOfPath)
+    );
+
     return results;
   }
 }
@@ -11,6 +11,12 @@ export {
   type DeferredOperation,
   type TransactionEntityHandler,
   type TransactionContext,
+  type TransactionResults,
+  type ChangesetResult,
+  type BatchItem,
+  type BatchEntityHandler,
+  type BatchContext,
+  type BatchResults,
 } from './client';
 
 // Types
@@ -18,6 +24,26 @@ export type {
   // Config
   S4KitConfig,
   InstanceEnvironment,
+  RetryPolicy,
+  RetryOverride,
+  RetryContext,
+  RetryHook,
+  CacheConfig,
+  CacheStore,
+  CacheEntry,
+  CacheStats,
+  CacheInfo,
+  CoalesceOptions,
+  RecorderConfig,
+  RecorderMode,
+  TracingConfig,
+  OTelTracer,
+  OTelSpan,
+  TypeConversionConfig,
+  DecimalAdapter,
+  FieldTypeManifest,
+  S4KitTypeOverrides,
+  Decimal,
 
   // Query options
   QueryOptions,
@@ -27,14 +53,29 @@ export type {
   Filter,
   FilterObject,
   FilterValue,
+  EnumFilterValue,
+  FieldFilterValue,
+  LambdaFilter,
+  ObjectFilterValue,
   FilterCondition,
   FilterExpression,
   FilterLogical,
   FilterComparisonOperator,
+
+  // Aggregation ($apply)
+  AggregateMethod,
+  AggregateExpression,
+  Aggregations,
+  ApplyOptions,
+  AggregateValue,
+  ApplyResult,
   FilterStringOperator,
   ExpandNestedOptions,
   ExpandValue,
   ExpandObject,
+  NavigationTargetOf,
+  QueryResult,
+  NarrowingQueryOptions,
   Expand,
   NavigationPropsOf,
   ListResponse,
@@ -47,9 +88,34 @@ export type {
   CompositeKey,
   DeepInsertData,
 
+  // Media ($value)
+  MediaBody,
+  MediaContent,
+  MediaOptions,
+
+  // Mock client
+  MockSeed,
+  MockRelation,
+  MockClientOptions,
+
+  // Functions & actions
+  OperationMetadata,
+  OperationManifest,
+  OperationSignature,
+  S4KitOperations,
+  OperationName,
+  OperationParams,
+  OperationResult,
+
+  // Bulk writes
+  BulkOptions,
+  BulkProgress,
+  BulkItemResult,
+
   // Batch operations
   BatchOperation,
   BatchResult,
+  ChangesetOptions,
 
   // Errors
   ODataError,
@@ -69,6 +135,7 @@ export type {
 
   // Fluent query
   FluentQuery,
+  GroupedQuery,
 } from './types';
 
 // Error classes
@@ -81,14 +148,29 @@ export {
   NotFoundError,
   ValidationError,
   ConflictError,
+  PreconditionFailedError,
   RateLimitError,
   ServerError,
+  RecordingNotFoundError,
+  BulkOperationError,
   parseHttpError,
   parseODataError,
   isRetryable,
   isS4KitError,
 } from './errors';
 
+// Response cache
+export { MemoryCacheStore } from './cache';
+
+// Date/decimal type conversion
+export { TypeConverter } from './conversion';
+
+// ETag / optimistic concurrency
+export { ETAG, getETag, setETag } from './etag';
+
+// In-memory mock client for unit tests
+export { createMockClient } from './mock';
+
 // Query building
 export {
   buildQuery,
@@ -99,4 +181,7 @@ export {
   QueryBuilder,
   formatKey,
   buildFunctionParams,
+  buildFunctionQuery,
+  type FilterLiteralFormatter,
+  type GroupedQueryBuilder,
 } from './query-builder';
@@ -3,28 +3,134 @@
 // ============================================================================
 
 import { HttpClient, type RequestOptions } from './http-client';
-import { buildQuery, formatKey, buildFunctionParams } from './query-builder';
+import { buildQuery, formatKey, buildFunctionParams, buildFunctionQuery } from './query-builder';
+import { getETag, captureETag } from './etag';
+import { BulkOperationError, isS4KitError } from './errors';
+import type { Coalescer } from './coalesce';
 import type {
   EntityHandler,
   QueryOptions,
+  BulkOptions,
+  BulkItemResult,
+  BatchOperation,
+  BatchResult,
   EntityKey,
   ListResponse,
   DeepInsertData,
   PaginateOptions,
+  OperationManifest,
+  OperationMetadata,
+  MediaBody,
+  MediaOptions,
 } from './types';
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/** Query parameter the proxy uses for server-driven paging continuation tokens */
+const CONTINUATION_PARAM = '$continuation';
+
 /**
- * Extract connection/service/raw options from QueryOptions for passing to HttpClient
+ * Extract connection/service/raw/retry options from QueryOptions for passing to HttpClient.
+ * When an ETag is given it is sent as If-Match (single-entity writes only).
  */
-function extractRequestOptions(options?: QueryOptions<any>): RequestOptions | undefined {
-  if (!options) return undefined;
-  const { connection, service, raw } = options;
-  if (!connection && !service && !raw) return undefined;
-  return { connection, service, raw };
+function extractRequestOptions(options?: QueryOptions<any>, etag?: string): RequestOptions | undefined {
+  const { connection, service, raw, retry, idempotent } = options ?? {};
+  if (!connection && !service && !raw && retry === undefined && !idempotent && !etag) return undefined;
+  const headers = etag ? { 'If-Match': etag } : undefined;
+  return { connection, service, raw, headers, retry, idempotent };
+}
+
+/** Most operations the proxy accepts in one batch request */
+const MAX_BULK_CHUNK_SIZE = 100;
+
+/**
+ * Send the operations of a bulk write in chunks, `concurrency` batch requests at a time.
+ * A chunk whose request fails as a whole (network, rate limit, ...) fails all of its items.
+ * Returns one result per operation, or throws a BulkOperationError if any item failed.
+ */
+async function executeBulk<T>(
+  client: HttpClient,
+  operation: string,
+  operations: BatchOperation[],
+  keys: Array<EntityKey | undefined>,
+  options?: BulkOptions<T>
+): Promise<BulkItemResult<T>[]> {
+  const chunkSize = Math.min(Math.max(1, options?.chunkSize ?? MAX_BULK_CHUNK_SIZE), MAX_BULK_CHUNK_SIZE);
+  const requestOptions = extractRequestOptions(options);
+  const starts: number[] = [];
+  for (let start = 0; start < operations.length; start += chunkSize) starts.push(start);
+
+  const results: BulkItemResult<T>[] = new Array(operations.length);
+  let next = 0;
+  let completed = 0;
+  let failed = 0;
+  let chunks = 0;
+
+  const worker = async () => {
+    while (next < starts.length) {
+      const start = starts[next++]!;
+      const chunk = operations.slice(start, start + chunkSize);
+
+      let chunkResults: BatchResult<T>[];
+      try {
+        chunkResults = await client.batchRequest<T>(chunk, requestOptions);
+      } catch (error) {
+        if (!isS4KitError(error)) throw error;
+        const failure = error.odataError ?? { code: error.code ?? 'BATCH_FAILED', message: error.message };
+        chunkResults = chunk.map(() => ({ success: false, status: error.status ?? 0, error: failure }));
+      }
+
+      chunk.forEach((_, i) => {
+        const result = chunkResults[i];
+        const index = start + i;
+        results[index] = {
+          index,
+          key: keys[index],
+          success: result?.success ?? false,
+          status: result?.status ?? 0,
+          data: result?.success ? captureETag(result.data as T, options?.raw) : undefined,
+          error: result?.success ? undefined : result?.error ?? { code: 'BATCH_FAILED', message: 'No result for operation' },
+        };
+        if (!results[index]!.success) failed++;
+      });
+      completed += chunk.length;
+      chunks++;
+      options?.onProgress?.({ completed, failed, total: operations.length, chunks, totalChunks: starts.length });
+    }
+  };
+
+  const concurrency = Math.max(1, options?.concurrency ?? 1);
+  await Promise.all(Array.from({ length: Math.min(concurrency, starts.length) }, worker));
+
+  if (failed > 0) throw new BulkOperationError<T>(operation, results);
+  return results;
+}
+
+/**
+ * Request options for entity reads - served through the response cache unless the caller opts out
+ */
+function extractReadOptions(options?: QueryOptions<any>): RequestOptions {
+  return { ...extractRequestOptions(options), cache: options?.cache !== false };
+}
+
+/**
+ * Request options for media reads/writes: ETag as If-Match, file name as Slug
+ */
+function extractMediaOptions(options?: MediaOptions): RequestOptions {
+  const { connection, service, retry, etag, slug } = options ?? {};
+  const headers: Record<string, string> = {};
+  if (etag) headers['If-Match'] = etag;
+  if (slug) headers['Slug'] = slug;
+  return { connection, service, retry, headers };
+}
+
+/**
+ * Path of the binary content of an entity: `$value` or a named stream property
+ */
+function mediaPath(basePath: string, id: EntityKey, options?: MediaOptions): string {
+  return `${basePath}(${formatId(id)})/${options?.property ?? '$value'}`;
 }
 
 /**
@@ -54,6 +160,62 @@ function extractSingle<T>(response: any): T {
   return response;
 }
 
+/**
+ * Extract the continuation token from the proxy's nextLink (server-driven paging)
+ */
+function extractContinuation(response: any): string | undefined {
+  const nextLink = response?.nextLink;
+  if (typeof nextLink !== 'string') return undefined;
+  const query = nextLink.slice(nextLink.indexOf('?') + 1);
+  return new URLSearchParams(query).get(CONTINUATION_PARAM) ?? undefined;
+}
+
+/**
+ * Metadata of a function or action: `EntitySet/Name` first, then `Name`. Unknown operations
+ * use the caller's method (func = GET, action = POST).
+ */
+function resolveOperation(
+  operations: OperationManifest | undefined,
+  basePath: string,
+  name: string,
+  fallback: 'GET' | 'POST'
+): OperationMetadata {
+  const kind = fallback === 'GET' ? 'function' : 'action';
+  if (!operations) return { kind, method: fallback };
+  // Last path segment without key: `Orders(1)/Items` → `Items`
+  const entitySet = (basePath.split('/').pop() ?? basePath).split('(')[0];
+  // Namespace-qualified names (v4 bound operations) are registered by their short name
+  const shortName = name.split('.').pop() ?? name;
+  return operations[`${entitySet}/${shortName}`] ?? operations[shortName] ?? { kind, method: fallback };
+}
+
+/**
+ * Invoke a function or action below `path`: GET with inline parameters, POST with a JSON body.
+ * v2 function imports take their parameters as query options with either verb.
+ * Unbound operations are sent below the entity set - it names the service, the proxy calls them on the service root.
+ */
+function invokeOperation<R>(
+  client: HttpClient,
+  operation: OperationMetadata,
+  path: string,
+  name: string,
+  params?: Record<string, any>
+): Promise<R> {
+  if (operation.queryParameters) {
+    const query = buildFunctionQuery(params);
+    if (operation.method === 'GET') {
+      return client.get<R>(`${path}/${name}`, query);
+    }
+    const search = new URLSearchParams(query).toString();
+    return client.post<R>(search ? `${path}/${name}?${search}` : `${path}/${name}`, undefined);
+  }
+  if (operation.method === 'POST') {
+    return client.post<R>(`${path}/${name}`, params ?? {});
+  }
+  const paramStr = buildFunctionParams(params);
+  return client.get<R>(`${path}/${name}(${paramStr})`);
+}
+
 /**
  * Extract count from OData response
  */
@@ -73,11 +235,25 @@ function extractCount(response: any): number | undefined {
 // Entity Handler Implementation
 // ============================================================================
 
+/**
+ * Options shared by all entity handlers of a client
+ */
+export interface EntityHandlerOptions {
+  /** Coalesces concurrent get()/list() calls when set (opt-in via `coalesce` config) */
+  coalescer?: Coalescer;
+  /** Function/action metadata used to pick the HTTP verb */
+  operations?: OperationManifest;
+}
+
 export function createEntityHandler<T = any>(
   client: HttpClient,
-  entityName: string
+  entityName: string,
+  handlerOptions: EntityHandlerOptions = {}
 ): EntityHandler<T> {
   const basePath = entityName;
+  const { coalescer, operations } = handlerOptions;
+  // Date/decimal filter literals in typeConversion mode
+  const literals = client.typeConverter?.filterLiterals(basePath);
 
   return {
     // ==========================================================================
@@ -87,41 +263,56 @@ export function createEntityHandler<T = any>(
     /**
      * List entities with optional query options
      */
-    async list(options?: QueryOptions<T>): Promise<T[]> {
-      const response = await client.get<any>(
-        basePath,
-        buildQuery(options),
-        extractRequestOptions(options)
-      );
-      return extractData<T>(response);
+    async list<R = T>(options?: QueryOptions<T>): Promise<R[]> {
+      const query = buildQuery(options, literals);
+      const requestOptions = extractReadOptions(options);
+      const run = async () => {
+        const response = await client.get<any>(basePath, query, requestOptions);
+        return extractData<R>(response).map(item => captureETag(item, options?.raw));
+      };
+
+      // Identical in-flight list() calls share one request
+      return coalescer
+        ? coalescer.share(JSON.stringify(['list', basePath, query, requestOptions]), run)
+        : run();
     },
 
     /**
      * List entities with count
      */
-    async listWithCount(options?: QueryOptions<T>): Promise<ListResponse<T>> {
+    async listWithCount<R = T>(options?: QueryOptions<T>): Promise<ListResponse<R>> {
       const queryOptions = { ...options, count: true };
       const response = await client.get<any>(
         basePath,
-        buildQuery(queryOptions),
-        extractRequestOptions(options)
+        buildQuery(queryOptions, literals),
+        extractReadOptions(options)
       );
       return {
-        value: extractData<T>(response),
+        value: extractData<R>(response).map(item => captureETag(item, options?.raw)),
         count: extractCount(response),
+        nextLink: response?.nextLink,
       };
     },
 
     /**
      * Get single entity by key
      */
-    async get(id: EntityKey, options?: QueryOptions<T>): Promise<T> {
+    async get<R = T>(id: EntityKey, options?: QueryOptions<T>): Promise<R> {
+      const query = buildQuery(options, literals);
+      const requestOptions = extractReadOptions(options);
+
+      // Concurrent gets are collected and loaded with one $filter or batch request
+      if (coalescer?.canLoad(basePath, id, query, requestOptions)) {
+        const entity = await coalescer.load<R>(basePath, id, query, requestOptions);
+        return captureETag(entity, options?.raw);
+      }
+
       const response = await client.get<any>(
         `${basePath}(${formatId(id)})`,
-        buildQuery(options),
-        extractRequestOptions(options)
+        query,
+        requestOptions
       );
-      return extractSingle<T>(response);
+      return captureETag(extractSingle<R>(response), options?.raw);
     },
 
     /**
@@ -130,8 +321,8 @@ export function createEntityHandler<T = any>(
     async count(options?: Omit<QueryOptions<T>, 'top' | 'skip' | 'select'>): Promise<number> {
       const response = await client.get<any>(
         `${basePath}/$count`,
-        buildQuery(options as QueryOptions<T>),
-        extractRequestOptions(options as QueryOptions<T>)
+        buildQuery(options as QueryOptions<T>, literals),
+        extractReadOptions(options as QueryOptions<T>)
       );
       // Handle both raw number and { count: N } response formats
       if (typeof response === 'number') return response;
@@ -154,7 +345,7 @@ export function createEntityHandler<T = any>(
         data,
         extractRequestOptions(options)
       );
-      return extractSingle<T>(response);
+      return captureETag(extractSingle<T>(response), options?.raw);
     },
 
     /**
@@ -183,7 +374,7 @@ export function createEntityHandler<T = any>(
         data,
         extractRequestOptions(options)
       );
-      return extractSingle<T>(response);
+      return captureETag(extractSingle<T>(response), options?.raw);
     },
 
     // ==========================================================================
@@ -197,9 +388,9 @@ export function createEntityHandler<T = any>(
       const response = await client.patch<any>(
         `${basePath}(${formatId(id)})`,
         data,
-        extractRequestOptions(options)
+        extractRequestOptions(options, options?.etag ?? getETag(data))
       );
-      return extractSingle<T>(response);
+      return captureETag(extractSingle<T>(response), options?.raw);
     },
 
     /**
@@ -209,9 +400,9 @@ export function createEntityHandler<T = any>(
       const response = await client.put<any>(
         `${basePath}(${formatId(id)})`,
         data,
-        extractRequestOptions(options)
+        extractRequestOptions(options, options?.etag ?? getETag(data))
       );
-      return extractSingle<T>(response);
+      return captureETag(extractSingle<T>(response), options?.raw);
     },
 
     /**
@@ -238,7 +429,7 @@ export function createEntityHandler<T = any>(
     async delete(id: EntityKey, options?: QueryOptions<T>): Promise<void> {
       await client.delete(
         `${basePath}(${formatId(id)})`,
-        extractRequestOptions(options)
+        extractRequestOptions(options, options?.etag)
       );
     },
 
@@ -247,71 +438,49 @@ export function createEntityHandler<T = any>(
     // ==========================================================================
 
     /**
-     * Create multiple entities in a single batch request
+     * Create multiple entities in chunked batch requests
      */
-    async createMany(items: Array<Partial<T>>, options?: QueryOptions<T>): Promise<T[]> {
+    async createMany(items: Array<Partial<T>>, options?: BulkOptions<T>): Promise<T[]> {
       const operations = items.map(data => ({
         method: 'POST' as const,
         entity: entityName,
         data: data as Record<string, unknown>,
       }));
 
-      const results = await client.batchRequest<T>(operations, extractRequestOptions(options));
-
-      // Throw if any operation failed
-      const failed = results.filter(r => !r.success);
-      if (failed.length > 0) {
-        const errors = failed.map((f, i) => `Item ${i + 1}: ${f.error?.message || 'Unknown error'}`);
-        throw new Error(`createMany failed: ${errors.join('; ')}`);
-      }
-
+      const results = await executeBulk<T>(client, 'createMany', operations, [], options);
       return results.map(r => r.data as T);
     },
 
     /**
-     * Update multiple entities in a single batch request
+     * Update multiple entities in chunked batch requests
      */
     async updateMany(
-      items: Array<{ id: EntityKey; data: Partial<T> }>,
-      options?: QueryOptions<T>
+      items: Array<{ id: EntityKey; data: Partial<T>; etag?: string }>,
+      options?: BulkOptions<T>
     ): Promise<T[]> {
-      const operations = items.map(({ id, data }) => ({
+      const operations = items.map(({ id, data, etag }) => ({
         method: 'PATCH' as const,
         entity: entityName,
         id,
         data: data as Record<string, unknown>,
+        etag: etag ?? getETag(data),
       }));
 
-      const results = await client.batchRequest<T>(operations, extractRequestOptions(options));
-
-      // Throw if any operation failed
-      const failed = results.filter(r => !r.success);
-      if (failed.length > 0) {
-        const errors = failed.map((f, i) => `Item ${i + 1}: ${f.error?.message || 'Unknown error'}`);
-        throw new Error(`updateMany failed: ${errors.join('; ')}`);
-      }
-
+      const results = await executeBulk<T>(client, 'updateMany', operations, items.map(item => item.id), options);
       return results.map(r => r.data as T);
     },
 
     /**
-     * Delete multiple entities in a single batch request
+     * Delete multiple entities in chunked batch requests
      */
-    async deleteMany(ids: EntityKey[], options?: QueryOptions<T>): Promise<void> {
+    async deleteMany(ids: EntityKey[], options?: BulkOptions<T>): Promise<void> {
       const operations = ids.map(id => ({
         method: 'DELETE' as const,
         entity: entityName,
         id,
       }));
 
-      const results = await client.batchRequest(operations, extractRequestOptions(options));
-
-      // Throw if any operation failed
-      const failed = results.filter(r => !r.success);
-      if (failed.length > 0) {
-        const errors = failed.map((f, i) => `ID ${ids[i]}: ${f.error?.message || 'Unknown error'}`);
-        throw new Error(`deleteMany failed: ${errors.join('; ')}`);
-      }
+      await executeBulk(client, 'deleteMany', operations, ids, options);
     },
 
     // ==========================================================================
@@ -323,7 +492,33 @@ export function createEntityHandler<T = any>(
      */
     nav<R = any>(id: EntityKey, property: string): EntityHandler<R> {
       const navPath = `${basePath}(${formatId(id)})/${property}`;
-      return createEntityHandler<R>(client, navPath);
+      return createEntityHandler<R>(client, navPath, handlerOptions);
+    },
+
+    // ==========================================================================
+    // Media ($value)
+    // ==========================================================================
+
+    /**
+     * Download the binary content of a media entity (streamed, not parsed)
+     */
+    async getMedia(id: EntityKey, options?: MediaOptions) {
+      return client.getMedia(mediaPath(basePath, id, options), extractMediaOptions(options));
+    },
+
+    /**
+     * Replace the binary content of a media entity (PUT)
+     */
+    async uploadMedia(id: EntityKey, content: MediaBody, contentType: string, options?: MediaOptions): Promise<void> {
+      await client.uploadMedia('PUT', mediaPath(basePath, id, options), content, contentType, extractMediaOptions(options));
+    },
+
+    /**
+     * Create a media entity (POST of the binary content, named by `slug`)
+     */
+    async createMedia(content: MediaBody, contentType: string, options?: MediaOptions): Promise<T> {
+      const response = await client.uploadMedia<any>('POST', basePath, content, contentType, extractMediaOptions(options));
+      return captureETag(extractSingle<T>(response));
     },
 
     // ==========================================================================
@@ -331,21 +526,21 @@ export function createEntityHandler<T = any>(
     // ==========================================================================
 
     /**
-     * Call an OData function (GET operation)
+     * Call an OData function - GET unless operation metadata says otherwise
      * Unbound function on the entity set
      */
     async func<R = any>(name: string, params?: Record<string, any>): Promise<R> {
-      const paramStr = buildFunctionParams(params);
-      const path = paramStr ? `${basePath}/${name}(${paramStr})` : `${basePath}/${name}()`;
-      return client.get<R>(path);
+      const operation = resolveOperation(operations, basePath, name, 'GET');
+      return invokeOperation<R>(client, operation, basePath, name, params);
     },
 
     /**
-     * Call an OData action (POST operation)
+     * Call an OData action - POST unless operation metadata says otherwise
      * Unbound action on the entity set
      */
     async action<R = any>(name: string, params?: Record<string, any>): Promise<R> {
-      return client.post<R>(`${basePath}/${name}`, params ?? {});
+      const operation = resolveOperation(operations, basePath, name, 'POST');
+      return invokeOperation<R>(client, operation, basePath, name, params);
     },
 
     /**
@@ -356,11 +551,8 @@ export function createEntityHandler<T = any>(
       name: string,
       params?: Record<string, any>
     ): Promise<R> {
-      const paramStr = buildFunctionParams(params);
-      const path = paramStr
-        ? `${basePath}(${formatId(id)})/${name}(${paramStr})`
-        : `${basePath}(${formatId(id)})/${name}()`;
-      return client.get<R>(path);
+      const operation = resolveOperation(operations, basePath, name, 'GET');
+      return invokeOperation<R>(client, operation, `${basePath}(${formatId(id)})`, name, params);
     },
 
     /**
@@ -371,7 +563,8 @@ export function createEntityHandler<T = any>(
       name: string,
       params?: Record<string, any>
     ): Promise<R> {
-      return client.post<R>(`${basePath}(${formatId(id)})/${name}`, params ?? {});
+      const operation = resolveOperation(operations, basePath, name, 'POST');
+      return invokeOperation<R>(client, operation, `${basePath}(${formatId(id)})`, name, params);
     },
 
     // ==========================================================================
@@ -379,22 +572,44 @@ export function createEntityHandler<T = any>(
     // ==========================================================================
 
     /**
-     * Paginate through all entities with automatic page handling
+     * Paginate through all entities with automatic page handling.
+     * Server-driven pages (nextLink) are followed whenever present; $skip is
+     * only used to request the next window once SAP stops returning a nextLink.
      */
-    paginate(options?: PaginateOptions<T>): AsyncIterable<ListResponse<T>> {
+    paginate<R = T>(options?: PaginateOptions<T>): AsyncIterable<ListResponse<R>> {
       const pageSize = options?.pageSize ?? options?.top ?? 100;
       const maxItems = options?.maxItems;
       const queryOptions: QueryOptions<T> = { ...options, top: pageSize };
-      const self = this;
+      const self: EntityHandler<any> = this;
+
+      /** Fetch the next server-driven page identified by a continuation token */
+      async function fetchContinuation(token: string): Promise<ListResponse<R>> {
+        const response = await client.get<any>(
+          basePath,
+          { [CONTINUATION_PARAM]: token },
+          extractRequestOptions(options)
+        );
+        return {
+          value: extractData<R>(response).map(item => captureETag(item, options?.raw)),
+          count: extractCount(response),
+          nextLink: response?.nextLink,
+        };
+      }
 
       return {
-        [Symbol.asyncIterator](): AsyncIterator<ListResponse<T>> {
+        [Symbol.asyncIterator](): AsyncIterator<ListResponse<R>> {
           let skip = 0;
           let totalFetched = 0;
           let done = false;
+          let continuation: string | undefined;
+          let count: number | undefined;
+          // Items requested by the last $top/$skip request, and received for it so far
+          // (SAP may deliver one window across several server-driven pages)
+          let windowTop = 0;
+          let windowFetched = 0;
 
           return {
-            async next(): Promise<IteratorResult<ListResponse<T>>> {
+            async next(): Promise<IteratorResult<ListResponse<R>>> {
               if (done) {
                 return { done: true, value: undefined };
               }
@@ -410,18 +625,32 @@ export function createEntityHandler<T = any>(
                 pageTop = Math.min(pageSize, remaining);
               }
 
-              const response = await self.listWithCount({
-                ...queryOptions,
-                top: pageTop,
-                skip,
-              });
+              let response: ListResponse<R>;
+              if (continuation) {
+                response = await fetchContinuation(continuation);
+              } else {
+                response = await self.listWithCount({
+                  ...queryOptions,
+                  top: pageTop,
+                  skip,
+                });
+                windowTop = pageTop;
+                windowFetched = 0;
+              }
 
-              const items = response.value;
+              let items = response.value;
+              windowFetched += items.length;
+              if (maxItems !== undefined && totalFetched + items.length > maxItems) {
+                items = items.slice(0, maxItems - totalFetched);
+              }
               totalFetched += items.length;
               skip += items.length;
+              count = response.count ?? count;
+
+              continuation = extractContinuation(response);
 
               // Check if we've reached the end
-              if (items.length < pageTop) {
+              if (!continuation && windowFetched < windowTop) {
                 done = true;
               }
               if (maxItems !== undefined && totalFetched >= maxItems) {
@@ -432,7 +661,8 @@ export function createEntityHandler<T = any>(
                 done: false,
                 value: {
                   value: items,
-                  count: response.count,
+                  count,
+                  nextLink: response.nextLink,
                 },
               };
             },
@@ -444,9 +674,10 @@ export function createEntityHandler<T = any>(
     /**
      * Get all entities (automatically handles pagination)
      */
-    async all(options?: PaginateOptions<T>): Promise<T[]> {
-      const result: T[] = [];
-      for await (const page of this.paginate(options)) {
+    async all<R = T>(options?: PaginateOptions<T>): Promise<R[]> {
+      const result: R[] = [];
+      const self: EntityHandler<any> = this;
+      for await (const page of self.paginate(options)) {
         result.push(...page.value);
       }
       return result;
@@ -461,7 +692,10 @@ export function createEntityHandler<T = any>(
 /**
  * Create a dynamic proxy that generates entity handlers on the fly
  */
-export function createProxy(client: HttpClient): Record<string, EntityHandler<any>> {
+export function createProxy(
+  client: HttpClient,
+  handlerOptions: EntityHandlerOptions = {}
+): Record<string, EntityHandler<any>> {
   return new Proxy({} as Record<string, EntityHandler<any>>, {
     get: (_target, entityName: string) => {
       // Special handling for symbols and internal properties
@@ -469,7 +703,7 @@ export function createProxy(client: HttpClient): Record<string, EntityHandler<an
         return undefined;
       }
 
-      return createEntityHandler(client, entityName);
+      return createEntityHandler(client, entityName, handlerOptions);
     },
   });
 }
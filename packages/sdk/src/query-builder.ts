@@ -14,6 +14,10 @@ import type {
   FilterValue,
   FilterCondition,
   FilterExpression,
+  ApplyOptions,
+  Aggregations,
+  ApplyResult,
+  LambdaFilter,
 } from './types';
 
 /**
@@ -51,10 +55,35 @@ function getExpandSelectPaths(expand: Expand<any>): string[] {
   return paths;
 }
 
+/**
+ * Formats filter literals of typed fields (dates, decimals) - see TypeConverter.
+ * Returns undefined to fall back to the default formatting.
+ */
+export interface FilterLiteralFormatter {
+  /** OData version of the entity set, when known - lambda operators need v4 */
+  readonly odataVersion?: 'v2' | 'v4';
+  format(field: string, value: unknown): string | undefined;
+}
+
+/**
+ * Where field conditions are built: the root entity, or inside an any()/all() lambda
+ */
+interface FilterScope {
+  literals?: FilterLiteralFormatter;
+  /** Lambda variable prefix for field references (`d/`) - empty at the root */
+  variable: string;
+  /** Navigation path from the root entity (`to_Item/`) - used for typed literals */
+  path: string;
+  depth: number;
+}
+
+const ROOT_SCOPE: FilterScope = { variable: '', path: '', depth: 0 };
+
 /**
  * Build OData query parameters from QueryOptions
+ * @param literals - Type-aware literal formatting for `filter` (typeConversion mode)
  */
-export function buildQuery(options?: QueryOptions<any>): Record<string, string> {
+export function buildQuery(options?: QueryOptions<any>, literals?: FilterLiteralFormatter): Record<string, string> {
   if (!options) return {};
 
   const params: Record<string, string> = {};
@@ -90,7 +119,7 @@ export function buildQuery(options?: QueryOptions<any>): Record<string, string>
 
   // $filter - filtering (supports string, object, or array)
   if (options.filter !== undefined && options.filter !== null) {
-    const filterStr = buildFilter(options.filter);
+    const filterStr = buildFilter(options.filter, literals);
     if (filterStr) {
       params['$filter'] = filterStr;
     }
@@ -121,9 +150,60 @@ export function buildQuery(options?: QueryOptions<any>): Record<string, string>
     params['$search'] = options.search;
   }
 
+  // $apply - aggregation (OData v4 only)
+  if (options.apply) {
+    const applyStr = buildApply(options.apply, literals);
+    if (applyStr) {
+      params['$apply'] = applyStr;
+    }
+  }
+
   return params;
 }
 
+/**
+ * Build $apply string from a raw string or transformations
+ * @example
+ * - String: "groupby((Customer))" → "groupby((Customer))"
+ * - Object: { groupBy: ['Customer'], aggregate: { Total: { field: 'Amount', with: 'sum' } } }
+ *   → "groupby((Customer),aggregate(Amount with sum as Total))"
+ * - Object: { aggregate: { Total: { field: 'Amount', with: 'sum' } } } → "aggregate(Amount with sum as Total)"
+ * - Object: { filter: { Status: 'open' }, topCount: { count: 5, field: 'Amount' } }
+ *   → "filter(Status eq 'open')/topcount(5,Amount)"
+ */
+function buildApply(apply: string | ApplyOptions<any>, literals?: FilterLiteralFormatter): string {
+  // String passthrough
+  if (typeof apply === 'string') {
+    return apply;
+  }
+
+  const transformations: string[] = [];
+
+  if (apply.filter !== undefined && apply.filter !== null) {
+    const filterStr = buildFilter(apply.filter, literals);
+    if (filterStr) {
+      transformations.push(`filter(${filterStr})`);
+    }
+  }
+
+  const aggregates = Object.entries(apply.aggregate ?? {})
+    .map(([alias, expr]) => `${expr.field} with ${expr.with} as ${alias}`)
+    .join(',');
+
+  if (apply.groupBy?.length) {
+    const groupStr = `(${apply.groupBy.join(',')})`;
+    transformations.push(aggregates ? `groupby(${groupStr},aggregate(${aggregates}))` : `groupby(${groupStr})`);
+  } else if (aggregates) {
+    transformations.push(`aggregate(${aggregates})`);
+  }
+
+  if (apply.topCount) {
+    transformations.push(`topcount(${apply.topCount.count},${apply.topCount.field})`);
+  }
+
+  return transformations.join('/');
+}
+
 /**
  * Build $orderby string from various formats
  * @example
@@ -163,7 +243,11 @@ function buildOrderByObject(obj: OrderByObject<any>): string {
 /**
  * Format a value for OData filter expression
  */
-function formatFilterValue(value: any): string {
+function formatFilterValue(value: any, field?: string, literals?: FilterLiteralFormatter): string {
+  // Typed fields (typeConversion mode) get their v2/v4 literal, e.g. datetime'...' or 12.50M
+  const typed = field !== undefined ? literals?.format(field, value) : undefined;
+  if (typed !== undefined) return typed;
+
   if (value === null) return 'null';
   if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`;
   if (typeof value === 'boolean') return value ? 'true' : 'false';
@@ -183,13 +267,72 @@ function isFilterCondition(value: any): value is FilterCondition {
   return Object.keys(value).some(key => operators.includes(key));
 }
 
+/**
+ * Check if a value is a lambda filter on a collection navigation (has only any/all keys)
+ */
+function isLambdaFilter(value: any): value is LambdaFilter {
+  if (value === null || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key === 'any' || key === 'all');
+}
+
+/**
+ * Build any()/all() conditions for a collection navigation property
+ * @example
+ * - { to_Item: { any: { Material: 'X' } } } → "to_Item/any(d:d/Material eq 'X')"
+ * - { to_Item: { all: { Quantity: { gt: 0 } } } } → "to_Item/all(d:d/Quantity gt 0)"
+ * - { to_Item: { any: true } } → "to_Item/any()"
+ */
+function buildLambdaConditions(field: string, lambda: LambdaFilter, scope: FilterScope): string[] {
+  if (scope.literals?.odataVersion === 'v2') {
+    throw new Error(
+      `Lambda operators (any/all) on '${field}' require OData v4, but this entity set is served by an OData v2 service. ` +
+      'Filter the expanded collection on the client instead.'
+    );
+  }
+
+  const ref = `${scope.variable}${field}`;
+  // Nested lambdas need their own variable
+  const variable = scope.depth === 0 ? 'd' : `d${scope.depth}`;
+  const inner: FilterScope = {
+    literals: scope.literals,
+    variable: `${variable}/`,
+    path: `${scope.path}${field}/`,
+    depth: scope.depth + 1,
+  };
+
+  const conditions: string[] = [];
+  for (const op of ['any', 'all'] as const) {
+    const expr = lambda[op];
+    if (expr === undefined) continue;
+
+    const body = expr === true ? '' : buildFilterExpression(expr, inner);
+    if (body) {
+      conditions.push(`${ref}/${op}(${variable}:${body})`);
+    } else if (op === 'any') {
+      conditions.push(`${ref}/any()`);
+    }
+  }
+  return conditions;
+}
+
 /**
  * Build filter conditions for a single field
  */
-function buildFieldConditions(field: string, value: FilterValue): string[] {
+function buildFieldConditions(field: string, value: FilterValue | LambdaFilter, scope: FilterScope): string[] {
+  if (isLambdaFilter(value)) {
+    return buildLambdaConditions(field, value, scope);
+  }
+
+  const ref = `${scope.variable}${field}`;
+  const literalField = `${scope.path}${field}`;
+  const { literals } = scope;
+
   // Direct value = equality
   if (!isFilterCondition(value)) {
-    return [`${field} eq ${formatFilterValue(value)}`];
+    return [`${ref} eq ${formatFilterValue(value, literalField, literals)}`];
   }
 
   // Condition object with operators
@@ -206,31 +349,31 @@ function buildFieldConditions(field: string, value: FilterValue): string[] {
       case 'ge':
       case 'lt':
       case 'le':
-        conditions.push(`${field} ${op} ${formatFilterValue(val)}`);
+        conditions.push(`${ref} ${op} ${formatFilterValue(val, literalField, literals)}`);
         break;
 
       case 'contains':
-        conditions.push(`contains(${field},${formatFilterValue(val)})`);
+        conditions.push(`contains(${ref},${formatFilterValue(val, literalField, literals)})`);
         break;
 
       case 'startswith':
-        conditions.push(`startswith(${field},${formatFilterValue(val)})`);
+        conditions.push(`startswith(${ref},${formatFilterValue(val, literalField, literals)})`);
         break;
 
       case 'endswith':
-        conditions.push(`endswith(${field},${formatFilterValue(val)})`);
+        conditions.push(`endswith(${ref},${formatFilterValue(val, literalField, literals)})`);
         break;
 
       case 'in':
         if (Array.isArray(val)) {
-          const inValues = val.map(v => formatFilterValue(v)).join(',');
-          conditions.push(`${field} in (${inValues})`);
+          const inValues = val.map(v => formatFilterValue(v, literalField, literals)).join(',');
+          conditions.push(`${ref} in (${inValues})`);
         }
         break;
 
       case 'between':
         if (Array.isArray(val) && val.length === 2) {
-          conditions.push(`${field} ge ${formatFilterValue(val[0])} and ${field} le ${formatFilterValue(val[1])}`);
+          conditions.push(`${ref} ge ${formatFilterValue(val[0], literalField, literals)} and ${ref} le ${formatFilterValue(val[1], literalField, literals)}`);
         }
         break;
     }
@@ -252,7 +395,7 @@ function isLogicalOperator(key: string): key is '$or' | '$and' | '$not' {
 /**
  * Build filter from a FilterExpression (fields + logical operators)
  */
-function buildFilterExpression(filter: FilterExpression<any>): string {
+function buildFilterExpression(filter: FilterExpression<any>, scope: FilterScope): string {
   const parts: string[] = [];
 
   // Process field conditions (non-logical keys)
@@ -261,7 +404,7 @@ function buildFilterExpression(filter: FilterExpression<any>): string {
     if (value === undefined) continue;
     if (isLogicalOperator(key)) continue; // Skip logical operators for now
 
-    fieldConditions.push(...buildFieldConditions(key, value as FilterValue));
+    fieldConditions.push(...buildFieldConditions(key, value as FilterValue | LambdaFilter, scope));
   }
 
   if (fieldConditions.length > 0) {
@@ -276,7 +419,7 @@ function buildFilterExpression(filter: FilterExpression<any>): string {
   // Process $and - explicit AND
   if (filter.$and && Array.isArray(filter.$and)) {
     const andParts = filter.$and
-      .map(expr => buildFilterExpression(expr))
+      .map(expr => buildFilterExpression(expr, scope))
       .filter((s): s is string => Boolean(s));
     if (andParts.length > 0) {
       const andStr = andParts.length === 1
@@ -289,7 +432,7 @@ function buildFilterExpression(filter: FilterExpression<any>): string {
   // Process $or - OR conditions
   if (filter.$or && Array.isArray(filter.$or)) {
     const orParts = filter.$or
-      .map(expr => buildFilterExpression(expr))
+      .map(expr => buildFilterExpression(expr, scope))
       .filter((s): s is string => Boolean(s));
     if (orParts.length > 0) {
       const orStr = orParts.length === 1
@@ -301,7 +444,7 @@ function buildFilterExpression(filter: FilterExpression<any>): string {
 
   // Process $not - negation
   if (filter.$not) {
-    const notExpr = buildFilterExpression(filter.$not);
+    const notExpr = buildFilterExpression(filter.$not, scope);
     if (notExpr) {
       parts.push(`not (${notExpr})`);
     }
@@ -324,17 +467,21 @@ function buildFilterExpression(filter: FilterExpression<any>): string {
  * - OR: { $or: [{ A: 1 }, { B: 2 }] } → "(A eq 1 or B eq 2)"
  * - NOT: { $not: { Status: 'deleted' } } → "not (Status eq 'deleted')"
  * - Complex: { A: 1, $or: [{ B: 2 }, { C: 3 }] } → "A eq 1 and (B eq 2 or C eq 3)"
+ * - Path: { 'to_Customer/Country': 'DE' } → "to_Customer/Country eq 'DE'"
+ * - Lambda: { to_Item: { any: { Material: 'X' } } } → "to_Item/any(d:d/Material eq 'X')" (OData v4)
  */
-export function buildFilter(filter: Filter<any>): string {
+export function buildFilter(filter: Filter<any>, literals?: FilterLiteralFormatter): string {
   // String passthrough
   if (typeof filter === 'string') {
     return filter;
   }
 
+  const scope: FilterScope = { ...ROOT_SCOPE, literals };
+
   // Array of filter expressions (AND them together)
   if (Array.isArray(filter)) {
     const parts = filter
-      .map(f => buildFilterExpression(f))
+      .map(f => buildFilterExpression(f, scope))
       .filter((s): s is string => Boolean(s));
     if (parts.length === 0) return '';
     if (parts.length === 1) return parts[0]!;
@@ -342,7 +489,7 @@ export function buildFilter(filter: Filter<any>): string {
   }
 
   // Single filter expression
-  return buildFilterExpression(filter);
+  return buildFilterExpression(filter, scope);
 }
 
 /**
@@ -576,7 +723,7 @@ export class FilterBuilder<T = any> {
 // Fluent Query Builder - Complete Query Construction
 // ============================================================================
 
-import type { ListResponse, EntityHandler, FluentQuery } from './types';
+import type { ListResponse, EntityHandler, FluentQuery, NavigationPropsOf, QueryResult } from './types';
 
 /**
  * Create a fluent query builder for an entity
@@ -595,7 +742,20 @@ export function query<T>(handler: EntityHandler<T>): QueryBuilder<T> {
   return new QueryBuilder<T>(handler);
 }
 
-export class QueryBuilder<T> implements FluentQuery<T> {
+/**
+ * Query builder after groupBy() - aggregate() may use any property of the entity
+ */
+export interface GroupedQueryBuilder<T, G extends keyof T & string>
+  extends Omit<QueryBuilder<Pick<T, G>>, 'aggregate'> {
+  aggregate<A extends Aggregations<T>>(aggregations: A): QueryBuilder<ApplyResult<T, G, A>>;
+}
+
+/**
+ * @template T - Entity type
+ * @template S - Selected fields
+ * @template X - Expanded navigation properties
+ */
+export class QueryBuilder<T, S extends keyof T & string = keyof T & string, X = never> implements FluentQuery<T, S, X> {
   private handler: EntityHandler<T>;
   private options: QueryOptions<T> = {};
   private filterParts: string[] = [];
@@ -605,9 +765,9 @@ export class QueryBuilder<T> implements FluentQuery<T> {
   }
 
   /**
-   * Select specific fields
+   * Select specific fields - narrows the result type
    */
-  select<K extends keyof T>(...fields: K[]): QueryBuilder<Pick<T, K>> {
+  select<K extends keyof T & string>(...fields: K[]): QueryBuilder<T, K, X> {
     this.options.select = fields as any;
     return this as any;
   }
@@ -671,7 +831,10 @@ export class QueryBuilder<T> implements FluentQuery<T> {
   /**
    * Expand navigation property with optional nested query
    */
-  expand(property: string, nested?: (q: FluentQuery<any>) => FluentQuery<any>): this {
+  expand<K extends NavigationPropsOf<T> & string>(
+    property: K,
+    nested?: (q: FluentQuery<any>) => FluentQuery<any>
+  ): QueryBuilder<T, S, X | K[]> {
     // Initialize as ExpandObject if not set
     if (!this.options.expand || Array.isArray(this.options.expand)) {
       // Convert string array to object if needed
@@ -700,6 +863,31 @@ export class QueryBuilder<T> implements FluentQuery<T> {
       (this.options.expand as ExpandObject)[property] = true;
     }
 
+    return this as any;
+  }
+
+  /**
+   * Group by properties (`$apply`, OData v4 only) - follow with aggregate() for aggregated values.
+   * Conditions added before grouping filter the rows that get grouped.
+   */
+  groupBy<K extends keyof T & string>(...fields: K[]): GroupedQueryBuilder<T, K> {
+    this.applyOptions().groupBy = fields;
+    return this as any;
+  }
+
+  /**
+   * Aggregate over the whole set (`$apply`, OData v4 only), or per group after groupBy()
+   */
+  aggregate<A extends Aggregations<T>>(aggregations: A): QueryBuilder<ApplyResult<T, never, A>> {
+    this.applyOptions().aggregate = aggregations;
+    return this as any;
+  }
+
+  /**
+   * Keep the rows with the highest values of a field (`$apply` topcount)
+   */
+  topCount<K extends keyof T & string>(count: number, field: K): this {
+    this.applyOptions().topCount = { count, field };
     return this;
   }
 
@@ -738,21 +926,21 @@ export class QueryBuilder<T> implements FluentQuery<T> {
   /**
    * Execute query and return results
    */
-  async execute(): Promise<T[]> {
-    return this.handler.list(this.buildOptions());
+  async execute(): Promise<QueryResult<T, S, X>[]> {
+    return (this.handler as EntityHandler<any>).list(this.buildOptions());
   }
 
   /**
    * Execute query with inline count
    */
-  async executeWithCount(): Promise<ListResponse<T>> {
-    return this.handler.listWithCount(this.buildOptions());
+  async executeWithCount(): Promise<ListResponse<QueryResult<T, S, X>>> {
+    return (this.handler as EntityHandler<any>).listWithCount(this.buildOptions());
   }
 
   /**
    * Execute and return first result (or undefined)
    */
-  async first(): Promise<T | undefined> {
+  async first(): Promise<QueryResult<T, S, X> | undefined> {
     this.options.top = 1;
     const results = await this.execute();
     return results[0];
@@ -761,7 +949,7 @@ export class QueryBuilder<T> implements FluentQuery<T> {
   /**
    * Execute and return single result (throws if not exactly one)
    */
-  async single(): Promise<T> {
+  async single(): Promise<QueryResult<T, S, X>> {
     this.options.top = 2;
     const results = await this.execute();
     if (results.length === 0) {
@@ -770,7 +958,22 @@ export class QueryBuilder<T> implements FluentQuery<T> {
     if (results.length > 1) {
       throw new Error('Multiple results found, expected exactly one');
     }
-    return results[0] as T;
+    return results[0]!;
+  }
+
+  /**
+   * $apply transformations of this query, created on first use
+   */
+  private applyOptions(): ApplyOptions<any> {
+    if (typeof this.options.apply !== 'object') {
+      this.options.apply = {};
+      // $filter applies after $apply - conditions added so far belong before the aggregation
+      if (this.filterParts.length > 0) {
+        this.options.apply.filter = this.filterParts.join(' and ');
+        this.filterParts = [];
+      }
+    }
+    return this.options.apply;
   }
 
   /**
@@ -811,6 +1014,22 @@ export function formatKey(key: string | number | Record<string, string | number>
   return parts;
 }
 
+/**
+ * Format a function/action parameter value as OData literal
+ */
+function formatFunctionParam(value: any): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
 /**
  * Build function/action parameters for URL
  */
@@ -819,23 +1038,18 @@ export function buildFunctionParams(params?: Record<string, any>): string {
     return '';
   }
 
-  const formatted = Object.entries(params)
-    .map(([key, value]) => {
-      if (typeof value === 'string') {
-        return `${key}='${value.replace(/'/g, "''")}'`;
-      }
-      if (value === null) {
-        return `${key}=null`;
-      }
-      if (typeof value === 'boolean') {
-        return `${key}=${value}`;
-      }
-      if (value instanceof Date) {
-        return `${key}=${value.toISOString()}`;
-      }
-      return `${key}=${value}`;
-    })
+  return Object.entries(params)
+    .map(([key, value]) => `${key}=${formatFunctionParam(value)}`)
     .join(',');
+}
 
-  return formatted;
+/**
+ * Build function/action parameters as URL query options (OData v2 function imports)
+ */
+export function buildFunctionQuery(params?: Record<string, any>): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params ?? {})) {
+    query[key] = formatFunctionParam(value);
+  }
+  return query;
 }
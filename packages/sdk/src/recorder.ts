@@ -0,0 +1,238 @@
+// ============================================================================
+// S4Kit Recorder - Record/Replay of HTTP Fixtures for Integration Tests
+// ============================================================================
+
+import type { RecorderConfig } from './types';
+import { RecordingNotFoundError } from './errors';
+
+type Fetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+const REDACTED = '[REDACTED]';
+
+/** Never written to fixtures, whatever the configuration says */
+const ALWAYS_REDACTED = ['authorization', 'cookie', 'set-cookie'];
+
+/** A request as stored in (and matched against) a fixture */
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyHash?: string;
+}
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** JSON payload */
+  body?: unknown;
+  /** Binary payload (media streams) */
+  bodyBase64?: string;
+}
+
+/**
+ * One fixture file: a request and its responses in recording order.
+ * Repeated identical requests replay the responses in turn, the last one repeating.
+ */
+interface Fixture {
+  request: RecordedRequest;
+  responses: RecordedResponse[];
+}
+
+function isJson(contentType: string | null): boolean {
+  return !!contentType && /[/+]json\b/i.test(contentType);
+}
+
+async function sha256(bytes: Uint8Array | string): Promise<string> {
+  const data = typeof bytes === 'string' ? new TextEncoder().encode(bytes) : bytes;
+  const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Records or replays the HTTP traffic of one HttpClient, plugged in as its fetch
+ */
+export class Recorder {
+  private readonly redact: Set<string>;
+  private readonly fixtures = new Map<string, Fixture>();
+  /** Next response to replay per fixture file */
+  private readonly replayed = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly config: RecorderConfig,
+    private readonly baseUrl: string,
+    private readonly send: Fetch = (input, init) => globalThis.fetch(input, init)
+  ) {
+    this.redact = new Set([...ALWAYS_REDACTED, ...(config.redact ?? []).map(name => name.toLowerCase())]);
+  }
+
+  /**
+   * fetch() for the client's HttpClient
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (this.config.mode === 'passthrough') return this.send(input, init);
+
+    const source = input instanceof Request ? input : new Request(input instanceof URL ? input.href : input, init);
+    const request = await this.describe(source.clone() as Request);
+    const file = await this.fileFor(request);
+
+    if (this.config.mode === 'replay') {
+      return this.replay(request, file);
+    }
+
+    const response = await this.send(source, init);
+    await this.record(request, file, response.clone() as Response);
+    return response;
+  }
+
+  // ==========================================================================
+  // Matching
+  // ==========================================================================
+
+  /**
+   * Redacted form of a request - what gets written and what gets matched
+   */
+  private async describe(request: Request): Promise<RecordedRequest> {
+    const url = new URL(request.url);
+    const prefix = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+    const path = decodeURIComponent(url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length + 1) : url.pathname);
+
+    // Normalized query: sorted by name, so parameter order doesn't matter
+    const query: Record<string, string> = {};
+    for (const [name, value] of [...url.searchParams].sort(([a], [b]) => a.localeCompare(b))) {
+      query[name] = this.redact.has(name.toLowerCase()) ? REDACTED : value;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of request.headers) {
+      if (name.toLowerCase().startsWith('x-s4kit-') || name.toLowerCase() === 'if-match') {
+        headers[name] = this.redact.has(name.toLowerCase()) ? REDACTED : value;
+      }
+    }
+
+    const recorded: RecordedRequest = { method: request.method.toUpperCase(), path, query, headers };
+    if (!request.body) return recorded;
+
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    if (isJson(request.headers.get('content-type'))) {
+      const text = new TextDecoder().decode(bytes);
+      try {
+        recorded.body = this.redactBody(JSON.parse(text));
+        recorded.bodyHash = await sha256(JSON.stringify(recorded.body));
+      } catch {
+        recorded.bodyHash = await sha256(text);
+      }
+    } else {
+      recorded.bodyHash = await sha256(bytes);
+    }
+    return recorded;
+  }
+
+  /**
+   * Fixture file of a request: readable prefix plus a hash of everything that identifies it
+   */
+  private async fileFor(request: RecordedRequest): Promise<string> {
+    const identity = JSON.stringify([request.method, request.path, request.query, request.bodyHash ?? null]);
+    const hash = (await sha256(identity)).slice(0, 16);
+    const name = request.path.replace(/[^\w$-]+/g, '_').slice(0, 60);
+    return `${this.config.dir.replace(/\/$/, '')}/${request.method}-${name}-${hash}.json`;
+  }
+
+  // ==========================================================================
+  // Record
+  // ==========================================================================
+
+  private async record(request: RecordedRequest, file: string, response: Response): Promise<void> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of response.headers) {
+      headers[name] = this.redact.has(name.toLowerCase()) ? REDACTED : value;
+    }
+
+    const recorded: RecordedResponse = { status: response.status, headers };
+    if (isJson(response.headers.get('content-type'))) {
+      const text = await response.text();
+      try {
+        recorded.body = this.redactBody(JSON.parse(text));
+      } catch {
+        recorded.bodyBase64 = Buffer.from(text).toString('base64');
+      }
+    } else if (response.body) {
+      recorded.bodyBase64 = Buffer.from(await response.arrayBuffer()).toString('base64');
+    }
+
+    // The first recording of a file in this run replaces what a previous run wrote
+    let fixture = this.fixtures.get(file);
+    if (!fixture) {
+      fixture = { request, responses: [] };
+      this.fixtures.set(file, fixture);
+    }
+    fixture.responses.push(recorded);
+
+    const content = `${JSON.stringify(fixture, null, 2)}\n`;
+    this.writes = this.writes.then(async () => {
+      const { mkdir, writeFile } = await import('node:fs/promises');
+      await mkdir(this.config.dir, { recursive: true });
+      await writeFile(file, content);
+    });
+    await this.writes;
+  }
+
+  /**
+   * Replace the values of redacted fields, at any depth
+   */
+  private redactBody(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.redactBody(item));
+    if (!value || typeof value !== 'object') return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [name, field] of Object.entries(value)) {
+      result[name] = this.redact.has(name.toLowerCase()) ? REDACTED : this.redactBody(field);
+    }
+    return result;
+  }
+
+  // ==========================================================================
+  // Replay
+  // ==========================================================================
+
+  private async replay(request: RecordedRequest, file: string): Promise<Response> {
+    let fixture = this.fixtures.get(file);
+    if (!fixture) {
+      const { readFile } = await import('node:fs/promises');
+      const content = await readFile(file, 'utf8').catch(() => undefined);
+      if (content === undefined) {
+        const query = new URLSearchParams(request.query).toString();
+        throw new RecordingNotFoundError(request.method, query ? `${request.path}?${query}` : request.path, file);
+      }
+      fixture = JSON.parse(content) as Fixture;
+      this.fixtures.set(file, fixture);
+    }
+
+    const index = this.replayed.get(file) ?? 0;
+    this.replayed.set(file, index + 1);
+    const recorded = fixture.responses[Math.min(index, fixture.responses.length - 1)]!;
+
+    const headers = new Headers(recorded.headers);
+    let body: string | Uint8Array | null = null;
+    if (recorded.body !== undefined) {
+      body = JSON.stringify(recorded.body);
+      // JSON is stored re-formatted - the recorded length no longer applies
+      headers.delete('content-length');
+    } else if (recorded.bodyBase64 !== undefined) {
+      body = new Uint8Array(Buffer.from(recorded.bodyBase64, 'base64'));
+    }
+    // Bodies are stored decoded
+    if (headers.has('content-encoding')) {
+      headers.delete('content-encoding');
+      headers.delete('content-length');
+    }
+    headers.delete('transfer-encoding');
+
+    return new Response(recorded.status === 204 || recorded.status === 304 ? null : body as Uint8Array<ArrayBuffer> | string | null, {
+      status: recorded.status,
+      headers,
+    });
+  }
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// S4Kit Retry Engine - Exponential Backoff with Retry-After Awareness
+// ============================================================================
+
+import type { IS4KitError, RetryHook, RetryOverride, RetryPolicy } from './types';
+import { RateLimitError, ServerError, isRetryable } from './errors';
+
+/**
+ * Fully resolved retry policy
+ */
+export interface ResolvedRetryPolicy {
+  limit: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  retryOn: (error: IS4KitError) => boolean;
+  onRetry?: RetryHook;
+}
+
+const DEFAULT_BASE_DELAY = 500;
+const DEFAULT_MAX_DELAY = 30000;
+
+/** Methods that are safe to retry without the caller opting in */
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Merge the client policy with a per-call override
+ */
+export function resolveRetryPolicy(
+  config: { retries?: number; retry?: RetryPolicy },
+  override?: RetryOverride
+): ResolvedRetryPolicy {
+  const base: ResolvedRetryPolicy = {
+    limit: config.retry?.limit ?? config.retries ?? 0,
+    baseDelay: config.retry?.baseDelay ?? DEFAULT_BASE_DELAY,
+    maxDelay: config.retry?.maxDelay ?? DEFAULT_MAX_DELAY,
+    jitter: config.retry?.jitter ?? true,
+    retryOn: config.retry?.retryOn ?? isRetryable,
+    onRetry: config.retry?.onRetry,
+  };
+
+  if (override === undefined) return base;
+  if (override === false) return { ...base, limit: 0 };
+  if (typeof override === 'number') return { ...base, limit: override };
+
+  return {
+    limit: override.limit ?? base.limit,
+    baseDelay: override.baseDelay ?? base.baseDelay,
+    maxDelay: override.maxDelay ?? base.maxDelay,
+    jitter: override.jitter ?? base.jitter,
+    retryOn: override.retryOn ?? base.retryOn,
+    onRetry: override.onRetry ?? base.onRetry,
+  };
+}
+
+/**
+ * Get the server-requested wait (Retry-After) in seconds, if any
+ */
+function getRetryAfter(error: IS4KitError): number | undefined {
+  if (error instanceof RateLimitError || error instanceof ServerError) {
+    return error.retryAfter;
+  }
+  return undefined;
+}
+
+/**
+ * Compute the delay before a retry, or undefined if the request must not be retried
+ *
+ * @param attempt - Retry attempt about to be made (1-based)
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  error: IS4KitError,
+  method: string,
+  idempotent = false
+): number | undefined {
+  if (attempt > policy.limit) return undefined;
+  if (!SAFE_METHODS.has(method.toUpperCase()) && !idempotent) return undefined;
+  if (!policy.retryOn(error)) return undefined;
+
+  // Server told us how long to wait - honor it up to our bound
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter * 1000, policy.maxDelay);
+  }
+
+  const exponential = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  // "Equal jitter": keep half the delay, randomize the other half
+  return policy.jitter
+    ? Math.round(exponential / 2 + Math.random() * (exponential / 2))
+    : exponential;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
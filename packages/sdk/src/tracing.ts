@@ -0,0 +1,86 @@
+// ============================================================================
+// S4Kit Tracing - Operation Spans and W3C Trace Context Propagation
+// ============================================================================
+
+import type { OTelSpan, TracingConfig } from './types';
+
+/** `SpanKind.CLIENT` of @opentelemetry/api */
+const SPAN_KIND_CLIENT = 2;
+/** `SpanStatusCode.ERROR` of @opentelemetry/api */
+const SPAN_STATUS_ERROR = 2;
+/** Trace ID of the no-op spans @opentelemetry/api returns without a registered SDK */
+const INVALID_TRACE_ID = '0'.repeat(32);
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Span of one SDK operation, as used by HttpClient
+ */
+export interface OperationSpan {
+  /** W3C traceparent header for the requests of the operation */
+  readonly traceparent: string;
+  setAttribute(key: string, value: string | number | boolean | undefined): void;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Traceparent of a fresh trace - used without a tracer (or with a no-op one)
+ */
+function newTraceparent(): string {
+  return `00-${randomHex(16)}-${randomHex(8)}-01`;
+}
+
+/**
+ * Runs SDK operations in client spans of the configured OpenTelemetry tracer
+ */
+export class Tracer {
+  constructor(private readonly config: TracingConfig) {}
+
+  async run<T>(name: string, attributes: Attributes, operation: (span: OperationSpan) => Promise<T>): Promise<T> {
+    const tracer = this.config.tracer;
+    if (!tracer) {
+      return operation({ traceparent: newTraceparent(), setAttribute: () => {} });
+    }
+
+    return tracer.startActiveSpan(
+      name,
+      { kind: SPAN_KIND_CLIENT, attributes: defined(attributes) },
+      async (span: OTelSpan) => {
+        try {
+          return await operation(wrap(span));
+        } catch (error) {
+          const err = error as Error & { status?: number };
+          if (typeof err.status === 'number') span.setAttribute('http.response.status_code', err.status);
+          span.recordException(err);
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: err.message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+}
+
+function defined(attributes: Attributes): Record<string, string | number | boolean> {
+  const result: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+function wrap(span: OTelSpan): OperationSpan {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  return {
+    traceparent: traceId === INVALID_TRACE_ID
+      ? newTraceparent()
+      : `00-${traceId}-${spanId}-${(traceFlags & 1) === 1 ? '01' : '00'}`,
+    setAttribute: (key, value) => {
+      if (value !== undefined) span.setAttribute(key, value);
+    },
+  };
+}
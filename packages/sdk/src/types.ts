@@ -16,10 +16,416 @@ export interface S4KitConfig {
   connection?: InstanceEnvironment;  // Target instance environment
   service?: string;           // Default service alias - OPTIONAL (auto-resolved from entity)
   timeout?: number;           // Request timeout in milliseconds (default: 30000)
-  retries?: number;           // Number of retries on failure (default: 0)
+  retries?: number;           // Number of retries on failure (default: 0) - shorthand for retry.limit
+  retry?: RetryPolicy;        // Retry policy (backoff, Retry-After, idempotency)
+  cache?: boolean | CacheConfig; // Client-side response cache for list/get (default: off)
+  coalesce?: boolean | CoalesceOptions; // Coalesce concurrent get()/list() calls (default: off)
+  operations?: OperationManifest; // Function/action metadata from `s4kit generate-types` (operations.json)
+  typeConversion?: TypeConversionConfig; // Date objects and exact decimals, driven by generated metadata (default: off)
+  recorder?: RecorderConfig;  // Record/replay HTTP fixtures for integration tests (default: off)
+  tracing?: boolean | TracingConfig; // Span per operation and W3C traceparent propagation (default: off)
   debug?: boolean;            // Enable debug logging (default: false)
 }
 
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * Response cache configuration
+ *
+ * Caches `list`, `listWithCount`, `get` and `count` responses per entity,
+ * query, connection and service. Successful writes on an entity set
+ * (create/update/delete/*Many, actions) invalidate its cached responses.
+ *
+ * @example
+ * ```ts
+ * const client = S4Kit({
+ *   apiKey: 'sk_live_xxx',
+ *   cache: {
+ *     ttl: 30_000,
+ *     entityTtl: { A_Product: 300_000, A_SalesOrder: 0 },
+ *     staleWhileRevalidate: 60_000,
+ *   },
+ * });
+ * ```
+ */
+export interface CacheConfig {
+  /** Storage backend (default: in-memory LRU) */
+  store?: CacheStore;
+  /** Max entries of the default in-memory store (default: 1000) */
+  maxEntries?: number;
+  /** Default time-to-live in ms (default: 60000) */
+  ttl?: number;
+  /** TTL per entity set in ms - 0 disables caching for that entity */
+  entityTtl?: Record<string, number>;
+  /** Serve expired entries for this many ms while refreshing them in the background (default: 0) */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Cached response as kept by a CacheStore
+ */
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * Pluggable cache storage (e.g. Redis for caches shared between instances)
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  /** Remove all entries whose key starts with the prefix */
+  invalidate(prefix: string): void | Promise<void>;
+}
+
+/**
+ * Cumulative cache counters
+ */
+export interface CacheStats {
+  hits: number;
+  stale: number;
+  misses: number;
+  invalidations: number;
+}
+
+/**
+ * Cache details attached to intercepted responses of cacheable reads
+ */
+export interface CacheInfo {
+  status: 'hit' | 'stale' | 'miss';
+  key: string;
+  stats: CacheStats;
+}
+
+// ============================================================================
+// Type Conversion
+// ============================================================================
+
+/**
+ * Edm types of convertible properties per structured type, generated as
+ * `fields.json` by `s4kit generate-types --type-conversion`
+ */
+export interface FieldTypeManifest {
+  /** Entity set → structured type name */
+  entitySets: Record<string, string>;
+  types: Record<string, {
+    odataVersion: 'v2' | 'v4';
+    /** Property → Edm type (dates, decimals and complex properties only) */
+    properties: Record<string, string>;
+    /** Navigation property → target type name */
+    navigation: Record<string, string>;
+    /** Key property → Edm type (entity types only) - used by `createMockClient()` to generate keys */
+    keys?: Record<string, string>;
+  }>;
+}
+
+/**
+ * Bridge to an arbitrary-precision decimal library (big.js, decimal.js, ...)
+ * @example
+ * ```ts
+ * import Big from 'big.js';
+ *
+ * const decimal: DecimalAdapter<Big> = {
+ *   parse: (value) => new Big(value),
+ *   serialize: (value) => value.toString(),
+ *   isDecimal: (value): value is Big => value instanceof Big,
+ * };
+ * ```
+ */
+export interface DecimalAdapter<D = unknown> {
+  parse(value: string): D;
+  serialize(value: D): string;
+  isDecimal(value: unknown): value is D;
+}
+
+/**
+ * Opt-in conversion of dates and decimals
+ *
+ * Reads turn `Edm.DateTime`, `Edm.DateTimeOffset` and `Edm.Date` values into
+ * `Date` objects and keep `Edm.Decimal` exact (string, or your decimal type).
+ * `Edm.Int64` stays a string, as it can exceed the precision of JS numbers.
+ * Writes and object filters serialize them back to the service's v2/v4 format.
+ *
+ * @example
+ * ```ts
+ * import fields from './s4kit-types/fields.json';
+ *
+ * const client = S4Kit({ apiKey: 'sk_live_xxx', typeConversion: { fields } });
+ * const order = await client.A_SalesOrder.get('4711');
+ * order.CreationDate;   // Date
+ * order.TotalNetAmount; // '1250.50' - no floating point rounding
+ * ```
+ */
+export interface TypeConversionConfig {
+  fields: FieldTypeManifest;
+  /** Decimal representation (default: strings) */
+  decimal?: DecimalAdapter<any>;
+}
+
+/**
+ * Type overrides for generated types. Augment to match a custom DecimalAdapter:
+ * ```ts
+ * declare module 's4kit' {
+ *   interface S4KitTypeOverrides { decimal: Big }
+ * }
+ * ```
+ */
+export interface S4KitTypeOverrides {}
+
+/**
+ * `Edm.Decimal` in typeConversion mode - string unless overridden via S4KitTypeOverrides
+ */
+export type Decimal = S4KitTypeOverrides extends { decimal: infer D } ? D : string;
+
+// ============================================================================
+// Functions & Actions
+// ============================================================================
+
+/**
+ * Runtime metadata of an OData function or action
+ */
+export interface OperationMetadata {
+  kind: 'function' | 'action';
+  /** HTTP verb the service expects */
+  method: 'GET' | 'POST';
+  /** Parameters go into the URL query (v2 function imports: `ReleaseOrder?SalesOrder='4711'`) */
+  queryParameters?: boolean;
+}
+
+/**
+ * Operation metadata keyed by `Name` (unbound) or `EntitySet/Name` (bound).
+ * Generated as `operations.json` by `s4kit generate-types`.
+ *
+ * @example
+ * ```ts
+ * import operations from './s4kit-types/operations.json';
+ *
+ * const client = S4Kit({ apiKey: 'sk_live_xxx', operations });
+ * // POSTs because metadata says so, even though it is called via func()
+ * await client.A_SalesOrder.func('ReleaseOrder', { SalesOrder: '4711' });
+ * ```
+ */
+export type OperationManifest = Record<string, OperationMetadata>;
+
+/**
+ * Typed signature of a function or action, as emitted by the type generator
+ */
+export interface OperationSignature extends OperationMetadata {
+  params: object;
+  returns: unknown;
+}
+
+/**
+ * Unbound functions and actions of the service.
+ * Augmented by generated types:
+ * ```ts
+ * declare module 's4kit' {
+ *   interface S4KitOperations {
+ *     GetTopSelling: { kind: 'function'; method: 'GET'; params: GetTopSellingParams; returns: Product[] };
+ *   }
+ * }
+ * ```
+ */
+export interface S4KitOperations {}
+
+/** Operation names of a signature map */
+export type OperationName<Ops> = Extract<keyof Ops, string>;
+
+/** Parameters of an operation in a signature map */
+export type OperationParams<Ops, N extends keyof Ops> =
+  Ops[N] extends { params: infer P } ? P : Record<string, any>;
+
+/** Operation names not in a signature map - typed operations can't fall back to the untyped overload */
+export type UnknownOperation<Ops, N extends string> = N extends OperationName<Ops> ? never : N;
+
+/** Return type of an operation in a signature map */
+export type OperationResult<Ops, N extends keyof Ops> =
+  Ops[N] extends { returns: infer R } ? R : any;
+
+// ============================================================================
+// Request Coalescing
+// ============================================================================
+
+/**
+ * Coalescing of concurrent reads (DataLoader-style)
+ *
+ * `get()` calls made in the same microtask window are deduplicated and
+ * loaded together: simple keys with a known key property become one
+ * `$filter=Key eq ... or ...` request, other keys one `/batch` call.
+ * Identical in-flight `list()` calls share a single request.
+ *
+ * @example
+ * ```ts
+ * const client = S4Kit({
+ *   apiKey: 'sk_live_xxx',
+ *   coalesce: { keys: { A_Product: 'Product' } },
+ * });
+ *
+ * // One HTTP request instead of three
+ * const [a, b, c] = await Promise.all(['P1', 'P2', 'P1'].map(id => client.A_Product.get(id)));
+ * ```
+ */
+export interface CoalesceOptions {
+  /** Key property per entity set - enables a single $filter request for simple keys */
+  keys?: Record<string, string>;
+  /** Maximum keys per $filter request or batch call (default: 50) */
+  maxBatchSize?: number;
+}
+
+// ============================================================================
+// Tracing
+// ============================================================================
+
+/**
+ * The part of an OpenTelemetry span the SDK uses (`Span` of `@opentelemetry/api`)
+ */
+export interface OTelSpan {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The part of an OpenTelemetry tracer the SDK uses (`Tracer` of `@opentelemetry/api`)
+ */
+export interface OTelTracer {
+  startActiveSpan<F extends (span: OTelSpan) => unknown>(
+    name: string,
+    options: { kind?: number; attributes?: Record<string, string | number | boolean> },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * Tracing of SDK operations
+ *
+ * Every request (with its retries) becomes one client span. Its W3C
+ * `traceparent` is sent to the proxy, which continues the trace down to SAP.
+ * Without a tracer, the SDK still propagates a fresh trace per operation,
+ * so proxy and SAP spans of one operation are grouped.
+ *
+ * @example
+ * ```ts
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const client = S4Kit({
+ *   apiKey: 'sk_live_xxx',
+ *   tracing: { tracer: trace.getTracer('s4kit') },
+ * });
+ * ```
+ */
+export interface TracingConfig {
+  /** OpenTelemetry tracer - spans join the active context of the caller */
+  tracer?: OTelTracer;
+}
+
+// ============================================================================
+// Record / Replay
+// ============================================================================
+
+/**
+ * - `record`: send requests and write each request/response pair to a fixture file
+ * - `replay`: answer requests from fixtures, fail on requests without one
+ * - `passthrough`: send requests, record nothing
+ */
+export type RecorderMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Record/replay (VCR) of HTTP traffic, batch calls included
+ *
+ * Requests are matched by method, path, normalized query and a hash of the body.
+ * Fixtures are JSON files in `dir`; the Authorization header is never written.
+ *
+ * @example
+ * ```ts
+ * const client = S4Kit({
+ *   apiKey: process.env.S4KIT_API_KEY ?? 'replay',
+ *   recorder: {
+ *     mode: process.env.S4KIT_RECORD ? 'record' : 'replay',
+ *     dir: 'test/fixtures/sales-orders',
+ *     redact: ['CustomerName', 'EmailAddress'],
+ *   },
+ * });
+ * ```
+ */
+export interface RecorderConfig {
+  mode: RecorderMode;
+  /** Directory of the fixture files */
+  dir: string;
+  /** Header, query parameter and body field names to replace with `[REDACTED]` (case-insensitive) */
+  redact?: string[];
+}
+
+// ============================================================================
+// Retry Policy
+// ============================================================================
+
+/**
+ * Retry policy for failed requests
+ *
+ * Retries use exponential backoff with jitter. A `Retry-After` header or the
+ * proxy's `retryAfter` body field takes precedence over the computed delay.
+ * Only GET requests are retried unless a write is marked `idempotent`.
+ *
+ * @example
+ * ```ts
+ * const client = S4Kit({
+ *   apiKey: 'sk_live_xxx',
+ *   retry: {
+ *     limit: 5,
+ *     onRetry: ({ attempt, delay, error }) => console.warn(`retry #${attempt} in ${delay}ms: ${error.message}`),
+ *   },
+ * });
+ * ```
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries (default: `retries` or 0) */
+  limit?: number;
+  /** Delay before the first retry in ms, doubled on every attempt (default: 500) */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single delay in ms (default: 30000).
+   * A server-requested Retry-After above this bound is shortened to it.
+   */
+  maxDelay?: number;
+  /** Randomize delays to avoid thundering herds (default: true) */
+  jitter?: boolean;
+  /** Decide whether an error is retried (default: `isRetryable`) */
+  retryOn?: (error: IS4KitError) => boolean;
+  /** Called before every retry - useful for logging and metrics */
+  onRetry?: RetryHook;
+}
+
+/**
+ * Per-call retry override: a retry limit, `false` to disable, or a partial policy
+ */
+export type RetryOverride = number | false | RetryPolicy;
+
+/**
+ * Information passed to the retry hook
+ */
+export interface RetryContext {
+  /** Retry attempt about to be made (1-based) */
+  attempt: number;
+  /** Delay in ms before the retry */
+  delay: number;
+  /** Error that triggered the retry */
+  error: IS4KitError;
+  method: string;
+  url: string;
+}
+
+export interface RetryHook {
+  (context: RetryContext): void | Promise<void>;
+}
+
 // ============================================================================
 // Query Options
 // ============================================================================
@@ -67,6 +473,12 @@ export interface QueryOptions<T = any> {
   /** Full-text search query */
   search?: string;
 
+  /**
+   * Aggregation (`$apply`, OData v4 only) - raw string or transformations.
+   * Use `list()` with an `apply` object to get typed result rows.
+   */
+  apply?: string | ApplyOptions<T>;
+
   /** Override instance environment for this request */
   connection?: InstanceEnvironment;
 
@@ -75,6 +487,24 @@ export interface QueryOptions<T = any> {
 
   /** Get raw OData response with metadata (default: false) */
   raw?: boolean;
+
+  /** Override the client's retry policy for this request */
+  retry?: RetryOverride;
+
+  /** Set to false to bypass the response cache for this read */
+  cache?: boolean;
+
+  /**
+   * Mark a write as safe to retry (e.g. a PUT with the full entity).
+   * Writes are never retried unless idempotent.
+   */
+  idempotent?: boolean;
+
+  /**
+   * ETag sent as `If-Match` on update/replace/delete.
+   * Defaults to the ETag captured on the entity passed to the write (see `getETag`).
+   */
+  etag?: string;
 }
 
 /**
@@ -141,6 +571,78 @@ export type FilterCondition =
  */
 export type FilterValue = string | number | boolean | null | Date | FilterCondition;
 
+/**
+ * Filter value for enum fields (generated as string-literal unions) - only members are accepted
+ * @example 'Open' or { ne: 'Closed' } or { in: ['Open', 'InProcess'] }
+ */
+export type EnumFilterValue<E extends string> =
+  | E
+  | null
+  | { eq?: E | null; ne?: E | null; in?: E[] };
+
+/**
+ * Whether a field type is a string-literal union rather than plain `string`
+ */
+type IsEnumType<V> = [V] extends [string] ? (string extends V ? false : true) : false;
+
+/**
+ * Filter value for fields holding objects such as custom decimals (typeConversion mode)
+ */
+export type ObjectFilterValue<D> =
+  | D
+  | { [K in FilterComparisonOperator]?: D | null }
+  | { in?: D[] }
+  | { between?: [D, D] };
+
+/**
+ * Filter value accepted for a field of type V
+ */
+export type FieldFilterValue<V> =
+  IsEnumType<NonNullable<V>> extends true ? EnumFilterValue<NonNullable<V> & string>
+  : NonNullable<V> extends string | number | boolean | Date ? FilterValue
+  : FilterValue | ObjectFilterValue<NonNullable<V>>;
+
+/**
+ * Filter on a collection navigation property with the lambda operators (OData v4 only)
+ * @example
+ * ```ts
+ * { to_Item: { any: { Material: 'X' } } }      // at least one item matches
+ * { to_Item: { all: { Quantity: { gt: 0 } } } } // every item matches
+ * { to_Item: { any: true } }                    // collection is not empty
+ * ```
+ */
+export interface LambdaFilter<E = any> {
+  any?: FilterExpression<E> | true;
+  all?: FilterExpression<E>;
+}
+
+/**
+ * Navigation property names declared by the generated __navigationProps phantom (never when untyped)
+ */
+type NavigationKeysOf<T> = T extends { readonly __navigationProps?: infer N }
+  ? N extends string ? N & keyof T : never
+  : never;
+
+/**
+ * Navigation properties holding collections vs. single entities
+ */
+type CollectionNavigationKeysOf<T> = {
+  [K in NavigationKeysOf<T>]: NonNullable<T[K]> extends readonly any[] ? K : never;
+}[NavigationKeysOf<T>];
+
+type SingleNavigationKeysOf<T> = Exclude<NavigationKeysOf<T>, CollectionNavigationKeysOf<T>>;
+
+/**
+ * `nav/Field` paths through single-valued navigation properties
+ */
+type NavigationPathsOf<T> = {
+  [K in SingleNavigationKeysOf<T>]: `${K & string}/${Exclude<keyof NonNullable<T[K]> & string, '__navigationProps'>}`;
+}[SingleNavigationKeysOf<T>];
+
+type NavigationPathValue<T, P> = P extends `${infer K}/${infer F}`
+  ? K extends keyof T ? F extends keyof NonNullable<T[K]> ? NonNullable<T[K]>[F] : never : never
+  : never;
+
 /**
  * Type-safe filter object
  * @example
@@ -156,10 +658,21 @@ export type FilterValue = string | number | boolean | null | Date | FilterCondit
  *
  * // Combined
  * filter: { Category: 'Electronics', Price: { gt: 100, lt: 500 } }
+ *
+ * // Enum fields only accept their members
+ * filter: { OverallStatus: { in: ['Open', 'InProcess'] } }
+ *
+ * // Navigation paths and lambda operators (any/all need OData v4)
+ * filter: { 'to_Customer/Country': 'DE' }
+ * filter: { to_Item: { any: { Material: 'X' } } }
  * ```
  */
 export type FilterObject<T = any> = {
-  [K in keyof T & string]?: FilterValue;
+  [K in keyof T & string]?: K extends CollectionNavigationKeysOf<T>
+    ? LambdaFilter<NonNullable<T[K]> extends readonly (infer E)[] ? E : never>
+    : FieldFilterValue<T[K]>;
+} & {
+  [P in NavigationPathsOf<T>]?: FieldFilterValue<NavigationPathValue<T, P>>;
 };
 
 /**
@@ -236,25 +749,25 @@ export type Filter<T = any> =
  * Expand nested options (for object syntax)
  * @example { select: ['Name'], filter: { Active: true }, top: 10 }
  */
-export interface ExpandNestedOptions {
+export interface ExpandNestedOptions<E = any> {
   /** Select specific fields from expanded entity */
-  select?: string[];
+  select?: Array<keyof E & string>;
   /** Filter expanded entities */
-  filter?: Filter<any>;
+  filter?: Filter<E>;
   /** Limit expanded results */
   top?: number;
   /** Skip expanded results */
   skip?: number;
   /** Order expanded results */
-  orderBy?: OrderBy<any>;
+  orderBy?: OrderBy<E>;
   /** Nested expand */
-  expand?: Expand<any>;
+  expand?: Expand<E>;
 }
 
 /**
  * Expand value - true for simple include, or options object
  */
-export type ExpandValue = true | ExpandNestedOptions;
+export type ExpandValue<E = any> = true | ExpandNestedOptions<E>;
 
 /**
  * Extract navigation property names from entity type
@@ -269,9 +782,16 @@ export type NavigationPropsOf<T> = T extends { readonly __navigationProps?: infe
  * @example { Products: true } or { Products: { select: ['Name'], top: 5 } }
  */
 export type ExpandObject<T = any> = {
-  [K in NavigationPropsOf<T>]?: ExpandValue;
+  [K in NavigationPropsOf<T>]?: ExpandValue<NavigationTargetOf<T, K>>;
 };
 
+/**
+ * Entity type behind a navigation property (element type for collections)
+ */
+export type NavigationTargetOf<T, K> = K extends keyof T
+  ? NonNullable<T[K]> extends readonly (infer E)[] ? E : NonNullable<T[K]>
+  : any;
+
 /**
  * All supported expand formats
  * @example
@@ -303,6 +823,129 @@ export type ExpandObject<T = any> = {
  */
 export type Expand<T = any> = NavigationPropsOf<T>[] | ExpandObject<T>;
 
+// ============================================================================
+// Query Result Types (select/expand narrowing)
+// ============================================================================
+
+/**
+ * Flatten intersections for readable hovers
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Navigation properties named by an expand option (array or object form)
+ */
+type ExpandedKeysOf<T, X> =
+  X extends readonly (infer K)[] ? K & keyof T
+  : X extends object ? keyof X & keyof T
+  : never;
+
+/**
+ * Options of one expanded property (none for `true` and the array form)
+ */
+type ExpandEntryOf<X, K> = X extends readonly any[] ? {} : K extends keyof X ? X[K] : {};
+
+type ExpandSelectOf<E, Target> = E extends { select: readonly (infer S)[] } ? S & keyof Target : keyof Target;
+
+type ExpandExpandOf<E> = E extends { expand: infer X } ? X : never;
+
+/**
+ * Shape of an expanded navigation property, narrowed by its nested select/expand
+ */
+type ExpandedValue<V, E> =
+  NonNullable<V> extends readonly (infer Item)[]
+    ? QueryResult<Item, ExpandSelectOf<E, Item>, ExpandExpandOf<E>>[] | Extract<V, null | undefined>
+    : QueryResult<NonNullable<V>, ExpandSelectOf<E, NonNullable<V>>, ExpandExpandOf<E>> | Extract<V, null | undefined>;
+
+/**
+ * Entity shape returned for a query: the selected fields plus the expanded
+ * navigation properties (recursively narrowed by nested `select`/`expand`).
+ * Without `select` all fields are returned.
+ * @example
+ * ```ts
+ * QueryResult<A_SalesOrder, 'SalesOrder', { to_Item: { select: ['Material'] } }>
+ * // → { SalesOrder: string; to_Item?: { Material: string }[] }
+ * ```
+ */
+export type QueryResult<T, S = keyof T, X = never> =
+  0 extends 1 & T ? T
+  // Options typed only as Expand<T> (e.g. a QueryOptions<T> variable) carry no expand information
+  : Expand<T> extends X ? Simplify<Pick<T, S & keyof T>>
+  : Simplify<
+      Pick<T, Exclude<S & keyof T, ExpandedKeysOf<T, X>>> &
+      { [K in keyof Pick<T, ExpandedKeysOf<T, X>>]: ExpandedValue<T[K], ExpandEntryOf<X, K>> }
+    >;
+
+/**
+ * Query options whose `select` and `expand` narrow the result type
+ */
+export type NarrowingQueryOptions<T, S, X> = QueryOptions<T> & { select?: S[]; expand?: X };
+
+// ============================================================================
+// Aggregation ($apply, OData v4 only)
+// ============================================================================
+
+/**
+ * Aggregation methods of the OData data aggregation extension
+ */
+export type AggregateMethod = 'sum' | 'avg' | 'min' | 'max' | 'countdistinct';
+
+/**
+ * One aggregated value - `{ field: 'NetAmount', with: 'sum' }` becomes `NetAmount with sum as <alias>`
+ */
+export interface AggregateExpression<T = any> {
+  field: keyof T & string;
+  with: AggregateMethod;
+}
+
+/**
+ * Aggregated values keyed by their alias in the result
+ * @example { TotalAmount: { field: 'NetAmount', with: 'sum' } }
+ */
+export type Aggregations<T = any> = Record<string, AggregateExpression<T>>;
+
+/**
+ * `$apply` transformations, applied in order: filter → groupby/aggregate → topcount
+ * @example
+ * ```ts
+ * apply: {
+ *   filter: { Status: 'open' },
+ *   groupBy: ['Customer'],
+ *   aggregate: { Total: { field: 'NetAmount', with: 'sum' } },
+ *   topCount: { count: 5, field: 'Total' },
+ * }
+ * // → filter(Status eq 'open')/groupby((Customer),aggregate(NetAmount with sum as Total))/topcount(5,Total)
+ * ```
+ */
+export interface ApplyOptions<
+  T = any,
+  G extends keyof T & string = keyof T & string,
+  A extends Aggregations<T> = Aggregations<T>,
+> {
+  /** Filter rows before grouping (unlike `filter`, which applies to the aggregated result) */
+  filter?: Filter<T>;
+  /** Properties to group by */
+  groupBy?: G[];
+  /** Aggregated values, per group or over the whole set */
+  aggregate?: A;
+  /** Keep the `count` rows with the highest values of `field` (may be an aggregate alias) */
+  topCount?: { count: number; field: string };
+}
+
+/**
+ * Value type of one aggregate: distinct counts are numbers, everything else keeps the field's type
+ */
+export type AggregateValue<T, E> =
+  E extends { with: 'countdistinct' } ? number
+  : E extends { field: infer F extends keyof T } ? T[F]
+  : never;
+
+/**
+ * Row shape of an aggregation: the grouped properties plus one property per aggregate alias
+ */
+export type ApplyResult<T, G extends keyof T, A> =
+  Pick<T, G> & { [K in keyof A]: AggregateValue<T, A[K]> };
+
 // ============================================================================
 // Response Types
 // ============================================================================
@@ -315,6 +958,11 @@ export interface ListResponse<T> {
   value: T[];
   /** Total count (when count: true is requested) */
   count?: number;
+  /**
+   * Proxy-relative link to the next server-driven page, when SAP paged the result.
+   * Carries an opaque continuation token - `paginate()` and `all()` follow it automatically.
+   */
+  nextLink?: string;
 }
 
 /**
@@ -327,6 +975,57 @@ export interface ODataResponse<T> {
   '@odata.nextLink'?: string;
 }
 
+// ============================================================================
+// Media Streams ($value)
+// ============================================================================
+
+/**
+ * Binary content accepted for uploads - streams are sent as-is, without buffering
+ */
+export type MediaBody = ReadableStream<Uint8Array> | Blob | ArrayBuffer | Uint8Array;
+
+/**
+ * Downloaded binary content of a media entity or stream property
+ */
+export interface MediaContent {
+  /** Response body - consume it once (pipe to a file, `new Response(stream).arrayBuffer()`, ...) */
+  stream: ReadableStream<Uint8Array>;
+  /** MIME type reported by SAP (default: `application/octet-stream`) */
+  contentType: string;
+  /** File name from `Content-Disposition`, if SAP sent one */
+  filename?: string;
+  /** Size in bytes, when known */
+  contentLength?: number;
+  /** ETag of the media resource - pass it to `uploadMedia()` as `etag` */
+  etag?: string;
+}
+
+/**
+ * Options for media reads and writes
+ */
+export interface MediaOptions {
+  /**
+   * Named stream property instead of the entity's default stream (`$value`)
+   * @example 'Content' → `Attachments(1)/Content`
+   */
+  property?: string;
+
+  /** Override instance environment for this request */
+  connection?: InstanceEnvironment;
+
+  /** Override service for this request */
+  service?: string;
+
+  /** Override the client's retry policy for this request (streamed uploads are never retried) */
+  retry?: RetryOverride;
+
+  /** ETag sent as `If-Match` on uploads */
+  etag?: string;
+
+  /** File name sent as `Slug` header - used by SAP to name a created media entity */
+  slug?: string;
+}
+
 // ============================================================================
 // Entity Handler Interface
 // ============================================================================
@@ -334,17 +1033,34 @@ export interface ODataResponse<T> {
 /**
  * Complete entity handler with all OData operations
  */
-export interface EntityHandler<T = any> {
+export interface EntityHandler<T = any, Ops extends object = {}> {
   // ==================== READ Operations ====================
 
   /**
-   * List entities with optional query options
+   * Aggregate entities with `$apply` (OData v4 only) - rows are typed by groupBy and aggregate
+   * @example
+   * ```ts
+   * const totals = await client.Orders.list({
+   *   apply: { groupBy: ['Customer'], aggregate: { Total: { field: 'NetAmount', with: 'sum' } } },
+   * });
+   * // totals: Array<{ Customer: string; Total: number }>
+   * ```
+   */
+  list<G extends keyof T & string = never, A extends Aggregations<T> = {}>(
+    options: QueryOptions<T> & { apply: ApplyOptions<T, G, A> }
+  ): Promise<ApplyResult<T, G, A>[]>;
+
+  /**
+   * List entities with optional query options - `select` and `expand` narrow the result type
    * @example
    * ```ts
    * const items = await client.Products.list({ top: 10 });
+   * const names = await client.Products.list({ select: ['ID', 'Name'] }); // { ID, Name }[]
    * ```
    */
-  list(options?: QueryOptions<T>): Promise<T[]>;
+  list<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: NarrowingQueryOptions<T, S, X>
+  ): Promise<QueryResult<T, S, X>[]>;
 
   /**
    * List entities with count
@@ -354,7 +1070,9 @@ export interface EntityHandler<T = any> {
    * console.log(`Showing ${value.length} of ${count} total`);
    * ```
    */
-  listWithCount(options?: QueryOptions<T>): Promise<ListResponse<T>>;
+  listWithCount<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: NarrowingQueryOptions<T, S, X>
+  ): Promise<ListResponse<QueryResult<T, S, X>>>;
 
   /**
    * Get single entity by key
@@ -364,7 +1082,10 @@ export interface EntityHandler<T = any> {
    * const partner = await client.A_BusinessPartner.get('BP001');
    * ```
    */
-  get(id: EntityKey, options?: QueryOptions<T>): Promise<T>;
+  get<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    id: EntityKey,
+    options?: NarrowingQueryOptions<T, S, X>
+  ): Promise<QueryResult<T, S, X>>;
 
   /**
    * Count matching entities
@@ -425,10 +1146,15 @@ export interface EntityHandler<T = any> {
   // ==================== UPDATE Operations ====================
 
   /**
-   * Partial update (PATCH) - only updates specified fields
+   * Partial update (PATCH) - only updates specified fields.
+   * Sends `If-Match` when `options.etag` is set or `data` carries a captured ETag.
    * @example
    * ```ts
    * const updated = await client.Products.update(1, { Price: 12.99 });
+   *
+   * // Optimistic concurrency - fails with PreconditionFailedError on conflict
+   * const product = await client.Products.get(1);
+   * await client.Products.update(1, { Price: 12.99 }, { etag: getETag(product) });
    * ```
    */
   update(id: EntityKey, data: Partial<T>, options?: QueryOptions<T>): Promise<T>;
@@ -465,7 +1191,8 @@ export interface EntityHandler<T = any> {
   // ==================== Bulk Operations ====================
 
   /**
-   * Create multiple entities in a single batch request
+   * Create multiple entities in batch requests of up to `chunkSize` items.
+   * Throws a `BulkOperationError` listing every failed item.
    * @example
    * ```ts
    * const books = await client.Books.createMany([
@@ -474,31 +1201,33 @@ export interface EntityHandler<T = any> {
    * ]);
    * ```
    */
-  createMany(items: Array<Partial<T>>, options?: QueryOptions<T>): Promise<T[]>;
+  createMany(items: Array<Partial<T>>, options?: BulkOptions<T>): Promise<T[]>;
 
   /**
-   * Update multiple entities in a single batch request
+   * Update multiple entities in batch requests of up to `chunkSize` items.
+   * Throws a `BulkOperationError` listing every failed item.
    * @example
    * ```ts
    * const updated = await client.Books.updateMany([
    *   { id: 1, data: { price: 19.99 } },
-   *   { id: 2, data: { price: 29.99 } },
+   *   { id: 2, data: { price: 29.99 }, etag: 'W/"2"' },
    * ]);
    * ```
    */
   updateMany(
-    items: Array<{ id: EntityKey; data: Partial<T> }>,
-    options?: QueryOptions<T>
+    items: Array<{ id: EntityKey; data: Partial<T>; etag?: string }>,
+    options?: BulkOptions<T>
   ): Promise<T[]>;
 
   /**
-   * Delete multiple entities in a single batch request
+   * Delete multiple entities in batch requests of up to `chunkSize` items.
+   * Throws a `BulkOperationError` listing every failed item.
    * @example
    * ```ts
    * await client.Books.deleteMany([1, 2, 3]);
    * ```
    */
-  deleteMany(ids: EntityKey[], options?: QueryOptions<T>): Promise<void>;
+  deleteMany(ids: EntityKey[], options?: BulkOptions<T>): Promise<void>;
 
   // ==================== Navigation Properties ====================
 
@@ -511,25 +1240,69 @@ export interface EntityHandler<T = any> {
    */
   nav<R = any>(id: EntityKey, property: string): EntityHandler<R>;
 
+  // ==================== Media ($value) ====================
+
+  /**
+   * Download the binary content of a media entity as a stream
+   * @example
+   * ```ts
+   * const { stream, contentType, filename } = await client.Attachments.getMedia(42);
+   * await Bun.write(filename ?? 'download.bin', new Response(stream));
+   * ```
+   */
+  getMedia(id: EntityKey, options?: MediaOptions): Promise<MediaContent>;
+
+  /**
+   * Replace the binary content of a media entity
+   * @example
+   * ```ts
+   * await client.Attachments.uploadMedia(42, Bun.file('scan.pdf').stream(), 'application/pdf');
+   * ```
+   */
+  uploadMedia(id: EntityKey, content: MediaBody, contentType: string, options?: MediaOptions): Promise<void>;
+
+  /**
+   * Create a media entity from binary content - `slug` names the file
+   * @example
+   * ```ts
+   * const attachment = await client.Attachments.createMedia(file.stream(), 'image/png', { slug: 'logo.png' });
+   * ```
+   */
+  createMedia(content: MediaBody, contentType: string, options?: MediaOptions): Promise<T>;
+
   // ==================== OData Functions & Actions ====================
 
   /**
-   * Call an OData function (GET operation)
+   * Call an OData function (GET unless operation metadata says otherwise)
    * @example
    * ```ts
    * const result = await client.Products.func('GetTopSelling', { count: 10 });
    * ```
    */
-  func<R = any>(name: string, params?: Record<string, any>): Promise<R>;
+  func<N extends OperationName<S4KitOperations & Ops>>(
+    name: N,
+    params?: OperationParams<S4KitOperations & Ops, N>
+  ): Promise<OperationResult<S4KitOperations & Ops, N>>;
+  func<R = any, N extends string = string>(
+    name: UnknownOperation<S4KitOperations & Ops, N>,
+    params?: Record<string, any>
+  ): Promise<R>;
 
   /**
-   * Call an OData action (POST operation)
+   * Call an OData action (POST unless operation metadata says otherwise)
    * @example
    * ```ts
    * await client.Orders.action('Approve', { orderId: '001' });
    * ```
    */
-  action<R = any>(name: string, params?: Record<string, any>): Promise<R>;
+  action<N extends OperationName<S4KitOperations & Ops>>(
+    name: N,
+    params?: OperationParams<S4KitOperations & Ops, N>
+  ): Promise<OperationResult<S4KitOperations & Ops, N>>;
+  action<R = any, N extends string = string>(
+    name: UnknownOperation<S4KitOperations & Ops, N>,
+    params?: Record<string, any>
+  ): Promise<R>;
 
   /**
    * Call bound function on specific entity
@@ -538,7 +1311,16 @@ export interface EntityHandler<T = any> {
    * const total = await client.Orders.boundFunc(1, 'CalculateTotal');
    * ```
    */
-  boundFunc<R = any>(id: EntityKey, name: string, params?: Record<string, any>): Promise<R>;
+  boundFunc<N extends OperationName<Ops>>(
+    id: EntityKey,
+    name: N,
+    params?: OperationParams<Ops, N>
+  ): Promise<OperationResult<Ops, N>>;
+  boundFunc<R = any, N extends string = string>(
+    id: EntityKey,
+    name: UnknownOperation<Ops, N>,
+    params?: Record<string, any>
+  ): Promise<R>;
 
   /**
    * Call bound action on specific entity
@@ -547,12 +1329,23 @@ export interface EntityHandler<T = any> {
    * await client.Orders.boundAction('001', 'Submit');
    * ```
    */
-  boundAction<R = any>(id: EntityKey, name: string, params?: Record<string, any>): Promise<R>;
+  boundAction<N extends OperationName<Ops>>(
+    id: EntityKey,
+    name: N,
+    params?: OperationParams<Ops, N>
+  ): Promise<OperationResult<Ops, N>>;
+  boundAction<R = any, N extends string = string>(
+    id: EntityKey,
+    name: UnknownOperation<Ops, N>,
+    params?: Record<string, any>
+  ): Promise<R>;
 
   // ==================== Pagination ====================
 
   /**
-   * Paginate through all entities with automatic page handling
+   * Paginate through all entities with automatic page handling.
+   * Follows server-driven pages (`nextLink`) when SAP returns them and
+   * falls back to `$top`/`$skip` otherwise.
    * @example
    * ```ts
    * // Iterate through all pages
@@ -567,7 +1360,9 @@ export interface EntityHandler<T = any> {
    * const all = await client.Products.all({ filter: "Active eq true" });
    * ```
    */
-  paginate(options?: PaginateOptions<T>): AsyncIterable<ListResponse<T>>;
+  paginate<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: PaginateOptions<T> & { select?: S[]; expand?: X }
+  ): AsyncIterable<ListResponse<QueryResult<T, S, X>>>;
 
   /**
    * Get all entities (automatically handles pagination)
@@ -576,7 +1371,9 @@ export interface EntityHandler<T = any> {
    * const allProducts = await client.Products.all({ filter: "Active eq true" });
    * ```
    */
-  all(options?: PaginateOptions<T>): Promise<T[]>;
+  all<S extends keyof T & string = keyof T & string, X extends Expand<T> = never>(
+    options?: PaginateOptions<T> & { select?: S[]; expand?: X }
+  ): Promise<QueryResult<T, S, X>[]>;
 }
 
 /**
@@ -589,6 +1386,59 @@ export interface PaginateOptions<T = any> extends Omit<QueryOptions<T>, 'skip'>
   maxItems?: number;
 }
 
+/**
+ * Options for bulk writes (createMany, updateMany, deleteMany)
+ * @example
+ * ```ts
+ * await client.Customers.createMany(rows, {
+ *   chunkSize: 50,
+ *   concurrency: 4,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ * });
+ * ```
+ */
+export interface BulkOptions<T = any> extends QueryOptions<T> {
+  /** Operations per batch request (default and maximum: 100) */
+  chunkSize?: number;
+  /** Batch requests in flight at the same time (default: 1) */
+  concurrency?: number;
+  /** Called after every finished chunk */
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * Progress of a bulk write, reported after every chunk
+ */
+export interface BulkProgress {
+  /** Items processed so far (succeeded or failed) */
+  completed: number;
+  /** Items that failed so far */
+  failed: number;
+  /** Items in the bulk write */
+  total: number;
+  /** Chunks processed so far */
+  chunks: number;
+  /** Chunks in the bulk write */
+  totalChunks: number;
+}
+
+/**
+ * Outcome of one item of a bulk write - carried by `BulkOperationError`
+ */
+export interface BulkItemResult<T = unknown> {
+  /** Position of the item in the input array */
+  index: number;
+  /** Key of the item (updateMany, deleteMany) */
+  key?: EntityKey;
+  success: boolean;
+  /** HTTP status of the operation (0 if the request never got an answer) */
+  status: number;
+  /** Written entity (createMany, updateMany) */
+  data?: T;
+  /** Why the item failed */
+  error?: ODataError;
+}
+
 /**
  * Entity key type - supports string, number, or composite keys
  */
@@ -622,9 +1472,15 @@ export type DeepInsertData<T> = T & {
 // ============================================================================
 
 /**
- * Batch operation - supports POST, PATCH, PUT, DELETE
+ * Batch operation - supports GET (non-atomic only), POST, PATCH, PUT, DELETE
  * @example
  * ```ts
+ * // Read by key
+ * { method: 'GET', entity: 'Books', id: 123 }
+ *
+ * // Query a collection (query options as built by buildQuery())
+ * { method: 'GET', entity: 'Books', query: { $filter: "price lt 10", $top: '5' } }
+ *
  * // Create
  * { method: 'POST', entity: 'Books', data: { title: 'New Book' } }
  *
@@ -633,12 +1489,31 @@ export type DeepInsertData<T> = T & {
  *
  * // Delete
  * { method: 'DELETE', entity: 'Books', id: 123 }
+ *
+ * // Atomic batches: create an order, then an item under it (Content-ID reference)
+ * { method: 'POST', entity: 'Orders', data: { customer: 'ACME' }, contentId: '1' }
+ * { method: 'POST', entity: '$1/items', data: { product: 'P1' }, contentId: '2' }
  * ```
  */
 export type BatchOperation =
-  | { method: 'POST'; entity: string; data: Record<string, unknown> }
-  | { method: 'PATCH' | 'PUT'; entity: string; id: EntityKey; data: Record<string, unknown> }
-  | { method: 'DELETE'; entity: string; id: EntityKey };
+  | { method: 'GET'; entity: string; id?: EntityKey; query?: Record<string, string> }
+  | ({ method: 'POST'; entity: string; data: Record<string, unknown> } & ChangesetOptions)
+  | ({ method: 'PATCH' | 'PUT'; entity: string; id?: EntityKey; data: Record<string, unknown>; etag?: string } & ChangesetOptions)
+  | ({ method: 'DELETE'; entity: string; id?: EntityKey; etag?: string } & ChangesetOptions);
+
+/**
+ * Changeset membership of a write operation in an atomic batch.
+ *
+ * Operations can reference an earlier operation of the same changeset by its
+ * Content-ID: as entity (`$1`, `$1/to_Item` - `id` is then optional) or in
+ * OData V4 bodies (`{ 'to_Header@odata.bind': '$1' }`).
+ */
+export interface ChangesetOptions {
+  /** Content-ID, unique within the batch (default: position in the batch) */
+  contentId?: string;
+  /** Operations with the same number form one changeset - committed or rolled back together (default: 0) */
+  changeset?: number;
+}
 
 /**
  * Result of a batch operation
@@ -647,7 +1522,13 @@ export interface BatchResult<T = unknown> {
   success: boolean;
   status: number;
   data?: T;
-  error?: { code: string; message: string };
+  error?: ODataError;
+  /** Total count of collection reads with `$count=true` */
+  count?: number;
+  /** Link to the next page of collection reads (server-driven paging) */
+  nextLink?: string;
+  /** Changeset of the operation (atomic batches) - a failed changeset fails all of its operations */
+  changeset?: number;
 }
 
 // ============================================================================
@@ -700,6 +1581,8 @@ export interface InterceptedResponse {
   status: number;
   headers: Record<string, string>;
   data: any;
+  /** Present on cacheable reads when the response cache is enabled */
+  cache?: CacheInfo;
 }
 
 export interface IS4KitError extends Error {
@@ -715,6 +1598,51 @@ export interface IS4KitError extends Error {
   toJSON(): Record<string, any>;
 }
 
+// ============================================================================
+// Mock Client
+// ============================================================================
+
+/**
+ * Initial rows of the mock client per entity set
+ */
+export type MockSeed = Record<string, Array<Record<string, unknown>>>;
+
+/**
+ * Navigation property of the mock client - related rows are found by matching properties
+ * @example
+ * ```ts
+ * // Orders(1)/Items → OrderItems whose OrderID equals the order's ID
+ * { entity: 'OrderItems', on: { ID: 'OrderID' } }
+ *
+ * // OrderItems(10)/Order → the Orders row whose ID equals the item's OrderID
+ * { entity: 'Orders', on: { OrderID: 'ID' }, single: true }
+ * ```
+ */
+export interface MockRelation {
+  /** Target entity set */
+  entity: string;
+  /** Source property → target property */
+  on: Record<string, string>;
+  /** To-one navigation (an entity instead of a collection) */
+  single?: boolean;
+}
+
+/**
+ * Options of `createMockClient()` - client options plus the shape of the in-memory service
+ */
+export interface MockClientOptions extends Omit<S4KitConfig, 'apiKey' | 'baseUrl'> {
+  /** Key properties per entity set (default: key metadata of `fields`, then `ID`) */
+  keys?: Record<string, string | string[]>;
+  /**
+   * Field manifest from `s4kit generate-types --type-conversion` - its key metadata picks
+   * the key properties and how new keys are generated (GUIDs, numbers, strings).
+   * Defaults to `typeConversion.fields`.
+   */
+  fields?: FieldTypeManifest;
+  /** Navigation properties per entity set - used by `expand`, `nav()`, lambda filters and deep inserts */
+  relations?: Record<string, Record<string, MockRelation>>;
+}
+
 // ============================================================================
 // Filter Builder Types (for fluent API)
 // ============================================================================
@@ -730,22 +1658,40 @@ export type LogicalOperator = 'and' | 'or' | 'not';
 // Fluent Query Builder Types
 // ============================================================================
 
-export interface FluentQuery<T> {
-  select<K extends keyof T>(...fields: K[]): FluentQuery<Pick<T, K>>;
-  filter(expression: string): FluentQuery<T>;
-  where<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T>;
-  and<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T>;
-  or<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T>;
-  orderBy<K extends keyof T>(field: K, direction?: 'asc' | 'desc'): FluentQuery<T>;
-  expand(property: string, nested?: (q: FluentQuery<any>) => FluentQuery<any>): FluentQuery<T>;
-  top(count: number): FluentQuery<T>;
-  skip(count: number): FluentQuery<T>;
-  search(term: string): FluentQuery<T>;
-  count(): FluentQuery<T>;
+/**
+ * @template T - Entity type
+ * @template S - Selected fields
+ * @template X - Expanded navigation properties
+ */
+export interface FluentQuery<T, S extends keyof T & string = keyof T & string, X = never> {
+  select<K extends keyof T & string>(...fields: K[]): FluentQuery<T, K, X>;
+  filter(expression: string): FluentQuery<T, S, X>;
+  where<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T, S, X>;
+  and<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T, S, X>;
+  or<K extends keyof T>(field: K, operator: FilterOperator, value: any): FluentQuery<T, S, X>;
+  orderBy<K extends keyof T>(field: K, direction?: 'asc' | 'desc'): FluentQuery<T, S, X>;
+  expand<K extends NavigationPropsOf<T> & string>(
+    property: K,
+    nested?: (q: FluentQuery<any>) => FluentQuery<any>
+  ): FluentQuery<T, S, X | K[]>;
+  top(count: number): FluentQuery<T, S, X>;
+  skip(count: number): FluentQuery<T, S, X>;
+  search(term: string): FluentQuery<T, S, X>;
+  count(): FluentQuery<T, S, X>;
+  groupBy<K extends keyof T & string>(...fields: K[]): GroupedQuery<T, K>;
+  aggregate<A extends Aggregations<T>>(aggregations: A): FluentQuery<ApplyResult<T, never, A>>;
+  topCount<K extends keyof T & string>(count: number, field: K): FluentQuery<T, S, X>;
 
   // Terminal operations
-  execute(): Promise<T[]>;
-  executeWithCount(): Promise<ListResponse<T>>;
-  first(): Promise<T | undefined>;
-  single(): Promise<T>;
+  execute(): Promise<QueryResult<T, S, X>[]>;
+  executeWithCount(): Promise<ListResponse<QueryResult<T, S, X>>>;
+  first(): Promise<QueryResult<T, S, X> | undefined>;
+  single(): Promise<QueryResult<T, S, X>>;
+}
+
+/**
+ * Fluent query after groupBy() - aggregate() may use any property of the entity
+ */
+export interface GroupedQuery<T, G extends keyof T & string> extends Omit<FluentQuery<Pick<T, G>>, 'aggregate'> {
+  aggregate<A extends Aggregations<T>>(aggregations: A): FluentQuery<ApplyResult<T, G, A>>;
 }
@@ -6,19 +6,44 @@ import {
   FilterBuilder,
   formatKey,
   buildFunctionParams,
+  query,
 
   // Errors
   S4KitError,
   NetworkError,
   AuthenticationError,
   NotFoundError,
+  ConflictError,
   ValidationError,
   RateLimitError,
+  PreconditionFailedError,
+  RecordingNotFoundError,
+  BulkOperationError,
   parseHttpError,
   parseODataError,
   isRetryable,
   isS4KitError,
+
+  // ETags
+  getETag,
+  setETag,
+
+  // Mock client
+  createMockClient,
+
+  // Client
+  S4Kit,
 } from "../src";
+import type { QueryOptions } from "../src";
+import { createEntityHandler } from "../src/proxy";
+import { resolveRetryPolicy, getRetryDelay, parseRetryAfter } from "../src/retry";
+import { ResponseCache, MemoryCacheStore } from "../src/cache";
+import { HttpClient } from "../src/http-client";
+import { Coalescer } from "../src/coalesce";
+import { TypeConverter } from "../src/conversion";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 // ============================================================================
 // Query Builder Tests
@@ -170,6 +195,57 @@ describe("buildQuery", () => {
     expect(result['$count']).toBe('true');
     expect(result['$search']).toBe('laptop');
   });
+
+  test("builds enum member filters as string literals", () => {
+    type OrderStatus = 'Open' | 'InProcess' | 'Closed';
+    const options: QueryOptions<{ Status?: OrderStatus }> = {
+      filter: { Status: { in: ['Open', 'InProcess'] } },
+    };
+    const result = buildQuery(options);
+    expect(result['$filter']).toBe("Status in ('Open','InProcess')");
+  });
+
+  test("builds navigation paths and lambda filters", () => {
+    const result = buildQuery({
+      filter: {
+        'to_Customer/Country': 'DE',
+        to_Item: { any: { Material: 'X', to_ScheduleLine: { all: { Quantity: { gt: 0 } } } } },
+      },
+    });
+    expect(result['$filter']).toBe(
+      "to_Customer/Country eq 'DE' and to_Item/any(d:d/Material eq 'X' and d/to_ScheduleLine/all(d1:d1/Quantity gt 0))"
+    );
+    expect(buildQuery({ filter: { to_Item: { any: true } } })['$filter']).toBe('to_Item/any()');
+  });
+
+  test("rejects lambda filters on OData v2 entity sets", () => {
+    const v2 = { odataVersion: 'v2' as const, format: () => undefined };
+    expect(() => buildQuery({ filter: { to_Item: { any: { Material: 'X' } } } }, v2)).toThrow(/require OData v4/);
+  });
+
+  test("builds $apply from transformations", () => {
+    const result = buildQuery({
+      apply: {
+        filter: { Status: 'open' },
+        groupBy: ['Customer', 'Currency'],
+        aggregate: {
+          Total: { field: 'NetAmount', with: 'sum' },
+          Products: { field: 'Product', with: 'countdistinct' },
+        },
+        topCount: { count: 5, field: 'Total' },
+      },
+    });
+    expect(result['$apply']).toBe(
+      "filter(Status eq 'open')/groupby((Customer,Currency),aggregate(NetAmount with sum as Total,Product with countdistinct as Products))/topcount(5,Total)"
+    );
+  });
+
+  test("builds $apply aggregate without grouping and passes strings through", () => {
+    expect(buildQuery({ apply: { aggregate: { Avg: { field: 'Price', with: 'avg' } } } })).toEqual({
+      '$apply': 'aggregate(Price with avg as Avg)',
+    });
+    expect(buildQuery({ apply: 'groupby((Category))' })).toEqual({ '$apply': 'groupby((Category))' });
+  });
 });
 
 // ============================================================================
@@ -429,6 +505,14 @@ describe("Specialized error classes", () => {
     expect(error.hasFieldError('Unknown')).toBe(false);
   });
 
+  test("PreconditionFailedError has status 412", () => {
+    const error = new PreconditionFailedError();
+    expect(error.name).toBe("PreconditionFailedError");
+    expect(error.status).toBe(412);
+    expect(error.code).toBe("PRECONDITION_FAILED");
+    expect(error.help).toContain(".get()");
+  });
+
   test("RateLimitError includes retry after", () => {
     const error = new RateLimitError(60);
     expect(error.retryAfter).toBe(60);
@@ -459,11 +543,25 @@ describe("parseHttpError", () => {
     expect(error.status).toBe(404);
   });
 
+  test("returns PreconditionFailedError for 412", () => {
+    const error = parseHttpError(412, {});
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.message).toBe("Precondition failed");
+  });
+
   test("returns RateLimitError for 429", () => {
     const error = parseHttpError(429, {});
     expect(error).toBeInstanceOf(RateLimitError);
     expect(error.status).toBe(429);
   });
+
+  test("reads retryAfter from the Retry-After header or the proxy body", () => {
+    const fromHeader = parseHttpError(429, {}, undefined, 30) as RateLimitError;
+    expect(fromHeader.retryAfter).toBe(30);
+
+    const fromBody = parseHttpError(429, { error: "Rate limit exceeded (per minute)", retryAfter: 60 }) as RateLimitError;
+    expect(fromBody.retryAfter).toBe(60);
+  });
 });
 
 describe("parseODataError", () => {
@@ -526,3 +624,1003 @@ describe("isS4KitError", () => {
     expect(isS4KitError(undefined)).toBe(false);
   });
 });
+
+// ============================================================================
+// ETag Tests
+// ============================================================================
+
+describe("getETag / setETag", () => {
+  test("reads OData v4 and v2 wire formats", () => {
+    expect(getETag({ "@odata.etag": 'W/"1"' })).toBe('W/"1"');
+    expect(getETag({ __metadata: { etag: 'W/"2"' } })).toBe('W/"2"');
+    expect(getETag({ ID: 1 })).toBeUndefined();
+    expect(getETag(null)).toBeUndefined();
+  });
+
+  test("ETag survives spread but not JSON serialization", () => {
+    const order = setETag({ ID: 1, Status: "A" }, 'W/"3"');
+    const edited = { ...order, Status: "B" };
+    expect(getETag(edited)).toBe('W/"3"');
+    expect(JSON.stringify(edited)).toBe('{"ID":1,"Status":"B"}');
+  });
+
+  test("setETag with undefined clears the ETag", () => {
+    const order = setETag({ ID: 1 }, 'W/"4"');
+    setETag(order, undefined);
+    expect(getETag(order)).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Pagination Tests
+// ============================================================================
+
+describe("paginate", () => {
+  /** Stub HttpClient recording the query of every GET */
+  function stubClient(pages: Record<string, any>) {
+    const calls: Record<string, any>[] = [];
+    const client = {
+      async get(_path: string, params: Record<string, any>) {
+        calls.push(params);
+        const key = params.$continuation ?? `skip=${params.$skip ?? 0}`;
+        return pages[key] ?? { data: [] };
+      },
+    };
+    return { client: client as any, calls };
+  }
+
+  test("follows nextLink continuation tokens before falling back to $skip", async () => {
+    const { client, calls } = stubClient({
+      "skip=0": { data: [{ ID: 1 }, { ID: 2 }], nextLink: "Entries?$continuation=abc" },
+      abc: { data: [{ ID: 3 }] },
+      "skip=3": { data: [{ ID: 4 }] },
+    });
+    const handler = createEntityHandler<{ ID: number }>(client, "Entries");
+
+    const items = await handler.all({ pageSize: 3 });
+
+    expect(items.map(i => i.ID)).toEqual([1, 2, 3, 4]);
+    expect(calls[1]).toEqual({ $continuation: "abc" });
+    expect(calls[2].$skip).toBe("3");
+  });
+
+  test("stops on a short page without nextLink", async () => {
+    const { client, calls } = stubClient({
+      "skip=0": { data: [{ ID: 1 }] },
+    });
+    const handler = createEntityHandler<{ ID: number }>(client, "Entries");
+
+    const items = await handler.all({ pageSize: 10 });
+
+    expect(items).toHaveLength(1);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("respects maxItems across server-driven pages", async () => {
+    const { client } = stubClient({
+      "skip=0": { data: [{ ID: 1 }, { ID: 2 }], nextLink: "Entries?$continuation=abc" },
+      abc: { data: [{ ID: 3 }, { ID: 4 }], nextLink: "Entries?$continuation=def" },
+    });
+    const handler = createEntityHandler<{ ID: number }>(client, "Entries");
+
+    const items = await handler.all({ pageSize: 10, maxItems: 3 });
+
+    expect(items.map(i => i.ID)).toEqual([1, 2, 3]);
+  });
+});
+
+// ============================================================================
+// Bulk Write Tests
+// ============================================================================
+
+describe("bulk writes", () => {
+  /** Stub HttpClient answering batches, failing the operations whose data has `fail` */
+  function stubClient(options: { networkErrorOnCall?: number } = {}) {
+    const batches: any[][] = [];
+    const client = {
+      async batchRequest(operations: any[]) {
+        batches.push(operations);
+        if (batches.length === options.networkErrorOnCall) throw new NetworkError("socket hang up");
+        return operations.map(op => op.data?.fail
+          ? { success: false, status: 400, error: { code: "INVALID", message: "Rejected", target: "Name" } }
+          : { success: true, status: 201, data: { ...op.data } });
+      },
+    };
+    return { client: client as any, batches };
+  }
+
+  test("splits writes into chunks and reports progress", async () => {
+    const { client, batches } = stubClient();
+    const handler = createEntityHandler<{ ID: number }>(client, "Entries");
+    const progress: number[] = [];
+
+    const created = await handler.createMany(
+      Array.from({ length: 5 }, (_, i) => ({ ID: i })),
+      { chunkSize: 2, concurrency: 2, onProgress: p => progress.push(p.completed) }
+    );
+
+    expect(batches.map(b => b.length)).toEqual([2, 2, 1]);
+    expect(created.map(e => e.ID)).toEqual([0, 1, 2, 3, 4]);
+    expect(progress.at(-1)).toBe(5);
+  });
+
+  test("throws a BulkOperationError with the outcome of every item", async () => {
+    const { client } = stubClient({ networkErrorOnCall: 2 });
+    const handler = createEntityHandler<any>(client, "Entries");
+
+    const error = await handler.updateMany([
+      { id: 1, data: { Name: "a" } },
+      { id: 2, data: { fail: true } },
+      { id: 3, data: { Name: "c" } },
+    ], { chunkSize: 2 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BulkOperationError);
+    expect(error.successes.map((r: any) => r.key)).toEqual([1]);
+    expect(error.failures).toMatchObject([
+      { index: 1, key: 2, status: 400, error: { code: "INVALID", target: "Name" } },
+      { index: 2, key: 3, status: 0, error: { code: "NETWORK_ERROR" } },
+    ]);
+  });
+});
+
+// ============================================================================
+// Retry Policy Tests
+// ============================================================================
+
+describe("retry policy", () => {
+  const policy = resolveRetryPolicy({ retry: { limit: 3, baseDelay: 100, jitter: false } });
+
+  test("uses retries as shorthand for the limit", () => {
+    expect(resolveRetryPolicy({ retries: 2 }).limit).toBe(2);
+    expect(resolveRetryPolicy({}).limit).toBe(0);
+  });
+
+  test("per-call override replaces the limit", () => {
+    expect(resolveRetryPolicy({ retries: 2 }, false).limit).toBe(0);
+    expect(resolveRetryPolicy({ retries: 2 }, 5).limit).toBe(5);
+    expect(resolveRetryPolicy({ retries: 2 }, { baseDelay: 10 }).limit).toBe(2);
+  });
+
+  test("backs off exponentially", () => {
+    const error = new NetworkError("Connection failed");
+    expect(getRetryDelay(policy, 1, error, "GET")).toBe(100);
+    expect(getRetryDelay(policy, 2, error, "GET")).toBe(200);
+    expect(getRetryDelay(policy, 3, error, "GET")).toBe(400);
+    expect(getRetryDelay(policy, 4, error, "GET")).toBeUndefined();
+  });
+
+  test("jitter keeps delays within half and full backoff", () => {
+    const jittered = resolveRetryPolicy({ retry: { limit: 1, baseDelay: 1000 } });
+    const delay = getRetryDelay(jittered, 1, new NetworkError("Connection failed"), "GET")!;
+    expect(delay).toBeGreaterThanOrEqual(500);
+    expect(delay).toBeLessThanOrEqual(1000);
+  });
+
+  test("honors Retry-After up to maxDelay", () => {
+    expect(getRetryDelay(policy, 1, new RateLimitError(2), "GET")).toBe(2000);
+    // The proxy's per-minute rate limit answers with retryAfter: 60
+    const rateLimited = parseHttpError(429, { error: "Rate limit exceeded (per minute)", retryAfter: 60 });
+    expect(getRetryDelay(policy, 1, rateLimited, "GET")).toBe(30000);
+    expect(getRetryDelay(resolveRetryPolicy({ retry: { limit: 1, maxDelay: 90000 } }), 1, rateLimited, "GET")).toBe(60000);
+    expect(getRetryDelay(policy, 4, rateLimited, "GET")).toBeUndefined();
+  });
+
+  test("retries writes only when idempotent", () => {
+    const error = new NetworkError("Connection failed");
+    expect(getRetryDelay(policy, 1, error, "POST")).toBeUndefined();
+    expect(getRetryDelay(policy, 1, error, "PUT", true)).toBe(100);
+  });
+
+  test("does not retry non-retryable errors", () => {
+    expect(getRetryDelay(policy, 1, new ValidationError("Invalid"), "GET")).toBeUndefined();
+  });
+
+  test("parses Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter("120")).toBe(120);
+    expect(parseRetryAfter(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Response Cache Tests
+// ============================================================================
+
+describe("MemoryCacheStore", () => {
+  const entry = (value: unknown) => ({ value, storedAt: 0, expiresAt: Infinity, staleUntil: Infinity });
+
+  test("evicts the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry(1));
+    store.set("b", entry(2));
+    store.get("a");
+    store.set("c", entry(3));
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  test("invalidates by key prefix", () => {
+    const store = new MemoryCacheStore();
+    store.set("Products|x", entry(1));
+    store.set("Products|y", entry(2));
+    store.set("Orders|x", entry(3));
+    store.invalidate("Products|");
+    expect(store.size).toBe(1);
+  });
+});
+
+describe("ResponseCache", () => {
+  test("keys on entity, query, connection and service", () => {
+    const cache = new ResponseCache({});
+    const key = cache.key("Products(1)", { $select: "Name" }, { connection: "dev", service: "API_PRODUCT_SRV" });
+    expect(key).toBe("Products|dev|API_PRODUCT_SRV||Products(1)?%24select=Name");
+  });
+
+  test("serves stale entries within the stale-while-revalidate window", async () => {
+    const cache = new ResponseCache({ ttl: 1, staleWhileRevalidate: 60_000 });
+    await cache.save("k", "Products", { data: [1] });
+    await Bun.sleep(5);
+    expect(await cache.lookup("k")).toEqual({ value: { data: [1] }, stale: true });
+    expect(cache.stats.stale).toBe(1);
+  });
+
+  test("does not store entities with a TTL of 0", async () => {
+    const cache = new ResponseCache({ entityTtl: { Orders: 0 } });
+    await cache.save("k", "Orders", { data: [] });
+    expect(await cache.lookup("k")).toBeUndefined();
+  });
+});
+
+describe("HttpClient cache", () => {
+  function cachedClient() {
+    const client = new HttpClient({ apiKey: "test", cache: true });
+    let requests = 0;
+    (client as any).sendRequest = async (method: string) => {
+      requests++;
+      return { status: method === "GET" ? 200 : 201, headers: {}, data: { data: [{ ID: requests }] } };
+    };
+    return { client, requests: () => requests };
+  }
+
+  test("serves repeated reads from the cache and reports it to response interceptors", async () => {
+    const { client, requests } = cachedClient();
+    const statuses: string[] = [];
+    client.onResponse(res => {
+      statuses.push(res.cache!.status);
+      return res;
+    });
+
+    await client.get("Products", { $top: "1" }, { cache: true });
+    const second = await client.get<any>("Products", { $top: "1" }, { cache: true });
+
+    expect(requests()).toBe(1);
+    expect(second.data[0].ID).toBe(1);
+    expect(statuses).toEqual(["miss", "hit"]);
+  });
+
+  test("invalidates the entity on successful writes", async () => {
+    const { client, requests } = cachedClient();
+
+    await client.get("Products", undefined, { cache: true });
+    await client.patch("Products(1)", { Name: "x" });
+    await client.get("Products", undefined, { cache: true });
+
+    expect(requests()).toBe(3);
+  });
+});
+
+// ============================================================================
+// Coalescing Tests
+// ============================================================================
+
+describe("Coalescer", () => {
+  function stubClient() {
+    const gets: Array<{ path: string; params: Record<string, string> }> = [];
+    const batches: any[][] = [];
+    const client = {
+      async get(path: string, params: Record<string, string>) {
+        gets.push({ path, params });
+        if (params.$filter) {
+          return { data: [{ Product: "P1", Name: "One" }, { Product: "P2", Name: "Two" }] };
+        }
+        return { data: { Product: "P1" } };
+      },
+      async batchRequest(operations: any[]) {
+        batches.push(operations);
+        return operations.map((op, i) =>
+          i === 0 ? { success: true, status: 200, data: { ...op.id } } : { success: false, status: 404 }
+        );
+      },
+    };
+    return { client: client as any, gets, batches };
+  }
+
+  test("loads simple keys with one $filter request and dedupes identical keys", async () => {
+    const { client, gets } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_Product", {
+      coalescer: new Coalescer(client, { keys: { A_Product: "Product" } }),
+    });
+
+    const [a, b, c] = await Promise.all([handler.get("P1"), handler.get("P2"), handler.get("P1")]);
+
+    expect(gets).toHaveLength(1);
+    expect(gets[0]!.params.$filter).toBe("Product eq 'P1' or Product eq 'P2'");
+    expect(a.Name).toBe("One");
+    expect(b.Name).toBe("Two");
+    expect(c).toBe(a);
+  });
+
+  test("rejects keys missing from the $filter result with NotFoundError", async () => {
+    const { client } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_Product", {
+      coalescer: new Coalescer(client, { keys: { A_Product: "Product" } }),
+    });
+
+    const results = await Promise.allSettled([handler.get("P1"), handler.get("P9")]);
+
+    expect(results[0]!.status).toBe("fulfilled");
+    expect(results[1]!.status).toBe("rejected");
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(NotFoundError);
+  });
+
+  test("loads composite keys with one batch call", async () => {
+    const { client, gets, batches } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_SalesOrderItem", { coalescer: new Coalescer(client) });
+
+    const results = await Promise.allSettled([
+      handler.get({ SalesOrder: "1", SalesOrderItem: "10" }),
+      handler.get({ SalesOrder: "1", SalesOrderItem: "20" }),
+    ]);
+
+    expect(gets).toHaveLength(0);
+    expect(batches[0]!.map(op => op.method)).toEqual(["GET", "GET"]);
+    expect((results[0] as PromiseFulfilledResult<any>).value.SalesOrderItem).toBe("10");
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(NotFoundError);
+  });
+
+  test("shares identical in-flight list() calls", async () => {
+    const { client, gets } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_Product", { coalescer: new Coalescer(client) });
+
+    const [a, b] = await Promise.all([handler.list({ top: 5 }), handler.list({ top: 5 })]);
+
+    expect(gets).toHaveLength(1);
+    expect(a).toBe(b);
+  });
+});
+
+// ============================================================================
+// Functions & Actions Tests
+// ============================================================================
+
+describe("functions and actions", () => {
+  function stubClient() {
+    const calls: Array<{ method: string; path: string; params?: Record<string, string>; body?: any }> = [];
+    const client = {
+      async get(path: string, params?: Record<string, string>) {
+        calls.push(params ? { method: "GET", path, params } : { method: "GET", path });
+        return { ok: true };
+      },
+      async post(path: string, body: any) {
+        calls.push({ method: "POST", path, body });
+        return { ok: true };
+      },
+    };
+    return { client: client as any, calls };
+  }
+
+  test("falls back to GET for func() and POST for action() without metadata", async () => {
+    const { client, calls } = stubClient();
+    const handler = createEntityHandler<any>(client, "Products");
+
+    await handler.func("GetTopSelling", { count: 10 });
+    await handler.action("Discontinue", { reason: "eol" });
+
+    expect(calls).toEqual([
+      { method: "GET", path: "Products/GetTopSelling(count=10)" },
+      { method: "POST", path: "Products/Discontinue", body: { reason: "eol" } },
+    ]);
+  });
+
+  test("picks the HTTP verb from operation metadata", async () => {
+    const { client, calls } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_SalesOrder", {
+      operations: {
+        ReleaseOrder: { kind: "action", method: "POST" },
+        "A_SalesOrder/GetTotal": { kind: "function", method: "GET" },
+      },
+    });
+
+    await handler.func("ReleaseOrder", { SalesOrder: "4711" });
+    await handler.boundAction("4711", "GetTotal");
+
+    expect(calls).toEqual([
+      { method: "POST", path: "A_SalesOrder/ReleaseOrder", body: { SalesOrder: "4711" } },
+      { method: "GET", path: "A_SalesOrder('4711')/GetTotal()" },
+    ]);
+  });
+
+  test("sends v2 function import parameters as query options", async () => {
+    const { client, calls } = stubClient();
+    const handler = createEntityHandler<any>(client, "A_SalesOrder", {
+      operations: {
+        ReleaseOrder: { kind: "action", method: "POST", queryParameters: true },
+        GetOpenOrders: { kind: "function", method: "GET", queryParameters: true },
+      },
+    });
+
+    await handler.action("ReleaseOrder", { SalesOrder: "4711", Force: true });
+    await handler.func("GetOpenOrders", { SalesOrganization: "O'Neil" });
+    await handler.action("ReleaseOrder");
+
+    expect(calls).toEqual([
+      { method: "POST", path: "A_SalesOrder/ReleaseOrder?SalesOrder=%274711%27&Force=true", body: undefined },
+      { method: "GET", path: "A_SalesOrder/GetOpenOrders", params: { SalesOrganization: "'O''Neil'" } },
+      { method: "POST", path: "A_SalesOrder/ReleaseOrder", body: undefined },
+    ]);
+  });
+});
+
+// ============================================================================
+// Type Conversion Tests
+// ============================================================================
+
+describe("TypeConverter", () => {
+  const fields = {
+    entitySets: { A_SalesOrder: "A_SalesOrderType", Orders: "Order" },
+    types: {
+      A_SalesOrderType: {
+        odataVersion: "v2" as const,
+        properties: { CreationDate: "Edm.DateTime", TotalNetAmount: "Edm.Decimal", DocumentCount: "Edm.Int64" },
+        navigation: {},
+      },
+      Order: {
+        odataVersion: "v4" as const,
+        properties: { createdAt: "Edm.DateTimeOffset", deliveryDate: "Edm.Date", sequence: "Edm.Int64" },
+        navigation: {},
+      },
+    },
+  };
+
+  test("parses v2 dates and keeps decimals as exact strings", () => {
+    const converter = new TypeConverter({ fields });
+    const result = converter.parse("A_SalesOrder('1')", {
+      data: { SalesOrder: "1", CreationDate: "/Date(1700000000000)/", TotalNetAmount: 12.5 },
+    });
+
+    expect(result.data.CreationDate).toEqual(new Date(1700000000000));
+    expect(result.data.TotalNetAmount).toBe("12.5");
+    expect(result.data.SalesOrder).toBe("1");
+  });
+
+  test("serializes dates to the wire format of the service version", () => {
+    const converter = new TypeConverter({ fields });
+    const date = new Date("2024-03-01T10:00:00Z");
+
+    expect(converter.serialize("A_SalesOrder", { CreationDate: date })).toEqual({
+      CreationDate: `/Date(${date.getTime()})/`,
+    });
+    expect(converter.serialize("Orders", { createdAt: date, deliveryDate: date })).toEqual({
+      createdAt: "2024-03-01T10:00:00.000Z",
+      deliveryDate: "2024-03-01",
+    });
+  });
+
+  test("formats typed filter literals", () => {
+    const converter = new TypeConverter({ fields });
+    const query = buildQuery(
+      { filter: { CreationDate: { gt: new Date("2024-03-01T10:00:00Z") }, TotalNetAmount: { ge: "12.50" } } },
+      converter.filterLiterals("A_SalesOrder")
+    );
+
+    expect(query.$filter).toBe("CreationDate gt datetime'2024-03-01T10:00:00' and TotalNetAmount ge 12.50M");
+  });
+
+  test("keeps Int64 values as strings, also in filter literals", () => {
+    const converter = new TypeConverter({ fields });
+
+    // v4 with IEEE754Compatible=true sends Int64 as string, without it as number
+    expect(converter.parse<any>("Orders", { sequence: "9007199254740993" }).sequence).toBe("9007199254740993");
+    expect(converter.parse<any>("Orders", { sequence: 42 }).sequence).toBe("42");
+    expect(converter.serialize("A_SalesOrder", { DocumentCount: 42 })).toEqual({ DocumentCount: "42" });
+    expect(buildQuery({ filter: { DocumentCount: "42" } }, converter.filterLiterals("A_SalesOrder")).$filter)
+      .toBe("DocumentCount eq 42L");
+    expect(buildQuery({ filter: { sequence: { gt: "9007199254740993" } } }, converter.filterLiterals("Orders")).$filter)
+      .toBe("sequence gt 9007199254740993");
+  });
+
+  test("uses a custom decimal adapter", () => {
+    class Money { constructor(readonly text: string) {} }
+    const converter = new TypeConverter({
+      fields,
+      decimal: {
+        parse: text => new Money(text),
+        serialize: value => (value as Money).text,
+        isDecimal: value => value instanceof Money,
+      },
+    });
+
+    const parsed = converter.parse<any>("A_SalesOrder", [{ TotalNetAmount: "99.99" }]);
+    expect(parsed[0].TotalNetAmount).toBeInstanceOf(Money);
+    expect(converter.serialize("A_SalesOrder", { TotalNetAmount: new Money("1.10") })).toEqual({ TotalNetAmount: "1.10" });
+  });
+});
+
+// ============================================================================
+// Fluent Aggregation Tests
+// ============================================================================
+
+describe("QueryBuilder select/expand", () => {
+  test("fetches expanded navigation properties alongside the selected fields", async () => {
+    let received: any;
+    const handler = { list: async (options: any) => { received = options; return [{ ID: 1, to_Item: [] }]; } };
+
+    const rows = await query<any>(handler as any).select('ID').expand('to_Item').execute();
+
+    expect(rows).toEqual([{ ID: 1, to_Item: [] }]);
+    expect(buildQuery(received)).toEqual({ '$select': 'ID,to_Item', '$expand': 'to_Item' });
+  });
+});
+
+describe("QueryBuilder aggregation", () => {
+  interface Order { ID: number; Customer: string; NetAmount: number; Status: string }
+
+  test("moves earlier conditions into the $apply filter", () => {
+    const options = query<Order>({} as any)
+      .where('Status', 'eq', 'open')
+      .groupBy('Customer')
+      .aggregate({ Total: { field: 'NetAmount', with: 'sum' } })
+      .where('Total', 'gt', 1000)
+      .buildOptions();
+
+    expect(buildQuery(options)).toEqual({
+      '$apply': "filter(Status eq 'open')/groupby((Customer),aggregate(NetAmount with sum as Total))",
+      '$filter': 'Total gt 1000',
+    });
+  });
+
+  test("builds topcount without grouping", () => {
+    const options = query<Order>({} as any)
+      .topCount(3, 'NetAmount')
+      .buildOptions();
+
+    expect(buildQuery(options)).toEqual({ '$apply': 'topcount(3,NetAmount)' });
+  });
+});
+
+// ============================================================================
+// Media Stream Tests
+// ============================================================================
+
+describe("media streams", () => {
+  function stubFetch(response: () => Response) {
+    const client = new HttpClient({ apiKey: "test" });
+    const requests: Array<{ url: string; method: string; headers: Record<string, string>; body?: unknown }> = [];
+    (client as any).client = async (url: string, options: any) => {
+      requests.push({ url, method: options.method, headers: options.headers, body: options.body });
+      return response();
+    };
+    return { client, requests };
+  }
+
+  test("getMedia() streams $value with content type and file name", async () => {
+    const { client, requests } = stubFetch(() => new Response("%PDF-1.7", {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": "8",
+        "Content-Disposition": "attachment; filename*=UTF-8''Rechnung%20M%C3%A4rz.pdf",
+      },
+    }));
+    const handler = createEntityHandler<any>(client, "Attachments");
+
+    const media = await handler.getMedia(42);
+
+    expect(requests[0]!.url).toBe("Attachments(42)/$value");
+    expect(requests[0]!.headers["X-S4Kit-Media"]).toBe("true");
+    expect(media.contentType).toBe("application/pdf");
+    expect(media.filename).toBe("Rechnung März.pdf");
+    expect(media.contentLength).toBe(8);
+    expect(await new Response(media.stream).text()).toBe("%PDF-1.7");
+  });
+
+  test("createMedia() posts the raw body with Slug and returns the entity", async () => {
+    const { client, requests } = stubFetch(() => Response.json(
+      { data: { ID: 7, FileName: "logo.png" } },
+      { status: 201 }
+    ));
+    const handler = createEntityHandler<any>(client, "Attachments");
+    const content = new Uint8Array([137, 80, 78, 71]);
+
+    const created = await handler.createMedia(content, "image/png", { slug: "logo.png" });
+
+    expect(requests[0]).toMatchObject({ url: "Attachments", method: "POST", body: content });
+    expect(requests[0]!.headers["Content-Type"]).toBe("image/png");
+    expect(requests[0]!.headers["Slug"]).toBe("logo.png");
+    expect(created).toEqual({ ID: 7, FileName: "logo.png" });
+  });
+
+  test("uploadMedia() retries buffered content but not streams", async () => {
+    const client = new HttpClient({ apiKey: "test", retry: { limit: 2, baseDelay: 1, jitter: false } });
+    let attempts = 0;
+    (client as any).client = async () => {
+      attempts++;
+      throw new TypeError("fetch failed");
+    };
+    const handler = createEntityHandler<any>(client, "Attachments");
+
+    await expect(handler.uploadMedia(1, new Uint8Array([1]), "text/plain")).rejects.toBeInstanceOf(NetworkError);
+    expect(attempts).toBe(3);
+
+    attempts = 0;
+    await expect(handler.uploadMedia(1, new Response("data").body!, "text/plain")).rejects.toBeInstanceOf(NetworkError);
+    expect(attempts).toBe(1);
+  });
+});
+
+describe("createMockClient", () => {
+  const seed = () => ({
+    Orders: [
+      { ID: 1, Customer: "ACME", Amount: 250, Status: "open" },
+      { ID: 2, Customer: "Globex", Amount: 90, Status: "open" },
+      { ID: 3, Customer: "Initech", Amount: 400, Status: "closed" },
+    ],
+    OrderItems: [
+      { ID: 10, OrderID: 1, Product: "Bolt", Quantity: 5 },
+      { ID: 11, OrderID: 1, Product: "Nut", Quantity: 1 },
+      { ID: 12, OrderID: 3, Product: "Gear", Quantity: 2 },
+    ],
+  });
+  const relations = {
+    Orders: { Items: { entity: "OrderItems", on: { ID: "OrderID" } } },
+    OrderItems: { Order: { entity: "Orders", on: { OrderID: "ID" }, single: true } },
+  };
+
+  test("list() applies filter objects, raw filters, orderBy, paging, select and count", async () => {
+    const client = createMockClient(seed());
+
+    const open = await client.Orders.list({
+      filter: { Status: "open", Amount: { gt: 50 } },
+      orderBy: { Amount: "desc" },
+      select: ["ID", "Amount"],
+    });
+    expect(open).toMatchObject([{ ID: 1, Amount: 250 }, { ID: 2, Amount: 90 }]);
+    expect(Object.keys(open[0]!)).toEqual(["ID", "Amount"]);
+
+    const page = await client.Orders.listWithCount({
+      filter: "contains(Customer,'e') or Amount le 100",
+      orderBy: "ID",
+      top: 1,
+      skip: 1,
+    });
+    expect(page.value.map((o: any) => o.ID)).toEqual([3]);
+    expect(page.count).toBe(2);
+    expect(await client.Orders.count({ filter: { Status: "closed" } })).toBe(1);
+  });
+
+  test("expands declared relations and filters across them", async () => {
+    const client = createMockClient(seed(), { relations });
+
+    const orders = await client.Orders.list({
+      filter: { Items: { any: { Quantity: { ge: 2 } } } },
+      expand: { Items: { orderBy: { Quantity: "asc" } } },
+    });
+    expect(orders.map((o: any) => o.ID)).toEqual([1, 3]);
+    expect(orders[0].Items.map((i: any) => i.Product)).toEqual(["Nut", "Bolt"]);
+
+    const item = await client.OrderItems.get(12, { expand: ["Order"] });
+    expect(item.Order.Customer).toBe("Initech");
+
+    const items = await client.Orders.nav(1, "Items").list({ filter: { Product: "Bolt" } });
+    expect(items).toMatchObject([{ ID: 10, OrderID: 1, Product: "Bolt", Quantity: 5 }]);
+    expect(items).toHaveLength(1);
+  });
+
+  test("generates keys from metadata and enforces ETags on writes", async () => {
+    const client = createMockClient({ ...seed(), Notes: [] }, {
+      fields: {
+        entitySets: { Notes: "Note" },
+        types: { Note: { odataVersion: "v4", keys: { NoteID: "Edm.Guid" }, properties: {}, navigation: {} } },
+      },
+    });
+
+    const order = await client.Orders.create({ Customer: "Umbrella", Amount: 10 });
+    expect(order.ID).toBe(4);
+    const note = await client.Notes.create({ Text: "hello" });
+    expect(note.NoteID).toMatch(/^[0-9a-f-]{36}$/);
+
+    const loaded = await client.Orders.get(4);
+    const stale = getETag(loaded);
+    await client.Orders.update(4, { ...loaded, Amount: 20 });
+    await expect(client.Orders.update(4, setETag({ Amount: 30 }, stale))).rejects.toBeInstanceOf(PreconditionFailedError);
+
+    await client.Orders.delete(4);
+    await expect(client.Orders.get(4)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test("transactions roll back when an operation fails", async () => {
+    const client = createMockClient(seed());
+
+    await expect(client.transaction(tx => [
+      tx.Orders.create({ Customer: "Hooli", Amount: 5 }),
+      tx.Orders.update(99, { Status: "closed" }),
+    ])).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(await client.Orders.count()).toBe(3);
+  });
+
+  test("batch() runs reads and writes in one request and returns a typed tuple", async () => {
+    const client = createMockClient(seed());
+
+    const [open, page, order, total, created] = await client.batch(b => [
+      b.Orders.list({ filter: { Status: "open" }, select: ["ID"] }),
+      b.OrderItems.listWithCount({ top: 1, orderBy: "ID" }),
+      b.Orders.get(3),
+      b.Orders.count({ filter: { Amount: { gt: 100 } } }),
+      b.Orders.create({ Customer: "Hooli", Amount: 5 }),
+    ]);
+
+    expect(open.map((o: any) => o.ID)).toEqual([1, 2]);
+    expect(page.value).toMatchObject([{ ID: 10 }]);
+    expect(page.count).toBe(3);
+    expect(order).toMatchObject({ ID: 3, Customer: "Initech" });
+    expect(total).toBe(2);
+    expect(created).toMatchObject({ ID: 4 });
+
+    await expect(client.batch(b => [b.Orders.list(), b.Orders.get(99)])).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test("transaction operations reference earlier ones by Content-ID", async () => {
+    const client = createMockClient(seed(), { relations });
+
+    const [order, item, updated] = await client.transaction(tx => {
+      const order = tx.Orders.create({ Customer: "Hooli", Amount: 5 });
+      expect(order.ref).toBe("$1");
+      const item = tx.Orders.nav(order, "Items").create({ Product: "Washer", Quantity: 3 });
+      // Returned out of creation order - still sent in creation order
+      return [order, item, tx.Orders.update(order, { Status: "open" })];
+    });
+
+    expect(order).toMatchObject({ ID: 4, Customer: "Hooli" });
+    expect(item).toMatchObject({ OrderID: 4, Product: "Washer" });
+    expect(updated).toMatchObject({ ID: 4, Status: "open" });
+    expect(await client.Orders.nav(4, "Items").count()).toBe(1);
+  });
+
+  test("changesets commit or roll back independently", async () => {
+    const client = createMockClient(seed(), { relations });
+
+    const [created, failed] = await client.changesets(tx => [
+      [tx.Orders.create({ Customer: "Hooli", Amount: 5 })],
+      [tx.Orders.update(1, { Status: "closed" }), tx.Orders.delete(99)],
+    ]);
+
+    expect(created.success && created.results[0]).toMatchObject({ ID: 4, Customer: "Hooli" });
+    expect(failed.success).toBe(false);
+    expect(!failed.success && failed.error).toBeInstanceOf(NotFoundError);
+    expect((await client.Orders.get(1)).Status).toBe("open");
+    expect(await client.Orders.count()).toBe(4);
+  });
+});
+
+describe("batches over HTTP", () => {
+  /** Client whose proxy answers every batch with the given results, recording the requests */
+  function batchClient(answer: (operations: any[]) => unknown[]) {
+    const requests: Array<{ url: string; body: any }> = [];
+    const client = S4Kit({
+      apiKey: "test",
+      retry: false,
+      fetch: async (input) => {
+        const request = input as Request;
+        const body = await request.json();
+        requests.push({ url: request.url, body });
+        return Response.json(answer(body.operations));
+      },
+    });
+    return { client, requests };
+  }
+
+  test("batch() sends one non-atomic request and resolves results by position", async () => {
+    const { client, requests } = batchClient(() => [
+      { success: true, status: 200, data: [{ ID: 1 }] },
+      { success: true, status: 200, data: { ID: 2, Customer: "Hooli" } },
+      { success: true, status: 200, data: "7" },
+    ]);
+
+    const [orders, order, count] = await client.batch(b => [
+      b.Orders.list({ top: 1 }),
+      b.Orders.get(2),
+      b.Orders.count(),
+    ]);
+
+    expect(orders).toEqual([{ ID: 1 }]);
+    expect(order).toMatchObject({ ID: 2, Customer: "Hooli" });
+    expect(count).toBe(7);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.url).toEndWith("/batch");
+    expect(requests[0]!.body).toMatchObject({
+      atomic: false,
+      operations: [
+        { method: "GET", entity: "Orders", query: { $top: "1" } },
+        { method: "GET", entity: "Orders", id: 2 },
+        { method: "GET", entity: "Orders/$count" },
+      ],
+    });
+  });
+
+  test("batch() rejects with the error of the first failed operation", async () => {
+    const { client } = batchClient(() => [
+      { success: true, status: 200, data: [] },
+      { success: false, status: 404, error: { code: "NOT_FOUND", message: "Order 99 not found" } },
+    ]);
+
+    await expect(client.batch(b => [b.Orders.list(), b.Orders.get(99)])).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test("transaction() sends operations in creation order with Content-IDs and returns them in callback order", async () => {
+    const { client, requests } = batchClient(operations =>
+      operations.map(op => ({ success: true, status: op.method === "POST" ? 201 : 200, data: { entity: op.entity } }))
+    );
+
+    const [item, order] = await client.transaction(tx => {
+      const order = tx.Orders.create({ Customer: "Hooli" });
+      return [tx.Orders.nav(order, "Items").create({ Product: "Washer" }), order];
+    });
+
+    expect(requests[0]!.body).toMatchObject({
+      atomic: true,
+      operations: [
+        { method: "POST", entity: "Orders", contentId: "1", data: { Customer: "Hooli" } },
+        { method: "POST", entity: "$1/Items", contentId: "2", data: { Product: "Washer" } },
+      ],
+    });
+    expect(order).toEqual({ entity: "Orders" });
+    expect(item).toEqual({ entity: "$1/Items" });
+  });
+
+  test("transaction() rejects with the S4KitError of the failed operation", async () => {
+    const { client } = batchClient(operations => operations.map(() => (
+      { success: false, status: 400, error: { code: "VALIDATION_ERROR", message: "Customer is required" } }
+    )));
+
+    const failure = client.transaction(tx => [tx.Orders.create({}), tx.Orders.delete(1)]);
+
+    await expect(failure).rejects.toBeInstanceOf(ValidationError);
+    await expect(failure).rejects.toThrow("Customer is required");
+  });
+
+  test("changesets() numbers changesets and reports each one on its own", async () => {
+    const { client, requests } = batchClient(operations => operations.map(op => op.changeset === 0
+      ? { success: true, status: 201, data: { ID: 4 }, changeset: 0 }
+      : { success: false, status: 409, error: { code: "CONFLICT", message: "Order is locked" }, changeset: 1 }
+    ));
+
+    const [created, failed] = await client.changesets(tx => [
+      [tx.Orders.create({ Customer: "Hooli" })],
+      [tx.Orders.update(1, { Status: "closed" }), tx.Orders.delete(2)],
+    ]);
+
+    expect(requests[0]!.body.operations.map((op: any) => [op.changeset, op.contentId])).toEqual([[0, "1"], [1, "2"], [1, "3"]]);
+    expect(created).toEqual({ success: true, results: [{ ID: 4 }] });
+    expect(failed.success).toBe(false);
+    expect(!failed.success && failed.error).toBeInstanceOf(ConflictError);
+  });
+});
+
+describe("recorder", () => {
+  async function withFixtureDir(run: (dir: string) => Promise<void>) {
+    const dir = await mkdtemp(join(tmpdir(), "s4kit-recorder-"));
+    try {
+      await run(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  test("records request/response pairs with redaction and replays them offline", () => withFixtureDir(async dir => {
+    let calls = 0;
+    const recording = new HttpClient({
+      apiKey: "sk_live_secret",
+      recorder: { mode: "record", dir, redact: ["Email"] },
+      fetch: async (input) => {
+        calls++;
+        return String((input as Request).url).endsWith("/batch")
+          ? Response.json([{ success: true, status: 201, data: { ID: 2, Email: "new@example.com" } }])
+          : Response.json({ data: [{ ID: 1, Email: "jane@example.com" }] });
+      },
+    });
+    const handler = createEntityHandler<any>(recording, "Customers");
+    await handler.list({ top: 5, filter: { Country: "DE" } });
+    await recording.batchRequest([{ method: "POST", entity: "Customers", data: { Email: "new@example.com" } }]);
+    expect(calls).toBe(2);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(2);
+    const content = (await Promise.all(files.map(f => readFile(join(dir, f), "utf8")))).join("\n");
+    expect(content).not.toContain("sk_live_secret");
+    expect(content).not.toContain("example.com");
+    expect(content).toContain("[REDACTED]");
+
+    const replaying = new HttpClient({
+      apiKey: "replay",
+      recorder: { mode: "replay", dir, redact: ["Email"] },
+      fetch: async () => { throw new Error("network used during replay"); },
+    });
+    const replayed = createEntityHandler<any>(replaying, "Customers");
+    // Same query with parameters in another order matches the recording
+    expect(await replayed.list({ filter: { Country: "DE" }, top: 5 })).toMatchObject([{ ID: 1, Email: "[REDACTED]" }]);
+    const results = await replaying.batchRequest([{ method: "POST", entity: "Customers", data: { Email: "other@example.com" } }]);
+    expect(results).toHaveLength(1);
+
+    await expect(replayed.list({ top: 6 })).rejects.toBeInstanceOf(RecordingNotFoundError);
+  }));
+});
+
+describe("tracing", () => {
+  function fakeTracer() {
+    const spans: Array<{ name: string; attributes: Record<string, unknown>; status?: { code: number }; ended: boolean }> = [];
+    const tracer = {
+      startActiveSpan(name: string, options: { attributes?: Record<string, unknown> }, fn: (span: any) => unknown) {
+        const record = { name, attributes: { ...options.attributes }, status: undefined as { code: number } | undefined, ended: false };
+        spans.push(record);
+        return fn({
+          spanContext: () => ({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7", traceFlags: 1 }),
+          setAttribute: (key: string, value: unknown) => { record.attributes[key] = value; },
+          setStatus: (status: { code: number }) => { record.status = status; },
+          recordException: () => {},
+          end: () => { record.ended = true; },
+        });
+      },
+    };
+    return { tracer, spans };
+  }
+
+  test("creates a span per operation and propagates its traceparent", async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new HttpClient({ apiKey: "test", service: "API_SALES", tracing: { tracer } });
+    const headers: Array<Record<string, string>> = [];
+    (client as any).client = async (_url: string, options: any) => {
+      headers.push(options.headers);
+      return Response.json({ data: [] });
+    };
+
+    await createEntityHandler<any>(client, "A_SalesOrder").list({ top: 1 });
+
+    expect(headers[0]!.traceparent).toBe("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: "GET A_SalesOrder",
+      attributes: { "s4kit.entity": "A_SalesOrder", "s4kit.service": "API_SALES", "http.response.status_code": 200 },
+      ended: true,
+    });
+  });
+
+  test("marks failed operations and keeps one span across retries", async () => {
+    const { tracer, spans } = fakeTracer();
+    const client = new HttpClient({ apiKey: "test", tracing: { tracer }, retry: { limit: 1, baseDelay: 1, jitter: false } });
+    (client as any).client = async () => { throw new TypeError("fetch failed"); };
+
+    await expect(createEntityHandler<any>(client, "A_SalesOrder").get("1")).rejects.toBeInstanceOf(NetworkError);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]!.status).toEqual({ code: 2, message: "fetch failed" } as any);
+    expect(spans[0]!.attributes["s4kit.attempts"]).toBe(2);
+  });
+
+  test("propagates a fresh trace per operation without a tracer", async () => {
+    const client = new HttpClient({ apiKey: "test", tracing: true });
+    const traceparents: string[] = [];
+    (client as any).client = async (_url: string, options: any) => {
+      traceparents.push(options.headers.traceparent);
+      return Response.json({ data: [] });
+    };
+    const handler = createEntityHandler<any>(client, "A_SalesOrder");
+
+    await handler.list();
+    await handler.list();
+
+    expect(traceparents[0]).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(traceparents[1]!.slice(3, 35)).not.toBe(traceparents[0]!.slice(3, 35));
+  });
+});
@@ -177,6 +177,9 @@ export const apiKeys = pgTable('api_keys', {
   rateLimitPerMinute: integer('rate_limit_per_minute').default(60).notNull(),
   rateLimitPerDay: integer('rate_limit_per_day').default(10000).notNull(),
 
+  // IP allowlist: CIDR ranges (IPv4/IPv6) the key may be used from (null/empty = any IP)
+  allowedIps: jsonb('allowed_ips').$type<string[] | null>(),
+
   // Logging configuration (null = inherit from organization)
   logLevel: logLevelEnum('log_level'),  // null = use org default
 
@@ -202,6 +205,12 @@ export const apiKeyAccess = pgTable('api_key_access', {
   // Entity-level permissions: { "A_BusinessPartner": ["read"], "A_SalesOrder": ["create", "read", "update", "delete"] }
   permissions: jsonb('permissions').notNull().$type<Record<string, string[]>>(),
 
+  // Row-level filters ANDed into every request on the entity: { "A_JournalEntry": "CompanyCode eq '1010'" }
+  rowFilters: jsonb('row_filters').$type<Record<string, string>>(),
+
+  // Field-level permissions per entity: { "A_BusinessPartner": { "deny": ["TaxNumber1"], "readOnly": ["BusinessPartnerCategory"] } }
+  fieldPermissions: jsonb('field_permissions').$type<Record<string, { allow?: string[]; deny?: string[]; readOnly?: string[] }>>(),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   uniqueKeyInstanceService: unique().on(table.apiKeyId, table.instanceServiceId),
@@ -221,7 +230,7 @@ export const requestLogs = pgTable('request_logs', {
   method: varchar('method', { length: 10 }).notNull(),
   path: varchar('path', { length: 500 }).notNull(),
   entity: varchar('entity', { length: 100 }),  // Parsed entity name (e.g., A_BusinessPartner)
-  operation: varchar('operation', { length: 20 }),  // 'read' | 'create' | 'update' | 'delete'
+  operation: varchar('operation', { length: 20 }),  // 'read' | 'create' | 'update' | 'delete' | 'execute'
 
   // Response metadata
   statusCode: integer('status_code').notNull(),
@@ -246,5 +255,9 @@ export const requestLogs = pgTable('request_logs', {
   clientIpHash: varchar('client_ip_hash', { length: 64 }),  // SHA-256 of client IP (privacy-preserving)
   userAgent: varchar('user_agent', { length: 255 }),
 
+  // Extended log level only
+  queryString: varchar('query_string', { length: 2000 }),  // Query options sent to SAP, literal values redacted
+  sapHeaders: jsonb('sap_headers').$type<Record<string, string>>(),  // SAP correlation headers of the response
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
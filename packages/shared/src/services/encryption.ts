@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { getSecret } from './cf-env-parser.ts';
 
 const ALGORITHM = 'aes-256-gcm';
@@ -120,5 +120,23 @@ export const encryption = {
    */
   decryptJson: <T = Record<string, any>>(encrypted: string): T => {
     return JSON.parse(encryption.decrypt(encrypted));
+  },
+
+  /**
+   * HMAC-SHA256 signature (base64url) of a value handed to clients that must come back unchanged.
+   * The purpose derives a separate key, so a signature is only valid where it was issued.
+   */
+  sign: (value: string, purpose: string): string => {
+    const key = createHmac('sha256', SECRET_KEY).update(purpose).digest();
+    return createHmac('sha256', key).update(value).digest('base64url');
+  },
+
+  /**
+   * Check a signature created by sign() (constant time)
+   */
+  verify: (value: string, signature: string, purpose: string): boolean => {
+    const expected = Buffer.from(encryption.sign(value, purpose));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
   }
 };
@@ -0,0 +1,119 @@
+/**
+ * Field-level permissions of access grants - which properties of an entity set a key
+ * may see and write. Hidden fields are removed from responses and generated types;
+ * read-only fields are returned but can't be written.
+ * @example { "A_BusinessPartner": { "deny": ["TaxNumber1", "BankAccount"], "readOnly": ["BusinessPartnerCategory"] } }
+ */
+
+import type { NavigationMap } from './navigation.ts';
+import type { ODataEntity, ODataEntityType, ODataMetadataFull } from './metadata-parser.ts';
+import type { EntityFieldPermissions, FieldPermissions } from '../types.ts';
+
+/**
+ * Whether a field is hidden: outside the allowlist (when there is one) or on the denylist
+ */
+export function isFieldHidden(permissions: EntityFieldPermissions | undefined, field: string): boolean {
+  if (!permissions) return false;
+  return (permissions.allow !== undefined && !permissions.allow.includes(field))
+    || !!permissions.deny?.includes(field);
+}
+
+/**
+ * Whether a field can't be written - hidden fields can't be written either
+ */
+export function isFieldReadOnly(permissions: EntityFieldPermissions | undefined, field: string): boolean {
+  return isFieldHidden(permissions, field) || !!permissions?.readOnly?.includes(field);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Remove hidden fields from response data, following expanded navigation properties.
+ * Handles single entities, lists and v2 `{ results }` wrappers of expanded collections;
+ * instance annotations of hidden fields (`Field@odata.type`) are removed with them.
+ * @param entitySets - Entity sets the data belongs to (a field is hidden if any of them hides it)
+ */
+export function maskFields(
+  fieldPermissions: FieldPermissions,
+  navigation: NavigationMap,
+  entitySets: string[],
+  data: unknown
+): unknown {
+  if (Array.isArray(data)) {
+    return data.map(item => maskFields(fieldPermissions, navigation, entitySets, item));
+  }
+  if (!isRecord(data)) return data;
+
+  const masked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const field = key.startsWith('@') ? key : key.split('@')[0]!;
+    const targets = [...new Set(entitySets.flatMap(set => navigation[set]?.[field] ?? []))];
+
+    if (targets.length > 0) {
+      // v2 wraps expanded collections in { results }
+      masked[key] = isRecord(value) && Array.isArray(value.results)
+        ? { ...value, results: maskFields(fieldPermissions, navigation, targets, value.results) }
+        : maskFields(fieldPermissions, navigation, targets, value);
+    } else if (!entitySets.some(set => isFieldHidden(fieldPermissions[set], field))) {
+      masked[key] = value;
+    }
+  }
+
+  return masked;
+}
+
+/**
+ * Entity types without the fields the key can't see, for type generation.
+ * An entity type used by several entity sets loses the fields any of them hides.
+ */
+export function applyFieldPermissions(
+  entityTypes: ODataEntityType[],
+  entities: ODataEntity[],
+  fieldPermissions: FieldPermissions
+): ODataEntityType[] {
+  return entityTypes.map(entityType => {
+    const sets = entities
+      .filter(entity => entity.entityType === entityType.fullName || entity.entityType?.split('.').pop() === entityType.name)
+      .map(entity => entity.name);
+    const rules = sets.map(set => fieldPermissions[set]).filter(rule => rule !== undefined);
+    if (rules.length === 0) return entityType;
+
+    return {
+      ...entityType,
+      properties: entityType.properties.filter(prop => !rules.some(rule => isFieldHidden(rule, prop.name))),
+    };
+  });
+}
+
+/**
+ * Check field permissions against a service's metadata: every entity set must exist
+ * and every listed field must be a property of its entity type
+ * @returns Error messages, empty when all field permissions are valid
+ */
+export function validateFieldPermissions(fieldPermissions: FieldPermissions, metadata: ODataMetadataFull): string[] {
+  const errors: string[] = [];
+
+  for (const [entitySet, permissions] of Object.entries(fieldPermissions)) {
+    const entity = metadata.entities.find(e => e.name === entitySet);
+    if (!entity) {
+      errors.push(`${entitySet}: unknown entity set`);
+      continue;
+    }
+
+    const typeName = entity.entityType?.split('.').pop();
+    const entityType = metadata.entityTypes.find(et => et.fullName === entity.entityType || et.name === typeName);
+    if (!entityType) continue;
+
+    for (const list of ['allow', 'deny', 'readOnly'] as const) {
+      for (const field of permissions[list] ?? []) {
+        if (!entityType.properties.some(p => p.name === field)) {
+          errors.push(`${entitySet}: '${field}' (${list}) is not a property of ${entityType.name}`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
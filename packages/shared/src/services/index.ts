@@ -12,8 +12,13 @@ export {
   buildODataPath,
   parseODataResponse,
   parseODataError,
+  CONTINUATION_PARAM,
+  encodeContinuationToken,
+  decodeContinuationToken,
+  extractODataETag,
   stripODataMetadata,
   mergeODataParams,
+  toODataV2Params,
   type ODataQueryOptions,
   type ODataResponse,
   type ODataError,
@@ -28,6 +33,12 @@ export {
   type KeyEnvironment,
   type ParsedApiKey,
 } from './api-key-core.ts';
+export {
+  parseCidr,
+  isValidCidr,
+  isIpAllowed,
+  type ParsedCidr,
+} from './ip-allowlist.ts';
 export {
   metadataParser,
   buildServiceUrl,
@@ -35,17 +46,65 @@ export {
   type ODataProperty,
   type ODataNavigationProperty,
   type ODataEntityType,
+  type ODataComplexType,
+  type ODataEnumType,
+  type ODataEnumMember,
+  type ODataOperation,
+  type ODataOperationParameter,
   type ODataMetadataResult,
   type ODataMetadataFull,
   type MetadataAuthConfig,
 } from './metadata-parser.ts';
+export {
+  buildNavigationMap,
+  buildOperationMap,
+  parseExpandPaths,
+  parseExpressionPaths,
+  queryNavigates,
+  resolveNavigationTargets,
+  resolveExpandTargets,
+  resolveQueryTargets,
+  resolveOperationCall,
+  splitResourcePath,
+  splitTopLevel,
+  type NavigationMap,
+  type NavigationTarget,
+  type OperationMap,
+  type OperationCall,
+} from './navigation.ts';
+export {
+  parseRowFilter,
+  rowFilterProperties,
+  evaluateRowFilter,
+  combineFilters,
+  restrictApply,
+  filterSyntaxError,
+  keyPredicateFilter,
+  validateRowFilters,
+  type RowFilterNode,
+  type RowFilterValue,
+  type RowFilterComparison,
+} from './row-filter.ts';
+export {
+  isFieldHidden,
+  isFieldReadOnly,
+  maskFields,
+  applyFieldPermissions,
+  validateFieldPermissions,
+} from './field-permissions.ts';
 export {
   generateTypeScriptFile,
+  generateOperationManifest,
+  type OperationManifestEntry,
+  generateFieldTypeManifest,
+  type FieldTypeManifest,
   filterEntityTypes,
+  filterOperations,
 } from './type-generator.ts';
 export {
   buildBatchRequest,
   parseBatchResponse,
+  groupByChangeset,
   buildBatchPath,
   type BatchOperation as ODataBatchOperation,
   type BatchResponse as ODataBatchResponse,
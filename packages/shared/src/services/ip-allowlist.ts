@@ -0,0 +1,122 @@
+/**
+ * IP allowlists of API keys - CIDR ranges (IPv4 and IPv6) a key may be used from.
+ * A plain address is a range of one host (/32 or /128).
+ * @example ['10.20.0.0/16', '203.0.113.7', '2001:db8::/32']
+ */
+
+interface ParsedAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface ParsedCidr extends ParsedAddress {
+  prefix: number;
+}
+
+function parseIpv4(address: string): bigint | null {
+  const octets = address.split('.');
+  if (octets.length !== 4) return null;
+
+  let value = 0n;
+  for (const octet of octets) {
+    if (!/^\d{1,3}$/.test(octet) || Number(octet) > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+function parseIpv6(address: string): bigint | null {
+  // Zone index (fe80::1%eth0) doesn't take part in matching
+  let rest = address.split('%')[0]!;
+
+  // Embedded IPv4 tail: ::ffff:192.0.2.1
+  const tail: string[] = [];
+  const ipv4 = /:(\d+\.\d+\.\d+\.\d+)$/.exec(rest);
+  if (ipv4) {
+    const value = parseIpv4(ipv4[1]!);
+    if (value === null) return null;
+    tail.push((value >> 16n).toString(16), (value & 0xffffn).toString(16));
+    rest = rest.slice(0, -ipv4[1]!.length) + '0';
+  }
+
+  const halves = rest.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const end = halves[1] ? halves[1].split(':') : [];
+  // The placeholder 0 of an IPv4 tail is replaced by its two groups
+  if (ipv4) (halves.length === 2 ? end : head).pop();
+
+  const explicit = [...head, ...end, ...tail];
+  const missing = 8 - explicit.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = halves.length === 2
+    ? [...head, ...Array<string>(missing).fill('0'), ...end, ...tail]
+    : [...head, ...tail];
+
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(`0x${group}`);
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address - IPv4-mapped IPv6 addresses (::ffff:192.0.2.1) count as IPv4
+ */
+function parseAddress(address: string): ParsedAddress | null {
+  const trimmed = address.trim();
+  if (trimmed.includes(':')) {
+    const value = parseIpv6(trimmed);
+    if (value === null) return null;
+    return value >> 32n === 0xffffn ? { version: 4, value: value & 0xffffffffn } : { version: 6, value };
+  }
+  const value = parseIpv4(trimmed);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Parse a CIDR range (`10.0.0.0/8`, `2001:db8::/32`) or a single address
+ * @returns null if the range is invalid
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefix, ...extra] = cidr.trim().split('/');
+  if (!address || extra.length > 0) return null;
+
+  const parsed = parseAddress(address);
+  if (!parsed) return null;
+
+  if (prefix === undefined) return { ...parsed, prefix: parsed.version === 4 ? 32 : 128 };
+  const bits = address.includes(':') ? 128 : 32;
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > bits) return null;
+
+  // Prefixes of IPv4-mapped ranges (::ffff:10.0.0.0/112) are relative to the IPv6 address
+  const relative = bits === 128 && parsed.version === 4 ? Number(prefix) - 96 : Number(prefix);
+  if (relative < 0) return null;
+  return { ...parsed, prefix: relative };
+}
+
+/**
+ * Whether a string is a valid CIDR range or address
+ */
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/**
+ * Whether an IP address lies within any of the given CIDR ranges
+ * (invalid ranges and addresses never match)
+ */
+export function isIpAllowed(ip: string, allowedCidrs: string[]): boolean {
+  const address = parseAddress(ip);
+  if (!address) return false;
+
+  return allowedCidrs.some(cidr => {
+    const range = parseCidr(cidr);
+    if (!range || range.version !== address.version) return false;
+
+    const shift = BigInt((range.version === 4 ? 32 : 128) - range.prefix);
+    return address.value >> shift === range.value >> shift;
+  });
+}
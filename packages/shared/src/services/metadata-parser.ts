@@ -91,6 +91,11 @@ export function buildServiceUrl(rawBaseUrl: string, rawServicePath: string, suff
 export interface ODataEntity {
   name: string;
   entityType?: string;
+  /**
+   * Entity set each navigation property leads to, when the service declares it
+   * (v4 NavigationPropertyBinding, v2 AssociationSet) - full metadata only
+   */
+  navigationTargets?: Record<string, string>;
 }
 
 export interface ODataProperty {
@@ -115,6 +120,55 @@ export interface ODataEntityType {
   properties: ODataProperty[];
   keyProperties: string[];
   navigationProperties: ODataNavigationProperty[];
+  /** Media entity type (HasStream) - its binary content is read and written at `$value` */
+  hasStream?: boolean;
+}
+
+export interface ODataComplexType {
+  name: string;
+  fullName: string;
+  properties: ODataProperty[];
+}
+
+export interface ODataEnumMember {
+  name: string;
+  value: number;
+}
+
+export interface ODataEnumType {
+  name: string;
+  fullName: string;
+  underlyingType: string;
+  /** Members can be combined (serialized as comma-separated names) */
+  isFlags: boolean;
+  members: ODataEnumMember[];
+}
+
+export interface ODataOperationParameter {
+  name: string;
+  type: string;
+  nullable: boolean;
+}
+
+/**
+ * OData function or action (v2 FunctionImport, v4 Function/Action)
+ */
+export interface ODataOperation {
+  name: string;
+  kind: 'function' | 'action';
+  /** HTTP verb used to invoke the operation */
+  httpMethod: 'GET' | 'POST';
+  /** Parameters are passed as URL query options (v2 function imports), not inline or in the body */
+  queryParameters?: boolean;
+  /** Bound to an entity type (v4 only - v2 function imports are always called on the service root) */
+  isBound: boolean;
+  /** Short name of the entity type the operation is bound to */
+  bindingEntity?: string;
+  /** Bound to a collection of the binding entity type */
+  bindingCollection?: boolean;
+  /** Parameters, without the v4 binding parameter */
+  parameters: ODataOperationParameter[];
+  returnType?: string;
 }
 
 export interface ODataMetadataResult {
@@ -127,6 +181,9 @@ export interface ODataMetadataResult {
 export interface ODataMetadataFull {
   entities: ODataEntity[];
   entityTypes: ODataEntityType[];
+  complexTypes: ODataComplexType[];
+  enumTypes: ODataEnumType[];
+  operations: ODataOperation[];
   raw?: string;
   error?: string;
   odataVersion?: 'v2' | 'v4';
@@ -210,6 +267,264 @@ function extractSchemas(parsed: any): any[] {
   return schemas.filter(Boolean);
 }
 
+/**
+ * Normalize a parsed XML child (single element or array) to an array
+ */
+function toArray<T = any>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * v2 Association ends by qualified association name, then role
+ */
+type AssociationEnds = Map<string, Map<string, { type: string; multiplicity: string }>>;
+
+/**
+ * Association elements of a v2 schema
+ */
+function parseAssociations(schema: any, namespace: string, associations: AssociationEnds): void {
+  for (const association of toArray(schema.Association)) {
+    if (!association || !association['@_Name']) continue;
+
+    const ends = new Map<string, { type: string; multiplicity: string }>();
+    for (const end of toArray(association.End)) {
+      if (!end || !end['@_Role']) continue;
+      ends.set(String(end['@_Role']), { type: String(end['@_Type'] ?? ''), multiplicity: String(end['@_Multiplicity'] ?? '') });
+    }
+    associations.set(namespace ? `${namespace}.${association['@_Name']}` : String(association['@_Name']), ends);
+  }
+}
+
+/**
+ * v2 navigation property: the association it follows and its roles
+ */
+interface V2Navigation {
+  name: string;
+  relationship: string;
+  fromRole: string;
+  toRole: string;
+}
+
+/**
+ * Target entity set of every navigation property, per entity set name
+ * v4: NavigationPropertyBinding children of the EntitySet
+ * v2: the AssociationSet of the navigation property's association
+ */
+function parseNavigationTargets(
+  schemas: any[],
+  v2Navigation: Map<string, V2Navigation[]>
+): Map<string, Record<string, string>> {
+  const targets = new Map<string, Record<string, string>>();
+
+  for (const schema of schemas) {
+    for (const container of toArray(schema.EntityContainer)) {
+      if (!container) continue;
+
+      for (const entitySet of toArray(container.EntitySet)) {
+        if (!entitySet || !entitySet['@_Name']) continue;
+        const setName = String(entitySet['@_Name']);
+        const bindings: Record<string, string> = {};
+
+        // v4 - the path may be prefixed with a type cast, the target with a container
+        for (const binding of toArray(entitySet.NavigationPropertyBinding)) {
+          if (!binding?.['@_Path'] || !binding['@_Target']) continue;
+          const path = String(binding['@_Path']).split('/').pop()!;
+          bindings[path] = String(binding['@_Target']).split('/').pop()!;
+        }
+
+        // v2 - find the AssociationSet end that this entity set plays
+        for (const nav of v2Navigation.get(String(entitySet['@_EntityType'] ?? '')) ?? []) {
+          const associationSets = toArray(container.AssociationSet)
+            .filter(set => set && String(set['@_Association']) === nav.relationship);
+
+          for (const associationSet of associationSets) {
+            const ends = toArray(associationSet.End);
+            const from = ends.find(end => String(end?.['@_Role']) === nav.fromRole);
+            const to = ends.find(end => String(end?.['@_Role']) === nav.toRole);
+            if (from && to && String(from['@_EntitySet']) === setName) {
+              bindings[nav.name] = String(to['@_EntitySet']);
+              break;
+            }
+          }
+        }
+
+        if (Object.keys(bindings).length > 0) {
+          targets.set(setName, { ...targets.get(setName), ...bindings });
+        }
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Property elements of an EntityType or ComplexType
+ */
+function parseProperties(node: any): ODataProperty[] {
+  const properties: ODataProperty[] = [];
+
+  for (const prop of toArray(node.Property)) {
+    if (!prop || !prop['@_Name']) continue;
+
+    const propType = prop['@_Type'] || '';
+    const nullable = prop['@_Nullable'] !== false && prop['@_Nullable'] !== 'false';
+
+    properties.push({
+      name: prop['@_Name'],
+      type: propType,
+      nullable,
+      maxLength: prop['@_MaxLength'] ? parseInt(prop['@_MaxLength'], 10) : undefined,
+      precision: prop['@_Precision'] ? parseInt(prop['@_Precision'], 10) : undefined,
+      scale: prop['@_Scale'] ? parseInt(prop['@_Scale'], 10) : undefined,
+    });
+  }
+
+  return properties;
+}
+
+/**
+ * ComplexType elements of a schema (structured values such as addresses or amounts)
+ */
+function parseComplexTypes(schema: any, namespace: string): ODataComplexType[] {
+  return toArray(schema.ComplexType)
+    .filter(node => node && node['@_Name'])
+    .map(node => ({
+      name: String(node['@_Name']),
+      fullName: namespace ? `${namespace}.${node['@_Name']}` : String(node['@_Name']),
+      properties: parseProperties(node),
+    }));
+}
+
+/**
+ * EnumType elements of a schema (v4 only). Members without a Value are numbered
+ * from 0 (or as powers of two for flags enums).
+ */
+function parseEnumTypes(schema: any, namespace: string): ODataEnumType[] {
+  return toArray(schema.EnumType)
+    .filter(node => node && node['@_Name'])
+    .map(node => {
+      const isFlags = node['@_IsFlags'] === true || node['@_IsFlags'] === 'true';
+      const members = toArray(node.Member)
+        .filter(member => member && member['@_Name'] !== undefined)
+        .map((member, index) => ({
+          name: String(member['@_Name']),
+          value: member['@_Value'] !== undefined ? Number(member['@_Value']) : (isFlags ? 2 ** index : index),
+        }));
+
+      return {
+        name: String(node['@_Name']),
+        fullName: namespace ? `${namespace}.${node['@_Name']}` : String(node['@_Name']),
+        underlyingType: node['@_UnderlyingType'] || 'Edm.Int32',
+        isFlags,
+        members,
+      };
+    });
+}
+
+function parseOperationParameters(node: any): ODataOperationParameter[] {
+  return toArray(node.Parameter)
+    .filter(param => param && param['@_Name'])
+    .map(param => ({
+      name: String(param['@_Name']),
+      type: param['@_Type'] || '',
+      nullable: param['@_Nullable'] !== false && param['@_Nullable'] !== 'false',
+    }));
+}
+
+/**
+ * v2: FunctionImport elements of the entity container.
+ * The verb comes from m:HttpMethod (GET = function, anything else is invoked via POST),
+ * parameters always go into the URL query (`ReleaseOrder?SalesOrder='4711'`).
+ */
+function parseV2Operations(schema: any): ODataOperation[] {
+  const operations: ODataOperation[] = [];
+
+  for (const container of toArray(schema.EntityContainer)) {
+    for (const fn of toArray(container.FunctionImport)) {
+      if (!fn || !fn['@_Name']) continue;
+
+      const httpMethod = String(fn['@_m:HttpMethod'] || 'GET').toUpperCase() === 'GET' ? 'GET' : 'POST';
+
+      operations.push({
+        name: String(fn['@_Name']),
+        kind: httpMethod === 'GET' ? 'function' : 'action',
+        httpMethod,
+        queryParameters: true,
+        isBound: false,
+        parameters: parseOperationParameters(fn),
+        returnType: fn['@_ReturnType'] || undefined,
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * v4: Function/Action definitions. Bound operations are taken from their definitions,
+ * unbound ones only when exposed through a FunctionImport/ActionImport.
+ */
+function parseV4Operations(schemas: any[]): ODataOperation[] {
+  const operations: ODataOperation[] = [];
+  const unbound = new Map<string, ODataOperation[]>();
+
+  for (const schema of schemas) {
+    const namespace = schema['@_Namespace'] || '';
+    const definitions = [
+      ...toArray(schema.Function).map(node => ({ node, kind: 'function' as const })),
+      ...toArray(schema.Action).map(node => ({ node, kind: 'action' as const })),
+    ];
+
+    for (const { node, kind } of definitions) {
+      if (!node || !node['@_Name']) continue;
+
+      const isBound = node['@_IsBound'] === true || node['@_IsBound'] === 'true';
+      const parameters = parseOperationParameters(node);
+      const operation: ODataOperation = {
+        name: String(node['@_Name']),
+        kind,
+        httpMethod: kind === 'function' ? 'GET' : 'POST',
+        isBound,
+        parameters,
+        returnType: node.ReturnType?.['@_Type'] || undefined,
+      };
+
+      if (isBound) {
+        // The first parameter is the binding parameter
+        const binding = parameters.shift();
+        const bindingType = binding?.type || '';
+        operation.bindingCollection = bindingType.startsWith('Collection(');
+        const bindingTarget = operation.bindingCollection ? bindingType.slice(11, -1) : bindingType;
+        operation.bindingEntity = bindingTarget.split('.').pop() || bindingTarget;
+        operations.push(operation);
+      } else {
+        const qualified = namespace ? `${namespace}.${operation.name}` : operation.name;
+        unbound.set(qualified, [...(unbound.get(qualified) ?? []), operation]);
+      }
+    }
+  }
+
+  for (const schema of schemas) {
+    for (const container of toArray(schema.EntityContainer)) {
+      const imports = [
+        ...toArray(container.FunctionImport).map(node => ({ node, target: node?.['@_Function'] })),
+        ...toArray(container.ActionImport).map(node => ({ node, target: node?.['@_Action'] })),
+      ];
+
+      for (const { node, target } of imports) {
+        if (!node || !node['@_Name'] || !target) continue;
+        for (const definition of unbound.get(String(target)) ?? []) {
+          operations.push({ ...definition, name: String(node['@_Name']) });
+        }
+      }
+    }
+  }
+
+  return operations;
+}
+
 /**
  * Parse full OData metadata XML to extract EntityType definitions with properties
  */
@@ -217,6 +532,9 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
   const entities = parseMetadataXml(xml);
   const odataVersion = detectODataVersion(xml);
   const entityTypes: ODataEntityType[] = [];
+  const complexTypes: ODataComplexType[] = [];
+  const enumTypes: ODataEnumType[] = [];
+  const operations: ODataOperation[] = [];
 
   try {
     const parser = new XMLParser({
@@ -230,8 +548,18 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
     const parsed = parser.parse(xml);
     const schemas = extractSchemas(parsed);
 
+    // v2 navigation properties name an association instead of the target type
+    const associations: AssociationEnds = new Map();
+    const v2Navigation = new Map<string, V2Navigation[]>();
+    for (const schema of schemas) {
+      parseAssociations(schema, schema['@_Namespace'] || '', associations);
+    }
+
     for (const schema of schemas) {
       const schemaNamespace = schema['@_Namespace'] || schema['@_xmlns'] || '';
+      complexTypes.push(...parseComplexTypes(schema, schemaNamespace));
+      enumTypes.push(...parseEnumTypes(schema, schemaNamespace));
+
       const schemaEntityTypes = schema.EntityType || (Array.isArray(schema.EntityType) ? schema.EntityType : [schema.EntityType].filter(Boolean));
 
       if (!schemaEntityTypes) continue;
@@ -244,26 +572,7 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
         const entityTypeName = entityType['@_Name'];
         const fullName = schemaNamespace ? `${schemaNamespace}.${entityTypeName}` : entityTypeName;
 
-        const properties: ODataProperty[] = [];
-        const propertyArray = entityType.Property
-          ? (Array.isArray(entityType.Property) ? entityType.Property : [entityType.Property])
-          : [];
-
-        for (const prop of propertyArray) {
-          if (!prop || !prop['@_Name']) continue;
-
-          const propType = prop['@_Type'] || '';
-          const nullable = prop['@_Nullable'] !== false && prop['@_Nullable'] !== 'false';
-
-          properties.push({
-            name: prop['@_Name'],
-            type: propType,
-            nullable,
-            maxLength: prop['@_MaxLength'] ? parseInt(prop['@_MaxLength'], 10) : undefined,
-            precision: prop['@_Precision'] ? parseInt(prop['@_Precision'], 10) : undefined,
-            scale: prop['@_Scale'] ? parseInt(prop['@_Scale'], 10) : undefined,
-          });
-        }
+        const properties = parseProperties(entityType);
 
         const keyProperties: string[] = [];
         if (entityType.Key) {
@@ -297,9 +606,21 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
               : navType;
             targetEntity = targetType.split('.').pop() || targetType;
           } else {
-            const toRole = navProp['@_ToRole'] || '';
-            targetEntity = toRole;
-            isCollection = toRole !== entityTypeName && (toRole.endsWith('s') || toRole.endsWith('ies'));
+            const relationship = String(navProp['@_Relationship'] || '');
+            const toRole = String(navProp['@_ToRole'] || '');
+            const end = associations.get(relationship)?.get(toRole);
+
+            if (end) {
+              targetEntity = end.type.split('.').pop() || end.type;
+              isCollection = end.multiplicity === '*';
+            } else {
+              targetEntity = toRole;
+              isCollection = toRole !== entityTypeName && (toRole.endsWith('s') || toRole.endsWith('ies'));
+            }
+
+            const navigation = v2Navigation.get(fullName) ?? [];
+            navigation.push({ name: navProp['@_Name'], relationship, fromRole: String(navProp['@_FromRole'] || ''), toRole });
+            v2Navigation.set(fullName, navigation);
           }
 
           if (targetEntity) {
@@ -318,9 +639,20 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
           properties,
           keyProperties,
           navigationProperties,
+          hasStream: [entityType['@_HasStream'], entityType['@_m:HasStream']].some(value => value === true || value === 'true'),
         });
       }
     }
+
+    operations.push(...(odataVersion === 'v4'
+      ? parseV4Operations(schemas)
+      : schemas.flatMap(parseV2Operations)));
+
+    const navigationTargets = parseNavigationTargets(schemas, v2Navigation);
+    for (const entity of entities) {
+      const targets = navigationTargets.get(entity.name);
+      if (targets) entity.navigationTargets = targets;
+    }
   } catch (error: any) {
     console.error('Error parsing full metadata XML:', error);
   }
@@ -328,6 +660,9 @@ function parseFullMetadataXml(xml: string): ODataMetadataFull {
   return {
     entities,
     entityTypes,
+    complexTypes,
+    enumTypes,
+    operations,
     raw: xml,
     odataVersion,
   };
@@ -532,6 +867,9 @@ export const metadataParser = {
       return {
         entities: [],
         entityTypes: [],
+        complexTypes: [],
+        enumTypes: [],
+        operations: [],
         error: error.message || 'Failed to fetch metadata'
       };
     }
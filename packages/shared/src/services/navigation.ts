@@ -0,0 +1,411 @@
+/**
+ * Request resolution against service metadata - maps navigation segments of OData
+ * paths and $expand options to the entity sets they read, and recognizes calls of
+ * functions and actions, so permissions can be checked per target
+ */
+
+import type { ODataMetadataFull } from './metadata-parser.ts';
+
+/**
+ * Entity set → navigation property → entity sets it may lead to.
+ * Usually one target; several when the service doesn't bind the navigation
+ * property and more than one entity set has the target type.
+ */
+export type NavigationMap = Record<string, Record<string, string[]>>;
+
+/**
+ * Entity set reached through a navigation path
+ */
+export interface NavigationTarget {
+  /** Navigation path as written in the request, e.g. `to_Item/to_ScheduleLine` */
+  path: string;
+  /** Entity sets the path may lead to */
+  entitySets: string[];
+  /** Segment of the resource path, an $expand path, or a navigation path of an expression option */
+  via: 'path' | 'expand' | 'filter' | 'orderby' | 'apply';
+  /** Last segment of the resource path (the set a write is applied to) */
+  final?: boolean;
+}
+
+/**
+ * Functions and actions of a service: unbound ones (v2 function imports, v4 imports)
+ * by name, bound ones (v4) by the entity sets of their binding type
+ */
+export interface OperationMap {
+  /** Operation name → entity sets it returns */
+  unbound: Record<string, string[]>;
+  /** Entity set → operation name → entity sets it returns */
+  bound: Record<string, Record<string, string[]>>;
+}
+
+/**
+ * Function or action called by a request
+ */
+export interface OperationCall {
+  /** Operation name without namespace */
+  name: string;
+  /** Binding entity set of bound operations - the operation name for unbound ones */
+  entity: string;
+  bound: boolean;
+  /** Resource path the operation is bound to, e.g. `A_SalesOrder('1')` */
+  bindingPath?: string;
+  /** Entity sets of the result - $expand applies to these */
+  returns: string[];
+}
+
+/**
+ * Build the navigation map of a service from its full metadata
+ */
+export function buildNavigationMap(metadata: ODataMetadataFull): NavigationMap {
+  const setsByType = entitySetsByType(metadata);
+  const map: NavigationMap = {};
+  for (const entity of metadata.entities) {
+    const typeName = entity.entityType?.split('.').pop();
+    const entityType = metadata.entityTypes.find(et => et.fullName === entity.entityType || et.name === typeName);
+    if (!entityType) continue;
+
+    const navigation: Record<string, string[]> = {};
+    for (const navProp of entityType.navigationProperties) {
+      const bound = entity.navigationTargets?.[navProp.name];
+      // Contained entities (no entity set of their own) are part of their parent
+      const targets = bound ? [bound] : setsByType.get(navProp.targetEntity) ?? [];
+      if (targets.length > 0) navigation[navProp.name] = targets;
+    }
+    map[entity.name] = navigation;
+  }
+
+  return map;
+}
+
+/**
+ * Entity sets by the short name of their entity type
+ */
+function entitySetsByType(metadata: ODataMetadataFull): Map<string, string[]> {
+  const setsByType = new Map<string, string[]>();
+  for (const entity of metadata.entities) {
+    const typeName = entity.entityType?.split('.').pop();
+    if (!typeName) continue;
+    setsByType.set(typeName, [...(setsByType.get(typeName) ?? []), entity.name]);
+  }
+  return setsByType;
+}
+
+/**
+ * Split on a separator outside of parentheses and quoted literals
+ */
+export function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of value) {
+    if (char === "'") quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+
+    if (char === separator && depth === 0 && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Segments of a resource path with their key predicates
+ * @example splitResourcePath("A_SalesOrder('1')/to_Item") → [{ name: 'A_SalesOrder', key: "'1'" }, { name: 'to_Item' }]
+ */
+export function splitResourcePath(resourcePath: string): Array<{ name: string; key?: string }> {
+  return splitTopLevel(resourcePath, '/').map(segment => {
+    const open = segment.indexOf('(');
+    return open !== -1 && segment.endsWith(')')
+      ? { name: segment.slice(0, open), key: segment.slice(open + 1, -1) }
+      : { name: segment };
+  });
+}
+
+/**
+ * Navigation segments of an $expand item - type casts (Namespace.Type) and $ref don't navigate
+ */
+function expandSegments(path: string): string[] {
+  return path
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment && !segment.includes('.') && !segment.startsWith('$'));
+}
+
+/**
+ * Options of a nested $expand item (v4): `to_Item($select=Material;$filter=...)` → { $select, $filter }
+ */
+function expandOptions(options: string): Array<[string, string]> {
+  return splitTopLevel(options, ';').map(option => {
+    const separator = option.indexOf('=');
+    return [option.slice(0, separator).trim(), option.slice(separator + 1)];
+  });
+}
+
+/**
+ * Navigation paths of an $expand option, nested expands included
+ * v4: `to_Item($expand=to_Partner;$select=Material),to_Partner`
+ * v2: `to_Item/to_Partner,to_Partner`
+ * @example parseExpandPaths('to_Item($expand=to_Partner)') → [['to_Item'], ['to_Item', 'to_Partner']]
+ */
+export function parseExpandPaths(expand: string, prefix: string[] = []): string[][] {
+  const paths: string[][] = [];
+
+  for (const item of splitTopLevel(expand, ',')) {
+    const open = item.indexOf('(');
+    const segments = expandSegments(open === -1 ? item : item.slice(0, open));
+    if (segments.length === 0) continue;
+
+    // Every prefix of a v2 path is expanded as well
+    for (let i = 1; i <= segments.length; i++) {
+      paths.push([...prefix, ...segments.slice(0, i)]);
+    }
+
+    if (open !== -1 && item.endsWith(')')) {
+      for (const [name, value] of expandOptions(item.slice(open + 1, -1))) {
+        if (name === '$expand') paths.push(...parseExpandPaths(value, [...prefix, ...segments]));
+      }
+    }
+  }
+
+  return paths;
+}
+
+// Words of filter, orderby and apply expressions that aren't property paths
+const KEYWORDS = new Set([
+  'and', 'or', 'not', 'eq', 'ne', 'gt', 'ge', 'lt', 'le', 'has', 'in',
+  'add', 'sub', 'mul', 'div', 'mod', 'asc', 'desc', 'true', 'false', 'null',
+  'with', 'as', 'from', 'INF', 'NaN',
+]);
+
+// Query options whose expressions can follow navigation properties
+const EXPRESSION_OPTIONS = ['$filter', '$orderby', '$apply'] as const;
+
+/**
+ * Property paths of a $filter, $orderby or $apply expression. Lambdas
+ * (`to_Item/any(i: i/Material eq 'X')`) contribute the collection they iterate,
+ * and paths inside them are resolved against it.
+ * @example parseExpressionPaths("to_Item/any(i: i/to_Partner/Name eq 'A')") → [['to_Item'], ['to_Item', 'to_Partner', 'Name']]
+ */
+export function parseExpressionPaths(expression: string): string[][] {
+  // Literals can't reference properties: 'text', datetime'...', guid'...'
+  return expressionPaths(expression.replace(/'(?:[^']|'')*'/g, "''"), new Map());
+}
+
+function expressionPaths(text: string, variables: Map<string, string[]>): string[][] {
+  const resolve = (path: string) => {
+    const [first, ...rest] = path.split('/');
+    return [...(variables.get(first!) ?? [first!]), ...rest];
+  };
+  const paths: string[][] = [];
+
+  // Lambdas, each with its own variable - the text around them is scanned below
+  let outside = '';
+  let index = 0;
+  const lambda = /(?<![\w.$@])([A-Za-z_]\w*(?:\/[A-Za-z_]\w*)*)\/(?:any|all)\(/g;
+  for (let match = lambda.exec(text); match; match = lambda.exec(text)) {
+    let end = match.index + match[0].length;
+    for (let depth = 1; end < text.length && depth > 0; end++) {
+      if (text[end] === '(') depth++;
+      else if (text[end] === ')') depth--;
+    }
+
+    const collection = resolve(match[1]!);
+    paths.push(collection);
+    const body = text.slice(match.index + match[0].length, end - 1);
+    const variable = /^\s*([A-Za-z_]\w*)\s*:/.exec(body);
+    if (variable) {
+      paths.push(...expressionPaths(body.slice(variable[0].length), new Map(variables).set(variable[1]!, collection)));
+    }
+
+    outside += `${text.slice(index, match.index)} `;
+    index = end;
+    lambda.lastIndex = end;
+  }
+  outside += text.slice(index);
+
+  // Not part of a number, qualified name, $-option or annotation, and not a function call
+  for (const match of outside.matchAll(/(?<![\w.$@])[A-Za-z_]\w*(?:\/[A-Za-z_]\w*)*(?![\w.('])/g)) {
+    if (KEYWORDS.has(match[0].split('/')[0]!)) continue;
+    paths.push(resolve(match[0]));
+  }
+  return paths;
+}
+
+/**
+ * Whether the expression options of a query may follow navigation properties
+ * (a path with `/` outside of literals)
+ */
+export function queryNavigates(query: Record<string, string | undefined>): boolean {
+  return EXPRESSION_OPTIONS.some(option => query[option]?.replace(/'(?:[^']|'')*'/g, "''").includes('/'));
+}
+
+/**
+ * Follow navigation segments from a set of entity sets.
+ * Stops at the first segment that isn't a navigation property (structural property, $value, ...).
+ */
+function follow(map: NavigationMap, from: string[], segments: string[], via: NavigationTarget['via']): NavigationTarget[] {
+  const targets: NavigationTarget[] = [];
+  let current = from;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    // `$expand=*` expands every navigation property
+    const next = [...new Set(current.flatMap(set => segment === '*'
+      ? Object.values(map[set] ?? {}).flat()
+      : map[set]?.[segment] ?? []))];
+    if (next.length === 0) break;
+
+    targets.push({ path: segments.slice(0, i + 1).join('/'), entitySets: next, via });
+    current = next;
+  }
+
+  return targets;
+}
+
+/**
+ * Entity sets read or written by an OData request, beyond its root entity set
+ * @param resourcePath - Path relative to the service root, e.g. `A_SalesOrder('1')/to_Item`
+ * @param expand - Value of the $expand query option
+ * @returns Targets of the resource path (the last one marked `final`), then those of $expand
+ */
+export function resolveNavigationTargets(
+  map: NavigationMap,
+  resourcePath: string,
+  expand?: string
+): NavigationTarget[] {
+  // Segments without key predicates - v2 `$links` only announces a navigation property
+  const [root, ...segments] = splitTopLevel(resourcePath, '/')
+    .map(segment => segment.replace(/\(.*\)$/, ''))
+    .filter(segment => segment !== '$links');
+  if (!root) return [];
+
+  const pathTargets = follow(map, [root], segments, 'path');
+  const last = pathTargets[pathTargets.length - 1];
+  if (last) last.final = true;
+
+  // $expand is relative to the entity set the path ends at
+  const expandTargets = expand ? resolveExpandTargets(map, last?.entitySets ?? [root], expand) : [];
+
+  return [...pathTargets, ...expandTargets];
+}
+
+/**
+ * Entity sets read through an $expand option, starting at the given entity sets
+ * (those of the addressed resource, or the result of a function)
+ */
+export function resolveExpandTargets(map: NavigationMap, from: string[], expand: string): NavigationTarget[] {
+  return parseExpandPaths(expand)
+    .flatMap(path => follow(map, from, path, 'expand').slice(path.length - 1, path.length));
+}
+
+/**
+ * Entity sets read through the query options of a request, starting at the given entity
+ * sets: $expand paths, and navigation in $filter, $orderby and $apply - at the top level
+ * and nested in $expand (v4), where they start at the expanded entity set
+ */
+export function resolveQueryTargets(
+  map: NavigationMap,
+  from: string[],
+  query: Record<string, string | undefined>
+): NavigationTarget[] {
+  const expand = query['$expand'];
+  const targets = expand ? resolveExpandTargets(map, from, expand) : [];
+
+  const expressions = (options: Record<string, string | undefined>, prefix: string[]) => {
+    for (const option of EXPRESSION_OPTIONS) {
+      const value = options[option];
+      if (!value) continue;
+      for (const path of parseExpressionPaths(value)) {
+        targets.push(...follow(map, from, [...prefix, ...path], option.slice(1) as NavigationTarget['via']));
+      }
+    }
+  };
+  const nested = (value: string, prefix: string[]) => {
+    for (const item of splitTopLevel(value, ',')) {
+      const open = item.indexOf('(');
+      if (open === -1 || !item.endsWith(')')) continue;
+      const segments = [...prefix, ...expandSegments(item.slice(0, open))];
+      const options = Object.fromEntries(expandOptions(item.slice(open + 1, -1)));
+      expressions(options, segments);
+      if (options['$expand']) nested(options['$expand'], segments);
+    }
+  };
+
+  expressions(query, []);
+  if (expand) nested(expand, []);
+  // A lambda and the paths in it reach the same collection
+  return targets.filter((target, i) => targets.findIndex(t => t.via === target.via && t.path === target.path) === i);
+}
+
+/**
+ * Build the operation map of a service from its full metadata
+ */
+export function buildOperationMap(metadata: ODataMetadataFull): OperationMap {
+  const setsByType = entitySetsByType(metadata);
+  const map: OperationMap = { unbound: {}, bound: {} };
+
+  for (const operation of metadata.operations) {
+    // `Collection(NS.Type)` or `NS.Type` - primitive and complex results have no entity set
+    const returnType = operation.returnType?.replace(/^Collection\((.*)\)$/, '$1').split('.').pop();
+    const returns = returnType ? setsByType.get(returnType) ?? [] : [];
+
+    if (!operation.isBound) {
+      map.unbound[operation.name] = returns;
+      continue;
+    }
+
+    for (const set of setsByType.get(operation.bindingEntity ?? '') ?? []) {
+      map.bound[set] = { ...map.bound[set], [operation.name]: returns };
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Recognize a function or action call: `ReleaseSalesOrder?...` or `A_SalesOrder/ReleaseSalesOrder`
+ * (unbound - the SDK calls them below an entity set, which names their service),
+ * `A_SalesOrder('1')/API.Release` or `A_SalesOrder/Release` (bound, also after navigation)
+ * @returns null if the path addresses data rather than an operation
+ */
+export function resolveOperationCall(
+  operations: OperationMap,
+  navigation: NavigationMap,
+  resourcePath: string
+): OperationCall | null {
+  const segments = splitTopLevel(resourcePath, '/');
+  // Parameters (v4 functions) and namespace qualifiers (bound operations) aren't part of the name
+  const nameOf = (segment: string) => segment.replace(/\(.*\)$/, '').split('.').pop()!;
+
+  if (segments.length === 1) {
+    const name = nameOf(segments[0]!);
+    const returns = operations.unbound[name];
+    return returns ? { name, entity: name, bound: false, returns } : null;
+  }
+
+  const name = nameOf(segments[segments.length - 1]!);
+  const [root, ...path] = segments.slice(0, -1).map(segment => segment.replace(/\(.*\)$/, ''));
+  if (!root) return null;
+
+  // Binding entity set: the root, or where the navigation path leads
+  const targets = follow(navigation, [root], path, 'path');
+  if (targets.length !== path.length) return null;
+  const bindingSets = targets[targets.length - 1]?.entitySets ?? [root];
+
+  const entity = bindingSets.find(set => operations.bound[set]?.[name]);
+  if (entity) {
+    return { name, entity, bound: true, bindingPath: segments.slice(0, -1).join('/'), returns: operations.bound[entity]![name]! };
+  }
+
+  // Unbound operation below an entity set - bound operations of the set take precedence
+  const returns = segments.length === 2 && !segments[0]!.includes('(') ? operations.unbound[name] : undefined;
+  return returns ? { name, entity: name, bound: false, returns } : null;
+}
@@ -7,6 +7,11 @@
  *
  * Operations within a changeset are executed as a single transaction.
  * If any operation fails, the entire changeset is rolled back by the server.
+ * Reads (GET) are never part of a changeset - they are top-level batch parts.
+ *
+ * Within a changeset, a request can reference an entity created by an earlier
+ * request of the same changeset through its Content-ID: `$1`, `$1/to_Item`, or
+ * `"to_Header@odata.bind": "$1"` in an OData V4 body.
  */
 
 // ============================================================================
@@ -15,10 +20,14 @@
 
 export interface BatchOperation {
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Path relative to the service root, including the query string of reads */
   path: string;
   body?: unknown;
   headers?: Record<string, string>;
+  /** Content-ID of the request - unique within the batch (default: position in its changeset) */
   contentId?: string;
+  /** Changeset of an atomic batch - operations with the same number share one changeset (default: 0) */
+  changeset?: number;
 }
 
 export interface BatchResponse {
@@ -31,6 +40,11 @@ export interface BatchResponse {
 
 export interface ParsedBatchResponse {
   responses: BatchResponse[];
+  /**
+   * Responses grouped by top-level batch part, in request order.
+   * A failed changeset is answered with a single error response instead of one per request.
+   */
+  changesets: BatchResponse[][];
   hasErrors: boolean;
 }
 
@@ -50,7 +64,7 @@ function generateBoundary(prefix: string): string {
 /**
  * Serialize a single operation as an HTTP request within the batch
  */
-function serializeOperation(op: BatchOperation, contentId: number): string {
+function serializeOperation(op: BatchOperation): string {
   const lines: string[] = [];
 
   // HTTP request line
@@ -88,14 +102,14 @@ function buildChangeset(operations: BatchOperation[], changesetBoundary: string)
 
   for (let i = 0; i < operations.length; i++) {
     const op = operations[i]!;
-    const contentId = i + 1;
+    const contentId = op.contentId ?? String(i + 1);
 
     parts.push(`--${changesetBoundary}`);
     parts.push('Content-Type: application/http');
     parts.push('Content-Transfer-Encoding: binary');
     parts.push(`Content-ID: ${contentId}`);
     parts.push('');
-    parts.push(serializeOperation(op, contentId));
+    parts.push(serializeOperation(op));
   }
 
   parts.push(`--${changesetBoundary}--`);
@@ -103,11 +117,27 @@ function buildChangeset(operations: BatchOperation[], changesetBoundary: string)
   return parts.join('\r\n');
 }
 
+/**
+ * Group operations by changeset number, keeping the order of first appearance
+ */
+export function groupByChangeset<T extends { changeset?: number }>(operations: T[]): T[][] {
+  const groups = new Map<number, T[]>();
+  for (const op of operations) {
+    const key = op.changeset ?? 0;
+    const group = groups.get(key);
+    if (group) group.push(op);
+    else groups.set(key, [op]);
+  }
+  return [...groups.values()];
+}
+
 /**
  * Build a complete OData $batch request body
  *
  * @param operations - Array of operations to include
- * @param atomic - If true, wrap all operations in a single changeset (transaction)
+ * @param atomic - If true, wrap the operations in changesets (transactions) -
+ *   one per distinct `changeset` number, in order of first appearance.
+ *   Otherwise each write gets its own changeset and each read its own batch part.
  * @returns Object with body string and Content-Type header value
  */
 export function buildBatchRequest(
@@ -118,19 +148,32 @@ export function buildBatchRequest(
   const parts: string[] = [];
 
   if (atomic) {
-    // Wrap all operations in a single changeset for atomicity
-    const changesetBoundary = generateBoundary('changeset');
+    // Wrap the operations of each changeset together for atomicity
+    for (const changeset of groupByChangeset(operations)) {
+      const changesetBoundary = generateBoundary('changeset');
 
-    parts.push(`--${batchBoundary}`);
-    parts.push(`Content-Type: multipart/mixed; boundary=${changesetBoundary}`);
-    parts.push('');
-    parts.push(buildChangeset(operations, changesetBoundary));
+      parts.push(`--${batchBoundary}`);
+      parts.push(`Content-Type: multipart/mixed; boundary=${changesetBoundary}`);
+      parts.push('');
+      parts.push(buildChangeset(changeset, changesetBoundary));
+    }
   } else {
     // Each operation is independent (no changeset = no atomicity)
     // For non-atomic, we still use changesets but one per operation
     // This allows the server to process them independently
     for (let i = 0; i < operations.length; i++) {
       const op = operations[i]!;
+
+      // Reads cannot be part of a changeset
+      if (op.method === 'GET') {
+        parts.push(`--${batchBoundary}`);
+        parts.push('Content-Type: application/http');
+        parts.push('Content-Transfer-Encoding: binary');
+        parts.push('');
+        parts.push(serializeOperation(op));
+        continue;
+      }
+
       const changesetBoundary = generateBoundary('changeset');
 
       parts.push(`--${batchBoundary}`);
@@ -335,7 +378,7 @@ export function parseBatchResponse(
     throw new Error('Could not extract batch boundary from Content-Type');
   }
 
-  const responses: BatchResponse[] = [];
+  const changesets: BatchResponse[][] = [];
   const parts = splitByBoundary(responseBody, batchBoundary);
   console.log(`[odata-batch] Found ${parts.length} batch parts`);
 
@@ -350,7 +393,7 @@ export function parseBatchResponse(
       // This is a changeset - parse nested responses
       const changesetBoundary = changesetMatch[1]!.replace(/^["']|["']$/g, '');
       const changesetResponses = parseChangesetResponse(part, changesetBoundary);
-      responses.push(...changesetResponses);
+      changesets.push(changesetResponses);
     } else if (part.match(/content-type:\s*application\/http/i)) {
       // This is an individual response wrapped in application/http format
       // CAP returns this format for changeset responses
@@ -388,7 +431,7 @@ export function parseBatchResponse(
           httpResponse.contentId = contentId;
         }
         console.log(`[odata-batch] Parsed response from part ${i}: status=${httpResponse.status}, body type=${typeof httpResponse.body}`);
-        responses.push(httpResponse);
+        changesets.push([httpResponse]);
       } else {
         console.log(`[odata-batch] No HTTP status line found in application/http part ${i}`);
       }
@@ -397,15 +440,17 @@ export function parseBatchResponse(
       console.log(`[odata-batch] Part ${i} is direct response (no envelope)`);
       const httpResponse = parseHttpResponse(part);
       if (httpResponse.status > 0) {
-        responses.push(httpResponse);
+        changesets.push([httpResponse]);
       }
     }
   }
 
+  const responses = changesets.flat();
   const hasErrors = responses.some(r => r.status >= 400);
 
   return {
     responses,
+    changesets,
     hasErrors,
   };
 }
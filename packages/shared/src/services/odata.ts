@@ -3,6 +3,8 @@
  * Handles query building, response parsing, and error formatting
  */
 
+import { encryption } from './encryption.ts';
+
 export interface ODataQueryOptions {
   select?: string[];
   filter?: string;
@@ -114,6 +116,42 @@ export function parseODataResponse<T = any>(rawResponse: any): ODataResponse<T>
   };
 }
 
+/**
+ * Query parameter carrying a continuation token on proxy requests
+ */
+export const CONTINUATION_PARAM = '$continuation';
+
+// Signing key purpose of continuation tokens
+const CONTINUATION_TOKEN_PURPOSE = 'continuation-token';
+
+/**
+ * Encode a SAP nextLink (v2 __next / v4 @odata.nextLink) as an opaque continuation token.
+ * Only the query string is kept - the entity path always comes from the request that
+ * presents the token, so a token cannot be used to reach another entity or host.
+ * The token is signed, so clients can't forge or alter the query it carries.
+ */
+export function encodeContinuationToken(nextLink: string): string {
+  const queryIndex = nextLink.indexOf('?');
+  const query = Buffer.from(queryIndex === -1 ? '' : nextLink.slice(queryIndex + 1), 'utf8').toString('base64url');
+  return `${query}.${encryption.sign(query, CONTINUATION_TOKEN_PURPOSE)}`;
+}
+
+/**
+ * Decode a continuation token back into the SAP query parameters of the next page
+ * @returns undefined if the token is malformed or its signature doesn't match
+ */
+export function decodeContinuationToken(token: string): Record<string, string> | undefined {
+  const match = /^([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match || !encryption.verify(match[1]!, match[2]!, CONTINUATION_TOKEN_PURPOSE)) return undefined;
+
+  const query = Buffer.from(match[1]!, 'base64url').toString('utf8');
+  const params: Record<string, string> = {};
+  for (const [key, value] of new URLSearchParams(query)) {
+    params[key] = value;
+  }
+  return Object.keys(params).length > 0 ? params : undefined;
+}
+
 /**
  * Parse OData error response
  * Handles both OData v2 and v4 error formats (JSON only)
@@ -169,9 +207,21 @@ export function parseODataError(errorResponse: any): ODataError {
   };
 }
 
+/**
+ * Extract the ETag of an entity from its OData payload
+ * v2 carries it in __metadata.etag, v4 in the @odata.etag annotation
+ */
+export function extractODataETag(entity: any): string | undefined {
+  if (!entity || typeof entity !== 'object' || Array.isArray(entity)) return undefined;
+  const etag = entity['@odata.etag'] ?? entity['odata.etag'] ?? entity.__metadata?.etag;
+  return typeof etag === 'string' && etag ? etag : undefined;
+}
+
 /**
  * Strip OData metadata from entity
- * Recursively cleans navigation properties and removes __deferred placeholders
+ * Recursively cleans navigation properties and removes __deferred placeholders.
+ * The entity ETag is the only metadata kept - normalized to @odata.etag for both
+ * v2 and v4 - so clients can send it back as If-Match on writes.
  */
 export function stripODataMetadata<T extends Record<string, any>>(entity: T): T {
   if (!entity || typeof entity !== 'object') return entity;
@@ -180,6 +230,7 @@ export function stripODataMetadata<T extends Record<string, any>>(entity: T): T
   }
 
   const cleaned: Record<string, any> = {};
+  const etag = extractODataETag(entity);
 
   for (const key of Object.keys(entity)) {
     const value = entity[key];
@@ -215,6 +266,10 @@ export function stripODataMetadata<T extends Record<string, any>>(entity: T): T
     }
   }
 
+  if (etag) {
+    cleaned['@odata.etag'] = etag;
+  }
+
   return cleaned as T;
 }
 
@@ -229,3 +284,38 @@ export function mergeODataParams(
   const additional = buildODataQuery(additionalOptions);
   return { ...incomingParams, ...additional };
 }
+
+/**
+ * Translate v4 query params (as sent by SDK clients) for an OData v2 service:
+ * `$count=true` becomes `$inlinecount=allpages`.
+ *
+ * @returns The translated params (always a new object), or the reason the query cannot run on a v2 service -
+ *   `$apply` and lambda operators (any/all) have no v2 equivalent
+ */
+export function toODataV2Params(
+  params: Record<string, string>,
+  service: string
+): { params: Record<string, string> } | { error: ODataError } {
+  if (params['$apply'] !== undefined) {
+    return {
+      error: {
+        code: 'APPLY_NOT_SUPPORTED',
+        message: `$apply (aggregation) requires OData v4, but service '${service}' is OData v2. Aggregate on the client or use a v4 service.`,
+      },
+    };
+  }
+
+  // Ignore quoted literals when looking for lambda operators
+  const filterExpression = (params['$filter'] || '').replace(/'(?:[^']|'')*'/g, "''");
+  if (/\/(any|all)\(/.test(filterExpression)) {
+    return {
+      error: {
+        code: 'LAMBDA_NOT_SUPPORTED',
+        message: `Lambda operators (any/all) in $filter require OData v4, but service '${service}' is OData v2. Expand the collection and filter on the client instead.`,
+      },
+    };
+  }
+
+  const { $count, ...rest } = params;
+  return { params: $count === 'true' ? { ...rest, $inlinecount: 'allpages' } : { ...params } };
+}
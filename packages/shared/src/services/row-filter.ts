@@ -0,0 +1,332 @@
+/**
+ * Row-level filters of access grants - mandatory $filter expressions per entity set.
+ * Restricted to what both OData versions understand and the proxy can evaluate on
+ * request bodies: comparisons of a property with a literal, combined with and/or/not.
+ * @example "CompanyCode eq '1010'"
+ * @example "(SalesOrganization eq '1010' or SalesOrganization eq '1020') and not (Blocked eq true)"
+ */
+
+import { splitTopLevel } from './navigation.ts';
+import type { ODataMetadataFull } from './metadata-parser.ts';
+
+export type RowFilterValue = string | number | boolean | null;
+
+export type RowFilterComparison = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le';
+
+/**
+ * Parsed row filter expression
+ */
+export type RowFilterNode =
+  | { type: 'and' | 'or'; left: RowFilterNode; right: RowFilterNode }
+  | { type: 'not'; operand: RowFilterNode }
+  | { type: 'compare'; operator: RowFilterComparison; property: string; value: RowFilterValue };
+
+const COMPARISONS = new Set<string>(['eq', 'ne', 'gt', 'ge', 'lt', 'le']);
+
+type Token =
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'word'; value: string }
+  | { kind: 'literal'; value: RowFilterValue };
+
+/**
+ * Split an expression into parentheses, words (keywords, property paths) and literals
+ */
+function tokenize(expression: string): Token[] | string {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i]!;
+    const rest = expression.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char });
+      i++;
+    } else if (char === "'") {
+      const match = /^'((?:[^']|'')*)'/.exec(rest);
+      if (!match) return `Unterminated string literal at position ${i + 1}`;
+      tokens.push({ kind: 'literal', value: match[1]!.replace(/''/g, "'") });
+      i += match[0].length;
+    } else if (/[-\d]/.test(char)) {
+      // Edm.Decimal/Int64/Double suffixes of v2 literals (10M, 5L, 1.5d) are ignored
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?[mMlLdDfF]?(?![\w.])/.exec(rest);
+      if (!match) return `Invalid number at position ${i + 1}`;
+      tokens.push({ kind: 'literal', value: Number(match[0].replace(/[mMlLdDfF]$/, '')) });
+      i += match[0].length;
+    } else {
+      const match = /^[A-Za-z_][\w]*(\/[A-Za-z_][\w]*)*/.exec(rest);
+      if (!match) return `Unexpected '${char}' at position ${i + 1}`;
+      const word = match[0];
+      if (!['and', 'or', 'not'].includes(word) && /^\s*\(/.test(rest.slice(word.length))) {
+        return `Functions like '${word}()' are not supported in row filters`;
+      }
+      if (word === 'true' || word === 'false') tokens.push({ kind: 'literal', value: word === 'true' });
+      else if (word === 'null') tokens.push({ kind: 'literal', value: null });
+      else tokens.push({ kind: 'word', value: word });
+      i += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a row filter expression
+ * @returns The expression tree, or why the expression isn't a supported row filter
+ */
+export function parseRowFilter(expression: string): { filter: RowFilterNode } | { error: string } {
+  const tokens = tokenize(expression);
+  if (typeof tokens === 'string') return { error: tokens };
+  if (tokens.length === 0) return { error: 'Row filter is empty' };
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const isWord = (token: Token | undefined, value: string) => token?.kind === 'word' && token.value === value;
+
+  // or := and ('or' and)* / and := unary ('and' unary)* / unary := 'not' unary | '(' or ')' | comparison
+  const parseOr = (): RowFilterNode | string => {
+    let left = parseAnd();
+    while (typeof left !== 'string' && isWord(peek(), 'or')) {
+      position++;
+      const right = parseAnd();
+      if (typeof right === 'string') return right;
+      left = { type: 'or', left, right };
+    }
+    return left;
+  };
+
+  const parseAnd = (): RowFilterNode | string => {
+    let left = parseUnary();
+    while (typeof left !== 'string' && isWord(peek(), 'and')) {
+      position++;
+      const right = parseUnary();
+      if (typeof right === 'string') return right;
+      left = { type: 'and', left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): RowFilterNode | string => {
+    const token = peek();
+    if (isWord(token, 'not')) {
+      position++;
+      const operand = parseUnary();
+      return typeof operand === 'string' ? operand : { type: 'not', operand };
+    }
+    if (token?.kind === 'paren' && token.value === '(') {
+      position++;
+      const inner = parseOr();
+      if (typeof inner === 'string') return inner;
+      const close = peek();
+      if (close?.kind !== 'paren' || close.value !== ')') return 'Missing closing parenthesis';
+      position++;
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): RowFilterNode | string => {
+    const [property, operator, value] = [tokens[position], tokens[position + 1], tokens[position + 2]];
+    if (property?.kind !== 'word' || ['and', 'or', 'not'].includes(property.value)) {
+      return 'Expected a property name';
+    }
+    if (operator?.kind !== 'word' || !COMPARISONS.has(operator.value)) {
+      return `Expected a comparison (eq, ne, gt, ge, lt, le) after '${property.value}'`;
+    }
+    if (value?.kind !== 'literal') {
+      return `Expected a literal value after '${property.value} ${operator.value}'`;
+    }
+    position += 3;
+    return { type: 'compare', operator: operator.value as RowFilterComparison, property: property.value, value: value.value };
+  };
+
+  const filter = parseOr();
+  if (typeof filter === 'string') return { error: filter };
+  if (position < tokens.length) return { error: 'Unexpected input after the end of the expression' };
+
+  return { filter };
+}
+
+/**
+ * Property paths a row filter compares, e.g. `['CompanyCode', 'Address/Country']`
+ */
+export function rowFilterProperties(filter: RowFilterNode): string[] {
+  switch (filter.type) {
+    case 'compare':
+      return [filter.property];
+    case 'not':
+      return rowFilterProperties(filter.operand);
+    default:
+      return [...new Set([...rowFilterProperties(filter.left), ...rowFilterProperties(filter.right)])];
+  }
+}
+
+/**
+ * Compare a record value with a literal. Numbers sent as strings
+ * (v2 Edm.Decimal, Int64) compare as numbers.
+ * @returns undefined if the values can't be compared
+ */
+function compare(actual: unknown, operator: RowFilterComparison, expected: RowFilterValue): boolean | undefined {
+  if (expected === null || actual === null) {
+    if (operator === 'eq') return actual === expected;
+    if (operator === 'ne') return actual !== expected;
+    return false;
+  }
+
+  let left = actual;
+  if (typeof expected === 'number' && typeof actual === 'string' && actual.trim() !== '' && !isNaN(Number(actual))) {
+    left = Number(actual);
+  }
+  if (typeof left !== typeof expected) return undefined;
+
+  const [a, b] = [left as string | number | boolean, expected];
+  switch (operator) {
+    case 'eq': return a === b;
+    case 'ne': return a !== b;
+    case 'gt': return a > b;
+    case 'ge': return a >= b;
+    case 'lt': return a < b;
+    case 'le': return a <= b;
+  }
+}
+
+/**
+ * Evaluate a row filter against a record (request body, or the stored record merged with an update).
+ * Properties the record doesn't contain make a comparison unknown - and/or/not follow
+ * three-valued logic, so only a definite `true` means the record is within the filter.
+ */
+export function evaluateRowFilter(filter: RowFilterNode, record: Record<string, unknown>): boolean | undefined {
+  switch (filter.type) {
+    case 'compare': {
+      let value: unknown = record;
+      for (const segment of filter.property.split('/')) {
+        if (!value || typeof value !== 'object' || !(segment in value)) return undefined;
+        value = (value as Record<string, unknown>)[segment];
+      }
+      return compare(value, filter.operator, filter.value);
+    }
+    case 'not': {
+      const operand = evaluateRowFilter(filter.operand, record);
+      return operand === undefined ? undefined : !operand;
+    }
+    case 'and': {
+      const [left, right] = [evaluateRowFilter(filter.left, record), evaluateRowFilter(filter.right, record)];
+      if (left === false || right === false) return false;
+      return left === true && right === true ? true : undefined;
+    }
+    case 'or': {
+      const [left, right] = [evaluateRowFilter(filter.left, record), evaluateRowFilter(filter.right, record)];
+      if (left === true || right === true) return true;
+      return left === false && right === false ? false : undefined;
+    }
+  }
+}
+
+/**
+ * Check that a $filter expression stays inside the parentheses it is wrapped in:
+ * string literals must be terminated, parentheses outside them balanced
+ * @returns Why the expression can't be combined, or null
+ */
+export function filterSyntaxError(expression: string): string | null {
+  let depth = 0;
+  let quoted = false;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    // Quotes inside literals are doubled ('') - toggling twice keeps the literal open
+    if (char === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (char === '(') depth++;
+    else if (char === ')' && --depth < 0) return `Unbalanced ')' at position ${i + 1}`;
+  }
+
+  if (quoted) return 'Unterminated string literal';
+  return depth > 0 ? 'Missing closing parenthesis' : null;
+}
+
+/**
+ * AND filter expressions together, skipping empty ones
+ * @throws if an expression could escape its parentheses (see filterSyntaxError)
+ */
+export function combineFilters(...filters: Array<string | undefined>): string | undefined {
+  const parts = filters.filter((filter): filter is string => !!filter?.trim());
+  for (const part of parts) {
+    const error = filterSyntaxError(part);
+    if (error) throw new Error(`Invalid filter expression: ${error}`);
+  }
+  if (parts.length <= 1) return parts[0];
+  return parts.map(part => `(${part})`).join(' and ');
+}
+
+/**
+ * Make a filter the first transformation of an $apply option. $apply runs before $filter,
+ * so aggregations (groupby, topcount) and compute would otherwise see every record.
+ * @throws if the filter could escape its parentheses (see filterSyntaxError)
+ * @example restrictApply("CompanyCode eq '1010'", 'aggregate(NetAmount with sum as Total)')
+ *   → "filter(CompanyCode eq '1010')/aggregate(NetAmount with sum as Total)"
+ */
+export function restrictApply(filter: string, apply: string): string {
+  const error = filterSyntaxError(filter);
+  if (error) throw new Error(`Invalid filter expression: ${error}`);
+  return `filter(${filter})/${apply}`;
+}
+
+/**
+ * Turn a key predicate into a filter expression selecting the same record
+ * @param key - Predicate without parentheses: `'1'` or `SalesOrder='1',Item='10'`
+ * @param keyProperties - Key properties of the entity type (needed for single-value predicates)
+ * @returns null if the predicate doesn't match the key properties
+ * @example keyPredicateFilter("'1'", ['SalesOrder']) → "SalesOrder eq '1'"
+ */
+export function keyPredicateFilter(key: string, keyProperties: string[]): string | null {
+  const parts = splitTopLevel(key, ',');
+  const named = parts.every(part => /^[A-Za-z_]\w*\s*=/.test(part));
+
+  if (!named) {
+    return parts.length === 1 && keyProperties.length === 1 ? `${keyProperties[0]} eq ${parts[0]}` : null;
+  }
+
+  const conditions = parts.map(part => {
+    const separator = part.indexOf('=');
+    return `${part.slice(0, separator).trim()} eq ${part.slice(separator + 1).trim()}`;
+  });
+  return conditions.join(' and ');
+}
+
+/**
+ * Check row filters against a service's metadata: every entity set must exist,
+ * every expression must parse, and every property it compares must belong to the entity type
+ * @returns Error messages, empty when all filters are valid
+ */
+export function validateRowFilters(rowFilters: Record<string, string>, metadata: ODataMetadataFull): string[] {
+  const errors: string[] = [];
+
+  for (const [entitySet, expression] of Object.entries(rowFilters)) {
+    const entity = metadata.entities.find(e => e.name === entitySet);
+    if (!entity) {
+      errors.push(`${entitySet}: unknown entity set`);
+      continue;
+    }
+
+    const parsed = parseRowFilter(expression);
+    if ('error' in parsed) {
+      errors.push(`${entitySet}: ${parsed.error}`);
+      continue;
+    }
+
+    const typeName = entity.entityType?.split('.').pop();
+    const entityType = metadata.entityTypes.find(et => et.fullName === entity.entityType || et.name === typeName);
+    if (!entityType) continue;
+
+    for (const property of rowFilterProperties(parsed.filter)) {
+      const [name] = property.split('/');
+      if (!entityType.properties.some(p => p.name === name)) {
+        errors.push(`${entitySet}: '${name}' is not a property of ${entityType.name}`);
+      }
+    }
+  }
+
+  return errors;
+}
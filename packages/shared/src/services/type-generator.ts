@@ -3,20 +3,56 @@
  * Converts OData metadata to TypeScript type definitions
  */
 
-import type { ODataEntityType, ODataEntity } from './metadata-parser';
+import type {
+  ODataEntityType,
+  ODataEntity,
+  ODataProperty,
+  ODataOperation,
+  ODataComplexType,
+  ODataEnumType,
+} from './metadata-parser';
 
 /**
- * Map OData Edm types to TypeScript types
+ * Context for mapping type references while generating a file
  */
-function mapEdmTypeToTypeScript(edmType: string): string {
+interface TypeScope {
+  /** Names with a generated interface or type alias */
+  knownTypes: Set<string>;
+  /** Types as produced by the SDK's `typeConversion` mode (Date objects, exact decimals) */
+  typeConversion: boolean;
+}
+
+const DEFAULT_SCOPE: TypeScope = { knownTypes: new Set(), typeConversion: false };
+
+/**
+ * TypeScript types of Edm types the SDK converts in `typeConversion` mode
+ * (Int64 arrives as string - the SDK asks v4 services for IEEE754Compatible=true)
+ */
+const CONVERTED_TYPES: Record<string, string> = {
+  'Edm.DateTime': 'Date',
+  'Edm.DateTimeOffset': 'Date',
+  'Edm.Date': 'Date',
+  'Edm.Decimal': 'Decimal',
+  'Edm.Int64': 'string',
+};
+
+/**
+ * Map OData Edm types to TypeScript types.
+ * Non-Edm types (complex, enum, entity) map to their interface name when one is generated, otherwise `any`.
+ */
+function mapEdmTypeToTypeScript(edmType: string, scope: TypeScope = DEFAULT_SCOPE): string {
   if (edmType.startsWith('Collection(') && edmType.endsWith(')')) {
     const innerType = edmType.slice(11, -1);
-    return `${mapEdmTypeToTypeScript(innerType)}[]`;
+    return `${mapEdmTypeToTypeScript(innerType, scope)}[]`;
   }
 
   if (edmType.includes('.') && !edmType.startsWith('Edm.')) {
-    const parts = edmType.split('.');
-    return parts[parts.length - 1] || 'any';
+    const typeName = sanitizeTypeName(shortTypeName(edmType));
+    return scope.knownTypes.has(typeName) ? typeName : 'any';
+  }
+
+  if (scope.typeConversion && CONVERTED_TYPES[edmType]) {
+    return CONVERTED_TYPES[edmType];
   }
 
   const typeMap: Record<string, string> = {
@@ -30,8 +66,10 @@ function mapEdmTypeToTypeScript(edmType: string): string {
     'Edm.Single': 'number',
     'Edm.Byte': 'number',
     'Edm.SByte': 'number',
+    'Edm.DateTime': 'string',
     'Edm.DateTimeOffset': 'string',
     'Edm.Date': 'string',
+    'Edm.Time': 'string',
     'Edm.TimeOfDay': 'string',
     'Edm.Duration': 'string',
     'Edm.Guid': 'string',
@@ -46,14 +84,22 @@ function sanitizeTypeName(name: string): string {
   return name.replace(/[^a-zA-Z0-9_]/g, '_');
 }
 
-function generateEntityInterface(entityType: ODataEntityType, allEntityTypes: ODataEntityType[]): string {
-  const interfaceName = sanitizeTypeName(entityType.name);
-  const lines: string[] = [];
+/**
+ * `Namespace.Name` → `Name` (also unwraps `Collection(...)`)
+ */
+function shortTypeName(edmType: string): string {
+  const innerType = edmType.startsWith('Collection(') ? edmType.slice(11, -1) : edmType;
+  return innerType.split('.').pop() || innerType;
+}
 
-  lines.push(`export interface ${interfaceName} {`);
+/**
+ * Interface members for structural properties, each with its OData type as doc comment
+ */
+function generatePropertyLines(properties: ODataProperty[], scope: TypeScope): string[] {
+  const lines: string[] = [];
 
-  for (const prop of entityType.properties) {
-    const tsType = mapEdmTypeToTypeScript(prop.type);
+  for (const prop of properties) {
+    const tsType = mapEdmTypeToTypeScript(prop.type, scope);
     const optional = prop.nullable ? '?' : '';
     const propName = sanitizeTypeName(prop.name);
 
@@ -70,6 +116,21 @@ function generateEntityInterface(entityType: ODataEntityType, allEntityTypes: OD
     lines.push(`  ${propName}${optional}: ${tsType};`);
   }
 
+  return lines;
+}
+
+function generateEntityInterface(
+  entityType: ODataEntityType,
+  allEntityTypes: ODataEntityType[],
+  scope: TypeScope
+): string {
+  const interfaceName = sanitizeTypeName(entityType.name);
+  const lines: string[] = [];
+
+  lines.push(`export interface ${interfaceName} {`);
+
+  lines.push(...generatePropertyLines(entityType.properties, scope));
+
   // Add navigation properties
   if (entityType.navigationProperties && entityType.navigationProperties.length > 0) {
     lines.push('');
@@ -109,7 +170,7 @@ function findTargetEntityType(targetName: string, allEntityTypes: ODataEntityTyp
   );
 }
 
-function generateCreateRequestType(entityType: ODataEntityType): string {
+function generateCreateRequestType(entityType: ODataEntityType, scope: TypeScope): string {
   const interfaceName = sanitizeTypeName(entityType.name);
   const requestName = `Create${interfaceName}Request`;
   const lines: string[] = [];
@@ -124,7 +185,7 @@ function generateCreateRequestType(entityType: ODataEntityType): string {
     lines.push('  // No non-key properties available');
   } else {
     for (const prop of nonKeyProperties) {
-      const tsType = mapEdmTypeToTypeScript(prop.type);
+      const tsType = mapEdmTypeToTypeScript(prop.type, scope);
       const propName = sanitizeTypeName(prop.name);
       lines.push(`  ${propName}?: ${tsType};`);
     }
@@ -135,7 +196,7 @@ function generateCreateRequestType(entityType: ODataEntityType): string {
   return lines.join('\n');
 }
 
-function generateUpdateRequestType(entityType: ODataEntityType): string {
+function generateUpdateRequestType(entityType: ODataEntityType, scope: TypeScope): string {
   const interfaceName = sanitizeTypeName(entityType.name);
   const requestName = `Update${interfaceName}Request`;
   const lines: string[] = [];
@@ -146,7 +207,7 @@ function generateUpdateRequestType(entityType: ODataEntityType): string {
     lines.push('  // No properties available');
   } else {
     for (const prop of entityType.properties) {
-      const tsType = mapEdmTypeToTypeScript(prop.type);
+      const tsType = mapEdmTypeToTypeScript(prop.type, scope);
       const propName = sanitizeTypeName(prop.name);
       lines.push(`  ${propName}?: ${tsType};`);
     }
@@ -157,25 +218,175 @@ function generateUpdateRequestType(entityType: ODataEntityType): string {
   return lines.join('\n');
 }
 
-function generateTypesForEntity(entityType: ODataEntityType, allEntityTypes: ODataEntityType[]): string {
+function generateTypesForEntity(
+  entityType: ODataEntityType,
+  allEntityTypes: ODataEntityType[],
+  scope: TypeScope
+): string {
   const parts: string[] = [];
 
-  parts.push(generateEntityInterface(entityType, allEntityTypes));
+  parts.push(generateEntityInterface(entityType, allEntityTypes, scope));
   parts.push('');
-  parts.push(generateCreateRequestType(entityType));
+  parts.push(generateCreateRequestType(entityType, scope));
   parts.push('');
-  parts.push(generateUpdateRequestType(entityType));
+  parts.push(generateUpdateRequestType(entityType, scope));
 
   return parts.join('\n');
 }
 
+function generateComplexInterface(complexType: ODataComplexType, scope: TypeScope): string {
+  const lines: string[] = [];
+
+  lines.push(`/** Complex type ${complexType.fullName} */`);
+  lines.push(`export interface ${sanitizeTypeName(complexType.name)} {`);
+  lines.push(...generatePropertyLines(complexType.properties, scope));
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Enum types become string-literal unions of their member names (the JSON representation).
+ * Flags enums also accept comma-separated combinations, e.g. `'Read,Write'`.
+ */
+function generateEnumType(enumType: ODataEnumType): string {
+  const typeName = sanitizeTypeName(enumType.name);
+  const members = enumType.members.map(m => `'${m.name.replace(/'/g, "\\'")}'`);
+  const union = members.length > 0 ? members.join(' | ') : 'string';
+  const values = enumType.members.map(m => `${m.name} = ${m.value}`).join(', ');
+  const lines: string[] = [];
+
+  lines.push(`/** ${enumType.isFlags ? 'Flags enum' : 'Enum'} ${enumType.fullName} (${enumType.underlyingType}): ${values} */`);
+  if (enumType.isFlags && members.length > 0) {
+    lines.push(`export type ${typeName} = ${union} | \`\${${union}},\${string}\`;`);
+  } else {
+    lines.push(`export type ${typeName} = ${union};`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Complex and enum types reachable from the given entity types and operations
+ * (services often declare many more than an API key can see)
+ */
+function collectReferencedTypes(
+  entityTypes: ODataEntityType[],
+  operations: ODataOperation[],
+  complexTypes: ODataComplexType[],
+  enumTypes: ODataEnumType[]
+): { complexTypes: ODataComplexType[]; enumTypes: ODataEnumType[] } {
+  const findType = <T extends { name: string; fullName: string }>(types: T[], ref: string): T | undefined => {
+    const innerType = ref.startsWith('Collection(') ? ref.slice(11, -1) : ref;
+    return types.find(t => t.fullName === innerType) ?? types.find(t => t.name === shortTypeName(innerType));
+  };
+
+  const usedComplex = new Set<ODataComplexType>();
+  const usedEnums = new Set<ODataEnumType>();
+  const pending: string[] = [
+    ...entityTypes.flatMap(et => et.properties.map(p => p.type)),
+    ...operations.flatMap(op => [...op.parameters.map(p => p.type), op.returnType ?? '']),
+  ];
+
+  while (pending.length > 0) {
+    const ref = pending.pop()!;
+    if (!ref || ref.startsWith('Edm.')) continue;
+
+    const enumType = findType(enumTypes, ref);
+    if (enumType) {
+      usedEnums.add(enumType);
+      continue;
+    }
+
+    const complexType = findType(complexTypes, ref);
+    if (complexType && !usedComplex.has(complexType)) {
+      usedComplex.add(complexType);
+      pending.push(...complexType.properties.map(p => p.type));
+    }
+  }
+
+  return {
+    complexTypes: complexTypes.filter(ct => usedComplex.has(ct)),
+    enumTypes: enumTypes.filter(et => usedEnums.has(et)),
+  };
+}
+
+/**
+ * Name of the generated parameters interface of an operation
+ * (bound operations are prefixed with their binding entity - names may repeat across types)
+ */
+function operationParamsName(operation: ODataOperation): string {
+  const prefix = operation.isBound && operation.bindingEntity ? `${sanitizeTypeName(operation.bindingEntity)}_` : '';
+  return `${prefix}${sanitizeTypeName(operation.name)}Params`;
+}
+
+/**
+ * Map an operation parameter or return type (no return type = `void`)
+ */
+function mapOperationType(edmType: string | undefined, scope: TypeScope): string {
+  return edmType ? mapEdmTypeToTypeScript(edmType, scope) : 'void';
+}
+
+function generateOperationParamsType(operation: ODataOperation, scope: TypeScope): string {
+  const lines: string[] = [];
+  const binding = operation.isBound ? ` (bound to ${operation.bindingEntity})` : '';
+
+  lines.push(`/** Parameters of ${operation.kind} ${operation.name}${binding} - ${operation.httpMethod} */`);
+  lines.push(`export interface ${operationParamsName(operation)} {`);
+
+  if (operation.parameters.length === 0) {
+    lines.push('  // No parameters');
+  }
+  for (const param of operation.parameters) {
+    const optional = param.nullable ? '?' : '';
+    lines.push(`  /** OData type: ${param.type} */`);
+    lines.push(`  ${sanitizeTypeName(param.name)}${optional}: ${mapOperationType(param.type, scope)};`);
+  }
+
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Operation signature entry, e.g. `{ kind: 'action'; method: 'POST'; params: ...; returns: ... }`
+ */
+function generateOperationSignature(operation: ODataOperation, scope: TypeScope): string {
+  return `${sanitizeTypeName(operation.name)}: { kind: '${operation.kind}'; method: '${operation.httpMethod}'; ` +
+    `params: ${operationParamsName(operation)}; returns: ${mapOperationType(operation.returnType, scope)} };`;
+}
+
+/**
+ * Generate the map of operations bound to an entity type (used as EntityHandler's second type argument)
+ */
+function generateBoundOperationsType(
+  entityType: ODataEntityType,
+  operations: ODataOperation[],
+  scope: TypeScope
+): string | null {
+  const bound = operations.filter(op => op.isBound && op.bindingEntity === entityType.name);
+  if (bound.length === 0) return null;
+
+  const lines: string[] = [];
+  lines.push(`/** Functions and actions bound to ${entityType.name} */`);
+  lines.push(`export interface ${sanitizeTypeName(entityType.name)}Operations {`);
+  for (const operation of bound) {
+    lines.push(`  ${generateOperationSignature(operation, scope)}`);
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
 /**
  * Generate module augmentation for S4KitClient with typed entity properties
  * This enables Prisma-like DX: client.Customers.list() with full type inference
  */
 function generateClientAugmentation(
   entityTypes: ODataEntityType[],
-  entities?: ODataEntity[]
+  entities: ODataEntity[] | undefined,
+  operations: ODataOperation[],
+  scope: TypeScope
 ): string {
   const lines: string[] = [];
 
@@ -184,12 +395,18 @@ function generateClientAugmentation(
   lines.push('// Import this file to enable: client.EntityName.list() with full type inference');
   lines.push('// ============================================================================');
   lines.push('');
-  lines.push("import type { EntityHandler } from 's4kit';");
+  lines.push(scope.typeConversion
+    ? "import type { EntityHandler, Decimal } from 's4kit';"
+    : "import type { EntityHandler } from 's4kit';");
   lines.push('');
   lines.push("declare module 's4kit' {");
   lines.push('  interface S4KitClient {');
 
   const generatedNames = new Set<string>();
+  const hasBoundOperations = (typeName: string) =>
+    operations.some(op => op.isBound && op.bindingEntity === typeName);
+  const handlerType = (interfaceName: string, typeName: string | null) =>
+    typeName && hasBoundOperations(typeName) ? `${interfaceName}, ${interfaceName}Operations` : interfaceName;
 
   if (entities && entities.length > 0) {
     for (const entity of entities) {
@@ -197,14 +414,16 @@ function generateClientAugmentation(
       generatedNames.add(entity.name);
 
       let interfaceName: string | null = null;
+      let typeName: string | null = null;
 
       if (entity.entityType) {
-        const typeName = entity.entityType.split('.').pop() || entity.entityType;
+        const shortName = entity.entityType.split('.').pop() || entity.entityType;
         const matchingType = entityTypes.find(et =>
-          et.name === typeName || et.fullName === entity.entityType
+          et.name === shortName || et.fullName === entity.entityType
         );
         if (matchingType) {
           interfaceName = sanitizeTypeName(matchingType.name);
+          typeName = matchingType.name;
         }
       }
 
@@ -217,6 +436,7 @@ function generateClientAugmentation(
         );
         if (matchingType) {
           interfaceName = sanitizeTypeName(matchingType.name);
+          typeName = matchingType.name;
         }
       }
 
@@ -224,18 +444,29 @@ function generateClientAugmentation(
         interfaceName = 'any';
       }
 
-      lines.push(`    ${entity.name}: EntityHandler<${interfaceName}>;`);
+      lines.push(`    ${entity.name}: EntityHandler<${handlerType(interfaceName, typeName)}>;`);
     }
   } else {
     for (const entityType of entityTypes) {
       const interfaceName = sanitizeTypeName(entityType.name);
       if (generatedNames.has(entityType.name)) continue;
       generatedNames.add(entityType.name);
-      lines.push(`    ${entityType.name}: EntityHandler<${interfaceName}>;`);
+      lines.push(`    ${entityType.name}: EntityHandler<${handlerType(interfaceName, entityType.name)}>;`);
     }
   }
 
   lines.push('  }');
+
+  const unbound = operations.filter(op => !op.isBound);
+  if (unbound.length > 0) {
+    lines.push('');
+    lines.push('  interface S4KitOperations {');
+    for (const operation of unbound) {
+      lines.push(`    ${generateOperationSignature(operation, scope)}`);
+    }
+    lines.push('  }');
+  }
+
   lines.push('}');
 
   return lines.join('\n');
@@ -248,6 +479,11 @@ export function generateTypeScriptFile(
     apiKeyName?: string;
     generatedAt?: Date;
     entities?: ODataEntity[];
+    operations?: ODataOperation[];
+    complexTypes?: ODataComplexType[];
+    enumTypes?: ODataEnumType[];
+    /** Emit `Date`/`Decimal` for date and decimal properties (SDK `typeConversion` mode) */
+    typeConversion?: boolean;
   }
 ): string {
   const lines: string[] = [];
@@ -264,10 +500,49 @@ export function generateTypeScriptFile(
   lines.push(' * ');
   lines.push(' * This file contains TypeScript type definitions for OData entities');
   lines.push(' * accessible via your API key. Use these types for type-safe API calls.');
+  if (options?.typeConversion) {
+    lines.push(' * ');
+    lines.push(' * Generated for typeConversion mode: dates are Date objects, decimals are Decimal.');
+  }
   lines.push(' */');
   lines.push('');
 
   const generatedTypes = new Set<string>();
+  const operations = dedupeOperations(options?.operations ?? []);
+  const referenced = collectReferencedTypes(
+    entityTypes,
+    operations,
+    options?.complexTypes ?? [],
+    options?.enumTypes ?? []
+  );
+
+  const scope: TypeScope = {
+    // Everything a non-Edm type reference may resolve to
+    knownTypes: new Set<string>([
+      ...entityTypes.map(et => sanitizeTypeName(et.name)),
+      ...referenced.complexTypes.map(ct => sanitizeTypeName(ct.name)),
+      ...referenced.enumTypes.map(et => sanitizeTypeName(et.name)),
+    ]),
+    typeConversion: options?.typeConversion ?? false,
+  };
+
+  for (const enumType of referenced.enumTypes) {
+    const typeName = sanitizeTypeName(enumType.name);
+    if (generatedTypes.has(typeName)) continue;
+    generatedTypes.add(typeName);
+
+    lines.push(generateEnumType(enumType));
+    lines.push('');
+  }
+
+  for (const complexType of referenced.complexTypes) {
+    const typeName = sanitizeTypeName(complexType.name);
+    if (generatedTypes.has(typeName)) continue;
+    generatedTypes.add(typeName);
+
+    lines.push(generateComplexInterface(complexType, scope));
+    lines.push('');
+  }
 
   for (const entityType of entityTypes) {
     const interfaceName = sanitizeTypeName(entityType.name);
@@ -277,7 +552,24 @@ export function generateTypeScriptFile(
     }
 
     generatedTypes.add(interfaceName);
-    lines.push(generateTypesForEntity(entityType, entityTypes));
+    lines.push(generateTypesForEntity(entityType, entityTypes, scope));
+    lines.push('');
+
+    const boundOperations = generateBoundOperationsType(entityType, operations, scope);
+    if (boundOperations) {
+      lines.push(boundOperations);
+      lines.push('');
+    }
+  }
+
+  const generatedParams = new Set<string>();
+  for (const operation of operations) {
+    // v4 overloads share a name - the first definition wins
+    const paramsName = operationParamsName(operation);
+    if (generatedParams.has(paramsName)) continue;
+    generatedParams.add(paramsName);
+
+    lines.push(generateOperationParamsType(operation, scope));
     lines.push('');
   }
 
@@ -288,7 +580,7 @@ export function generateTypeScriptFile(
   lines.push('');
   lines.push('');
 
-  lines.push(generateClientAugmentation(entityTypes, options?.entities));
+  lines.push(generateClientAugmentation(entityTypes, options?.entities, operations, scope));
   lines.push('');
 
   return lines.join('\n').trimEnd();
@@ -314,3 +606,161 @@ export function filterEntityTypes(
     return matchesName;
   });
 }
+
+/**
+ * Whether permissions allow calling an operation - the proxy's rule: `execute` (every operation
+ * of the entity set, the operation name for unbound ones) or `execute:<Name>`, also through `*`
+ */
+function canExecute(permissions: Record<string, string[]>, entityName: string, operationName: string): boolean {
+  return [permissions[entityName], permissions['*']].some(granted =>
+    !!granted && (granted.includes('*') || granted.includes('execute') || granted.includes(`execute:${operationName}`))
+  );
+}
+
+/**
+ * Keep operations the permissions allow calling - bound ones only when their binding
+ * entity type is accessible and one of its entity sets grants execute
+ */
+export function filterOperations(
+  operations: ODataOperation[],
+  entityTypes: ODataEntityType[],
+  permissions: Record<string, string[]>,
+  entities: ODataEntity[] = []
+): ODataOperation[] {
+  return operations.filter(op => {
+    if (!op.isBound) return canExecute(permissions, op.name, op.name);
+    if (!entityTypes.some(et => et.name === op.bindingEntity)) return false;
+
+    const entitySets = entities
+      .filter(e => (e.entityType?.split('.').pop() || e.entityType) === op.bindingEntity)
+      .map(e => e.name);
+    return [...entitySets, op.bindingEntity!].some(entitySet => canExecute(permissions, entitySet, op.name));
+  });
+}
+
+/**
+ * One operation per name and binding entity (v4 overloads differ only in parameters)
+ */
+function dedupeOperations(operations: ODataOperation[]): ODataOperation[] {
+  const seen = new Set<string>();
+  return operations.filter(op => {
+    const key = `${op.isBound ? op.bindingEntity : ''}/${op.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Entry of the SDK's operation manifest (mirrors the SDK's OperationMetadata)
+ */
+export interface OperationManifestEntry {
+  kind: 'function' | 'action';
+  method: 'GET' | 'POST';
+  queryParameters?: true;
+}
+
+/**
+ * Runtime operation metadata for the SDK (`S4Kit({ operations })`), so it can pick
+ * the HTTP verb and where parameters go from metadata. Keys are the operation name
+ * for unbound operations and `EntitySet/Name` for bound ones.
+ */
+export function generateOperationManifest(
+  operations: ODataOperation[],
+  entities: ODataEntity[] = []
+): Record<string, OperationManifestEntry> {
+  const manifest: Record<string, OperationManifestEntry> = {};
+
+  for (const op of dedupeOperations(operations)) {
+    const entry: OperationManifestEntry = op.queryParameters
+      ? { kind: op.kind, method: op.httpMethod, queryParameters: true }
+      : { kind: op.kind, method: op.httpMethod };
+
+    if (!op.isBound) {
+      manifest[op.name] = entry;
+      continue;
+    }
+
+    const entitySets = entities.filter(e => (e.entityType?.split('.').pop() || e.entityType) === op.bindingEntity);
+    for (const entitySet of entitySets) {
+      manifest[`${entitySet.name}/${op.name}`] = entry;
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Edm types of the properties the SDK converts in `typeConversion` mode (dates, decimals, Int64),
+ * plus complex and navigation properties to reach nested ones and the key properties
+ * of entity types (used by the SDK's mock client)
+ */
+export interface FieldTypeManifest {
+  /** Entity set → structured type name */
+  entitySets: Record<string, string>;
+  types: Record<string, {
+    odataVersion: 'v2' | 'v4';
+    properties: Record<string, string>;
+    navigation: Record<string, string>;
+    keys?: Record<string, string>;
+  }>;
+}
+
+/**
+ * Build the field type manifest of one service (`S4Kit({ typeConversion: { fields } })`).
+ * Manifests of several services can be merged key by key.
+ */
+export function generateFieldTypeManifest(
+  entityTypes: ODataEntityType[],
+  options: {
+    entities?: ODataEntity[];
+    complexTypes?: ODataComplexType[];
+    odataVersion?: 'v2' | 'v4';
+  } = {}
+): FieldTypeManifest {
+  const complexTypes = options.complexTypes ?? [];
+  const odataVersion = options.odataVersion ?? 'v4';
+  const manifest: FieldTypeManifest = { entitySets: {}, types: {} };
+
+  const isComplex = (edmType: string) => complexTypes.some(ct => ct.name === shortTypeName(edmType));
+  const isRelevant = (edmType: string) => {
+    const innerType = edmType.startsWith('Collection(') ? edmType.slice(11, -1) : edmType;
+    return CONVERTED_TYPES[innerType] !== undefined || isComplex(innerType);
+  };
+  const propertiesOf = (properties: ODataProperty[]) => Object.fromEntries(
+    properties.filter(p => isRelevant(p.type)).map(p => [p.name, p.type])
+  );
+
+  for (const complexType of complexTypes) {
+    manifest.types[complexType.name] = {
+      odataVersion,
+      properties: propertiesOf(complexType.properties),
+      navigation: {},
+    };
+  }
+
+  for (const entityType of entityTypes) {
+    manifest.types[entityType.name] = {
+      odataVersion,
+      properties: propertiesOf(entityType.properties),
+      navigation: Object.fromEntries(
+        entityType.navigationProperties.map(np => [np.name, np.targetEntity])
+      ),
+      keys: Object.fromEntries(
+        entityType.keyProperties.map(key => [
+          key,
+          entityType.properties.find(p => p.name === key)?.type ?? 'Edm.String',
+        ])
+      ),
+    };
+  }
+
+  for (const entity of options.entities ?? []) {
+    const typeName = entity.entityType ? shortTypeName(entity.entityType) : undefined;
+    if (typeName && manifest.types[typeName]) {
+      manifest.entitySets[entity.name] = typeName;
+    }
+  }
+
+  return manifest;
+}
@@ -21,8 +21,28 @@ export type ApiKeyAccessGrant = InferSelectModel<typeof apiKeyAccess>;
 export type PredefinedService = InferSelectModel<typeof predefinedServices>;
 
 // Entity-level permissions: { "A_BusinessPartner": ["read"], "A_SalesOrder": ["create", "read", "update", "delete"] }
+// Functions/actions need "execute" (all operations of the entity set) or "execute:<Name>";
+// unbound ones are granted under their own name: { "ReleaseSalesOrder": ["execute"] }
 export type EntityPermissions = Record<string, string[]>;
 
+// Row-level filters: mandatory filter expression per entity set, { "A_JournalEntry": "CompanyCode eq '1010'" }
+export type RowFilters = Record<string, string>;
+
+// Field-level permissions of one entity set. Fields outside `allow` (when given) or in `deny`
+// are hidden; `readOnly` fields are returned but can't be written
+export interface EntityFieldPermissions {
+  allow?: string[];
+  deny?: string[];
+  readOnly?: string[];
+}
+
+// Field-level permissions per entity set, { "A_BusinessPartner": { "deny": ["TaxNumber1"] } }
+export type FieldPermissions = Record<string, EntityFieldPermissions>;
+
+// Request log detail: 'minimal' keeps counts and status, 'extended' adds the query string
+// and SAP correlation headers to the 'standard' entry
+export type LogLevel = NonNullable<ApiKey['logLevel']>;
+
 // Error categories for structured error logging
 export type ErrorCategory = 'auth' | 'permission' | 'validation' | 'server' | 'network' | 'timeout';
 
@@ -30,7 +50,7 @@ export type ErrorCategory = 'auth' | 'permission' | 'validation' | 'server' | 'n
 export type SecureLogData = {
   // Entity context
   entity?: string;
-  operation?: 'read' | 'create' | 'update' | 'delete';
+  operation?: 'read' | 'create' | 'update' | 'delete' | 'execute';
 
   // Performance
   sapResponseTime?: number;
@@ -49,6 +69,10 @@ export type SecureLogData = {
   requestId: string;
   clientIpHash?: string;
   userAgent?: string;
+
+  // Extended log level only - stored sanitized
+  query?: Record<string, string>;  // Query options sent to SAP
+  sapHeaders?: Record<string, string>;  // SAP correlation headers of the response
 };
 
 // Hono context variables for proxy routes
@@ -58,6 +82,8 @@ export type ProxyVariables = {
   systemService: SystemService;
   instanceService: InstanceService;
   entityPermissions: EntityPermissions;
+  rowFilters: RowFilters;
+  fieldPermissions: FieldPermissions;
   // Secure request logging data - no body storage
   logData?: SecureLogData;
 };
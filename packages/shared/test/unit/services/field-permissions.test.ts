@@ -0,0 +1,88 @@
+/**
+ * Unit tests for field-level permissions
+ *
+ * Tests which fields are hidden or read-only, and how hidden fields are removed
+ * from response data and generated entity types.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  isFieldHidden,
+  isFieldReadOnly,
+  maskFields,
+  applyFieldPermissions,
+} from '../../../src/services/field-permissions.ts';
+import type { NavigationMap } from '../../../src/services/navigation.ts';
+import type { ODataEntity, ODataEntityType } from '../../../src/services/metadata-parser.ts';
+
+const navigation: NavigationMap = {
+  A_BusinessPartner: { to_Address: ['A_Address'], to_Bank: ['A_Bank'] },
+  A_Address: {},
+  A_Bank: {},
+};
+
+const fieldPermissions = {
+  A_BusinessPartner: { deny: ['TaxNumber1'], readOnly: ['Category'] },
+  A_Address: { allow: ['City', 'Country'] },
+};
+
+describe('isFieldHidden / isFieldReadOnly', () => {
+  test('hides denied fields and fields outside the allowlist', () => {
+    expect(isFieldHidden(fieldPermissions.A_BusinessPartner, 'TaxNumber1')).toBe(true);
+    expect(isFieldHidden(fieldPermissions.A_BusinessPartner, 'Name')).toBe(false);
+    expect(isFieldHidden(fieldPermissions.A_Address, 'Street')).toBe(true);
+    expect(isFieldHidden(undefined, 'Street')).toBe(false);
+  });
+
+  test('treats hidden fields as read-only', () => {
+    expect(isFieldReadOnly(fieldPermissions.A_BusinessPartner, 'Category')).toBe(true);
+    expect(isFieldReadOnly(fieldPermissions.A_BusinessPartner, 'TaxNumber1')).toBe(true);
+    expect(isFieldReadOnly(fieldPermissions.A_BusinessPartner, 'Name')).toBe(false);
+  });
+});
+
+describe('maskFields', () => {
+  test('removes hidden fields and their annotations from lists', () => {
+    expect(maskFields(fieldPermissions, navigation, ['A_BusinessPartner'], [
+      { Name: 'ACME', TaxNumber1: 'DE123', 'TaxNumber1@odata.type': '#String', '@odata.etag': 'W/"1"' },
+    ])).toEqual([{ Name: 'ACME', '@odata.etag': 'W/"1"' }]);
+  });
+
+  test('applies the permissions of expanded entity sets, v4 and v2', () => {
+    const masked = maskFields(fieldPermissions, navigation, ['A_BusinessPartner'], {
+      Name: 'ACME',
+      to_Address: [{ City: 'Berlin', Street: 'Main St' }],
+      to_Bank: { results: [{ IBAN: 'DE00', TaxNumber1: 'kept' }] },
+    });
+
+    expect(masked).toEqual({
+      Name: 'ACME',
+      to_Address: [{ City: 'Berlin' }],
+      to_Bank: { results: [{ IBAN: 'DE00', TaxNumber1: 'kept' }] },
+    });
+  });
+
+  test('hides a field if any of the entity sets hides it', () => {
+    expect(maskFields(fieldPermissions, navigation, ['A_BusinessPartner', 'A_Address'], { City: 'Berlin', Name: 'ACME' }))
+      .toEqual({ City: 'Berlin' });
+  });
+});
+
+describe('applyFieldPermissions', () => {
+  test('drops hidden properties from entity types used by restricted entity sets', () => {
+    const property = (name: string) => ({ name, type: 'Edm.String', nullable: true });
+    const entityTypes = [
+      { name: 'A_BusinessPartnerType', fullName: 'API.A_BusinessPartnerType', properties: ['Name', 'TaxNumber1'].map(property) },
+      { name: 'A_BankType', fullName: 'API.A_BankType', properties: ['IBAN'].map(property) },
+    ] as unknown as ODataEntityType[];
+    const entities = [
+      { name: 'A_BusinessPartner', entityType: 'API.A_BusinessPartnerType' },
+      { name: 'A_Bank', entityType: 'API.A_BankType' },
+    ] as unknown as ODataEntity[];
+
+    const [partner, bank] = applyFieldPermissions(entityTypes, entities, fieldPermissions);
+
+    expect(partner!.properties.map(p => p.name)).toEqual(['Name']);
+    expect(bank).toBe(entityTypes[1]!);
+  });
+});
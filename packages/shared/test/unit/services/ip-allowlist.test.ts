@@ -0,0 +1,64 @@
+/**
+ * Unit tests for IP allowlists
+ *
+ * Tests parsing of IPv4 and IPv6 CIDR ranges and matching client addresses
+ * against them, IPv4-mapped IPv6 addresses included.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseCidr, isValidCidr, isIpAllowed } from '../../../src/services/ip-allowlist.ts';
+
+describe('parseCidr', () => {
+  test('treats plain addresses as single-host ranges', () => {
+    expect(parseCidr('203.0.113.7')).toEqual({ version: 4, value: 0xcb007107n, prefix: 32 });
+    expect(parseCidr('2001:db8::1')).toEqual({ version: 6, value: 0x20010db8000000000000000000000001n, prefix: 128 });
+  });
+
+  test('reads IPv4-mapped ranges as IPv4 with a relative prefix', () => {
+    expect(parseCidr('::ffff:10.0.0.0/104')).toEqual({ version: 4, value: 0x0a000000n, prefix: 8 });
+  });
+
+  test.each([
+    '10.0.0.0/33',
+    '2001:db8::/129',
+    '10.0.0.0/-1',
+    '10.0.0.0/8/8',
+    '10.0.0.0/',
+    '::ffff:10.0.0.0/95',
+    '256.0.0.1',
+    '10.0.0',
+    '2001:db8::1::2',
+    '2001:db8:0:0:0:0:0:0:1',
+    'example.com',
+    '',
+  ])('rejects %s', (cidr) => {
+    expect(parseCidr(cidr)).toBeNull();
+    expect(isValidCidr(cidr)).toBe(false);
+  });
+});
+
+describe('isIpAllowed', () => {
+  test('matches IPv4 addresses within a range', () => {
+    expect(isIpAllowed('10.20.30.40', ['10.20.0.0/16'])).toBe(true);
+    expect(isIpAllowed('10.21.0.1', ['10.20.0.0/16'])).toBe(false);
+    expect(isIpAllowed('203.0.113.7', ['0.0.0.0/0'])).toBe(true);
+  });
+
+  test('matches IPv6 addresses, compressed or not', () => {
+    expect(isIpAllowed('2001:0db8:0000:0000:0000:0000:0000:0001', ['2001:db8::/32'])).toBe(true);
+    expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+    expect(isIpAllowed('fe80::1%eth0', ['fe80::/10'])).toBe(true);
+  });
+
+  test('matches IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    expect(isIpAllowed('::ffff:10.20.30.40', ['10.20.0.0/16'])).toBe(true);
+    expect(isIpAllowed('10.20.30.40', ['::ffff:10.20.0.0/112'])).toBe(true);
+  });
+
+  test('never matches across versions, invalid ranges or invalid addresses', () => {
+    expect(isIpAllowed('10.0.0.1', ['::/0'])).toBe(false);
+    expect(isIpAllowed('10.0.0.1', ['10.0.0.0/33'])).toBe(false);
+    expect(isIpAllowed('not-an-ip', ['0.0.0.0/0'])).toBe(false);
+    expect(isIpAllowed('10.0.0.1', [])).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for request resolution against service metadata
+ *
+ * Tests how resource paths, $expand options and query expressions are mapped
+ * to the entity sets they reach through navigation properties.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  splitResourcePath,
+  parseExpandPaths,
+  parseExpressionPaths,
+  queryNavigates,
+  resolveNavigationTargets,
+  resolveQueryTargets,
+  resolveOperationCall,
+  type NavigationMap,
+  type OperationMap,
+} from '../../../src/services/navigation.ts';
+
+const navigation: NavigationMap = {
+  A_SalesOrder: { to_Item: ['A_SalesOrderItem'], to_Partner: ['A_BusinessPartner'] },
+  A_SalesOrderItem: { to_SalesOrder: ['A_SalesOrder'], to_Product: ['A_Product'] },
+  A_BusinessPartner: { to_Address: ['A_Address', 'A_AddressArchive'] },
+  A_Product: {},
+};
+
+/** Targets as `via:path → entity sets`, for compact expectations */
+function describeTargets(targets: Array<{ via: string; path: string; entitySets: string[] }>): string[] {
+  return targets.map(target => `${target.via}:${target.path} → ${target.entitySets.join('|')}`);
+}
+
+describe('splitResourcePath', () => {
+  test('splits segments and key predicates', () => {
+    expect(splitResourcePath("A_SalesOrder('1')/to_Item")).toEqual([
+      { name: 'A_SalesOrder', key: "'1'" },
+      { name: 'to_Item' },
+    ]);
+  });
+
+  test('keeps composite keys and slashes inside literals together', () => {
+    expect(splitResourcePath("A_SalesOrderItem(SalesOrder='1',SalesOrderItem='10/A')/to_Product")).toEqual([
+      { name: 'A_SalesOrderItem', key: "SalesOrder='1',SalesOrderItem='10/A'" },
+      { name: 'to_Product' },
+    ]);
+  });
+});
+
+describe('parseExpandPaths', () => {
+  test('includes nested v4 expands', () => {
+    expect(parseExpandPaths('to_Item($expand=to_Product;$select=Material),to_Partner')).toEqual([
+      ['to_Item'],
+      ['to_Item', 'to_Product'],
+      ['to_Partner'],
+    ]);
+  });
+
+  test('expands every prefix of a v2 path', () => {
+    expect(parseExpandPaths('to_Item/to_Product')).toEqual([['to_Item'], ['to_Item', 'to_Product']]);
+  });
+
+  test('keeps the * wildcard and skips type casts and $ref', () => {
+    expect(parseExpandPaths('*,to_Item/API.Item,to_Partner/$ref')).toEqual([['*'], ['to_Item'], ['to_Partner']]);
+  });
+});
+
+describe('parseExpressionPaths', () => {
+  test('finds property paths, not keywords, functions or literals', () => {
+    expect(parseExpressionPaths("contains(to_Partner/Name,'to_Item/x') and Amount gt 10 or Status eq null")).toEqual([
+      ['to_Partner', 'Name'],
+      ['Amount'],
+      ['Status'],
+    ]);
+  });
+
+  test('resolves lambda variables to the collection they iterate', () => {
+    expect(parseExpressionPaths('to_Item/any(i: i/to_Product/Weight gt 1)')).toEqual([
+      ['to_Item'],
+      ['to_Item', 'to_Product', 'Weight'],
+    ]);
+  });
+
+  test('scopes lambda variables to their lambda', () => {
+    expect(parseExpressionPaths('to_Item/any(x: x/Quantity gt 1) and to_Partner/any(x: x/to_Address/City eq \'A\')')).toEqual([
+      ['to_Item'],
+      ['to_Item', 'Quantity'],
+      ['to_Partner'],
+      ['to_Partner', 'to_Address', 'City'],
+    ]);
+  });
+
+  test('resolves nested lambdas through the outer variable', () => {
+    expect(parseExpressionPaths('to_Item/all(i: i/to_Product/to_Plant/any(p: p/Plant eq \'1010\'))')).toEqual([
+      ['to_Item'],
+      ['to_Item', 'to_Product', 'to_Plant'],
+      ['to_Item', 'to_Product', 'to_Plant', 'Plant'],
+    ]);
+  });
+
+  test('reads $orderby items without their direction', () => {
+    expect(parseExpressionPaths('to_Partner/Name desc,Amount')).toEqual([['to_Partner', 'Name'], ['Amount']]);
+  });
+});
+
+describe('queryNavigates', () => {
+  test('detects navigation in expression options', () => {
+    expect(queryNavigates({ $filter: 'to_Partner/Name eq \'A\'' })).toBe(true);
+    expect(queryNavigates({ $orderby: 'to_Partner/Name' })).toBe(true);
+    expect(queryNavigates({ $apply: 'groupby((to_Partner/Country))' })).toBe(true);
+  });
+
+  test('ignores slashes in literals and other options', () => {
+    expect(queryNavigates({ $filter: "Path eq 'a/b'", $select: 'to_Partner/Name' })).toBe(false);
+  });
+});
+
+describe('resolveNavigationTargets', () => {
+  test('follows the resource path and marks its last segment', () => {
+    const targets = resolveNavigationTargets(navigation, "A_SalesOrder('1')/to_Item(SalesOrder='1',SalesOrderItem='10')/to_Product");
+
+    expect(describeTargets(targets)).toEqual([
+      'path:to_Item → A_SalesOrderItem',
+      'path:to_Item/to_Product → A_Product',
+    ]);
+    expect(targets.map(target => target.final ?? false)).toEqual([false, true]);
+  });
+
+  test('stops at structural properties', () => {
+    expect(resolveNavigationTargets(navigation, "A_SalesOrder('1')/to_Partner/Name/$value")).toHaveLength(1);
+  });
+
+  test('resolves $expand from the end of the path', () => {
+    expect(describeTargets(resolveNavigationTargets(navigation, "A_SalesOrder('1')/to_Item", 'to_Product'))).toEqual([
+      'path:to_Item → A_SalesOrderItem',
+      'expand:to_Product → A_Product',
+    ]);
+  });
+
+  test('lists every candidate of an unbound navigation property', () => {
+    expect(describeTargets(resolveNavigationTargets(navigation, "A_BusinessPartner('1')/to_Address"))).toEqual([
+      'path:to_Address → A_Address|A_AddressArchive',
+    ]);
+  });
+
+  test('expands * to every navigation property', () => {
+    expect(describeTargets(resolveNavigationTargets(navigation, 'A_SalesOrder', '*'))).toEqual([
+      'expand:* → A_SalesOrderItem|A_BusinessPartner',
+    ]);
+  });
+});
+
+describe('resolveQueryTargets', () => {
+  test('resolves navigation in $filter lambdas and $orderby', () => {
+    const targets = resolveQueryTargets(navigation, ['A_SalesOrder'], {
+      $filter: 'to_Partner/any(p: p/CreditLimit gt 1000)',
+      $orderby: 'to_Item/to_Product/Weight',
+    });
+
+    expect(describeTargets(targets)).toEqual([
+      'filter:to_Partner → A_BusinessPartner',
+      'orderby:to_Item → A_SalesOrderItem',
+      'orderby:to_Item/to_Product → A_Product',
+    ]);
+  });
+
+  test('resolves expressions nested in $expand from the expanded entity set', () => {
+    const targets = resolveQueryTargets(navigation, ['A_SalesOrder'], {
+      $expand: "to_Item($filter=to_Product/Weight gt 1;$expand=to_SalesOrder($orderby=to_Partner/Name))",
+    });
+
+    expect(describeTargets(targets)).toEqual([
+      'expand:to_Item → A_SalesOrderItem',
+      'expand:to_Item/to_SalesOrder → A_SalesOrder',
+      'filter:to_Item → A_SalesOrderItem',
+      'filter:to_Item/to_Product → A_Product',
+      'orderby:to_Item → A_SalesOrderItem',
+      'orderby:to_Item/to_SalesOrder → A_SalesOrder',
+      'orderby:to_Item/to_SalesOrder/to_Partner → A_BusinessPartner',
+    ]);
+  });
+
+  test('ignores options that only use properties', () => {
+    expect(resolveQueryTargets(navigation, ['A_SalesOrder'], { $filter: "Amount gt 10", $select: 'to_Partner' })).toEqual([]);
+  });
+});
+
+describe('resolveOperationCall', () => {
+  const operations: OperationMap = {
+    unbound: { GetOpenOrders: ['A_SalesOrder'] },
+    bound: { A_SalesOrder: { Release: [] }, A_SalesOrderItem: { Reject: ['A_SalesOrderItem'] } },
+  };
+
+  test('recognizes unbound operations with and without parameters', () => {
+    expect(resolveOperationCall(operations, navigation, 'GetOpenOrders')).toEqual({
+      name: 'GetOpenOrders', entity: 'GetOpenOrders', bound: false, returns: ['A_SalesOrder'],
+    });
+    expect(resolveOperationCall(operations, navigation, "GetOpenOrders(Plant='1010')")?.name).toBe('GetOpenOrders');
+  });
+
+  test('recognizes unbound operations called below an entity set', () => {
+    expect(resolveOperationCall(operations, navigation, 'A_SalesOrder/GetOpenOrders')).toEqual({
+      name: 'GetOpenOrders', entity: 'GetOpenOrders', bound: false, returns: ['A_SalesOrder'],
+    });
+    expect(resolveOperationCall(operations, navigation, "A_SalesOrder('1')/GetOpenOrders")).toBeNull();
+  });
+
+  test('recognizes bound operations with a namespace qualifier', () => {
+    expect(resolveOperationCall(operations, navigation, "A_SalesOrder('1')/API.Release")).toEqual({
+      name: 'Release', entity: 'A_SalesOrder', bound: true, bindingPath: "A_SalesOrder('1')", returns: [],
+    });
+  });
+
+  test('binds operations after navigation to the entity set the path leads to', () => {
+    expect(resolveOperationCall(operations, navigation, "A_SalesOrder('1')/to_Item/Reject")).toMatchObject({
+      name: 'Reject', entity: 'A_SalesOrderItem', bindingPath: "A_SalesOrder('1')/to_Item",
+    });
+  });
+
+  test('returns null for paths that address data', () => {
+    expect(resolveOperationCall(operations, navigation, 'A_SalesOrder')).toBeNull();
+    expect(resolveOperationCall(operations, navigation, "A_SalesOrder('1')/to_Item")).toBeNull();
+    expect(resolveOperationCall(operations, navigation, "A_SalesOrder('1')/Reject")).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for OData utilities
+ *
+ * Tests continuation tokens (signed server-driven paging links) and the
+ * v4 to v2 query option translation.
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+process.env.ENCRYPTION_KEY ??= '0'.repeat(64);
+const { encodeContinuationToken, decodeContinuationToken, toODataV2Params } = await import('../../../src/services/odata.ts');
+
+describe('continuation tokens', () => {
+  const nextLink = "https://sap.example.com/sap/opu/odata4/API_SALES_ORDER/A_SalesOrder?$filter=Customer%20eq%20'A'&$skiptoken=20";
+
+  test('round-trips the query of a nextLink', () => {
+    const token = encodeContinuationToken(nextLink);
+
+    expect(decodeContinuationToken(token)).toEqual({ $filter: "Customer eq 'A'", $skiptoken: '20' });
+  });
+
+  test('does not carry the host or entity path', () => {
+    const token = encodeContinuationToken(nextLink);
+
+    expect(Buffer.from(token.split('.')[0]!, 'base64url').toString('utf8')).not.toContain('sap.example.com');
+  });
+
+  test('rejects a token whose query was altered', () => {
+    const [, signature] = encodeContinuationToken(nextLink).split('.');
+    const forged = Buffer.from('$apply=groupby((Customer))&$skiptoken=20', 'utf8').toString('base64url');
+
+    expect(decodeContinuationToken(`${forged}.${signature}`)).toBeUndefined();
+  });
+
+  test('rejects an unsigned token', () => {
+    const unsigned = Buffer.from('$skiptoken=20', 'utf8').toString('base64url');
+
+    expect(decodeContinuationToken(unsigned)).toBeUndefined();
+  });
+
+  test('rejects a token with a wrong signature', () => {
+    const [payload] = encodeContinuationToken(nextLink).split('.');
+
+    expect(decodeContinuationToken(`${payload}.${'A'.repeat(43)}`)).toBeUndefined();
+  });
+
+  test.each(['', '.', 'not a token', 'abc.def.ghi'])('rejects malformed token %p', (token) => {
+    expect(decodeContinuationToken(token)).toBeUndefined();
+  });
+});
+
+describe('toODataV2Params', () => {
+  test('maps $count to $inlinecount', () => {
+    expect(toODataV2Params({ $count: 'true', $top: '10' }, 'SRV')).toEqual({
+      params: { $top: '10', $inlinecount: 'allpages' },
+    });
+  });
+
+  test('passes other options through in a new object', () => {
+    const params = { $inlinecount: 'allpages', $skiptoken: '20' };
+    const translated = toODataV2Params(params, 'SRV');
+
+    expect(translated).toEqual({ params });
+    // Callers clear their own params before copying the translated ones back
+    expect('params' in translated && translated.params).not.toBe(params);
+  });
+
+  test('rejects $apply', () => {
+    expect(toODataV2Params({ $apply: 'groupby((Customer))' }, 'SRV')).toMatchObject({
+      error: { code: 'APPLY_NOT_SUPPORTED' },
+    });
+  });
+
+  test('rejects lambda operators, but not inside literals', () => {
+    expect(toODataV2Params({ $filter: 'Items/any(i: i/Qty gt 1)' }, 'SRV')).toMatchObject({
+      error: { code: 'LAMBDA_NOT_SUPPORTED' },
+    });
+    expect(toODataV2Params({ $filter: "Note eq 'x/any(y)'" }, 'SRV')).toHaveProperty('params');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for row-level filters
+ *
+ * Tests parsing of row filter expressions, their evaluation against records,
+ * and how they are combined with client filters, $apply and key predicates.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  parseRowFilter,
+  rowFilterProperties,
+  evaluateRowFilter,
+  combineFilters,
+  restrictApply,
+  filterSyntaxError,
+  keyPredicateFilter,
+  type RowFilterNode,
+} from '../../../src/services/row-filter.ts';
+
+function parse(expression: string): RowFilterNode {
+  const parsed = parseRowFilter(expression);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.filter;
+}
+
+describe('parseRowFilter', () => {
+  test('binds and tighter than or, and honors parentheses and not', () => {
+    expect(parse("A eq 1 or B eq 2 and not (C eq 'x''y')")).toEqual({
+      type: 'or',
+      left: { type: 'compare', operator: 'eq', property: 'A', value: 1 },
+      right: {
+        type: 'and',
+        left: { type: 'compare', operator: 'eq', property: 'B', value: 2 },
+        right: { type: 'not', operand: { type: 'compare', operator: 'eq', property: 'C', value: "x'y" } },
+      },
+    });
+  });
+
+  test('reads boolean, null and v2 number literals', () => {
+    expect(parse('Blocked eq false and Deleted ne null and Amount gt 10.5M')).toMatchObject({
+      left: { left: { value: false }, right: { value: null } },
+      right: { value: 10.5 },
+    });
+  });
+
+  test.each([
+    ["contains(Name,'A')", "Functions like 'contains()' are not supported in row filters"],
+    ["Name eq 'A", 'Unterminated string literal at position 9'],
+    ['(A eq 1', 'Missing closing parenthesis'],
+    ['A eq 1) or (true', 'Unexpected input after the end of the expression'],
+    ['A eq B', "Expected a literal value after 'A eq'"],
+    ['', 'Row filter is empty'],
+  ])('rejects %s', (expression, error) => {
+    expect(parseRowFilter(expression)).toEqual({ error });
+  });
+
+  test('lists the compared properties once', () => {
+    expect(rowFilterProperties(parse("A eq 1 or (A eq 2 and Address/Country eq 'DE')"))).toEqual(['A', 'Address/Country']);
+  });
+});
+
+describe('evaluateRowFilter', () => {
+  const filter = parse("CompanyCode eq '1010' and not (Blocked eq true)");
+
+  test('matches records by their properties', () => {
+    expect(evaluateRowFilter(filter, { CompanyCode: '1010', Blocked: false })).toBe(true);
+    expect(evaluateRowFilter(filter, { CompanyCode: '1020', Blocked: false })).toBe(false);
+  });
+
+  test('follows three-valued logic for missing properties', () => {
+    expect(evaluateRowFilter(filter, { CompanyCode: '1010' })).toBeUndefined();
+    expect(evaluateRowFilter(filter, { CompanyCode: '1020' })).toBe(false);
+    expect(evaluateRowFilter(parse("A eq 1 or B eq 2"), { B: 2 })).toBe(true);
+    expect(evaluateRowFilter(parse("not (A eq 1)"), {})).toBeUndefined();
+  });
+
+  test('compares numbers sent as strings as numbers', () => {
+    expect(evaluateRowFilter(parse('Amount le 100'), { Amount: '99.50' })).toBe(true);
+    expect(evaluateRowFilter(parse('Amount le 100'), { Amount: 'n/a' })).toBeUndefined();
+  });
+
+  test('follows property paths into complex values', () => {
+    const country = parse("Address/Country eq 'DE'");
+
+    expect(evaluateRowFilter(country, { Address: { Country: 'DE' } })).toBe(true);
+    expect(evaluateRowFilter(country, { Address: null })).toBeUndefined();
+  });
+});
+
+describe('filterSyntaxError', () => {
+  test('accepts balanced expressions and parentheses inside literals', () => {
+    expect(filterSyntaxError("(A eq 'x)') and contains(B,'it''s (')")).toBeNull();
+  });
+
+  test.each([
+    ["Customer eq 'A') or (true", "Unbalanced ')' at position 16"],
+    ['(A eq 1', 'Missing closing parenthesis'],
+    ["A eq 'x", 'Unterminated string literal'],
+  ])('rejects %s', (expression, error) => {
+    expect(filterSyntaxError(expression)).toBe(error);
+  });
+});
+
+describe('combineFilters', () => {
+  test('wraps each filter in parentheses and skips empty ones', () => {
+    expect(combineFilters("CompanyCode eq '1010'", 'A eq 1 or B eq 2')).toBe("(CompanyCode eq '1010') and (A eq 1 or B eq 2)");
+    expect(combineFilters("CompanyCode eq '1010'", undefined, ' ')).toBe("CompanyCode eq '1010'");
+    expect(combineFilters()).toBeUndefined();
+  });
+
+  test('refuses filters that would escape their parentheses', () => {
+    expect(() => combineFilters("CompanyCode eq '1010'", "Customer eq 'A') or (true")).toThrow(/Unbalanced/);
+  });
+});
+
+describe('restrictApply', () => {
+  test('filters before the transformations of the client', () => {
+    expect(restrictApply("CompanyCode eq '1010'", 'groupby((Customer),aggregate(NetAmount with sum as Total))'))
+      .toBe("filter(CompanyCode eq '1010')/groupby((Customer),aggregate(NetAmount with sum as Total))");
+  });
+
+  test('refuses filters that would escape their parentheses', () => {
+    expect(() => restrictApply("CompanyCode eq '1010') or (true", 'aggregate($count as Count)')).toThrow(/Unbalanced/);
+  });
+});
+
+describe('keyPredicateFilter', () => {
+  test('turns single and composite keys into comparisons', () => {
+    expect(keyPredicateFilter("'1'", ['SalesOrder'])).toBe("SalesOrder eq '1'");
+    expect(keyPredicateFilter("SalesOrder='1',SalesOrderItem='10'", ['SalesOrder', 'SalesOrderItem']))
+      .toBe("SalesOrder eq '1' and SalesOrderItem eq '10'");
+  });
+
+  test('needs the key property for single values', () => {
+    expect(keyPredicateFilter("'1'", ['SalesOrder', 'SalesOrderItem'])).toBeNull();
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Unit tests for the metadata parser and type generator
+ *
+ * Tests how functions and actions, complex and enum types are read from v2/v4
+ * $metadata, which operations an API key gets types and metadata for, the
+ * generated TypeScript, and the types of the SDK's typeConversion mode.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { filterOperations, generateFieldTypeManifest, generateOperationManifest, generateTypeScriptFile } from '../../../src/services/type-generator.ts';
+import type { ODataEntity, ODataEntityType, ODataOperation } from '../../../src/services/metadata-parser.ts';
+
+process.env.ENCRYPTION_KEY ??= '0'.repeat(64);
+const { metadataParser } = await import('../../../src/services/metadata-parser.ts');
+
+const v2Metadata = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="1.0" xmlns:edmx="http://schemas.microsoft.com/ado/2007/06/edmx" xmlns:m="http://schemas.microsoft.com/ado/2007/08/dataservices/metadata">
+  <edmx:DataServices m:DataServiceVersion="2.0">
+    <Schema Namespace="API_SALES_ORDER_SRV" xmlns="http://schemas.microsoft.com/ado/2008/09/edm">
+      <EntityType Name="A_SalesOrderType">
+        <Key><PropertyRef Name="SalesOrder"/></Key>
+        <Property Name="SalesOrder" Type="Edm.String" Nullable="false"/>
+      </EntityType>
+      <EntityContainer Name="API_SALES_ORDER_SRV_Entities" m:IsDefaultEntityContainer="true">
+        <EntitySet Name="A_SalesOrder" EntityType="API_SALES_ORDER_SRV.A_SalesOrderType"/>
+        <FunctionImport Name="ReleaseOrder" ReturnType="API_SALES_ORDER_SRV.A_SalesOrderType" EntitySet="A_SalesOrder" m:HttpMethod="POST">
+          <Parameter Name="SalesOrder" Type="Edm.String" Mode="In" Nullable="false"/>
+        </FunctionImport>
+        <FunctionImport Name="GetOpenOrders" ReturnType="Collection(API_SALES_ORDER_SRV.A_SalesOrderType)" EntitySet="A_SalesOrder" m:HttpMethod="GET">
+          <Parameter Name="MaxCount" Type="Edm.Int32" Mode="In"/>
+        </FunctionImport>
+        <FunctionImport Name="Ping"/>
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+const v4Metadata = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="API" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityType Name="SalesOrderType">
+        <Key><PropertyRef Name="SalesOrder"/></Key>
+        <Property Name="SalesOrder" Type="Edm.String" Nullable="false"/>
+      </EntityType>
+      <Action Name="Release" IsBound="true">
+        <Parameter Name="_it" Type="API.SalesOrderType" Nullable="false"/>
+        <Parameter Name="Reason" Type="Edm.String"/>
+        <ReturnType Type="API.SalesOrderType"/>
+      </Action>
+      <Function Name="CountOpen" IsBound="true">
+        <Parameter Name="_it" Type="Collection(API.SalesOrderType)"/>
+        <ReturnType Type="Edm.Int32"/>
+      </Function>
+      <Function Name="GetOrders">
+        <Parameter Name="Customer" Type="Edm.String" Nullable="false"/>
+        <ReturnType Type="Collection(API.SalesOrderType)"/>
+      </Function>
+      <Function Name="GetOrders">
+        <Parameter Name="Customer" Type="Edm.String" Nullable="false"/>
+        <Parameter Name="Top" Type="Edm.Int32"/>
+        <ReturnType Type="Collection(API.SalesOrderType)"/>
+      </Function>
+      <Action Name="ResetDemoData"/>
+      <Action Name="NotImported"/>
+      <EntityContainer Name="Container">
+        <EntitySet Name="SalesOrder" EntityType="API.SalesOrderType"/>
+        <FunctionImport Name="GetOrders" Function="API.GetOrders"/>
+        <ActionImport Name="ResetDemoData" Action="API.ResetDemoData"/>
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+const entityTypes: ODataEntityType[] = [
+  { name: 'SalesOrderType', fullName: 'API.SalesOrderType', properties: [], keyProperties: ['SalesOrder'], navigationProperties: [] },
+];
+
+const entities: ODataEntity[] = [{ name: 'A_SalesOrder', entityType: 'API.SalesOrderType' }];
+
+function operation(name: string, bindingEntity?: string): ODataOperation {
+  return {
+    name,
+    kind: 'action',
+    httpMethod: 'POST',
+    isBound: !!bindingEntity,
+    bindingEntity,
+    parameters: [],
+  };
+}
+
+const operations = [
+  operation('ReleaseOrder'),
+  operation('GetOpenOrders'),
+  operation('Approve', 'SalesOrderType'),
+  operation('Reject', 'SalesOrderType'),
+  operation('Archive', 'ProductType'),
+];
+
+function names(permissions: Record<string, string[]>): string[] {
+  return filterOperations(operations, entityTypes, permissions, entities).map(op => op.name);
+}
+
+describe('filterOperations', () => {
+  test('keeps no operations without execute', () => {
+    expect(names({ '*': ['read', 'create'] })).toEqual([]);
+  });
+
+  test('keeps unbound operations granted under their name', () => {
+    expect(names({ A_SalesOrder: ['read'], ReleaseOrder: ['execute'] })).toEqual(['ReleaseOrder']);
+  });
+
+  test('keeps bound operations granted on an entity set of their binding type', () => {
+    expect(names({ A_SalesOrder: ['read', 'execute:Approve'] })).toEqual(['Approve']);
+    expect(names({ A_SalesOrder: ['read', 'execute'] })).toEqual(['Approve', 'Reject']);
+  });
+
+  test('keeps every operation of accessible entity types with a wildcard grant', () => {
+    expect(names({ '*': ['*'] })).toEqual(['ReleaseOrder', 'GetOpenOrders', 'Approve', 'Reject']);
+  });
+});
+
+describe('parseV2Operations', () => {
+  const { odataVersion, operations } = metadataParser.parseFullMetadata(v2Metadata);
+
+  test('reads function imports with the verb of m:HttpMethod', () => {
+    expect(odataVersion).toBe('v2');
+    expect(operations.map(op => [op.name, op.kind, op.httpMethod])).toEqual([
+      ['ReleaseOrder', 'action', 'POST'],
+      ['GetOpenOrders', 'function', 'GET'],
+      ['Ping', 'function', 'GET'],
+    ]);
+  });
+
+  test('reads parameters and return types, always unbound with query parameters', () => {
+    expect(operations[0]).toEqual({
+      name: 'ReleaseOrder',
+      kind: 'action',
+      httpMethod: 'POST',
+      queryParameters: true,
+      isBound: false,
+      parameters: [{ name: 'SalesOrder', type: 'Edm.String', nullable: false }],
+      returnType: 'API_SALES_ORDER_SRV.A_SalesOrderType',
+    });
+    expect(operations[1]!.parameters).toEqual([{ name: 'MaxCount', type: 'Edm.Int32', nullable: true }]);
+  });
+});
+
+describe('parseV4Operations', () => {
+  const { odataVersion, operations } = metadataParser.parseFullMetadata(v4Metadata);
+  const byName = (name: string) => operations.filter(op => op.name === name);
+
+  test('reads bound functions and actions without their binding parameter', () => {
+    expect(odataVersion).toBe('v4');
+    expect(byName('Release')).toEqual([{
+      name: 'Release',
+      kind: 'action',
+      httpMethod: 'POST',
+      isBound: true,
+      bindingEntity: 'SalesOrderType',
+      bindingCollection: false,
+      parameters: [{ name: 'Reason', type: 'Edm.String', nullable: true }],
+      returnType: 'API.SalesOrderType',
+    }]);
+    expect(byName('CountOpen')[0]).toMatchObject({ kind: 'function', httpMethod: 'GET', bindingCollection: true });
+  });
+
+  test('reads unbound operations only through their FunctionImport/ActionImport', () => {
+    expect(byName('ResetDemoData')).toEqual([
+      { name: 'ResetDemoData', kind: 'action', httpMethod: 'POST', isBound: false, parameters: [], returnType: undefined },
+    ]);
+    expect(byName('NotImported')).toEqual([]);
+  });
+
+  test('keeps every overload of an imported function', () => {
+    expect(byName('GetOrders').map(op => op.parameters.map(p => p.name))).toEqual([['Customer'], ['Customer', 'Top']]);
+  });
+});
+
+describe('generateOperationManifest', () => {
+  test('keys unbound operations by name and bound ones by entity set, once per overload set', () => {
+    const { entities, operations } = metadataParser.parseFullMetadata(v4Metadata);
+
+    expect(generateOperationManifest(operations, entities)).toEqual({
+      'SalesOrder/Release': { kind: 'action', method: 'POST' },
+      'SalesOrder/CountOpen': { kind: 'function', method: 'GET' },
+      GetOrders: { kind: 'function', method: 'GET' },
+      ResetDemoData: { kind: 'action', method: 'POST' },
+    });
+  });
+
+  test('marks v2 function imports to take query parameters', () => {
+    const { entities, operations } = metadataParser.parseFullMetadata(v2Metadata);
+
+    expect(generateOperationManifest(operations, entities)).toEqual({
+      ReleaseOrder: { kind: 'action', method: 'POST', queryParameters: true },
+      GetOpenOrders: { kind: 'function', method: 'GET', queryParameters: true },
+      Ping: { kind: 'function', method: 'GET', queryParameters: true },
+    });
+  });
+});
+
+describe('generateTypeScriptFile operations', () => {
+  const { entities, entityTypes, operations } = metadataParser.parseFullMetadata(v4Metadata);
+  const output = generateTypeScriptFile(entityTypes, { entities, operations, generatedAt: new Date(0) });
+
+  test('emits signatures of bound operations per entity type', () => {
+    expect(output).toContain('export interface SalesOrderTypeOperations {');
+    expect(output).toContain("Release: { kind: 'action'; method: 'POST'; params: SalesOrderType_ReleaseParams; returns: SalesOrderType };");
+    expect(output).toContain("CountOpen: { kind: 'function'; method: 'GET'; params: SalesOrderType_CountOpenParams; returns: number };");
+  });
+
+  test('emits unbound operations into S4KitOperations, the first overload only', () => {
+    expect(output).toContain("GetOrders: { kind: 'function'; method: 'GET'; params: GetOrdersParams; returns: SalesOrderType[] };");
+    expect(output).toContain("ResetDemoData: { kind: 'action'; method: 'POST'; params: ResetDemoDataParams; returns: void };");
+    expect(output.match(/GetOrders: \{/g)).toHaveLength(1);
+    expect(output).toContain('export interface GetOrdersParams {\n  /** OData type: Edm.String */\n  Customer: string;\n}');
+  });
+});
+
+describe('typeConversion types', () => {
+  const counterType: ODataEntityType = {
+    name: 'CounterType',
+    fullName: 'API.CounterType',
+    properties: [
+      { name: 'Sequence', type: 'Edm.Int64', nullable: false },
+      { name: 'Amount', type: 'Edm.Decimal', nullable: true },
+      { name: 'Count', type: 'Edm.Int32', nullable: false },
+    ],
+    keyProperties: ['Sequence'],
+    navigationProperties: [],
+  };
+  const counters: ODataEntity[] = [{ name: 'Counters', entityType: 'API.CounterType' }];
+
+  test('types Int64 as string, as the SDK receives it with IEEE754Compatible=true', () => {
+    const converted = generateTypeScriptFile([counterType], { entities: counters, typeConversion: true });
+    const plain = generateTypeScriptFile([counterType], { entities: counters });
+
+    expect(converted).toContain('  Sequence: string;');
+    expect(converted).toContain('  Amount?: Decimal;');
+    expect(converted).toContain('  Count: number;');
+    expect(plain).toContain('  Sequence: number;');
+  });
+
+  test('lists Int64 properties in the field type manifest', () => {
+    const manifest = generateFieldTypeManifest([counterType], { entities: counters });
+
+    expect(manifest.types.CounterType!.properties).toEqual({ Sequence: 'Edm.Int64', Amount: 'Edm.Decimal' });
+  });
+});
+
+const structuredMetadata = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="API" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EnumType Name="Status" UnderlyingType="Edm.Byte">
+        <Member Name="Open" Value="1"/>
+        <Member Name="Closed" Value="5"/>
+      </EnumType>
+      <EnumType Name="Access" IsFlags="true">
+        <Member Name="Read"/>
+        <Member Name="Write"/>
+        <Member Name="Delete"/>
+      </EnumType>
+      <EnumType Name="Unused">
+        <Member Name="Never"/>
+      </EnumType>
+      <ComplexType Name="GeoLocation">
+        <Property Name="Latitude" Type="Edm.Double" Nullable="false"/>
+        <Property Name="Longitude" Type="Edm.Double" Nullable="false"/>
+      </ComplexType>
+      <ComplexType Name="Address">
+        <Property Name="Street" Type="Edm.String"/>
+        <Property Name="Location" Type="API.GeoLocation"/>
+      </ComplexType>
+      <ComplexType Name="Audit">
+        <Property Name="ChangedBy" Type="Edm.String"/>
+      </ComplexType>
+      <EntityType Name="Partner">
+        <Key><PropertyRef Name="ID"/></Key>
+        <Property Name="ID" Type="Edm.String" Nullable="false"/>
+        <Property Name="Status" Type="API.Status" Nullable="false"/>
+        <Property Name="Addresses" Type="Collection(API.Address)"/>
+      </EntityType>
+      <Action Name="Grant">
+        <Parameter Name="Access" Type="API.Access" Nullable="false"/>
+      </Action>
+      <EntityContainer Name="Container">
+        <EntitySet Name="Partners" EntityType="API.Partner"/>
+        <ActionImport Name="Grant" Action="API.Grant"/>
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+describe('parseComplexTypes', () => {
+  const { complexTypes } = metadataParser.parseFullMetadata(structuredMetadata);
+
+  test('reads complex types with their properties, including nested complex types', () => {
+    expect(complexTypes.map(ct => ct.fullName)).toEqual(['API.GeoLocation', 'API.Address', 'API.Audit']);
+    expect(complexTypes[1]!.properties.map(p => [p.name, p.type])).toEqual([
+      ['Street', 'Edm.String'],
+      ['Location', 'API.GeoLocation'],
+    ]);
+  });
+});
+
+describe('parseEnumTypes', () => {
+  const { enumTypes } = metadataParser.parseFullMetadata(structuredMetadata);
+
+  test('reads members with their values and the underlying type', () => {
+    expect(enumTypes[0]).toEqual({
+      name: 'Status',
+      fullName: 'API.Status',
+      underlyingType: 'Edm.Byte',
+      isFlags: false,
+      members: [{ name: 'Open', value: 1 }, { name: 'Closed', value: 5 }],
+    });
+  });
+
+  test('numbers flags members without values as powers of two', () => {
+    expect(enumTypes[1]).toMatchObject({
+      underlyingType: 'Edm.Int32',
+      isFlags: true,
+      members: [{ name: 'Read', value: 1 }, { name: 'Write', value: 2 }, { name: 'Delete', value: 4 }],
+    });
+    expect(enumTypes[2]!.members).toEqual([{ name: 'Never', value: 0 }]);
+  });
+});
+
+describe('generateTypeScriptFile complex and enum types', () => {
+  const { entities, entityTypes, complexTypes, enumTypes, operations } = metadataParser.parseFullMetadata(structuredMetadata);
+  const output = generateTypeScriptFile(entityTypes, { entities, complexTypes, enumTypes, operations, generatedAt: new Date(0) });
+
+  test('emits enums as unions of their member names', () => {
+    expect(output).toContain("/** Enum API.Status (Edm.Byte): Open = 1, Closed = 5 */\nexport type Status = 'Open' | 'Closed';");
+  });
+
+  test('lets flags enums combine members', () => {
+    expect(output).toContain(
+      "/** Flags enum API.Access (Edm.Int32): Read = 1, Write = 2, Delete = 4 */\n" +
+      "export type Access = 'Read' | 'Write' | 'Delete' | `${'Read' | 'Write' | 'Delete'},${string}`;"
+    );
+  });
+
+  test('emits complex types, nested ones referenced by name', () => {
+    expect(output).toContain('export interface GeoLocation {');
+    expect(output).toContain('export interface Address {');
+    expect(output).toContain('  Location?: GeoLocation;');
+    expect(output).toContain('  Addresses?: Address[];');
+    expect(output).toContain('  Status: Status;');
+    expect(output).toContain('  Access: Access;');
+  });
+
+  test('emits only types reachable from entity types and operations', () => {
+    expect(output).not.toContain('Audit');
+    expect(output).not.toContain('Unused');
+  });
+});